@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "public"."activity_source_priorities" (
+    "activity_source_priority_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "metric" TEXT NOT NULL,
+    "device_types" "public"."DeviceType"[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "activity_source_priorities_pkey" PRIMARY KEY ("activity_source_priority_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "activity_source_priorities_user_id_metric_key" ON "public"."activity_source_priorities"("user_id", "metric");
+
+-- AddForeignKey
+ALTER TABLE "public"."activity_source_priorities" ADD CONSTRAINT "activity_source_priorities_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "public"."FoodProduct" ADD COLUMN     "serving_size" TEXT,
+ADD COLUMN     "servings_per_container" DOUBLE PRECISION,
+ADD COLUMN     "source" TEXT NOT NULL DEFAULT 'openfoodfacts',
+ADD COLUMN     "source_fetched_at" TIMESTAMP(3),
+ALTER COLUMN "user_id" DROP NOT NULL;
+
+-- Backfill provenance for existing rows
+UPDATE "public"."FoodProduct" SET "source" = 'image_scan' WHERE "barcode" LIKE 'img\_%';
+UPDATE "public"."FoodProduct" SET "source_fetched_at" = "updated_at" WHERE "source" <> 'image_scan';
+
+-- CreateTable
+CREATE TABLE "public"."product_lookup_misses" (
+    "barcode" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "last_checked_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "product_lookup_misses_pkey" PRIMARY KEY ("barcode")
+);
+
+-- CreateIndex
+CREATE INDEX "product_lookup_misses_expires_at_idx" ON "public"."product_lookup_misses"("expires_at");
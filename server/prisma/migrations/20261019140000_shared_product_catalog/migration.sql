@@ -0,0 +1,75 @@
+/*
+  Warnings:
+
+  - The `user_id` column on the `FoodProduct` table is dropped. Existing ownership is
+    preserved as one scan event per product for the user who scanned it.
+
+*/
+-- CreateTable
+CREATE TABLE "public"."user_product_overrides" (
+    "override_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "product_id" INTEGER NOT NULL,
+    "product_name" TEXT,
+    "brand" TEXT,
+    "nutrition_per_100g" JSONB,
+    "serving_size" TEXT,
+    "servings_per_container" DOUBLE PRECISION,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_product_overrides_pkey" PRIMARY KEY ("override_id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."product_scan_events" (
+    "scan_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "product_id" INTEGER,
+    "barcode" TEXT,
+    "scan_type" TEXT NOT NULL,
+    "found" BOOLEAN NOT NULL DEFAULT true,
+    "product_name" TEXT,
+    "brand" TEXT,
+    "category" TEXT,
+    "product_snapshot" JSONB,
+    "meal_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "product_scan_events_pkey" PRIMARY KEY ("scan_id")
+);
+
+-- Preserve existing scan history
+INSERT INTO "public"."product_scan_events" ("scan_id", "user_id", "product_id", "barcode", "scan_type", "found", "product_name", "brand", "category", "created_at")
+SELECT 'legacy_' || "product_id", "user_id", "product_id", "barcode",
+       CASE WHEN "barcode" LIKE 'img\_%' THEN 'image' ELSE 'barcode' END,
+       true, "product_name", "brand", "category", "created_at"
+FROM "public"."FoodProduct"
+WHERE "user_id" IS NOT NULL;
+
+-- DropForeignKey
+ALTER TABLE "public"."FoodProduct" DROP CONSTRAINT "FoodProduct_user_id_fkey";
+
+-- DropIndex
+DROP INDEX "public"."FoodProduct_user_id_idx";
+
+-- AlterTable
+ALTER TABLE "public"."FoodProduct" DROP COLUMN "user_id";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_product_overrides_user_id_product_id_key" ON "public"."user_product_overrides"("user_id", "product_id");
+
+-- CreateIndex
+CREATE INDEX "product_scan_events_user_id_created_at_idx" ON "public"."product_scan_events"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."user_product_overrides" ADD CONSTRAINT "user_product_overrides_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."user_product_overrides" ADD CONSTRAINT "user_product_overrides_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "public"."FoodProduct"("product_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."product_scan_events" ADD CONSTRAINT "product_scan_events_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."product_scan_events" ADD CONSTRAINT "product_scan_events_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "public"."FoodProduct"("product_id") ON DELETE SET NULL ON UPDATE CASCADE;
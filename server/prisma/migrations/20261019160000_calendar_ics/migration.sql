@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "calendar_feed_token_hash" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."calendar_events" ADD COLUMN     "external_uid" TEXT,
+ADD COLUMN     "source" TEXT NOT NULL DEFAULT 'manual';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_calendar_feed_token_hash_key" ON "public"."User"("calendar_feed_token_hash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calendar_events_user_id_external_uid_date_key" ON "public"."calendar_events"("user_id", "external_uid", "date");
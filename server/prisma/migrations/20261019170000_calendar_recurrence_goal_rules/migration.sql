@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "public"."calendar_events" ADD COLUMN     "excluded_dates" DATE[],
+ADD COLUMN     "recurrence_rule" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."DailyGoal" ADD COLUMN     "event_adjustments" JSONB;
+
+-- CreateTable
+CREATE TABLE "public"."event_goal_rules" (
+    "rule_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "event_type" TEXT NOT NULL,
+    "is_enabled" BOOLEAN NOT NULL DEFAULT true,
+    "calories_delta" INTEGER NOT NULL DEFAULT 0,
+    "calories_multiplier" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "protein_delta_g" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "carbs_delta_g" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "fats_delta_g" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "water_delta_ml" INTEGER NOT NULL DEFAULT 0,
+    "eating_window_start" TEXT,
+    "eating_window_end" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "event_goal_rules_pkey" PRIMARY KEY ("rule_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_goal_rules_user_id_event_type_key" ON "public"."event_goal_rules"("user_id", "event_type");
+
+-- AddForeignKey
+ALTER TABLE "public"."event_goal_rules" ADD CONSTRAINT "event_goal_rules_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
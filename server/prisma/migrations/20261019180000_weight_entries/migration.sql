@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "public"."weight_entries" (
+    "weight_entry_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "measured_at" TIMESTAMP(3) NOT NULL,
+    "weight_kg" DOUBLE PRECISION NOT NULL,
+    "body_fat_percentage" DOUBLE PRECISION,
+    "muscle_mass_kg" DOUBLE PRECISION,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "device_id" TEXT,
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "weight_entries_pkey" PRIMARY KEY ("weight_entry_id")
+);
+
+-- CreateIndex
+CREATE INDEX "weight_entries_user_id_date_idx" ON "public"."weight_entries"("user_id", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "weight_entries_user_id_device_id_date_key" ON "public"."weight_entries"("user_id", "device_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "public"."weight_entries" ADD CONSTRAINT "weight_entries_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."weight_entries" ADD CONSTRAINT "weight_entries_device_id_fkey" FOREIGN KEY ("device_id") REFERENCES "public"."connected_devices"("connected_device_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill device weigh-ins already stored on the daily activity summaries
+INSERT INTO "public"."weight_entries" ("weight_entry_id", "user_id", "date", "measured_at", "weight_kg", "body_fat_percentage", "source", "device_id", "updated_at")
+SELECT gen_random_uuid()::text, "user_id", "date", "date"::timestamp, "weight_kg", "body_fat_percentage", 'device', "device_id", CURRENT_TIMESTAMP
+FROM "public"."daily_activity_summary"
+WHERE "weight_kg" IS NOT NULL AND "weight_kg" > 0;
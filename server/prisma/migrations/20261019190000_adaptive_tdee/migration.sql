@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "adaptive_goals_enabled" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "public"."tdee_estimates" (
+    "tdee_estimate_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "status" TEXT NOT NULL,
+    "window_start" DATE NOT NULL,
+    "window_end" DATE NOT NULL,
+    "formula_tdee" INTEGER NOT NULL,
+    "observed_tdee" INTEGER,
+    "adaptive_tdee" INTEGER,
+    "limited_by" TEXT,
+    "logged_days" INTEGER NOT NULL DEFAULT 0,
+    "average_intake_kcal" DOUBLE PRECISION,
+    "weigh_in_days" INTEGER NOT NULL DEFAULT 0,
+    "trend_start_kg" DOUBLE PRECISION,
+    "trend_end_kg" DOUBLE PRECISION,
+    "trend_span_days" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tdee_estimates_pkey" PRIMARY KEY ("tdee_estimate_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tdee_estimates_user_id_date_key" ON "public"."tdee_estimates"("user_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "public"."tdee_estimates" ADD CONSTRAINT "tdee_estimates_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,60 @@
+-- CreateTable
+CREATE TABLE "public"."goal_versions" (
+    "goal_version_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "effective_from" DATE NOT NULL,
+    "source" TEXT NOT NULL,
+    "calories" DOUBLE PRECISION NOT NULL,
+    "protein_g" DOUBLE PRECISION NOT NULL,
+    "carbs_g" DOUBLE PRECISION NOT NULL,
+    "fats_g" DOUBLE PRECISION NOT NULL,
+    "fiber_g" DOUBLE PRECISION NOT NULL,
+    "sodium_mg" DOUBLE PRECISION NOT NULL,
+    "sugar_g" DOUBLE PRECISION NOT NULL,
+    "water_ml" DOUBLE PRECISION NOT NULL,
+    "meal_plan_id" TEXT,
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "goal_versions_pkey" PRIMARY KEY ("goal_version_id")
+);
+
+-- CreateIndex
+CREATE INDEX "goal_versions_user_id_effective_from_idx" ON "public"."goal_versions"("user_id", "effective_from");
+
+-- AddForeignKey
+ALTER TABLE "public"."goal_versions" ADD CONSTRAINT "goal_versions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: one version per change of the per-day rows, with the calendar
+-- event adjustments taken back out since they are now applied on read. The
+-- rows don't say where their targets came from, so the versions are 'migrated'
+WITH "base" AS (
+    SELECT
+        "user_id",
+        "date",
+        "created_at",
+        "calories" - COALESCE(("event_adjustments"->'totals'->>'calories')::float, 0) AS "calories",
+        "protein_g" - COALESCE(("event_adjustments"->'totals'->>'protein_g')::float, 0) AS "protein_g",
+        "carbs_g" - COALESCE(("event_adjustments"->'totals'->>'carbs_g')::float, 0) AS "carbs_g",
+        "fats_g" - COALESCE(("event_adjustments"->'totals'->>'fats_g')::float, 0) AS "fats_g",
+        "fiber_g",
+        "sodium_mg",
+        "sugar_g",
+        "water_ml" - COALESCE(("event_adjustments"->'totals'->>'water_ml')::float, 0) AS "water_ml"
+    FROM "public"."DailyGoal"
+),
+"changes" AS (
+    SELECT
+        *,
+        LAG(ROW("calories", "protein_g", "carbs_g", "fats_g", "fiber_g", "sodium_mg", "sugar_g", "water_ml"))
+            OVER (PARTITION BY "user_id" ORDER BY "date") AS "previous"
+    FROM "base"
+)
+INSERT INTO "public"."goal_versions" ("goal_version_id", "user_id", "effective_from", "source", "calories", "protein_g", "carbs_g", "fats_g", "fiber_g", "sodium_mg", "sugar_g", "water_ml", "created_at")
+SELECT gen_random_uuid()::text, "user_id", "date", 'migrated', "calories", "protein_g", "carbs_g", "fats_g", "fiber_g", "sodium_mg", "sugar_g", "water_ml", "created_at"
+FROM "changes"
+WHERE "previous" IS NULL
+   OR "previous" IS DISTINCT FROM ROW("calories", "protein_g", "carbs_g", "fats_g", "fiber_g", "sodium_mg", "sugar_g", "water_ml");
+
+-- DropTable
+DROP TABLE "public"."DailyGoal";
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "public"."micronutrient_targets" (
+    "micronutrient_target_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "nutrient" TEXT NOT NULL,
+    "target" DOUBLE PRECISION,
+    "upper_limit" DOUBLE PRECISION,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "micronutrient_targets_pkey" PRIMARY KEY ("micronutrient_target_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "micronutrient_targets_user_id_nutrient_key" ON "public"."micronutrient_targets"("user_id", "nutrient");
+
+-- AddForeignKey
+ALTER TABLE "public"."micronutrient_targets" ADD CONSTRAINT "micronutrient_targets_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
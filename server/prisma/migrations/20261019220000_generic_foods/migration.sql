@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "public"."generic_foods" (
+    "food_id" SERIAL NOT NULL,
+    "source" TEXT NOT NULL,
+    "source_id" TEXT NOT NULL,
+    "name_en" TEXT,
+    "name_he" TEXT,
+    "category" TEXT,
+    "calories" DOUBLE PRECISION NOT NULL,
+    "protein_g" DOUBLE PRECISION NOT NULL,
+    "carbs_g" DOUBLE PRECISION NOT NULL,
+    "fats_g" DOUBLE PRECISION NOT NULL,
+    "fiber_g" DOUBLE PRECISION,
+    "sugar_g" DOUBLE PRECISION,
+    "sodium_mg" DOUBLE PRECISION,
+    "saturated_fats_g" DOUBLE PRECISION,
+    "polyunsaturated_fats_g" DOUBLE PRECISION,
+    "monounsaturated_fats_g" DOUBLE PRECISION,
+    "cholesterol_mg" DOUBLE PRECISION,
+    "alcohol_g" DOUBLE PRECISION,
+    "caffeine_mg" DOUBLE PRECISION,
+    "micronutrients" JSONB NOT NULL DEFAULT '{}',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "generic_foods_pkey" PRIMARY KEY ("food_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "generic_foods_source_source_id_key" ON "public"."generic_foods"("source", "source_id");
@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "public"."recipes" (
+    "recipe_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "servings" DOUBLE PRECISION NOT NULL,
+    "cooked_weight_g" DOUBLE PRECISION,
+    "instructions" JSONB,
+    "template_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "recipes_pkey" PRIMARY KEY ("recipe_id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."recipe_ingredients" (
+    "recipe_ingredient_id" TEXT NOT NULL,
+    "recipe_id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "food_id" INTEGER,
+    "product_id" INTEGER,
+    "name" TEXT NOT NULL,
+    "grams" DOUBLE PRECISION NOT NULL,
+    "loss_factor" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "nutrients" JSONB NOT NULL,
+
+    CONSTRAINT "recipe_ingredients_pkey" PRIMARY KEY ("recipe_ingredient_id")
+);
+
+-- CreateIndex
+CREATE INDEX "recipes_user_id_idx" ON "public"."recipes"("user_id");
+
+-- CreateIndex
+CREATE INDEX "recipe_ingredients_recipe_id_idx" ON "public"."recipe_ingredients"("recipe_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."recipes" ADD CONSTRAINT "recipes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."recipes" ADD CONSTRAINT "recipes_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "public"."meal_templates"("template_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."recipe_ingredients" ADD CONSTRAINT "recipe_ingredients_recipe_id_fkey" FOREIGN KEY ("recipe_id") REFERENCES "public"."recipes"("recipe_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."recipe_ingredients" ADD CONSTRAINT "recipe_ingredients_food_id_fkey" FOREIGN KEY ("food_id") REFERENCES "public"."generic_foods"("food_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."recipe_ingredients" ADD CONSTRAINT "recipe_ingredients_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "public"."FoodProduct"("product_id") ON DELETE SET NULL ON UPDATE CASCADE;
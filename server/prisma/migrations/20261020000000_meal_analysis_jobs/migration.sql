@@ -0,0 +1,31 @@
+-- AlterEnum
+ALTER TYPE "public"."AnalysisStatus" ADD VALUE 'PROCESSING';
+ALTER TYPE "public"."AnalysisStatus" ADD VALUE 'FAILED';
+
+-- CreateTable
+CREATE TABLE "public"."meal_analysis_jobs" (
+    "job_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "status" "public"."AnalysisStatus" NOT NULL DEFAULT 'PENDING',
+    "input" JSONB,
+    "result" JSONB,
+    "error" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "max_attempts" INTEGER NOT NULL DEFAULT 3,
+    "run_after" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "started_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "meal_analysis_jobs_pkey" PRIMARY KEY ("job_id")
+);
+
+-- CreateIndex
+CREATE INDEX "meal_analysis_jobs_status_run_after_idx" ON "public"."meal_analysis_jobs"("status", "run_after");
+
+-- CreateIndex
+CREATE INDEX "meal_analysis_jobs_user_id_created_at_idx" ON "public"."meal_analysis_jobs"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."meal_analysis_jobs" ADD CONSTRAINT "meal_analysis_jobs_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "public"."ai_usage" (
+    "usage_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "feature" TEXT NOT NULL,
+    "cost" INTEGER NOT NULL,
+    "date" DATE NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ai_usage_pkey" PRIMARY KEY ("usage_id")
+);
+
+-- CreateIndex
+CREATE INDEX "ai_usage_user_id_date_idx" ON "public"."ai_usage"("user_id", "date");
+
+-- CreateIndex
+CREATE INDEX "ai_usage_date_feature_idx" ON "public"."ai_usage"("date", "feature");
+
+-- AddForeignKey
+ALTER TABLE "public"."ai_usage" ADD CONSTRAINT "ai_usage_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- Sessions held raw access tokens that can't be carried over; everyone signs in again
+DELETE FROM "public"."sessions";
+
+-- DropIndex
+DROP INDEX "public"."sessions_token_key";
+
+-- AlterTable
+ALTER TABLE "public"."sessions" DROP COLUMN "token",
+ADD COLUMN     "device_name" TEXT,
+ADD COLUMN     "ip_address" TEXT,
+ADD COLUMN     "last_used_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "user_agent" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."refresh_tokens" (
+    "token_id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "used_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "refresh_tokens_pkey" PRIMARY KEY ("token_id")
+);
+
+-- CreateIndex
+CREATE INDEX "sessions_user_id_idx" ON "public"."sessions"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "refresh_tokens_token_hash_key" ON "public"."refresh_tokens"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "refresh_tokens_session_id_idx" ON "public"."refresh_tokens"("session_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."refresh_tokens" ADD CONSTRAINT "refresh_tokens_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("session_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "public"."PaymentStatus" AS ENUM ('SUCCEEDED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "public"."BillingStatus" AS ENUM ('ACTIVE', 'PAST_DUE', 'CANCELED', 'EXPIRED');
+
+-- AlterTable
+ALTER TABLE "public"."SubscriptionPayment" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'ILS',
+ADD COLUMN     "failure_reason" TEXT,
+ADD COLUMN     "period_end" TIMESTAMP(3),
+ADD COLUMN     "period_start" TIMESTAMP(3),
+ADD COLUMN     "provider" TEXT,
+ADD COLUMN     "provider_payment_id" TEXT,
+ADD COLUMN     "status" "public"."PaymentStatus" NOT NULL DEFAULT 'SUCCEEDED';
+
+-- CreateTable
+CREATE TABLE "public"."billing_subscriptions" (
+    "subscription_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "provider_subscription_id" TEXT NOT NULL,
+    "plan" "public"."SubscriptionType" NOT NULL,
+    "interval" TEXT NOT NULL,
+    "status" "public"."BillingStatus" NOT NULL,
+    "current_period_start" TIMESTAMP(3) NOT NULL,
+    "current_period_end" TIMESTAMP(3) NOT NULL,
+    "grace_until" TIMESTAMP(3),
+    "canceled_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "billing_subscriptions_pkey" PRIMARY KEY ("subscription_id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."billing_webhook_events" (
+    "provider" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "received_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "billing_webhook_events_pkey" PRIMARY KEY ("provider","event_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SubscriptionPayment_provider_payment_id_key" ON "public"."SubscriptionPayment"("provider_payment_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "billing_subscriptions_user_id_key" ON "public"."billing_subscriptions"("user_id");
+
+-- CreateIndex
+CREATE INDEX "billing_subscriptions_status_current_period_end_idx" ON "public"."billing_subscriptions"("status", "current_period_end");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "billing_subscriptions_provider_provider_subscription_id_key" ON "public"."billing_subscriptions"("provider", "provider_subscription_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."billing_subscriptions" ADD CONSTRAINT "billing_subscriptions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "public"."AccountStatus" AS ENUM ('TRIAL', 'ACTIVE', 'PAST_DUE', 'SUSPENDED', 'SCHEDULED_DELETION');
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "account_status" "public"."AccountStatus" NOT NULL DEFAULT 'TRIAL',
+ADD COLUMN     "deletion_reason" TEXT,
+ADD COLUMN     "deletion_scheduled_at" TIMESTAMP(3),
+ADD COLUMN     "lifecycle_reminded_at" TIMESTAMP(3),
+ADD COLUMN     "status_changed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "trial_ends_at" TIMESTAMP(3);
+
+-- Paying users start out active, the rest get a fresh trial
+UPDATE "public"."User" SET "account_status" = 'ACTIVE' WHERE "subscription_type" <> 'FREE';
+UPDATE "public"."User" SET "trial_ends_at" = CURRENT_TIMESTAMP + INTERVAL '7 days' WHERE "subscription_type" = 'FREE';
+UPDATE "public"."User" SET "account_status" = 'PAST_DUE'
+WHERE "user_id" IN (SELECT "user_id" FROM "public"."billing_subscriptions" WHERE "status" = 'PAST_DUE');
+
+-- CreateTable
+CREATE TABLE "public"."account_deletion_audits" (
+    "audit_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "email_hash" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status_before" "public"."AccountStatus" NOT NULL,
+    "deletion_requested_at" TIMESTAMP(3),
+    "deleted_records" JSONB NOT NULL,
+    "deleted_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "account_deletion_audits_pkey" PRIMARY KEY ("audit_id")
+);
+
+-- CreateIndex
+CREATE INDEX "account_deletion_audits_user_id_idx" ON "public"."account_deletion_audits"("user_id");
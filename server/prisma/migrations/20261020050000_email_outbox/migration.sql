@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "public"."EmailStatus" AS ENUM ('PENDING', 'SENDING', 'SENT', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "locale" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."email_outbox" (
+    "email_id" TEXT NOT NULL,
+    "user_id" TEXT,
+    "to" TEXT NOT NULL,
+    "template" TEXT NOT NULL,
+    "locale" TEXT NOT NULL,
+    "params" JSONB,
+    "subject" TEXT,
+    "status" "public"."EmailStatus" NOT NULL DEFAULT 'PENDING',
+    "dedupe_key" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "max_attempts" INTEGER NOT NULL DEFAULT 5,
+    "run_after" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMP(3),
+    "transport" TEXT,
+    "provider_message_id" TEXT,
+    "error" TEXT,
+    "started_at" TIMESTAMP(3),
+    "sent_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "email_outbox_pkey" PRIMARY KEY ("email_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_outbox_dedupe_key_key" ON "public"."email_outbox"("dedupe_key");
+
+-- CreateIndex
+CREATE INDEX "email_outbox_status_run_after_idx" ON "public"."email_outbox"("status", "run_after");
+
+-- CreateIndex
+CREATE INDEX "email_outbox_user_id_idx" ON "public"."email_outbox"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."email_outbox" ADD CONSTRAINT "email_outbox_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."FoodProduct" ADD COLUMN     "traces" JSONB NOT NULL DEFAULT '[]';
+
+-- Open Food Facts rows were stored without their traces; mark them stale so the next lookup refetches them
+UPDATE "public"."FoodProduct" SET "source_fetched_at" = NULL WHERE "source" = 'openfoodfacts';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."meal_analysis_jobs" ADD COLUMN     "ai_usage_id" TEXT;
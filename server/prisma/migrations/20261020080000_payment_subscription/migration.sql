@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."SubscriptionPayment" ADD COLUMN     "provider_subscription_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "SubscriptionPayment_provider_provider_subscription_id_idx" ON "public"."SubscriptionPayment"("provider", "provider_subscription_id");
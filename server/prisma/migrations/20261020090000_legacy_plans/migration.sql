@@ -0,0 +1,40 @@
+-- Paid plans from before billing had no billing row and never expired. The
+-- removed PUT /user/subscription let anyone set their own plan, so only
+-- users with a payment on record keep theirs: as a canceled plan that runs
+-- to the end of the paid period, and at least another 30 days, after which
+-- they subscribe again through billing.
+WITH "legacy" AS (
+    SELECT DISTINCT ON (p."user_id")
+        p."user_id",
+        p."plan_type",
+        p."payment_date",
+        GREATEST(
+            COALESCE(p."period_end", p."payment_date" + INTERVAL '1 month'),
+            CURRENT_TIMESTAMP + INTERVAL '30 days'
+        ) AS "period_end"
+    FROM "public"."SubscriptionPayment" p
+    JOIN "public"."User" u ON u."user_id" = p."user_id"
+    WHERE u."subscription_type" <> 'FREE'
+      AND p."status" = 'SUCCEEDED'
+      AND p."plan_type" <> 'FREE'
+      AND NOT EXISTS (SELECT 1 FROM "public"."billing_subscriptions" b WHERE b."user_id" = p."user_id")
+    ORDER BY p."user_id", p."payment_date" DESC
+)
+INSERT INTO "public"."billing_subscriptions" ("subscription_id", "user_id", "provider", "provider_subscription_id", "plan", "interval", "status", "current_period_start", "current_period_end", "canceled_at", "updated_at")
+SELECT gen_random_uuid()::text, "user_id", 'legacy', 'legacy_' || "user_id", "plan_type", 'monthly', 'CANCELED', "payment_date", "period_end", CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM "legacy";
+
+UPDATE "public"."User" u
+SET "subscription_type" = b."plan", "subscription_end" = b."current_period_end"
+FROM "public"."billing_subscriptions" b
+WHERE b."user_id" = u."user_id" AND b."provider" = 'legacy';
+
+-- The rest go back to FREE, with the trial FREE users were given
+UPDATE "public"."User"
+SET "subscription_type" = 'FREE',
+    "subscription_end" = CURRENT_TIMESTAMP,
+    "account_status" = CASE WHEN "account_status" = 'ACTIVE' THEN 'TRIAL'::"public"."AccountStatus" ELSE "account_status" END,
+    "trial_ends_at" = CASE WHEN "account_status" = 'ACTIVE' THEN CURRENT_TIMESTAMP + INTERVAL '7 days' ELSE "trial_ends_at" END,
+    "status_changed_at" = CASE WHEN "account_status" = 'ACTIVE' THEN CURRENT_TIMESTAMP ELSE "status_changed_at" END
+WHERE "subscription_type" <> 'FREE'
+  AND NOT EXISTS (SELECT 1 FROM "public"."billing_subscriptions" b WHERE b."user_id" = "User"."user_id");
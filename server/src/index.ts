@@ -20,7 +20,6 @@
   import statisticsRoutes from "./routes/statistics";
   import foodScannerRoutes from "./routes/foodScanner";
   import { EnhancedCronJobService } from "./services/cron/enhanced";
-  import { UserCleanupService } from "./services/userCleanup";
   import { enhancedDailyGoalsRoutes } from "./routes/enhanced/dailyGoals";
   import { enhancedRecommendationsRoutes } from "./routes/enhanced/recommendations";
   import { enhancedDatabaseRoutes } from "./routes/enhanced/database";
@@ -28,6 +27,14 @@
   import achievementsRouter from "./routes/achievements";
   import shoppingListRoutes from "./routes/shoppingLists";
   import mealCompletionRouter from "./routes/mealCompletion";
+  import { weightRoutes } from "./routes/weight";
+  import { micronutrientRoutes } from "./routes/micronutrients";
+  import { foodRoutes } from "./routes/foods";
+  import { recipeRoutes } from "./routes/recipes";
+  import { billingRoutes } from "./routes/billing";
+  import { accountRoutes } from "./routes/account";
+  import { MealAnalysisJobService } from "./services/analysisJobs";
+  import { EmailService } from "./services/email/outbox";
   
   // Load environment variables
   dotenv.config();
@@ -105,7 +112,7 @@
     ].filter(Boolean) as string[],
     credentials: true,
     methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-    allowedHeaders: ["Content-Type", "Authorization", "Cookie"],
+    allowedHeaders: ["Content-Type", "Authorization", "Cookie", "X-Device-Name"],
   };
   
   app.use(cors(corsOptions));
@@ -116,6 +123,10 @@
     express.json({
       limit: "10mb",
       type: ["application/json", "text/plain"],
+      // Billing webhooks are signed over the exact bytes received
+      verify: (req, _res, buf) => {
+        (req as express.Request & { rawBody?: Buffer }).rawBody = buf;
+      },
     })
   );
   app.use(
@@ -176,6 +187,12 @@
   apiRouter.use("/user", userRoutes);
   apiRouter.use("/devices", deviceRoutes);
   apiRouter.use("/calendar", calendarRoutes);
+  apiRouter.use("/weight", weightRoutes);
+  apiRouter.use("/micronutrients", micronutrientRoutes);
+  apiRouter.use("/foods", foodRoutes);
+  apiRouter.use("/recipes", recipeRoutes);
+  apiRouter.use("/billing", billingRoutes);
+  apiRouter.use("/account", accountRoutes);
   apiRouter.use("/meal-plans", mealPlansRoutes);
   apiRouter.use("/chat", chatRoutes);
   apiRouter.use("/food-scanner", foodScannerRoutes);
@@ -188,75 +205,6 @@
   apiRouter.use("/", achievementsRouter);
   apiRouter.use("/meal-completions", mealCompletionRouter);
   
-  // Add a test endpoint to manually trigger daily goals creation
-  apiRouter.post("/test/create-daily-goals", async (req, res) => {
-    try {
-      console.log("🧪 TEST ENDPOINT: Creating daily goals for all users");
-     
-      // Debug database state first
-      const { EnhancedDailyGoalsService } = await import("./services/database/dailyGoals");
-      const debugInfo = await EnhancedDailyGoalsService.debugDatabaseState();
-      console.log("🔍 Database state:", debugInfo);
-      
-      // Force create goals for ALL users
-      console.log("🚨 FORCE creating goals for ALL users...");
-      const result = await EnhancedDailyGoalsService.forceCreateGoalsForAllUsers();
-      
-      console.log("📊 Final test result:", result);
-     
-      // Final verification
-      const finalDebugInfo = await EnhancedDailyGoalsService.debugDatabaseState();
-      console.log("🔍 Final database state:", finalDebugInfo);
-      
-      res.json({
-        success: true,
-        message: `Test completed: ${result.created} created, ${result.updated} updated, ${result.skipped} skipped, ${result.errors.length} errors`,
-        data: {
-          ...result,
-          debugInfo,
-          finalDebugInfo
-        }
-      });
-    } catch (error) {
-      console.error("💥 Test endpoint error:", error);
-      res.status(500).json({
-        success: false,
-        error: error instanceof Error ? error.message : "Unknown error"
-      });
-    }
-  });
-  
-  // Add simple test endpoint for single user goal creation
-  apiRouter.post("/test/create-single-goal", authenticateToken, async (req: AuthRequest, res) => {
-    try {
-      const userId = req.user.user_id;
-      console.log("🧪 TEST: Creating daily goal for single user:", userId);
-      
-      const { EnhancedDailyGoalsService } = await import("./services/database/dailyGoals");
-      const success = await EnhancedDailyGoalsService.createDailyGoalForUser(userId);
-      
-      if (success) {
-        const goals = await EnhancedDailyGoalsService.getUserDailyGoals(userId);
-        res.json({
-          success: true,
-          data: goals,
-          message: "Daily goal created successfully for current user"
-        });
-      } else {
-        res.status(500).json({
-          success: false,
-          error: "Failed to create daily goal"
-        });
-      }
-    } catch (error) {
-      console.error("💥 Single goal test error:", error);
-      res.status(500).json({
-        success: false,
-        error: error instanceof Error ? error.message : "Unknown error"
-      });
-    }
-  });
-  
   app.use("/api", apiRouter);
   
   // 404 handler for undefined routes
@@ -333,7 +281,8 @@
         
         // Initialize enhanced cron jobs
         EnhancedCronJobService.initializeEnhancedCronJobs();
-        UserCleanupService.initializeCleanupJobs();
+        MealAnalysisJobService.start();
+        EmailService.start();
       });
     } catch (error) {
       log.error("❌ Database connection failed:", error);
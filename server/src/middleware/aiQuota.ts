@@ -0,0 +1,62 @@
+import { Response, NextFunction } from "express";
+import { AuthRequest } from "./auth";
+import { AiQuotaService } from "../services/aiQuota";
+import { AiFeature } from "../types/aiQuota";
+
+/**
+ * Refuse the request with 429 once the user's daily AI quota can't cover
+ * the feature. Otherwise the units are reserved before the handler runs and
+ * released again if the response is an error; must come after
+ * authenticateToken. Handlers that finish the work later take over the
+ * reservation through req.ai_usage_id.
+ */
+export function requireAiQuota(feature: AiFeature) {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "User not authenticated",
+      });
+    }
+
+    try {
+      const check = await AiQuotaService.reserveQuota(userId, feature);
+
+      if (!check.allowed || !check.usage_id) {
+        const retryAfter = Math.max(
+          1,
+          Math.ceil((check.status.reset_at.getTime() - Date.now()) / 1000)
+        );
+
+        console.log(`🚫 AI quota exhausted for ${userId} (${feature})`);
+        res.set("Retry-After", String(retryAfter));
+        return res.status(429).json({
+          success: false,
+          error: "Daily AI request limit reached",
+          resetAt: check.status.reset_at,
+          quota: check.status,
+        });
+      }
+
+      const usageId = check.usage_id;
+      req.ai_usage_id = usageId;
+
+      res.on("finish", () => {
+        if (res.statusCode < 400) return;
+        AiQuotaService.releaseQuota(usageId).catch((error) => {
+          console.error("💥 Failed to release AI usage:", error);
+        });
+      });
+
+      next();
+    } catch (error) {
+      console.error("💥 AI quota check error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to check AI quota",
+      });
+    }
+  };
+}
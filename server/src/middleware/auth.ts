@@ -1,8 +1,16 @@
 import { Request, Response, NextFunction } from "express";
+import { AccountLifecycleService } from "../services/accountLifecycle";
 import { AuthService } from "../services/auth";
 
+// Suspended accounts and those scheduled for deletion can still sign in,
+// pay and restore, but nothing else
+const INACTIVE_ACCOUNT_ROUTES = ["/api/auth", "/api/billing", "/api/account"];
+
 export interface AuthRequest extends Request {
   user?: any;
+  session_id?: string;
+  // Quota units held for this request, see requireAiQuota
+  ai_usage_id?: string;
 }
 
 export async function authenticateToken(
@@ -35,10 +43,22 @@ export async function authenticateToken(
     }
 
     console.log("🔍 Verifying token...");
-    const user = await AuthService.verifyToken(token);
+    const { user, session_id } = await AuthService.verifyToken(token);
     console.log("✅ Token verified for user:", user.user_id);
 
+    if (
+      !AccountLifecycleService.hasAppAccess(user.account_status) &&
+      !INACTIVE_ACCOUNT_ROUTES.includes(req.baseUrl)
+    ) {
+      return res.status(403).json({
+        success: false,
+        error: "Account is not active",
+        account_status: user.account_status,
+      });
+    }
+
     req.user = user;
+    req.session_id = session_id;
     next();
   } catch (error: any) {
     console.error("💥 Token verification failed:", error.message);
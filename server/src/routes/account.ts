@@ -0,0 +1,104 @@
+import { Router } from "express";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { AccountLifecycleService } from "../services/accountLifecycle";
+import { BillingService } from "../services/billing/subscriptions";
+
+const router = Router();
+
+router.use(authenticateToken);
+
+// Where the account is in its lifecycle and what happens next
+router.get("/", async (req: AuthRequest, res) => {
+  try {
+    const summary = await AccountLifecycleService.getSummary(req.user.user_id);
+
+    if (!summary) {
+      return res.status(404).json({
+        success: false,
+        error: "User not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      data: summary,
+    });
+  } catch (error) {
+    console.error("💥 Get account status error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to fetch account status";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Schedule deletion; the data stays until the grace window runs out
+router.delete("/", async (req: AuthRequest, res) => {
+  try {
+    // Nothing should renew for an account on its way out
+    await BillingService.cancel(req.user.user_id);
+
+    const summary = await AccountLifecycleService.scheduleDeletion(
+      req.user.user_id,
+      "user_request"
+    );
+
+    if (!summary) {
+      return res.status(404).json({
+        success: false,
+        error: "User not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      message: "Account scheduled for deletion",
+      data: summary,
+    });
+  } catch (error) {
+    console.error("💥 Schedule account deletion error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to schedule deletion";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+router.post("/restore", async (req: AuthRequest, res) => {
+  try {
+    const summary = await AccountLifecycleService.restore(req.user.user_id);
+
+    if (!summary) {
+      return res.status(404).json({
+        success: false,
+        error: "User not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      message: "Account restored",
+      data: summary,
+    });
+  } catch (error) {
+    console.error("💥 Restore account error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to restore account";
+    const status =
+      message === "Account is not scheduled for deletion"
+        ? 409
+        : message === "Restore window has passed"
+        ? 410
+        : 500;
+    res.status(status).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+export { router as accountRoutes };
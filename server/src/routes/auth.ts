@@ -1,12 +1,54 @@
-import { Router } from "express";
+import { Request, Response, Router } from "express";
 import crypto from "crypto";
 import { AuthService } from "../services/auth";
-import { signUpSchema, signInSchema } from "../types/auth";
+import {
+  refreshTokenSchema,
+  signUpSchema,
+  signInSchema,
+  SessionDevice,
+  SessionTokens,
+} from "../types/auth";
+import { SessionService } from "../services/sessions";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
 import { prisma } from "../lib/database";
 
 const router = Router();
 
+function isWebClient(req: Request) {
+  return (
+    req.headers.origin?.includes("localhost:19006") ||
+    req.headers.origin?.includes("localhost:8081") ||
+    req.headers["user-agent"]?.includes("Mozilla")
+  );
+}
+
+// What the session list shows about the device signing in
+function getDevice(req: Request): SessionDevice {
+  const deviceName = req.headers["x-device-name"];
+  return {
+    device_name: typeof deviceName === "string" ? deviceName : null,
+    user_agent: req.headers["user-agent"] ?? null,
+    ip_address: req.ip ?? null,
+  };
+}
+
+function setSessionCookies(res: Response, session: SessionTokens) {
+  res.cookie("auth_token", session.token, AuthService.getCookieOptions());
+  res.cookie(
+    "refresh_token",
+    session.refreshToken,
+    AuthService.getRefreshCookieOptions()
+  );
+}
+
+function clearSessionCookies(res: Response) {
+  const { maxAge: _, ...cookieOptions } = AuthService.getCookieOptions();
+  const { maxAge: __, ...refreshCookieOptions } =
+    AuthService.getRefreshCookieOptions();
+  res.clearCookie("auth_token", cookieOptions);
+  res.clearCookie("refresh_token", refreshCookieOptions);
+}
+
 router.post("/signup", async (req, res, next) => {
   try {
     console.log("🔄 Processing signup request...");
@@ -70,17 +112,11 @@ router.post("/verify-email", async (req, res, next) => {
     }
 
     console.log(`🔒 Verifying code ${code} for email: ${email}`);
-    const result = await AuthService.verifyEmail(email, code);
-
-    // Set secure HTTP-only cookie for web clients
-    const isWebClient =
-      req.headers.origin?.includes("localhost:19006") ||
-      req.headers.origin?.includes("localhost:8081") ||
-      req.headers["user-agent"]?.includes("Mozilla");
+    const result = await AuthService.verifyEmail(email, code, getDevice(req));
 
-    if (isWebClient) {
-      const cookieOptions = AuthService.getCookieOptions();
-      res.cookie("auth_token", result.token, cookieOptions);
+    // Set secure HTTP-only cookies for web clients
+    if (isWebClient(req)) {
+      setSessionCookies(res, result);
       console.log("🍪 Cookie set for web client");
     }
 
@@ -91,6 +127,8 @@ router.post("/verify-email", async (req, res, next) => {
       success: true,
       user: result.user,
       token: result.token,
+      refreshToken: result.refreshToken,
+      expiresIn: result.expiresIn,
       message: "Email verified successfully",
     });
   } catch (error) {
@@ -122,6 +160,7 @@ router.post("/resend-verification", async (req, res) => {
       select: {
         email_verified: true,
         name: true,
+        locale: true,
       },
     });
 
@@ -154,7 +193,8 @@ router.post("/resend-verification", async (req, res) => {
     await AuthService.sendVerificationEmail(
       email,
       emailVerificationCode,
-      user.name || "User"
+      user.name || "User",
+      user.locale
     );
 
     res.json({
@@ -182,17 +222,11 @@ router.post("/signin", async (req, res, next) => {
     console.log("🔍 User-Agent:", req.headers["user-agent"]);
 
     const validatedData = signInSchema.parse(req.body);
-    const result = await AuthService.signIn(validatedData);
+    const result = await AuthService.signIn(validatedData, getDevice(req));
 
-    // Set secure HTTP-only cookie for web clients
-    const isWebClient =
-      req.headers.origin?.includes("localhost:19006") ||
-      req.headers.origin?.includes("localhost:8081") ||
-      req.headers["user-agent"]?.includes("Mozilla");
-
-    if (isWebClient) {
-      const cookieOptions = AuthService.getCookieOptions();
-      res.cookie("auth_token", result.token, cookieOptions);
+    // Set secure HTTP-only cookies for web clients
+    if (isWebClient(req)) {
+      setSessionCookies(res, result);
       console.log("🍪 Cookie set for web client");
     } else {
       console.log(
@@ -206,6 +240,8 @@ router.post("/signin", async (req, res, next) => {
       success: true,
       user: result.user,
       token: result.token, // Always send token for mobile compatibility
+      refreshToken: result.refreshToken,
+      expiresIn: result.expiresIn,
     });
   } catch (error) {
     console.error("💥 Signin error:", error);
@@ -232,21 +268,11 @@ router.post(
   authenticateToken,
   async (req: AuthRequest, res, next) => {
     try {
-      // Get token from cookie or header
-      const token =
-        req.cookies.auth_token || req.headers.authorization?.substring(7);
-
-      if (token) {
-        await AuthService.signOut(token);
+      if (req.session_id) {
+        await AuthService.signOut(req.user.user_id, req.session_id);
       }
 
-      // Clear the cookie
-      res.clearCookie("auth_token", {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === "production",
-        sameSite: "lax",
-        path: "/",
-      });
+      clearSessionCookies(res);
 
       console.log("✅ Signout successful, cookie cleared");
 
@@ -260,6 +286,133 @@ router.post(
   }
 );
 
+// Sign out of every session, this one included
+router.post(
+  "/signout-all",
+  authenticateToken,
+  async (req: AuthRequest, res, next) => {
+    try {
+      const revoked = await SessionService.revokeAllSessions(req.user.user_id);
+
+      clearSessionCookies(res);
+
+      res.json({
+        success: true,
+        message: "Signed out of all sessions",
+        revoked,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Exchange a refresh token for a new access token and refresh token
+router.post("/refresh", async (req, res) => {
+  const validation = refreshTokenSchema.safeParse(req.body ?? {});
+
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: "Invalid request data",
+      details: validation.error.errors,
+    });
+  }
+
+  const fromCookie = !validation.data.refreshToken;
+  const refreshToken =
+    validation.data.refreshToken || req.cookies.refresh_token;
+
+  if (!refreshToken) {
+    return res.status(401).json({
+      success: false,
+      error: "Refresh token is required",
+    });
+  }
+
+  try {
+    const session = await SessionService.refresh(refreshToken, getDevice(req));
+
+    if (fromCookie) {
+      setSessionCookies(res, session);
+    }
+
+    res.json({
+      success: true,
+      token: session.token,
+      refreshToken: session.refreshToken,
+      expiresIn: session.expiresIn,
+    });
+  } catch (error) {
+    console.error("💥 Token refresh error:", error);
+
+    if (fromCookie) {
+      clearSessionCookies(res);
+    }
+
+    res.status(401).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Invalid refresh token",
+    });
+  }
+});
+
+// Devices the user is signed in on
+router.get("/sessions", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const sessions = await SessionService.listSessions(
+      req.user.user_id,
+      req.session_id
+    );
+
+    res.json({
+      success: true,
+      data: sessions,
+    });
+  } catch (error) {
+    console.error("💥 List sessions error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch sessions",
+    });
+  }
+});
+
+router.delete(
+  "/sessions/:sessionId",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const revoked = await SessionService.revokeSession(
+        req.user.user_id,
+        req.params.sessionId
+      );
+
+      if (!revoked) {
+        return res.status(404).json({
+          success: false,
+          error: "Session not found",
+        });
+      }
+
+      if (req.params.sessionId === req.session_id) {
+        clearSessionCookies(res);
+      }
+
+      res.json({
+        success: true,
+        message: "Session revoked",
+      });
+    } catch (error) {
+      console.error("💥 Revoke session error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to revoke session",
+      });
+    }
+  }
+);
+
 // Forgot password endpoint
 router.post("/forgot-password", async (req, res) => {
   try {
@@ -0,0 +1,257 @@
+import { Request, Response, Router } from "express";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { BillingService } from "../services/billing/subscriptions";
+import { FakeBillingProvider, FakeDelivery } from "../services/billing/fake";
+import { checkoutSchema, fakePaymentSchema } from "../types/billing";
+
+const router = Router();
+
+// express.json keeps the unparsed body for signature checks
+interface WebhookRequest extends Request {
+  rawBody?: Buffer;
+}
+
+function getFakeProvider(): FakeBillingProvider | null {
+  try {
+    const provider = BillingService.getProvider("fake");
+    return provider instanceof FakeBillingProvider ? provider : null;
+  } catch {
+    return null;
+  }
+}
+
+router.get("/plans", (req, res) => {
+  res.json({
+    success: true,
+    data: BillingService.listPlans(),
+  });
+});
+
+router.get("/subscription", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const subscription = await BillingService.getSubscription(req.user.user_id);
+
+    if (!subscription) {
+      return res.status(404).json({
+        success: false,
+        error: "User not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      data: subscription,
+    });
+  } catch (error) {
+    console.error("💥 Get subscription error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to fetch subscription";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Start paying for a plan; the plan changes once the provider confirms payment
+router.post("/checkout", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const validation = checkoutSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid request data",
+        details: validation.error.errors,
+      });
+    }
+
+    const checkout = await BillingService.createCheckout(
+      req.user.user_id,
+      validation.data
+    );
+
+    res.status(201).json({
+      success: true,
+      data: checkout,
+    });
+  } catch (error) {
+    console.error("💥 Checkout error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to start checkout";
+    const status = message.startsWith("Already subscribed")
+      ? 409
+      : message.includes("not configured") || message.includes("not supported")
+      ? 503
+      : 500;
+    res.status(status).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+router.post("/cancel", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const canceled = await BillingService.cancel(req.user.user_id);
+
+    if (!canceled) {
+      return res.status(404).json({
+        success: false,
+        error: "No active subscription",
+      });
+    }
+
+    res.json({
+      success: true,
+      data: await BillingService.getSubscription(req.user.user_id),
+    });
+  } catch (error) {
+    console.error("💥 Cancel subscription error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to cancel subscription";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Payment provider notifications; authenticated by their signature
+router.post("/webhooks/:provider", async (req: WebhookRequest, res: Response) => {
+  if (!req.rawBody) {
+    return res.status(400).json({
+      success: false,
+      error: "Missing request body",
+    });
+  }
+
+  try {
+    const { duplicate } = await BillingService.handleWebhook(
+      req.params.provider,
+      req.rawBody,
+      req.headers
+    );
+
+    res.json({ success: true, duplicate });
+  } catch (error) {
+    console.error("💥 Billing webhook error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to process webhook";
+    const status =
+      message.includes("signature") || message.includes("not supported")
+        ? 400
+        : 500;
+    res.status(status).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+async function deliverFake(res: Response, delivery: FakeDelivery) {
+  const result = await BillingService.handleWebhook(
+    "fake",
+    delivery.rawBody,
+    delivery.headers
+  );
+
+  res.json({
+    success: true,
+    data: {
+      event: result.event,
+      // The same delivery, to replay against the webhook endpoint
+      delivery: {
+        body: delivery.rawBody.toString("utf8"),
+        headers: delivery.headers,
+      },
+    },
+  });
+}
+
+// Fake provider only: pay or decline a checkout
+router.post(
+  "/fake/checkouts/:checkoutId",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    const provider = getFakeProvider();
+    if (!provider) {
+      return res.status(404).json({ success: false, error: "Not found" });
+    }
+
+    try {
+      const validation = fakePaymentSchema.safeParse(req.body ?? {});
+
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid request data",
+          details: validation.error.errors,
+        });
+      }
+
+      const delivery = provider.completeCheckout(
+        req.user.user_id,
+        req.params.checkoutId,
+        validation.data.outcome
+      );
+
+      if (!delivery) {
+        return res.status(404).json({
+          success: false,
+          error: "Checkout not found or expired",
+        });
+      }
+
+      await deliverFake(res, delivery);
+    } catch (error) {
+      console.error("💥 Fake checkout error:", error);
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : "Fake checkout failed",
+      });
+    }
+  }
+);
+
+// Fake provider only: bill the next period now
+router.post("/fake/renew", authenticateToken, async (req: AuthRequest, res) => {
+  const provider = getFakeProvider();
+  if (!provider) {
+    return res.status(404).json({ success: false, error: "Not found" });
+  }
+
+  try {
+    const validation = fakePaymentSchema.safeParse(req.body ?? {});
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid request data",
+        details: validation.error.errors,
+      });
+    }
+
+    const delivery = provider.renewSubscription(
+      req.user.user_id,
+      validation.data.outcome
+    );
+
+    if (!delivery) {
+      return res.status(404).json({
+        success: false,
+        error: "No subscription to renew",
+      });
+    }
+
+    await deliverFake(res, delivery);
+  } catch (error) {
+    console.error("💥 Fake renewal error:", error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Fake renewal failed",
+    });
+  }
+});
+
+export { router as billingRoutes };
@@ -1,9 +1,58 @@
-import { Router } from "express";
+import express, { Router } from "express";
+import { z } from "zod";
 import { CalendarService } from "../services/calendar";
+import { EventGoalRulesService } from "../services/eventGoalRules";
+import { CalendarIcsService } from "../services/ics/calendarIcs";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import {
+  calendarEventSchema,
+  calendarEventTypeSchema,
+  calendarEventUpdateSchema,
+  eventGoalRuleSchema,
+} from "../types/calendar";
+import { isDateString } from "../utils/dayBoundary";
 
 const router = Router();
 
+// Largest ICS file accepted by the import endpoint
+const MAX_ICS_LENGTH = 2 * 1024 * 1024;
+
+const icsImportSchema = z.object({
+  ics: z
+    .string()
+    .min(1, "ICS content is required")
+    .max(MAX_ICS_LENGTH, "ICS file is too large")
+    .refine((ics) => ics.includes("BEGIN:VCALENDAR"), "Not an iCalendar file"),
+});
+
+// Public ICS subscription feed; the secret token in the URL is the credential
+router.get("/feed/:token", async (req, res) => {
+  try {
+    const token = req.params.token.replace(/\.ics$/, "");
+    const ics = await CalendarIcsService.getFeedForToken(token);
+
+    if (!ics) {
+      return res.status(404).json({
+        success: false,
+        error: "Calendar feed not found",
+      });
+    }
+
+    res.set({
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="nutrition.ics"',
+      "Cache-Control": "private, max-age=300",
+    });
+    res.send(ics);
+  } catch (error) {
+    console.error("💥 Calendar feed error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to build calendar feed",
+    });
+  }
+});
+
 // Apply auth middleware to all routes
 router.use(authenticateToken);
 
@@ -85,34 +134,30 @@ router.get("/statistics/:year/:month", async (req: AuthRequest, res) => {
   }
 });
 
-// Add event to a specific date
+// Add event to a specific date, optionally repeating from that date
 router.post("/events", async (req: AuthRequest, res) => {
   try {
-    const { date, title, type, description } = req.body;
+    const validation = calendarEventSchema.safeParse(req.body);
 
-    if (!date || !title) {
+    if (!validation.success) {
       return res.status(400).json({
         success: false,
-        error: "Date and title are required",
+        error: "Invalid event data",
+        details: validation.error.errors,
       });
     }
 
-    // Validate date format
-    if (!date.match(/^\d{4}-\d{2}-\d{2}$/)) {
-      return res.status(400).json({
-        success: false,
-        error: "Date must be in YYYY-MM-DD format",
-      });
-    }
+    const { date, title, type, description, recurrence } = validation.data;
 
-    console.log("📝 Add event request:", { date, title, type, description });
+    console.log("📝 Add event request:", { date, title, type, description, recurrence });
 
     const event = await CalendarService.addEvent(
       req.user.user_id,
       date,
       title,
-      type || "general",
-      description
+      type,
+      description,
+      recurrence
     );
 
     res.json({
@@ -130,6 +175,49 @@ router.post("/events", async (req: AuthRequest, res) => {
   }
 });
 
+// Update an event; changes to a recurring event apply to the whole series
+router.put("/events/:eventId", async (req: AuthRequest, res) => {
+  try {
+    const validation = calendarEventUpdateSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid event data",
+        details: validation.error.errors,
+      });
+    }
+
+    console.log("✏️ Update event request:", req.params.eventId);
+
+    const event = await CalendarService.updateEvent(
+      req.user.user_id,
+      req.params.eventId,
+      validation.data
+    );
+
+    if (!event) {
+      return res.status(404).json({
+        success: false,
+        error: "Event not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      data: event,
+    });
+  } catch (error) {
+    console.error("💥 Update event error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to update event";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
 // Get events for a specific date
 router.get("/events/:date", async (req: AuthRequest, res) => {
   try {
@@ -165,10 +253,11 @@ router.get("/events/:date", async (req: AuthRequest, res) => {
   }
 });
 
-// Delete event
+// Delete event; ?date=YYYY-MM-DD removes a single occurrence of a recurring event
 router.delete("/events/:eventId", async (req: AuthRequest, res) => {
   try {
     const { eventId } = req.params;
+    const date = req.query.date as string | undefined;
 
     if (!eventId) {
       return res.status(400).json({
@@ -177,9 +266,23 @@ router.delete("/events/:eventId", async (req: AuthRequest, res) => {
       });
     }
 
-    console.log("🗑️ Delete event request:", eventId);
+    if (date !== undefined && !isDateString(date)) {
+      return res.status(400).json({
+        success: false,
+        error: "Date must be in YYYY-MM-DD format",
+      });
+    }
 
-    await CalendarService.deleteEvent(req.user.user_id, eventId);
+    console.log("🗑️ Delete event request:", eventId, date || "");
+
+    const event = await CalendarService.deleteEvent(req.user.user_id, eventId, date);
+
+    if (!event) {
+      return res.status(404).json({
+        success: false,
+        error: "Event not found",
+      });
+    }
 
     res.json({
       success: true,
@@ -196,6 +299,201 @@ router.delete("/events/:eventId", async (req: AuthRequest, res) => {
   }
 });
 
+// Get the goal adjustment rule of every event type
+router.get("/goal-rules", async (req: AuthRequest, res) => {
+  try {
+    const rules = await EventGoalRulesService.getRules(req.user.user_id);
+
+    res.json({
+      success: true,
+      data: rules,
+    });
+  } catch (error) {
+    console.error("💥 Get goal rules error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to fetch event goal rules";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Configure how an event type adjusts the daily goal
+router.put("/goal-rules/:eventType", async (req: AuthRequest, res) => {
+  try {
+    const eventType = calendarEventTypeSchema.safeParse(req.params.eventType);
+    const validation = eventGoalRuleSchema.safeParse(req.body);
+
+    if (!eventType.success || !validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid goal rule",
+        details: [
+          ...(eventType.success ? [] : eventType.error.errors),
+          ...(validation.success ? [] : validation.error.errors),
+        ],
+      });
+    }
+
+    const rule = await EventGoalRulesService.updateRule(
+      req.user.user_id,
+      eventType.data,
+      validation.data
+    );
+
+    res.json({
+      success: true,
+      data: rule,
+    });
+  } catch (error) {
+    console.error("💥 Update goal rule error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to update event goal rule";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Restore the default rule of an event type
+router.delete("/goal-rules/:eventType", async (req: AuthRequest, res) => {
+  try {
+    const eventType = calendarEventTypeSchema.safeParse(req.params.eventType);
+
+    if (!eventType.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid event type",
+        details: eventType.error.errors,
+      });
+    }
+
+    const rule = await EventGoalRulesService.resetRule(req.user.user_id, eventType.data);
+
+    res.json({
+      success: true,
+      data: rule,
+    });
+  } catch (error) {
+    console.error("💥 Reset goal rule error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to reset event goal rule";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Get whether an ICS subscription feed is enabled
+router.get("/feed", async (req: AuthRequest, res) => {
+  try {
+    const enabled = await CalendarIcsService.hasFeedToken(req.user.user_id);
+
+    res.json({
+      success: true,
+      data: { enabled },
+    });
+  } catch (error) {
+    console.error("💥 Get calendar feed error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch calendar feed",
+    });
+  }
+});
+
+// Create or rotate the ICS subscription feed; the URL is only shown now
+router.post("/feed", async (req: AuthRequest, res) => {
+  try {
+    const token = await CalendarIcsService.createFeedToken(req.user.user_id);
+    const apiBaseUrl =
+      process.env.API_BASE_URL || `${req.protocol}://${req.get("host")}/api`;
+
+    res.json({
+      success: true,
+      data: CalendarIcsService.getFeedLink(apiBaseUrl, token),
+      message: "Calendar feed created. Any previous feed URL no longer works.",
+    });
+  } catch (error) {
+    console.error("💥 Create calendar feed error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to create calendar feed";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Revoke the ICS subscription feed
+router.delete("/feed", async (req: AuthRequest, res) => {
+  try {
+    await CalendarIcsService.revokeFeedToken(req.user.user_id);
+
+    res.json({
+      success: true,
+      message: "Calendar feed revoked",
+    });
+  } catch (error) {
+    console.error("💥 Revoke calendar feed error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to revoke calendar feed";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Import events from an ICS file, sent as JSON { ics } or as a text/calendar body
+router.post(
+  "/import",
+  express.text({ type: "text/calendar", limit: MAX_ICS_LENGTH }),
+  async (req: AuthRequest, res) => {
+    try {
+      const validation = icsImportSchema.safeParse(
+        typeof req.body === "string" ? { ics: req.body } : req.body
+      );
+
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid calendar file",
+          details: validation.error.errors,
+        });
+      }
+
+      const result = await CalendarIcsService.importIcs(
+        req.user.user_id,
+        validation.data.ics
+      );
+
+      if (result.events_found === 0) {
+        return res.status(400).json({
+          success: false,
+          error: "No events found in the calendar file",
+        });
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      console.error("💥 Calendar import error:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to import calendar";
+      res.status(500).json({
+        success: false,
+        error: message,
+      });
+    }
+  }
+);
+
 // Get month comparison (for trend analysis)
 router.get("/comparison/:year/:month", async (req: AuthRequest, res) => {
   try {
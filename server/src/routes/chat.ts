@@ -1,5 +1,6 @@
 import { Router, Request, Response } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { requireAiQuota } from "../middleware/aiQuota";
 import { ChatService } from "../services/chat";
 import { z } from "zod";
 import { prisma } from "../lib/database";
@@ -23,6 +24,7 @@ const healthBasedRecommendationSchema = z.object({
 router.post(
   "/message",
   authenticateToken,
+  requireAiQuota("chat"),
   async (req: AuthRequest, res: Response) => {
     const userId = req.user?.user_id;
 
@@ -146,6 +148,7 @@ router.delete(
 router.post(
   "/health-based-recommendation",
   authenticateToken,
+  requireAiQuota("health_recommendation"),
   async (req: AuthRequest, res: Response) => {
     const userId = req.user?.user_id;
 
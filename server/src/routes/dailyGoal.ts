@@ -1,22 +1,23 @@
 import { Router } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
 import { EnhancedDailyGoalsService } from "../services/database/dailyGoals";
-import { prisma } from "../lib/database";
+import { manualGoalsSchema } from "../types/goals";
+import { getLocalDate, resolveTimeZone } from "../utils/dayBoundary";
 
 const router = Router();
 
-// GET /api/daily-goals - Get user's daily goals (CREATE IF MISSING)
+// GET /api/daily-goals - Get user's goals for their today
 router.get("/", authenticateToken, async (req: AuthRequest, res) => {
   try {
     const userId = req.user.user_id;
-    
+
     console.log("📊 === DAILY GOALS GET REQUEST ===");
     console.log("📊 User ID:", userId);
-    
-    // Use enhanced service to get goals (creates if missing)
+
+    // Resolved from the goal version in effect today
     const goals = await EnhancedDailyGoalsService.getUserDailyGoals(userId);
-    
-    console.log("📊 Retrieved/Created goals:", goals);
+
+    console.log("📊 Retrieved goals:", goals);
 
     res.json({
       success: true,
@@ -33,126 +34,48 @@ router.get("/", authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
-// PUT /api/daily-goals - Force create daily goals for current user
+// PUT /api/daily-goals - Set the user's own targets from a date on (today by default)
 router.put("/", authenticateToken, async (req: AuthRequest, res) => {
   try {
     const userId = req.user.user_id;
-    
-    console.log("🔄 === FORCE CREATING DAILY GOALS ===");
-    console.log("🔄 User ID:", userId);
-    
-    // Force create goals for this specific user
-    const goals = await EnhancedDailyGoalsService.forceCreateDailyGoalsForUser(userId);
-    
-    console.log("✅ Force created goals:", goals);
+    const validation = manualGoalsSchema.safeParse(req.body);
 
-    res.json({
-      success: true,
-      data: goals,
-      message: "Daily goals created successfully"
-    });
-  } catch (error) {
-    console.error("💥 Error creating daily goals:", error);
-    res.status(500).json({
-      success: false,
-      error: "Failed to create daily goals",
-      details: error instanceof Error ? error.message : "Unknown error"
-    });
-  }
-});
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid daily goals",
+        details: validation.error.errors
+      });
+    }
 
-// POST /api/daily-goals/create-all - Create goals for ALL users (admin/testing)
-router.post("/create-all", authenticateToken, async (req: AuthRequest, res) => {
-  try {
-    console.log("🚨 === CREATING DAILY GOALS FOR ALL USERS ===");
-    
-    // Use force creation to ensure goals are created
-    const result = await EnhancedDailyGoalsService.forceCreateGoalsForAllUsers();
-    
-    console.log("📊 Creation result:", result);
+    const today = getLocalDate(resolveTimeZone(req.user.timezone));
+    if (validation.data.effective_from && validation.data.effective_from < today) {
+      return res.status(400).json({
+        success: false,
+        error: "Goals cannot be changed for past days"
+      });
+    }
 
-    res.json({
-      success: true,
-      data: result,
-      message: `Goals processed: ${result.created} created, ${result.updated} updated, ${result.skipped} skipped, ${result.errors.length} errors`
-    });
-  } catch (error) {
-    console.error("💥 Error creating daily goals for all users:", error);
-    res.status(500).json({
-      success: false,
-      error: "Failed to create daily goals for all users",
-      details: error instanceof Error ? error.message : "Unknown error"
-    });
-  }
-});
+    console.log("🎯 === SETTING MANUAL DAILY GOALS ===");
+    console.log("🎯 User ID:", userId);
 
-// GET /api/daily-goals/verify - Verify daily goals exist in database
-router.get("/verify", authenticateToken, async (req: AuthRequest, res) => {
-  try {
-    const userId = req.user.user_id;
-    
-    console.log("🔍 === VERIFYING DAILY GOALS AND DATABASE STATE ===");
-    console.log("🔍 User ID:", userId);
-    
-    // Use debug method to get complete database state
-    const debugInfo = await EnhancedDailyGoalsService.debugDatabaseState();
-    
-    // Get user-specific goals
-    const userGoals = await EnhancedDailyGoalsService.getUserDailyGoals(userId);
+    const version = await EnhancedDailyGoalsService.setManualGoals(userId, validation.data);
+
+    console.log("✅ Manual goals saved:", version.goal_version_id);
 
     res.json({
       success: true,
-      data: {
-        userGoals,
-        debugInfo,
-        userId
-      },
-      message: "Daily goals verification and debug completed"
-    });
-  } catch (error) {
-    console.error("💥 Error verifying daily goals:", error);
-    res.status(500).json({
-      success: false,
-      error: "Failed to verify daily goals",
-      details: error instanceof Error ? error.message : "Unknown error"
+      data: version,
+      message: "Daily goals updated successfully"
     });
-  }
-});
-
-// POST /api/daily-goals/force-single - Force create goal for single user (testing)
-router.post("/force-single", authenticateToken, async (req: AuthRequest, res) => {
-  try {
-    const userId = req.user.user_id;
-    
-    console.log("🔄 === FORCE CREATING SINGLE USER GOAL ===");
-    console.log("🔄 User ID:", userId);
-    
-    // Use simple creation method
-    const success = await EnhancedDailyGoalsService.createDailyGoalForUser(userId);
-    
-    if (success) {
-      // Get the created goal
-      const goals = await EnhancedDailyGoalsService.getUserDailyGoals(userId);
-      
-      res.json({
-        success: true,
-        data: goals,
-        message: "Daily goal created successfully for single user"
-      });
-    } else {
-      res.status(500).json({
-        success: false,
-        error: "Failed to create daily goal for user"
-      });
-    }
   } catch (error) {
-    console.error("💥 Error creating single user goal:", error);
+    console.error("💥 Error updating daily goals:", error);
     res.status(500).json({
       success: false,
-      error: "Failed to create daily goal",
+      error: "Failed to update daily goals",
       details: error instanceof Error ? error.message : "Unknown error"
     });
   }
 });
 
-export { router as dailyGoalsRoutes };
\ No newline at end of file
+export { router as dailyGoalsRoutes };
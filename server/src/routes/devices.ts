@@ -1,9 +1,63 @@
 import { Router } from "express";
+import { z } from "zod";
 import { DeviceService } from "../services/devices";
+import { WearableSyncService } from "../services/wearables/sync";
+import { ActivityMergeService, ACTIVITY_METRICS } from "../services/activityMerge";
+import { ActivityMetric } from "../types/devices";
+import { DeviceType } from "@prisma/client";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
 
 const router = Router();
 
+// Largest batch accepted by a single sync request
+const MAX_SYNC_DAYS = 90;
+
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be in YYYY-MM-DD format")
+  .refine((date) => !isNaN(Date.parse(date)), "Invalid date")
+  // Devices in timezones ahead of UTC can legitimately report "tomorrow"
+  .refine(
+    (date) => Date.parse(date) <= Date.now() + 24 * 60 * 60 * 1000,
+    "Dates cannot be in the future"
+  );
+
+const activityMetricsSchema = z.object({
+  steps: z.number().min(0).default(0),
+  caloriesBurned: z.number().min(0).default(0),
+  activeMinutes: z.number().min(0).default(0),
+  bmr: z.number().min(0).default(0),
+  heartRate: z.number().min(0).optional(),
+  heartRateMax: z.number().min(0).optional(),
+  weight: z.number().min(0).optional(),
+  bodyFat: z.number().min(0).max(100).optional(),
+  sleepHours: z.number().min(0).max(24).optional(),
+  distance: z.number().min(0).optional(),
+});
+
+const sourcePriorityBodySchema = z.object({
+  deviceTypes: z
+    .array(z.nativeEnum(DeviceType))
+    .max(Object.keys(DeviceType).length)
+    .refine((types) => new Set(types).size === types.length, "Duplicate device types"),
+});
+
+const syncRequestSchema = z
+  .object({
+    activityData: activityMetricsSchema
+      .extend({ date: dateSchema.optional() })
+      .optional(),
+    days: z
+      .array(activityMetricsSchema.extend({ date: dateSchema }))
+      .min(1)
+      .max(MAX_SYNC_DAYS)
+      .optional(),
+    mode: z.enum(["append", "backfill"]).default("append"),
+  })
+  .refine((body) => body.activityData || body.days, {
+    message: "Either activityData or days is required",
+  });
+
 // Apply auth middleware to all routes
 router.use(authenticateToken);
 
@@ -29,6 +83,81 @@ router.get("/", async (req: AuthRequest, res) => {
   }
 });
 
+// List wearable providers that support server-side sync
+router.get("/providers", async (req: AuthRequest, res) => {
+  res.json({
+    success: true,
+    data: WearableSyncService.listProviders(),
+  });
+});
+
+// Get the OAuth consent URL for a provider
+router.get("/oauth/:deviceType/authorize", async (req: AuthRequest, res) => {
+  try {
+    const { deviceType } = req.params;
+
+    console.log("🔑 OAuth authorize request:", deviceType);
+
+    const url = WearableSyncService.getAuthorizationUrl(
+      req.user.user_id,
+      deviceType.toUpperCase()
+    );
+
+    res.json({
+      success: true,
+      data: { url },
+    });
+  } catch (error) {
+    console.error("💥 OAuth authorize error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to start authorization";
+    res.status(400).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Complete the OAuth flow with the code returned by the provider
+router.post("/oauth/:deviceType/callback", async (req: AuthRequest, res) => {
+  try {
+    const { deviceType } = req.params;
+    const { code, state } = req.body;
+
+    if (!code || !state) {
+      return res.status(400).json({
+        success: false,
+        error: "Authorization code and state are required",
+      });
+    }
+
+    console.log("🔑 OAuth callback request:", deviceType);
+
+    const device = await WearableSyncService.completeAuthorization(
+      req.user.user_id,
+      deviceType.toUpperCase(),
+      code,
+      state
+    );
+
+    // Fetch the last week right away so the user sees data after connecting
+    const syncResult = await WearableSyncService.pullDevice(device);
+
+    res.json({
+      success: true,
+      data: { device, sync: syncResult },
+    });
+  } catch (error) {
+    console.error("💥 OAuth callback error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to complete authorization";
+    res.status(400).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
 // Connect a new device
 router.post("/connect", async (req: AuthRequest, res) => {
   try {
@@ -90,18 +219,33 @@ router.delete("/:deviceId", async (req: AuthRequest, res) => {
   }
 });
 
-// Sync device data
+// Sync device data. Accepts a single `activityData` (optionally dated) or a
+// `days` batch with one entry per date; `mode: "backfill"` also reports gaps.
 router.post("/:deviceId/sync", async (req: AuthRequest, res) => {
   try {
     const { deviceId } = req.params;
-    const { activityData } = req.body;
+    const body = syncRequestSchema.parse(req.body);
 
     console.log("🔄 Sync device data request:", deviceId);
 
+    if (body.days) {
+      const result = await DeviceService.syncDeviceDays(
+        req.user.user_id,
+        deviceId,
+        body.days,
+        body.mode
+      );
+
+      return res.json({
+        success: true,
+        data: result,
+      });
+    }
+
     const result = await DeviceService.syncDeviceData(
       req.user.user_id,
       deviceId,
-      activityData
+      body.activityData!
     );
 
     res.json({
@@ -109,6 +253,14 @@ router.post("/:deviceId/sync", async (req: AuthRequest, res) => {
       data: result,
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid sync payload",
+        details: error.errors,
+      });
+    }
+
     console.error("💥 Sync device error:", error);
     const message =
       error instanceof Error ? error.message : "Failed to sync device";
@@ -119,6 +271,136 @@ router.post("/:deviceId/sync", async (req: AuthRequest, res) => {
   }
 });
 
+// Pull data from the provider API on demand
+router.post("/:deviceId/pull", async (req: AuthRequest, res) => {
+  try {
+    const { deviceId } = req.params;
+    const { startDate, endDate } = req.body || {};
+
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+    if (
+      (startDate && !datePattern.test(startDate)) ||
+      (endDate && !datePattern.test(endDate))
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "Dates must be in YYYY-MM-DD format",
+      });
+    }
+
+    console.log("⌚ Pull device data request:", deviceId);
+
+    const result = await WearableSyncService.pullUserDevice(
+      req.user.user_id,
+      deviceId,
+      { startDate, endDate }
+    );
+
+    res.status(result.success ? 200 : 502).json({
+      success: result.success,
+      data: result,
+      error: result.error,
+    });
+  } catch (error) {
+    console.error("💥 Pull device error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to pull device data";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Make a device the primary activity source
+router.put("/:deviceId/primary", async (req: AuthRequest, res) => {
+  try {
+    const { deviceId } = req.params;
+
+    console.log("⭐ Set primary device request:", deviceId);
+
+    const device = await DeviceService.setPrimaryDevice(
+      req.user.user_id,
+      deviceId
+    );
+
+    res.json({
+      success: true,
+      data: device,
+    });
+  } catch (error) {
+    console.error("💥 Set primary device error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to set primary device";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Get the per-metric device priorities used when merging activity
+router.get("/source-priorities", async (req: AuthRequest, res) => {
+  try {
+    const priorities = await ActivityMergeService.getSourcePriorities(
+      req.user.user_id
+    );
+
+    res.json({
+      success: true,
+      data: {
+        metrics: ACTIVITY_METRICS,
+        priorities,
+      },
+    });
+  } catch (error) {
+    console.error("💥 Get source priorities error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch source priorities",
+    });
+  }
+});
+
+// Set the device order for one metric; an empty list restores the default policy
+router.put("/source-priorities/:metric", async (req: AuthRequest, res) => {
+  try {
+    const metric = z
+      .enum(ACTIVITY_METRICS as [ActivityMetric, ...ActivityMetric[]])
+      .parse(req.params.metric);
+    const { deviceTypes } = sourcePriorityBodySchema.parse(req.body);
+
+    console.log("🔀 Set source priority request:", metric, deviceTypes);
+
+    const priority = await ActivityMergeService.setSourcePriority(
+      req.user.user_id,
+      metric,
+      deviceTypes
+    );
+
+    res.json({
+      success: true,
+      data: priority,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid source priority",
+        details: error.errors,
+      });
+    }
+
+    console.error("💥 Set source priority error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to update source priority";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
 // Get activity data for a date range
 router.get("/activity/:startDate/:endDate", async (req: AuthRequest, res) => {
   try {
@@ -155,7 +437,7 @@ router.get("/activity/:startDate/:endDate", async (req: AuthRequest, res) => {
   }
 });
 
-// Get daily balance (calories in vs out)
+// Get daily balance (calories in vs out) with the merged activity and its sources
 router.get("/balance/:date", async (req: AuthRequest, res) => {
   try {
     const { date } = req.params;
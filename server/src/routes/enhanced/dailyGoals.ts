@@ -1,13 +1,15 @@
 import { Router } from "express";
 import { authenticateToken, AuthRequest } from "../../middleware/auth";
 import { EnhancedDailyGoalsService } from "../../services/database/dailyGoals";
-import { DatabaseOptimizationService } from "../../services/database/optimization";
+import { AdaptiveTdeeService } from "../../services/adaptiveTdee";
+import { adaptiveGoalsSettingsSchema } from "../../types/adaptiveTdee";
+import { goalHistoryQuerySchema } from "../../types/goals";
 import { ApiResponse } from "../../types/api";
-import { prisma } from "../../lib/database";
+import { addDays, getLocalDate, resolveTimeZone } from "../../utils/dayBoundary";
 
 const router = Router();
 
-// GET /api/daily-goals - Get user's daily goals with optimization
+// GET /api/daily-goals - Get user's goals for their today
 router.get("/", authenticateToken, async (req: AuthRequest, res) => {
   try {
     const userId = req.user.user_id;
@@ -18,10 +20,7 @@ router.get("/", authenticateToken, async (req: AuthRequest, res) => {
 
     const response: ApiResponse = {
       success: true,
-      data: {
-        ...goals,
-        date: new Date().toISOString().split('T')[0]
-      },
+      data: goals,
       timestamp: new Date().toISOString()
     };
 
@@ -41,30 +40,25 @@ router.get("/", authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
-// POST /api/daily-goals/generate - Manually trigger daily goals generation
-router.post("/generate", authenticateToken, async (req: AuthRequest, res) => {
+// GET /api/daily-goals/adaptive - Explain the adaptive TDEE behind the calorie goal
+router.get("/adaptive", authenticateToken, async (req: AuthRequest, res) => {
   try {
-    const userId = req.user.user_id;
-    console.log("🔄 Manual daily goals generation for user:", userId);
-
-    // Force create goals for this specific user
-    const goals = await EnhancedDailyGoalsService.forceCreateDailyGoalsForUser(userId);
+    const explanation = await AdaptiveTdeeService.getExplanation(req.user.user_id);
 
     const response: ApiResponse = {
       success: true,
-      data: goals,
-      message: "Daily goals generated successfully",
+      data: explanation,
       timestamp: new Date().toISOString()
     };
 
     res.json(response);
 
   } catch (error) {
-    console.error("Error generating daily goals:", error);
-    
+    console.error("Error fetching adaptive TDEE:", error);
+
     const errorResponse: ApiResponse = {
       success: false,
-      error: "Failed to generate daily goals",
+      error: "Failed to fetch adaptive TDEE",
       details: error instanceof Error ? error.message : "Unknown error",
       timestamp: new Date().toISOString()
     };
@@ -73,29 +67,45 @@ router.post("/generate", authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
-// POST /api/daily-goals/generate-all - Generate goals for all users
-router.post("/generate-all", authenticateToken, async (req: AuthRequest, res) => {
+// PUT /api/daily-goals/adaptive - Opt in or out of adaptive goals
+router.put("/adaptive", authenticateToken, async (req: AuthRequest, res) => {
   try {
-    console.log("🔄 Manual daily goals generation for ALL users");
-
-    // Generate goals for all users
-    const result = await EnhancedDailyGoalsService.createDailyGoalsForAllUsers();
+    const userId = req.user.user_id;
+    const validation = adaptiveGoalsSettingsSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid adaptive goals settings",
+        details: validation.error.errors,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    await AdaptiveTdeeService.setEnabled(userId, validation.data.enabled);
+
+    // Opting in calibrates right away; opting out goes back to the formula
+    if (validation.data.enabled) {
+      await EnhancedDailyGoalsService.recalibrateAdaptiveGoals(userId);
+    } else {
+      await EnhancedDailyGoalsService.revertAdaptiveGoals(userId);
+    }
 
     const response: ApiResponse = {
       success: true,
-      data: result,
-      message: `Generated goals: ${result.created} created, ${result.updated} updated, ${result.skipped} skipped`,
+      data: await AdaptiveTdeeService.getExplanation(userId),
+      message: `Adaptive goals ${validation.data.enabled ? "enabled" : "disabled"}`,
       timestamp: new Date().toISOString()
     };
 
     res.json(response);
 
   } catch (error) {
-    console.error("Error generating daily goals for all users:", error);
-    
+    console.error("Error updating adaptive goals setting:", error);
+
     const errorResponse: ApiResponse = {
       success: false,
-      error: "Failed to generate daily goals",
+      error: "Failed to update adaptive goals setting",
       details: error instanceof Error ? error.message : "Unknown error",
       timestamp: new Date().toISOString()
     };
@@ -104,30 +114,36 @@ router.post("/generate-all", authenticateToken, async (req: AuthRequest, res) =>
   }
 });
 
-// POST /api/daily-goals/force-all - Force create goals for ALL users (testing)
-router.post("/force-all", authenticateToken, async (req: AuthRequest, res) => {
+// POST /api/daily-goals/adaptive/recalibrate - Recalibrate now, e.g. after logging past meals
+router.post("/adaptive/recalibrate", authenticateToken, async (req: AuthRequest, res) => {
   try {
-    console.log("🚨 FORCE creating daily goals for ALL users");
+    const userId = req.user.user_id;
 
-    const result = await EnhancedDailyGoalsService.forceCreateGoalsForAllUsers();
-    
-    console.log("📊 Force creation result:", result);
+    if (!req.user.adaptive_goals_enabled) {
+      return res.status(400).json({
+        success: false,
+        error: "Adaptive goals are disabled",
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    await EnhancedDailyGoalsService.recalibrateAdaptiveGoals(userId);
 
     const response: ApiResponse = {
       success: true,
-      data: result,
-      message: `Goals processed: ${result.created} created, ${result.updated} updated, ${result.skipped} skipped`,
+      data: await AdaptiveTdeeService.getExplanation(userId),
+      message: "Adaptive TDEE recalibrated",
       timestamp: new Date().toISOString()
     };
 
     res.json(response);
 
   } catch (error) {
-    console.error("Error force creating daily goals:", error);
-    
+    console.error("Error recalibrating adaptive TDEE:", error);
+
     const errorResponse: ApiResponse = {
       success: false,
-      error: "Failed to force create daily goals",
+      error: "Failed to recalibrate adaptive TDEE",
       details: error instanceof Error ? error.message : "Unknown error",
       timestamp: new Date().toISOString()
     };
@@ -136,32 +152,35 @@ router.post("/force-all", authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
-// GET /api/daily-goals/history - Get historical daily goals
+// GET /api/daily-goals/history - Goals of each of the last days, resolved from their versions
 router.get("/history", authenticateToken, async (req: AuthRequest, res) => {
   try {
     const userId = req.user.user_id;
-    const { days = 30 } = req.query;
-
+    const validation = goalHistoryQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid query parameters",
+        details: validation.error.errors,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const { days } = validation.data;
     console.log(`📊 Getting daily goals history for user: ${userId}, days: ${days}`);
 
-    const daysAgo = new Date(Date.now() - Number(days) * 24 * 60 * 60 * 1000);
-
-    const historicalGoals = await prisma.dailyGoal.findMany({
-      where: {
-        user_id: userId,
-        date: {
-          gte: daysAgo
-        }
-      },
-      orderBy: {
-        date: 'desc'
-      }
-    });
+    const today = getLocalDate(resolveTimeZone(req.user.timezone));
+    const historicalGoals = await EnhancedDailyGoalsService.getGoalsForRange(
+      userId,
+      addDays(today, -(days - 1)),
+      today
+    );
 
     const response: ApiResponse = {
       success: true,
-      data: historicalGoals,
-      message: `Retrieved ${historicalGoals.length} historical daily goals`,
+      data: historicalGoals.reverse(),
+      message: `Retrieved ${historicalGoals.length} days of daily goals`,
       timestamp: new Date().toISOString()
     };
 
@@ -181,4 +200,31 @@ router.get("/history", authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
+// GET /api/daily-goals/versions - Every change of the targets and where it came from
+router.get("/versions", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const versions = await EnhancedDailyGoalsService.getVersionHistory(req.user.user_id);
+
+    const response: ApiResponse = {
+      success: true,
+      data: versions,
+      timestamp: new Date().toISOString()
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    console.error("Error fetching goal versions:", error);
+
+    const errorResponse: ApiResponse = {
+      success: false,
+      error: "Failed to fetch goal versions",
+      details: error instanceof Error ? error.message : "Unknown error",
+      timestamp: new Date().toISOString()
+    };
+
+    res.status(500).json(errorResponse);
+  }
+});
+
 export { router as enhancedDailyGoalsRoutes };
\ No newline at end of file
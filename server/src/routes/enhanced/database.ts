@@ -139,42 +139,4 @@ router.get("/cron-status", authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
-// POST /api/database/emergency-recovery - Emergency database recovery
-router.post("/emergency-recovery", authenticateToken, async (req: AuthRequest, res) => {
-  try {
-    // Only allow admin users to trigger emergency recovery
-    if (req.user.subscription_type !== 'GOLD') {
-      return res.status(403).json({
-        success: false,
-        error: "Insufficient permissions for emergency recovery"
-      });
-    }
-
-    console.log("🚨 Emergency database recovery triggered by user:", req.user.user_id);
-
-    const recovered = await DatabaseOptimizationService.emergencyRecovery();
-
-    const response: ApiResponse = {
-      success: recovered,
-      data: { recovered },
-      message: recovered ? "Emergency recovery completed successfully" : "Emergency recovery failed",
-      timestamp: new Date().toISOString()
-    };
-
-    res.status(recovered ? 200 : 500).json(response);
-
-  } catch (error) {
-    console.error("Error in emergency recovery:", error);
-    
-    const errorResponse: ApiResponse = {
-      success: false,
-      error: "Emergency recovery failed",
-      details: error instanceof Error ? error.message : "Unknown error",
-      timestamp: new Date().toISOString()
-    };
-
-    res.status(500).json(errorResponse);
-  }
-});
-
 export { router as enhancedDatabaseRoutes };
\ No newline at end of file
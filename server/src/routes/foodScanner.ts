@@ -1,6 +1,10 @@
 import { Router, Response } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { requireAiQuota } from "../middleware/aiQuota";
 import { FoodScannerService } from "../services/foodScanner";
+import { ProductCompatibilityService } from "../services/products/compatibility";
+import { ProductOverrideService } from "../services/products/overrides";
+import { resolveProductQuantity } from "../utils/servingSize";
 import { z } from "zod";
 
 const router = Router();
@@ -19,30 +23,100 @@ const imageSchema = z
     message: "Either image or imageBase64 is required",
   });
 
-const addToMealSchema = z.object({
-  productData: z.object({
-    name: z.string(),
-    brand: z.string().optional(),
-    category: z.string(),
-    nutrition_per_100g: z.object({
-      calories: z.number(),
-      protein: z.number(),
-      carbs: z.number(),
-      fat: z.number(),
-      fiber: z.number().optional(),
-      sugar: z.number().optional(),
-      sodium: z.number().optional(),
-    }),
-    ingredients: z.array(z.string()),
-    allergens: z.array(z.string()),
-    labels: z.array(z.string()),
-    health_score: z.number().optional(),
-    barcode: z.string().optional(),
+const productDataSchema = z.object({
+  name: z.string(),
+  brand: z.string().optional(),
+  category: z.string(),
+  nutrition_per_100g: z.object({
+    calories: z.number(),
+    protein: z.number(),
+    carbs: z.number(),
+    fat: z.number(),
+    fiber: z.number().optional(),
+    sugar: z.number().optional(),
+    sodium: z.number().optional(),
+    saturated_fat: z.number().optional(),
+    trans_fat: z.number().optional(),
+    cholesterol: z.number().optional(),
+    potassium: z.number().optional(),
+    calcium: z.number().optional(),
+    iron: z.number().optional(),
+    vitamin_c: z.number().optional(),
+    vitamin_d: z.number().optional(),
   }),
-  quantity: z.number().min(1, "Quantity must be at least 1 gram"),
+  ingredients: z.array(z.string()),
+  allergens: z.array(z.string()),
+  traces: z.array(z.string()).default([]),
+  labels: z.array(z.string()),
+  health_score: z.number().optional(),
+  barcode: z.string().optional(),
+  image_url: z.string().optional(),
+  serving_size: z.string().optional(),
+  servings_per_container: z.number().positive().optional(),
+});
+
+const addToMealSchema = z.object({
+  productData: productDataSchema,
+  quantity: z.number().positive("Quantity must be greater than zero"),
+  // Grams unless stated; "serving" and household units use the label's serving size
+  unit: z
+    .enum([
+      "g",
+      "kg",
+      "oz",
+      "lb",
+      "ml",
+      "l",
+      "fl_oz",
+      "serving",
+      "container",
+      "tbsp",
+      "tsp",
+      "cup",
+      "piece",
+      "slice",
+    ])
+    .default("g"),
   mealTiming: z.string().optional().default("SNACK"),
+  scanId: z.string().optional(),
+});
+
+const compatibilitySchema = z.object({
+  productData: productDataSchema,
+  language: z.enum(["english", "hebrew"]).default("hebrew"),
 });
 
+const overrideSchema = z
+  .object({
+    product_name: z.string().min(1).optional(),
+    brand: z.string().optional(),
+    nutrition_per_100g: z
+      .object({
+        calories: z.number().min(0),
+        protein: z.number().min(0),
+        carbs: z.number().min(0),
+        fat: z.number().min(0),
+        fiber: z.number().min(0),
+        sugar: z.number().min(0),
+        sodium: z.number().min(0),
+        saturated_fat: z.number().min(0),
+        trans_fat: z.number().min(0),
+        cholesterol: z.number().min(0),
+        potassium: z.number().min(0),
+        calcium: z.number().min(0),
+        iron: z.number().min(0),
+        vitamin_c: z.number().min(0),
+        vitamin_d: z.number().min(0),
+      })
+      .partial()
+      .optional(),
+    serving_size: z.string().min(1).optional(),
+    servings_per_container: z.number().positive().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "At least one field to override is required",
+  });
+
 // Scan barcode endpoint
 router.post(
   "/barcode",
@@ -91,6 +165,7 @@ router.post(
 router.post(
   "/image",
   authenticateToken,
+  requireAiQuota("food_scan"),
   async (req: AuthRequest, res: Response) => {
     try {
       const userId = req.user?.user_id;
@@ -160,13 +235,28 @@ router.post(
         });
       }
 
-      const { productData, quantity, mealTiming } = validationResult.data;
+      const { productData, quantity, unit, mealTiming, scanId } =
+        validationResult.data;
+
+      const resolvedQuantity = resolveProductQuantity(productData, {
+        amount: quantity,
+        unit,
+      });
+
+      if (!resolvedQuantity) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid quantity",
+          message: `The product's serving size does not define "${unit}", please log it by weight or volume`,
+        });
+      }
 
       const meal = await FoodScannerService.addProductToMealLog(
         userId,
         productData,
-        quantity,
-        mealTiming
+        resolvedQuantity,
+        mealTiming,
+        scanId
       );
 
       res.json({
@@ -184,6 +274,51 @@ router.post(
   }
 );
 
+// Check a product against the user's allergies, diet, kashrut and dislikes
+router.post(
+  "/compatibility",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      const validationResult = compatibilitySchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid product data",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const { productData, language } = validationResult.data;
+      const compatibility = await ProductCompatibilityService.checkForUser(
+        productData,
+        userId,
+        language
+      );
+
+      res.json({
+        success: true,
+        data: compatibility,
+      });
+    } catch (error) {
+      console.error("❌ Compatibility check error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to check product compatibility",
+      });
+    }
+  }
+);
+
 // Get scan history
 router.get(
   "/history",
@@ -214,4 +349,80 @@ router.get(
   }
 );
 
+// Save the user's own corrections for a catalog product
+router.put(
+  "/products/:barcode/override",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      const validationResult = overrideSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid product override",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const override = await ProductOverrideService.setOverride(
+        userId,
+        req.params.barcode,
+        validationResult.data
+      );
+
+      res.json({
+        success: true,
+        data: override,
+      });
+    } catch (error) {
+      console.error("❌ Save product override error:", error);
+      const notFound =
+        error instanceof Error && error.message === "Product not found";
+      res.status(notFound ? 404 : 500).json({
+        success: false,
+        error: notFound ? "Product not found" : "Failed to save product override",
+      });
+    }
+  }
+);
+
+// Drop the user's corrections and go back to the catalog values
+router.delete(
+  "/products/:barcode/override",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user?.user_id;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
+
+      await ProductOverrideService.deleteOverride(userId, req.params.barcode);
+
+      res.json({
+        success: true,
+        message: "Product override removed",
+      });
+    } catch (error) {
+      console.error("❌ Delete product override error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to delete product override",
+      });
+    }
+  }
+);
+
 export default router;
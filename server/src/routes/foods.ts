@@ -0,0 +1,110 @@
+import { Router } from "express";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { MealComposerService } from "../services/foods/compose";
+import { FoodSearchService } from "../services/foods/search";
+import { composeMealSchema, foodSearchQuerySchema } from "../types/foods";
+
+const router = Router();
+
+router.use(authenticateToken);
+
+// Search generic foods by English or Hebrew name, typos allowed
+router.get("/search", async (req: AuthRequest, res) => {
+  try {
+    const validation = foodSearchQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid query parameters",
+        details: validation.error.errors,
+      });
+    }
+
+    const foods = await FoodSearchService.search(validation.data.q, validation.data.limit);
+
+    res.json({
+      success: true,
+      data: foods,
+    });
+  } catch (error) {
+    console.error("💥 Food search error:", error);
+    const message = error instanceof Error ? error.message : "Failed to search foods";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Log a meal from foods and gram amounts, with nutrients from the food tables
+router.post("/compose", async (req: AuthRequest, res) => {
+  try {
+    const validation = composeMealSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid meal",
+        details: validation.error.errors,
+      });
+    }
+
+    const meal = await MealComposerService.composeMeal(req.user.user_id, validation.data);
+
+    if (!meal) {
+      return res.status(404).json({
+        success: false,
+        error: "Food not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      data: meal,
+    });
+  } catch (error) {
+    console.error("💥 Compose meal error:", error);
+    const message = error instanceof Error ? error.message : "Failed to log meal";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+router.get("/:foodId", async (req: AuthRequest, res) => {
+  try {
+    const foodId = Number(req.params.foodId);
+
+    if (!Number.isInteger(foodId) || foodId <= 0) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid food id",
+      });
+    }
+
+    const food = await FoodSearchService.getFood(foodId);
+
+    if (!food) {
+      return res.status(404).json({
+        success: false,
+        error: "Food not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      data: food,
+    });
+  } catch (error) {
+    console.error("💥 Get food error:", error);
+    const message = error instanceof Error ? error.message : "Failed to fetch food";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+export { router as foodRoutes };
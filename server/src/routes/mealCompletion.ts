@@ -1,6 +1,11 @@
 import express, { Response } from "express";
 import { PrismaClient } from "@prisma/client";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import {
+  getLocalDate,
+  getStartOfLocalDay,
+  resolveTimeZone,
+} from "../utils/dayBoundary";
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -197,9 +202,13 @@ router.get(
         dateFilter.setFullYear(dateFilter.getFullYear() - 1);
       }
 
+      // Periods start at midnight of the user's local day
+      const timeZone = resolveTimeZone(req.user.timezone);
       const where: any = {
         user_id: userId,
-        completed_date: { gte: dateFilter },
+        completed_date: {
+          gte: getStartOfLocalDay(getLocalDate(timeZone, dateFilter), timeZone),
+        },
       };
       if (plan_id) where.plan_id = plan_id;
       if (menu_id) where.menu_id = menu_id;
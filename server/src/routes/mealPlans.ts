@@ -1,7 +1,9 @@
 import { Router, Response } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { requireAiQuota } from "../middleware/aiQuota";
 import { prisma } from "../lib/database";
 import { MealPlanService } from "../services/mealPlans";
+import { EnhancedDailyGoalsService } from "../services/database/dailyGoals";
 import { MealTiming } from "@prisma/client";
 
 const router = Router();
@@ -611,7 +613,7 @@ router.get("/current", authenticateToken, async (req: AuthRequest, res) => {
 });
 
 // Create comprehensive menu
-router.post("/create-comprehensive", authenticateToken, async (req, res) => {
+router.post("/create-comprehensive", authenticateToken, requireAiQuota("meal_plan_generation"), async (req, res) => {
   try {
     console.log("🎨 Creating comprehensive menu for user:", req.user?.user_id);
     console.log("📝 Config:", req.body);
@@ -742,6 +744,9 @@ router.post("/:planId/activate", authenticateToken, async (req, res) => {
       },
     });
 
+    // The plan's daily targets become the user's goals from today
+    await EnhancedDailyGoalsService.applyMealPlanGoals(user_id, mealPlan);
+
     console.log("✅ Menu activated successfully");
     res.json({
       success: true,
@@ -792,7 +797,7 @@ router.get("/active-status", authenticateToken, async (req, res) => {
 });
 
 // Create new meal plan
-router.post("/create", authenticateToken, async (req, res) => {
+router.post("/create", authenticateToken, requireAiQuota("meal_plan_generation"), async (req, res) => {
   try {
     console.log("🤖 Creating meal plan for user:", req.user?.user_id);
     console.log("📝 Config:", req.body);
@@ -0,0 +1,90 @@
+import { Router } from "express";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { MicronutrientService } from "../services/micronutrients/tracking";
+import { micronutrientKeySchema, micronutrientTargetsSchema } from "../types/micronutrients";
+
+const router = Router();
+
+router.use(authenticateToken);
+
+// The user's micronutrient targets and upper limits, and what they are based on
+router.get("/targets", async (req: AuthRequest, res) => {
+  try {
+    const targets = await MicronutrientService.getTargets(req.user.user_id);
+
+    res.json({
+      success: true,
+      data: targets,
+    });
+  } catch (error) {
+    console.error("💥 Get micronutrient targets error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to fetch micronutrient targets";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Set custom targets or upper limits for some nutrients
+router.put("/targets", async (req: AuthRequest, res) => {
+  try {
+    const validation = micronutrientTargetsSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid micronutrient targets",
+        details: validation.error.errors,
+      });
+    }
+
+    const targets = await MicronutrientService.setTargets(req.user.user_id, validation.data);
+
+    res.json({
+      success: true,
+      data: targets,
+    });
+  } catch (error) {
+    console.error("💥 Update micronutrient targets error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to update micronutrient targets";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Put a nutrient back on the reference values
+router.delete("/targets/:nutrient", async (req: AuthRequest, res) => {
+  try {
+    const validation = micronutrientKeySchema.safeParse(req.params.nutrient);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Unknown nutrient",
+        details: validation.error.errors,
+      });
+    }
+
+    const targets = await MicronutrientService.resetTarget(req.user.user_id, validation.data);
+
+    res.json({
+      success: true,
+      data: targets,
+    });
+  } catch (error) {
+    console.error("💥 Reset micronutrient target error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to reset micronutrient target";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+export { router as micronutrientRoutes };
@@ -1,16 +1,34 @@
 import { Router, Response } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { requireAiQuota } from "../middleware/aiQuota";
 import { prisma } from "../lib/database";
 import { z } from "zod";
-import { mealAnalysisSchema, mealUpdateSchema } from "../types/nutrition";
+import {
+  MealAnalysisJobDetails,
+  mealAnalysisSchema,
+  mealUpdateSchema,
+} from "../types/nutrition";
 import { NutritionService } from "../services/nutrition";
+import { MealAnalysisJobService } from "../services/analysisJobs";
 import { AchievementService } from "../services/achievements";
+import {
+  addDays,
+  getDayRange,
+  getLocalDate,
+  isDateString,
+  resolveTimeZone,
+  toDayKey,
+} from "../utils/dayBoundary";
 
 const router = Router();
 
 const waterIntakeSchema = z.object({
   cups_consumed: z.number().min(0).max(25),
-  date: z.string().optional(),
+  // A local date (YYYY-MM-DD) or a timestamp, defaults to the user's today
+  date: z
+    .string()
+    .refine((value) => !isNaN(new Date(value).getTime()), "Invalid date")
+    .optional(),
 });
 
 // Track water intake
@@ -41,19 +59,19 @@ router.post(
       }
 
       const { cups_consumed, date } = validationResult.data;
-      const trackingDate = date ? new Date(date) : new Date();
+      const timeZone = resolveTimeZone(req.user.timezone);
+      const trackingDate =
+        date && isDateString(date)
+          ? date
+          : getLocalDate(timeZone, date ? new Date(date) : new Date());
 
       // Limit water intake to maximum goal (10 cups/2500ml)
       const maxCups = 10;
       const limitedCups = Math.min(cups_consumed, maxCups);
       const limitedMilliliters = limitedCups * 250;
 
-      // Set date to start of day for consistent comparison
-      const startOfDay = new Date(
-        trackingDate.getFullYear(),
-        trackingDate.getMonth(),
-        trackingDate.getDate()
-      );
+      // Rows are keyed by the user's local date
+      const startOfDay = toDayKey(trackingDate);
 
       // Use transaction with proper error handling for race conditions
       let waterRecord;
@@ -158,29 +176,15 @@ router.post(
 
         // Check for complete day if water goal is met
         if (waterGoalComplete) {
-          const today = new Date();
-          const startOfDayToday = new Date(
-            today.getFullYear(),
-            today.getMonth(),
-            today.getDate()
-          );
-          const endOfDayToday = new Date(
-            today.getFullYear(),
-            today.getMonth(),
-            today.getDate(),
-            23,
-            59,
-            59,
-            999
-          );
+          const { start, end } = getDayRange(getLocalDate(timeZone), timeZone);
 
           // Check if calorie goal is also complete
           const todayMeals = await prisma.meal.findMany({
             where: {
               user_id: userId,
               created_at: {
-                gte: startOfDayToday,
-                lte: endOfDayToday,
+                gte: start,
+                lt: end,
               },
             },
           });
@@ -273,17 +277,15 @@ router.get(
     }
 
     try {
-      const trackingDate = new Date(date);
-      const startOfDay = new Date(
-        trackingDate.getFullYear(),
-        trackingDate.getMonth(),
-        trackingDate.getDate()
-      );
-      const endOfDay = new Date(
-        trackingDate.getFullYear(),
-        trackingDate.getMonth(),
-        trackingDate.getDate() + 1
-      );
+      if (isNaN(new Date(date).getTime())) {
+        return res.status(400).json({ error: "Invalid date" });
+      }
+
+      const localDate = isDateString(date)
+        ? date
+        : getLocalDate(resolveTimeZone(req.user.timezone), new Date(date));
+      const startOfDay = toDayKey(localDate);
+      const endOfDay = toDayKey(addDays(localDate, 1));
 
       const waterRecord = await prisma.waterIntake.findFirst({
         where: {
@@ -309,8 +311,8 @@ router.get(
 // Apply auth middleware to all routes
 // router.use(authenticateToken); //commented to apply auth each route
 
-// Analyze meal endpoint
-router.post("/analyze", authenticateToken, async (req: AuthRequest, res) => {
+// Queue a meal image for analysis; the result arrives through the job
+router.post("/analyze", authenticateToken, requireAiQuota("meal_analysis"), async (req: AuthRequest, res) => {
   try {
     console.log("Analyze meal request received");
     console.log("Request body keys:", Object.keys(req.body));
@@ -403,26 +405,23 @@ router.post("/analyze", authenticateToken, async (req: AuthRequest, res) => {
       mealPeriod,
     });
 
-    const result = await NutritionService.analyzeMeal(req.user.user_id, {
+    const job = await MealAnalysisJobService.enqueue(req.user.user_id, {
       imageBase64: validatedData.imageBase64,
       language: validatedData.language,
-      date: validatedData.date || new Date().toISOString().split("T")[0],
+      date:
+        validatedData.date ||
+        getLocalDate(resolveTimeZone(req.user.timezone)),
       updateText: validatedData.updateText,
       editedIngredients: validatedData.editedIngredients,
       mealType: validatedData.mealType,
       mealPeriod: validatedData.mealPeriod,
-    });
+    }, req.ai_usage_id);
 
-    console.log("✅ Analysis completed successfully");
-    console.log("📊 Result summary:", {
-      success: result.success,
-      mealName: result.data?.meal_name,
-      calories: result.data?.calories,
-      ingredientsCount: result.data?.ingredients?.length || 0,
+    console.log("Analysis job queued:", job.job_id);
+    res.status(202).json({
+      success: true,
+      data: job,
     });
-
-    console.log("Analysis completed successfully");
-    res.json(result);
   } catch (error) {
     console.error("Analyze meal error:", error);
     const message =
@@ -434,8 +433,83 @@ router.post("/analyze", authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
+// Server-sent events with every status change of the user's analysis jobs
+router.get(
+  "/analyze/events",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user.user_id;
+
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      // no-transform keeps the compression middleware from buffering events
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+
+    const send = (job: MealAnalysisJobDetails) => {
+      res.write(`event: analysis\ndata: ${JSON.stringify(job)}\n\n`);
+    };
+
+    const unsubscribe = MealAnalysisJobService.subscribe(userId, send);
+    const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), 25000);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+
+    // The job may have finished before the app connected
+    const jobId = typeof req.query.job_id === "string" ? req.query.job_id : null;
+    if (jobId) {
+      try {
+        const job = await MealAnalysisJobService.getJob(userId, jobId);
+        if (job) send(job);
+      } catch (error) {
+        console.error("💥 Analysis events error:", error);
+      }
+    }
+  }
+);
+
+// Poll an analysis job
+router.get(
+  "/analyze/:jobId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const job = await MealAnalysisJobService.getJob(
+        req.user.user_id,
+        req.params.jobId
+      );
+
+      if (!job) {
+        return res.status(404).json({
+          success: false,
+          error: "Analysis job not found",
+        });
+      }
+
+      res.json({
+        success: true,
+        data: job,
+      });
+    } catch (error) {
+      console.error("💥 Get analysis job error:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to fetch analysis job";
+      res.status(500).json({
+        success: false,
+        error: message,
+      });
+    }
+  }
+);
+
 // Update meal endpoint
-router.put("/update", authenticateToken, async (req: AuthRequest, res) => {
+router.put("/update", authenticateToken, requireAiQuota("meal_update"), async (req: AuthRequest, res) => {
   try {
     console.log("Update meal request received");
 
@@ -1107,9 +1181,11 @@ router.get(
       let startDate = new Date();
 
       switch (period) {
-        case "today":
-          startDate.setHours(0, 0, 0, 0);
+        case "today": {
+          const timeZone = resolveTimeZone(req.user.timezone);
+          startDate = getDayRange(getLocalDate(timeZone), timeZone).start;
           break;
+        }
         case "week":
           startDate.setDate(now.getDate() - 7);
           break;
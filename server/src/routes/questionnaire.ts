@@ -2,7 +2,7 @@ import { Router } from "express";
 import { prisma } from "../lib/database";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
 import { questionnaireSchema } from "../types/questionnaire";
-import { DailyGoalsService } from "../services/dailyGoal";
+import { EnhancedDailyGoalsService } from "../services/database/dailyGoals";
 
 const router = Router();
 
@@ -543,12 +543,12 @@ router.post("/", authenticateToken, async (req: AuthRequest, res) => {
 
     console.log("✅ Questionnaire saved successfully");
 
-    // Create or update daily goals based on questionnaire
+    // New goal version based on the questionnaire, effective from today
     try {
-      await DailyGoalsService.createOrUpdateDailyGoals(userId);
-      console.log("✅ Daily goals created/updated successfully");
+      await EnhancedDailyGoalsService.setQuestionnaireGoals(userId);
+      console.log("✅ Daily goals updated successfully");
     } catch (error) {
-      console.log("⚠️ Daily goals creation failed:", error);
+      console.log("⚠️ Daily goals update failed:", error);
     }
 
     // Send response immediately
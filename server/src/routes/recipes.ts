@@ -0,0 +1,264 @@
+import { Router } from "express";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { RecipeService } from "../services/recipes";
+import {
+  logRecipeSchema,
+  recipeSchema,
+  recipeTemplateSchema,
+  scheduleRecipeSchema,
+} from "../types/recipes";
+
+const router = Router();
+
+router.use(authenticateToken);
+
+// List the user's recipes, most recently changed first
+router.get("/", async (req: AuthRequest, res) => {
+  try {
+    const recipes = await RecipeService.listRecipes(req.user.user_id);
+
+    res.json({
+      success: true,
+      data: recipes,
+    });
+  } catch (error) {
+    console.error("💥 Get recipes error:", error);
+    const message = error instanceof Error ? error.message : "Failed to fetch recipes";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+router.post("/", async (req: AuthRequest, res) => {
+  try {
+    const validation = recipeSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid recipe",
+        details: validation.error.errors,
+      });
+    }
+
+    const recipe = await RecipeService.createRecipe(req.user.user_id, validation.data);
+
+    res.status(201).json({
+      success: true,
+      data: recipe,
+    });
+  } catch (error) {
+    console.error("💥 Create recipe error:", error);
+    const message = error instanceof Error ? error.message : "Failed to create recipe";
+    res.status(message === "Ingredient not found" ? 400 : 500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+router.get("/:recipeId", async (req: AuthRequest, res) => {
+  try {
+    const recipe = await RecipeService.getRecipe(req.user.user_id, req.params.recipeId);
+
+    if (!recipe) {
+      return res.status(404).json({
+        success: false,
+        error: "Recipe not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      data: recipe,
+    });
+  } catch (error) {
+    console.error("💥 Get recipe error:", error);
+    const message = error instanceof Error ? error.message : "Failed to fetch recipe";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+router.put("/:recipeId", async (req: AuthRequest, res) => {
+  try {
+    const validation = recipeSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid recipe",
+        details: validation.error.errors,
+      });
+    }
+
+    const recipe = await RecipeService.updateRecipe(
+      req.user.user_id,
+      req.params.recipeId,
+      validation.data
+    );
+
+    if (!recipe) {
+      return res.status(404).json({
+        success: false,
+        error: "Recipe not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      data: recipe,
+    });
+  } catch (error) {
+    console.error("💥 Update recipe error:", error);
+    const message = error instanceof Error ? error.message : "Failed to update recipe";
+    res.status(message === "Ingredient not found" ? 400 : 500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+router.delete("/:recipeId", async (req: AuthRequest, res) => {
+  try {
+    const deleted = await RecipeService.deleteRecipe(req.user.user_id, req.params.recipeId);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: "Recipe not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      message: "Recipe deleted",
+    });
+  } catch (error) {
+    console.error("💥 Delete recipe error:", error);
+    const message = error instanceof Error ? error.message : "Failed to delete recipe";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Log servings of the recipe as a meal
+router.post("/:recipeId/log", async (req: AuthRequest, res) => {
+  try {
+    const validation = logRecipeSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid servings",
+        details: validation.error.errors,
+      });
+    }
+
+    const meal = await RecipeService.logServings(
+      req.user.user_id,
+      req.params.recipeId,
+      validation.data
+    );
+
+    if (!meal) {
+      return res.status(404).json({
+        success: false,
+        error: "Recipe not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      data: meal,
+    });
+  } catch (error) {
+    console.error("💥 Log recipe error:", error);
+    const message = error instanceof Error ? error.message : "Failed to log recipe";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Save one serving of the recipe as a meal template
+router.post("/:recipeId/template", async (req: AuthRequest, res) => {
+  try {
+    const validation = recipeTemplateSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid template",
+        details: validation.error.errors,
+      });
+    }
+
+    const template = await RecipeService.saveAsTemplate(
+      req.user.user_id,
+      req.params.recipeId,
+      validation.data
+    );
+
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        error: "Recipe not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      data: template,
+    });
+  } catch (error) {
+    console.error("💥 Save recipe template error:", error);
+    const message = error instanceof Error ? error.message : "Failed to save meal template";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Put the recipe into a meal plan slot
+router.post("/:recipeId/schedule", async (req: AuthRequest, res) => {
+  try {
+    const validation = scheduleRecipeSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid meal plan slot",
+        details: validation.error.errors,
+      });
+    }
+
+    const schedule = await RecipeService.scheduleInPlan(
+      req.user.user_id,
+      req.params.recipeId,
+      validation.data
+    );
+
+    res.json({
+      success: true,
+      data: schedule,
+    });
+  } catch (error) {
+    console.error("💥 Schedule recipe error:", error);
+    const message = error instanceof Error ? error.message : "Failed to schedule recipe";
+    res.status(message.endsWith("not found") ? 404 : 500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+export { router as recipeRoutes };
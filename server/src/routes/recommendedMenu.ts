@@ -1,7 +1,9 @@
 import { Router } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { requireAiQuota } from "../middleware/aiQuota";
 import { RecommendedMenuService } from "../services/recommendedMenu";
 import { prisma } from "../lib/database";
+import { EnhancedDailyGoalsService } from "../services/database/dailyGoals";
 import { Response } from "express";
 import { $Enums } from "@prisma/client";
 import { JsonValue } from "@prisma/client/runtime/library";
@@ -183,6 +185,7 @@ router.get(
 router.post(
   "/generate-custom",
   authenticateToken,
+  requireAiQuota("menu_generation"),
   async (req: AuthRequest, res: Response) => {
     try {
       const userId = req.user.user_id;
@@ -290,6 +293,7 @@ router.post(
 router.post(
   "/generate",
   authenticateToken,
+  requireAiQuota("menu_generation"),
   async (req: AuthRequest, res: Response) => {
     try {
       const userId = req.user.user_id;
@@ -606,6 +610,7 @@ router.post(
 router.post(
   "/generate-comprehensive",
   authenticateToken,
+  requireAiQuota("menu_generation"),
   async (req: AuthRequest, res: Response) => {
     try {
       const userId = req.user.user_id;
@@ -813,6 +818,9 @@ router.post(
         },
       });
 
+      // The plan's daily targets become the user's goals from today
+      await EnhancedDailyGoalsService.applyMealPlanGoals(userId, mealPlan);
+
       // Create meal templates and schedules from recommended menu meals
       console.log(
         "🔄 Converting recommended meals to meal templates and schedules..."
@@ -992,6 +1000,7 @@ router.post(
 router.post(
   "/generate-with-ingredients",
   authenticateToken,
+  requireAiQuota("menu_generation"),
   async (req: AuthRequest, res: Response) => {
     try {
       const userId = req.user?.user_id;
@@ -4,11 +4,41 @@ import { StatisticsService } from "../services/statistics";
 import { z } from "zod";
 import { AchievementService } from "../services/achievements";
 import { AIRecommendationService } from "../services/aiRecommendations";
+import {
+  getDayRange,
+  isDateString,
+  resolveTimeZone,
+  toDayKey,
+} from "../utils/dayBoundary";
 
 const router = Router();
 
 const periodSchema = z.enum(["today", "week", "month", "custom"]);
 
+const MAX_REPORT_RANGE_DAYS = 366;
+
+const reportQuerySchema = z
+  .object({
+    period: z.enum(["week", "month", "custom"]).default("week"),
+    language: z.enum(["english", "hebrew"]).default("english"),
+    startDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "startDate must be YYYY-MM-DD")
+      .optional(),
+    endDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "endDate must be YYYY-MM-DD")
+      .optional(),
+  })
+  .refine(
+    (query) => query.period !== "custom" || (query.startDate && query.endDate),
+    { message: "startDate and endDate are required for a custom period" }
+  );
+
+const insightsQuerySchema = z.object({
+  days: z.coerce.number().int().min(7).max(90).default(7),
+});
+
 // Get nutrition statistics
 router.get(
   "/statistics",
@@ -193,15 +223,69 @@ router.get(
     }
 
     try {
-      const pdfBuffer = await StatisticsService.generatePDFReport(userId);
+      const query = reportQuerySchema.parse(req.query);
+
+      let startDate: Date | undefined;
+      let endDate: Date | undefined;
+
+      if (query.period === "custom") {
+        if (!isDateString(query.startDate!) || !isDateString(query.endDate!)) {
+          return res.status(400).json({ error: "Invalid date range" });
+        }
+
+        if (query.startDate! > query.endDate!) {
+          return res
+            .status(400)
+            .json({ error: "startDate must be before endDate" });
+        }
+
+        const rangeDays =
+          (toDayKey(query.endDate!).getTime() - toDayKey(query.startDate!).getTime()) /
+          (1000 * 60 * 60 * 24);
+        if (rangeDays > MAX_REPORT_RANGE_DAYS) {
+          return res.status(400).json({
+            error: `Report range cannot exceed ${MAX_REPORT_RANGE_DAYS} days`,
+          });
+        }
+
+        // The dates are the user's local days
+        const range = getDayRange(
+          query.startDate!,
+          resolveTimeZone(req.user.timezone),
+          query.endDate!
+        );
+        startDate = range.start;
+        // The statistics range includes its end
+        endDate = new Date(range.end.getTime() - 1);
+      }
+
+      const pdfBuffer = await StatisticsService.generatePDFReport(userId, {
+        period: query.period,
+        language: query.language,
+        startDate,
+        endDate,
+      });
+
+      const fileSuffix =
+        query.period === "custom"
+          ? `${query.startDate}_${query.endDate}`
+          : query.period;
 
       res.setHeader("Content-Type", "application/pdf");
       res.setHeader(
         "Content-Disposition",
-        "attachment; filename=nutrition-report.pdf"
+        `attachment; filename=nutrition-report-${fileSuffix}.pdf`
       );
+      res.setHeader("Content-Length", pdfBuffer.length);
       res.send(pdfBuffer);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid report parameters",
+          details: error.errors,
+        });
+      }
+
       console.error("Error generating PDF report:", error);
       res.status(500).json({ error: "Failed to generate report" });
     }
@@ -220,9 +304,17 @@ router.get(
     }
 
     try {
-      const insights = await StatisticsService.generateInsights(userId);
+      const days = insightsQuerySchema.parse(req.query).days;
+      const insights = await StatisticsService.generateInsights(userId, days);
       res.json(insights);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid insights parameters",
+          details: error.errors,
+        });
+      }
+
       console.error("Error generating insights:", error);
       res.status(500).json({ error: "Failed to generate insights" });
     }
@@ -3,6 +3,16 @@ import { prisma } from "../lib/database";
 import { updateProfileSchema } from "../types/auth";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
 import { StatisticsService } from "../services/statistics";
+import { AiQuotaService } from "../services/aiQuota";
+import { AccountLifecycleService } from "../services/accountLifecycle";
+import { BillingService } from "../services/billing/subscriptions";
+import { aiUsageQuerySchema } from "../types/aiQuota";
+import {
+  addDays,
+  getLocalDate,
+  resolveTimeZone,
+  toDayKey,
+} from "../utils/dayBoundary";
 import { z } from "zod";
 
 const avatarUploadSchema = z.object({
@@ -28,6 +38,8 @@ router.put(
           avatar_url: true,
           subscription_type: true,
           birth_date: true,
+          timezone: true,
+          locale: true,
           ai_requests_count: true,
           ai_requests_reset_at: true,
           created_at: true,
@@ -121,61 +133,66 @@ router.post("/avatar", authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
-// src/routes/user.ts
-router.put(
-  "/subscription",
+router.get(
+  "/subscription-info",
   authenticateToken,
   async (req: AuthRequest, res) => {
     try {
-      const userId = req.user.user_id;
-      const { subscription_type } = req.body;
+      const quota = await AiQuotaService.getStatus(req.user.user_id);
 
-      if (!["FREE", "PREMIUM", "GOLD"].includes(subscription_type)) {
-        return res
-          .status(400)
-          .json({ success: false, error: "Invalid subscription type" });
-      }
-
-      await prisma.user.update({
-        where: { user_id: userId },
-        data: { subscription_type },
+      res.json({
+        success: true,
+        subscription: {
+          name: quota.name,
+          // -1 is unlimited
+          dailyRequests: quota.limit ?? -1,
+          currentRequests: quota.used,
+          remainingRequests: quota.remaining,
+          resetAt: quota.reset_at,
+        },
       });
-
-      return res.json({ success: true, message: "Subscription updated" });
     } catch (error) {
-      console.error("Subscription update error:", error);
-      return res
-        .status(500)
-        .json({ success: false, error: "Failed to update subscription" });
+      console.error("💥 Subscription info error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch subscription info",
+      });
     }
   }
 );
 
-router.get(
-  "/subscription-info",
-  authenticateToken,
-  async (req: AuthRequest, res) => {
-    const subscriptionInfo = {
-      FREE: { dailyRequests: 2, name: "Free Plan" },
-      BASIC: { dailyRequests: 20, name: "Basic Plan" },
-      PREMIUM: { dailyRequests: 50, name: "Premium Plan" },
-    };
+// AI usage per local day and feature
+router.get("/ai-usage", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const validation = aiUsageQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid query parameters",
+        details: validation.error.errors,
+      });
+    }
 
-    const userSubscriptionType = req.user.subscription_type;
-    const info =
-      subscriptionInfo[userSubscriptionType as keyof typeof subscriptionInfo] ||
-      subscriptionInfo.FREE;
+    const [quota, usage] = await Promise.all([
+      AiQuotaService.getStatus(req.user.user_id),
+      AiQuotaService.getUsageReport(req.user.user_id, validation.data.days),
+    ]);
 
     res.json({
       success: true,
-      subscription: {
-        ...info,
-        currentRequests: req.user.ai_requests_count,
-        resetAt: req.user.ai_requests_reset_at,
-      },
+      data: { quota, usage },
+    });
+  } catch (error) {
+    console.error("💥 AI usage error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to fetch AI usage";
+    res.status(500).json({
+      success: false,
+      error: message,
     });
   }
-);
+});
 
 // NEW ENDPOINT: Get global nutritional statistics
 router.get(
@@ -276,85 +293,31 @@ router.patch(
   }
 );
 
-// DELETE USER ENDPOINT (Permanent deletion with related data cleanup)
+// DELETE USER ENDPOINT (Schedules deletion; restorable within the grace window)
 router.delete(
   "/delete",
   authenticateToken,
   async (req: AuthRequest, res, next) => {
     try {
-      console.log(
-        "🗑️ Permanent delete user request for user:",
-        req.user.user_id
-      );
-
-      // Use a transaction to ensure all deletions succeed or fail together
-      await prisma.$transaction(async (tx) => {
-        // Delete all related data first (based on common nutrition app tables)
-
-        // Delete nutrition logs/entries
-        await tx.connectedDevice.deleteMany({
-          where: { user_id: req.user.user_id },
-        });
-
-        // Delete meal plans
-        await tx.userMealPlan.deleteMany({
-          where: { user_id: req.user.user_id },
-        });
-
-        // Delete user goals/targets
-        await tx.dailyActivitySummary.deleteMany({
-          where: { user_id: req.user.user_id },
-        });
-
-        // Delete user preferences/settings
-        await tx.userMealPreference.deleteMany({
-          where: { user_id: req.user.user_id },
-        });
-
-        // Delete user recipes
-        await tx.meal.deleteMany({
-          where: { user_id: req.user.user_id },
-        });
+      console.log("🗑️ Delete user request for user:", req.user.user_id);
 
-        // Delete user workouts (if applicable)
-        // await tx.mealPlanSchedule.deleteMany({
-        //   where: { user_id: req.user.user_id },
-        // });
-
-        // Delete user progress tracking
-        await tx.userQuestionnaire.deleteMany({
-          where: { user_id: req.user.user_id },
-        });
-
-        // Delete user notifications
-        await tx.shoppingList.deleteMany({
-          where: { user_id: req.user.user_id },
-        });
-
-        // Delete user sessions/tokens
-        await tx.nutritionPlan.deleteMany({
-          where: { user_id: req.user.user_id },
-        });
-
-        // Delete user subscriptions/payments (if applicable)
-        await tx.subscriptionPayment.deleteMany({
-          where: { user_id: req.user.user_id },
-        });
+      await BillingService.cancel(req.user.user_id);
+      const summary = await AccountLifecycleService.scheduleDeletion(
+        req.user.user_id,
+        "user_request"
+      );
 
-        // Finally, delete the user
-        await tx.user.delete({
-          where: { user_id: req.user.user_id },
+      if (!summary) {
+        return res.status(404).json({
+          success: false,
+          error: "User not found",
         });
-
-        console.log(
-          "✅ Successfully deleted user and all related data:",
-          req.user.user_id
-        );
-      });
+      }
 
       res.json({
         success: true,
-        message: "User account and all related data permanently deleted",
+        message: "User account scheduled for deletion",
+        data: summary,
       });
     } catch (error) {
       console.error("💥 Delete user error:", error);
@@ -481,10 +444,9 @@ router.get("/stats", authenticateToken, async (req: AuthRequest, res) => {
 
     try {
       // Get today's water intake with timeout
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const tomorrow = new Date(today);
-      tomorrow.setDate(tomorrow.getDate() + 1);
+      const todayDate = getLocalDate(resolveTimeZone(req.user.timezone));
+      const today = toDayKey(todayDate);
+      const tomorrow = toDayKey(addDays(todayDate, 1));
 
       const todayWaterIntake = await Promise.race([
         prisma.waterIntake.aggregate({
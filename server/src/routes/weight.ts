@@ -0,0 +1,201 @@
+import { Router } from "express";
+import { WeightService } from "../services/weight";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import {
+  weightEntrySchema,
+  weightEntryUpdateSchema,
+  weightRangeQuerySchema,
+} from "../types/weight";
+import { addDays, getLocalDate, resolveTimeZone } from "../utils/dayBoundary";
+
+const router = Router();
+
+router.use(authenticateToken);
+
+// The last `days` local dates, ending with the user's today
+function getRangeEndingToday(req: AuthRequest, days: number) {
+  const endDate = getLocalDate(resolveTimeZone(req.user.timezone));
+  return { startDate: addDays(endDate, -(days - 1)), endDate };
+}
+
+// List weigh-ins, newest first
+router.get("/entries", async (req: AuthRequest, res) => {
+  try {
+    const validation = weightRangeQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid query parameters",
+        details: validation.error.errors,
+      });
+    }
+
+    const { startDate, endDate } = getRangeEndingToday(req, validation.data.days);
+    const entries = await WeightService.getEntries(req.user.user_id, startDate, endDate);
+
+    res.json({
+      success: true,
+      data: entries,
+    });
+  } catch (error) {
+    console.error("💥 Get weight entries error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to fetch weight entries";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Log a manual weigh-in
+router.post("/entries", async (req: AuthRequest, res) => {
+  try {
+    const validation = weightEntrySchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid weigh-in",
+        details: validation.error.errors,
+      });
+    }
+
+    const entry = await WeightService.addEntry(req.user.user_id, validation.data);
+
+    res.json({
+      success: true,
+      data: entry,
+    });
+  } catch (error) {
+    console.error("💥 Add weight entry error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to add weight entry";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Correct a weigh-in
+router.put("/entries/:entryId", async (req: AuthRequest, res) => {
+  try {
+    const validation = weightEntryUpdateSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid weigh-in",
+        details: validation.error.errors,
+      });
+    }
+
+    const entry = await WeightService.updateEntry(
+      req.user.user_id,
+      req.params.entryId,
+      validation.data
+    );
+
+    if (!entry) {
+      return res.status(404).json({
+        success: false,
+        error: "Weigh-in not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      data: entry,
+    });
+  } catch (error) {
+    console.error("💥 Update weight entry error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to update weight entry";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Delete a weigh-in
+router.delete("/entries/:entryId", async (req: AuthRequest, res) => {
+  try {
+    const deleted = await WeightService.deleteEntry(req.user.user_id, req.params.entryId);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: "Weigh-in not found",
+      });
+    }
+
+    res.json({
+      success: true,
+      message: "Weigh-in deleted successfully",
+    });
+  } catch (error) {
+    console.error("💥 Delete weight entry error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to delete weight entry";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Daily weights with trend, summary and projected goal date
+router.get("/timeline", async (req: AuthRequest, res) => {
+  try {
+    const validation = weightRangeQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid query parameters",
+        details: validation.error.errors,
+      });
+    }
+
+    const { startDate, endDate } = getRangeEndingToday(req, validation.data.days);
+    const timeline = await WeightService.getTimeline(req.user.user_id, startDate, endDate);
+
+    res.json({
+      success: true,
+      data: timeline,
+    });
+  } catch (error) {
+    console.error("💥 Get weight timeline error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to fetch weight timeline";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+// Projected date for reaching the target weight
+router.get("/projection", async (req: AuthRequest, res) => {
+  try {
+    const projection = await WeightService.getProjection(req.user.user_id);
+
+    res.json({
+      success: true,
+      data: projection,
+    });
+  } catch (error) {
+    console.error("💥 Get weight projection error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to project goal weight date";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
+export { router as weightRoutes };
@@ -0,0 +1,42 @@
+import dotenv from "dotenv";
+import { prisma } from "../lib/database";
+import { FoodImportService } from "../services/foods/importer";
+import { FoodImportFormat } from "../types/foods";
+
+dotenv.config();
+
+/**
+ * Imports a food composition table (Ministry of Health CSV or USDA FoodData
+ * Central JSON) into the generic food database.
+ * Usage: npm run foods:import -- <file> [--format=csv|usda] [--source=moh] [--limit=N] [--batch-size=N]
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const filePath = args.find((arg) => !arg.startsWith("--"));
+  const option = (name: string) =>
+    args.find((arg) => arg.startsWith(`--${name}=`))?.split("=")[1];
+
+  if (!filePath) {
+    console.error("Usage: npm run foods:import -- <file> [--format=csv|usda] [--source=name] [--limit=N]");
+    process.exitCode = 1;
+    return;
+  }
+
+  const result = await FoodImportService.importFile(filePath, {
+    format: option("format") as FoodImportFormat | undefined,
+    source: option("source"),
+    limit: option("limit") ? Number(option("limit")) : undefined,
+    batchSize: option("batch-size") ? Number(option("batch-size")) : undefined,
+  });
+
+  if (result.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("💥 Food import failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,41 @@
+import dotenv from "dotenv";
+import { prisma } from "../lib/database";
+import { ProductImportService } from "../services/products/importer";
+import { ProductDumpFormat } from "../types/products";
+
+dotenv.config();
+
+/**
+ * Imports an OpenFoodFacts dump into the product catalog.
+ * Usage: npm run products:import -- <file> [--format=jsonl|csv] [--source=openfoodfacts] [--limit=N] [--batch-size=N]
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const filePath = args.find((arg) => !arg.startsWith("--"));
+  const option = (name: string) =>
+    args.find((arg) => arg.startsWith(`--${name}=`))?.split("=")[1];
+
+  if (!filePath) {
+    console.error("Usage: npm run products:import -- <file> [--format=jsonl|csv] [--source=name] [--limit=N]");
+    process.exitCode = 1;
+    return;
+  }
+
+  const result = await ProductImportService.importFile(filePath, {
+    format: option("format") as ProductDumpFormat | undefined,
+    source: option("source"),
+    limit: option("limit") ? Number(option("limit")) : undefined,
+    batchSize: option("batch-size") ? Number(option("batch-size")) : undefined,
+  });
+
+  if (result.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("💥 Product import failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
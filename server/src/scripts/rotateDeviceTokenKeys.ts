@@ -0,0 +1,25 @@
+import dotenv from "dotenv";
+import { prisma } from "../lib/database";
+import { DeviceService } from "../services/devices";
+
+/**
+ * Re-encrypts all stored device OAuth tokens under TOKEN_ENCRYPTION_ACTIVE_KEY.
+ * Usage: npm run devices:rotate-token-keys
+ */
+dotenv.config();
+
+async function main() {
+  const stats = await DeviceService.rotateTokenEncryption();
+
+  if (stats.failed > 0) {
+    console.error(`⚠️ ${stats.failed} devices could not be rotated, keep the old key configured`);
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("💥 Device token rotation failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,393 @@
+import crypto from "crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  AccountLifecycleSummary,
+  AccountStatus,
+  DeletionReason,
+  LifecycleDurations,
+  LifecycleRunResult,
+  LifecycleTransition,
+} from "../types/account";
+import { resolveTimeZone } from "../utils/dayBoundary";
+import { EmailService } from "./email/outbox";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function readDays(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export const LIFECYCLE_DURATIONS: LifecycleDurations = {
+  trial_days: readDays("ACCOUNT_TRIAL_DAYS", 7),
+  past_due_days: readDays("ACCOUNT_PAST_DUE_DAYS", 3),
+  suspension_days: readDays("ACCOUNT_SUSPENSION_DAYS", 30),
+  deletion_grace_days: readDays("ACCOUNT_DELETION_GRACE_DAYS", 30),
+  reminder_days: readDays("ACCOUNT_REMINDER_DAYS", 3),
+};
+
+type LifecycleUser = Prisma.UserGetPayload<{ include: { billingSubscription: true } }>;
+
+function hashEmail(email: string): string {
+  return crypto.createHash("sha256").update(email.trim().toLowerCase()).digest("hex");
+}
+
+/**
+ * Accounts move TRIAL → ACTIVE → PAST_DUE → SUSPENDED → SCHEDULED_DELETION.
+ * Payments drive the paid states through BillingService; the time-based
+ * steps run here. Nothing is deleted until the deletion grace window of a
+ * scheduled account has passed, and every deletion leaves an audit record.
+ */
+export class AccountLifecycleService {
+  static getTrialEnd(from: Date = new Date()): Date {
+    return new Date(from.getTime() + LIFECYCLE_DURATIONS.trial_days * DAY_MS);
+  }
+
+  static hasAppAccess(status: AccountStatus): boolean {
+    return status !== "SUSPENDED" && status !== "SCHEDULED_DELETION";
+  }
+
+  /**
+   * User fields for moving to a status. Spread into a user update so the
+   * transition is written together with whatever caused it.
+   */
+  static statusUpdate(status: AccountStatus, now: Date = new Date()) {
+    return {
+      account_status: status,
+      status_changed_at: now,
+      lifecycle_reminded_at: null,
+      ...(status !== "SCHEDULED_DELETION" && {
+        deletion_scheduled_at: null,
+        deletion_reason: null,
+      }),
+    };
+  }
+
+  static async getSummary(user_id: string): Promise<AccountLifecycleSummary | null> {
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      include: { billingSubscription: true },
+    });
+    if (!user) return null;
+
+    return this.buildSummary(user);
+  }
+
+  /**
+   * Start the deletion grace window. The account keeps its data and can be
+   * restored until deletion_scheduled_at.
+   */
+  static async scheduleDeletion(
+    user_id: string,
+    reason: DeletionReason
+  ): Promise<AccountLifecycleSummary | null> {
+    const user = await prisma.user.findUnique({ where: { user_id } });
+    if (!user) return null;
+
+    if (user.account_status !== "SCHEDULED_DELETION") {
+      const now = new Date();
+      await prisma.user.update({
+        where: { user_id },
+        data: {
+          ...this.statusUpdate("SCHEDULED_DELETION", now),
+          deletion_scheduled_at: new Date(
+            now.getTime() + LIFECYCLE_DURATIONS.deletion_grace_days * DAY_MS
+          ),
+          deletion_reason: reason,
+        },
+      });
+      console.log(`🗓️ Account ${user_id} scheduled for deletion (${reason})`);
+    }
+
+    return this.getSummary(user_id);
+  }
+
+  /**
+   * Undo a scheduled deletion while its grace window is open. The account
+   * goes back to the status its plan and trial call for.
+   */
+  static async restore(user_id: string): Promise<AccountLifecycleSummary | null> {
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      include: { billingSubscription: true },
+    });
+    if (!user) return null;
+
+    if (user.account_status !== "SCHEDULED_DELETION") {
+      throw new Error("Account is not scheduled for deletion");
+    }
+    const now = new Date();
+    if (user.deletion_scheduled_at && user.deletion_scheduled_at < now) {
+      throw new Error("Restore window has passed");
+    }
+
+    const status = this.getStandingStatus(user, now);
+    await prisma.user.update({
+      where: { user_id },
+      data: this.statusUpdate(status, now),
+    });
+
+    console.log(`♻️ Account ${user_id} restored as ${status}`);
+    return this.getSummary(user_id);
+  }
+
+  /**
+   * One pass of the time-based transitions, then the reminders for the
+   * transitions coming up next
+   */
+  static async runLifecycle(): Promise<LifecycleRunResult> {
+    const now = new Date();
+
+    // A trial that was paid for is already ACTIVE; this catches the rest
+    const paidTrials = await prisma.user.updateMany({
+      where: { account_status: "TRIAL", trial_ends_at: { lt: now }, subscription_type: { not: "FREE" } },
+      data: this.statusUpdate("ACTIVE", now),
+    });
+    const endedTrials = await prisma.user.updateMany({
+      where: { account_status: "TRIAL", trial_ends_at: { lt: now }, subscription_type: "FREE" },
+      data: this.statusUpdate("SUSPENDED", now),
+    });
+
+    const scheduled = await prisma.user.updateMany({
+      where: {
+        account_status: "SUSPENDED",
+        status_changed_at: {
+          lt: new Date(now.getTime() - LIFECYCLE_DURATIONS.suspension_days * DAY_MS),
+        },
+      },
+      data: {
+        ...this.statusUpdate("SCHEDULED_DELETION", now),
+        deletion_scheduled_at: new Date(
+          now.getTime() + LIFECYCLE_DURATIONS.deletion_grace_days * DAY_MS
+        ),
+        deletion_reason: "inactivity",
+      },
+    });
+
+    const due = await prisma.user.findMany({
+      where: { account_status: "SCHEDULED_DELETION", deletion_scheduled_at: { lt: now } },
+      select: { user_id: true },
+    });
+    let purged = 0;
+    for (const { user_id } of due) {
+      try {
+        await this.deleteAccount(user_id);
+        purged++;
+      } catch (error) {
+        console.error(`❌ Failed to delete account ${user_id}:`, error);
+      }
+    }
+
+    const reminded = await this.sendReminders(now);
+
+    const result = {
+      reminded,
+      suspended: endedTrials.count,
+      scheduled: scheduled.count,
+      purged,
+    };
+    console.log(
+      `🔄 Account lifecycle: ${paidTrials.count} trials activated, ${result.suspended} suspended, ${result.scheduled} scheduled for deletion, ${result.purged} deleted, ${result.reminded} reminded`
+    );
+    return result;
+  }
+
+  /**
+   * Delete a user and all of their data, leaving an audit record with the
+   * row count per table. Returns false when the user doesn't exist.
+   */
+  static async deleteAccount(user_id: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({ where: { user_id } });
+    if (!user) return false;
+
+    const where = { where: { user_id } };
+
+    await prisma.$transaction(async (tx) => {
+      // Children before parents to respect foreign keys
+      const deleted: Record<string, number> = {
+        sessions: (await tx.session.deleteMany(where)).count,
+        questionnaires: (await tx.userQuestionnaire.deleteMany(where)).count,
+        meal_preferences: (await tx.userMealPreference.deleteMany(where)).count,
+        nutrition_plans: (await tx.nutritionPlan.deleteMany(where)).count,
+        connected_devices: (await tx.connectedDevice.deleteMany(where)).count,
+        activity_summaries: (await tx.dailyActivitySummary.deleteMany(where)).count,
+        activity_source_priorities: (await tx.activitySourcePriority.deleteMany(where)).count,
+        weight_entries: (await tx.weightEntry.deleteMany(where)).count,
+        tdee_estimates: (await tx.tdeeEstimate.deleteMany(where)).count,
+        calendar_events: (await tx.calendarEvent.deleteMany(where)).count,
+        event_goal_rules: (await tx.eventGoalRule.deleteMany(where)).count,
+        meal_completions: (await tx.mealCompletion.deleteMany(where)).count,
+        meal_plans: (await tx.userMealPlan.deleteMany(where)).count,
+        recommended_menus: (await tx.recommendedMenu.deleteMany(where)).count,
+        chat_messages: (await tx.chatMessage.deleteMany(where)).count,
+        ai_recommendations: (await tx.aiRecommendation.deleteMany(where)).count,
+        goal_versions: (await tx.goalVersion.deleteMany(where)).count,
+        micronutrient_targets: (await tx.micronutrientTarget.deleteMany(where)).count,
+        recipes: (await tx.recipe.deleteMany(where)).count,
+        meal_analysis_jobs: (await tx.mealAnalysisJob.deleteMany(where)).count,
+        ai_usage: (await tx.aiUsage.deleteMany(where)).count,
+        emails: (await tx.emailOutbox.deleteMany(where)).count,
+        achievements: (await tx.userAchievement.deleteMany(where)).count,
+        shopping_lists: (await tx.shoppingList.deleteMany(where)).count,
+        meals: (await tx.meal.deleteMany(where)).count,
+        payments: (await tx.subscriptionPayment.deleteMany(where)).count,
+        billing_subscriptions: (await tx.billingSubscription.deleteMany(where)).count,
+        badges: (await tx.userBadge.deleteMany(where)).count,
+        gamification_badges: (await tx.gamificationBadge.deleteMany(where)).count,
+        water_intake: (await tx.waterIntake.deleteMany(where)).count,
+        // Catalog products are shared; only the user's own scan data goes
+        product_scan_events: (await tx.productScanEvent.deleteMany(where)).count,
+        product_overrides: (await tx.userProductOverride.deleteMany(where)).count,
+      };
+
+      await tx.accountDeletionAudit.create({
+        data: {
+          user_id,
+          email_hash: hashEmail(user.email),
+          reason: user.deletion_reason ?? "user_request",
+          status_before: user.account_status,
+          deletion_requested_at:
+            user.account_status === "SCHEDULED_DELETION" ? user.status_changed_at : null,
+          deleted_records: deleted,
+        },
+      });
+
+      // Delete user last
+      await tx.user.delete({ where: { user_id } });
+    });
+
+    console.log(`🗑️ Deleted account ${user_id} and all related data`);
+    return true;
+  }
+
+  /**
+   * The upcoming time-based transition, if any. Renewing subscriptions have
+   * none; whether they go past due depends on the next payment.
+   */
+  static getNextTransition(user: LifecycleUser): LifecycleTransition | null {
+    const subscription = user.billingSubscription;
+
+    switch (user.account_status) {
+      case "TRIAL":
+        return user.trial_ends_at
+          ? {
+              status: user.subscription_type === "FREE" ? "SUSPENDED" : "ACTIVE",
+              at: user.trial_ends_at,
+            }
+          : null;
+      case "ACTIVE":
+        return subscription?.status === "CANCELED"
+          ? { status: "SUSPENDED", at: subscription.current_period_end }
+          : null;
+      case "PAST_DUE":
+        return subscription?.grace_until
+          ? { status: "SUSPENDED", at: subscription.grace_until }
+          : null;
+      case "SUSPENDED":
+        return {
+          status: "SCHEDULED_DELETION",
+          at: new Date(
+            user.status_changed_at.getTime() + LIFECYCLE_DURATIONS.suspension_days * DAY_MS
+          ),
+        };
+      case "SCHEDULED_DELETION":
+        return user.deletion_scheduled_at
+          ? { status: "DELETED", at: user.deletion_scheduled_at }
+          : null;
+    }
+  }
+
+  // Where an account stands by its plan and trial alone
+  private static getStandingStatus(user: LifecycleUser, now: Date): AccountStatus {
+    if (user.subscription_type !== "FREE") {
+      return user.billingSubscription?.status === "PAST_DUE" ? "PAST_DUE" : "ACTIVE";
+    }
+    if (user.trial_ends_at && user.trial_ends_at > now) return "TRIAL";
+    return "SUSPENDED";
+  }
+
+  private static buildSummary(user: LifecycleUser): AccountLifecycleSummary {
+    const status = user.account_status as AccountStatus;
+
+    return {
+      status,
+      status_changed_at: user.status_changed_at,
+      trial_ends_at: user.trial_ends_at,
+      deletion_scheduled_at: user.deletion_scheduled_at,
+      deletion_reason: user.deletion_reason,
+      has_app_access: this.hasAppAccess(status),
+      can_restore:
+        status === "SCHEDULED_DELETION" &&
+        (!user.deletion_scheduled_at || user.deletion_scheduled_at > new Date()),
+      next_transition: this.getNextTransition(user),
+    };
+  }
+
+  /**
+   * Email verified users whose next transition is within the reminder
+   * window, once per status. A reminder is claimed before it is queued so
+   * overlapping runs don't queue it twice, and released if queueing fails.
+   */
+  private static async sendReminders(now: Date): Promise<number> {
+    const horizon = new Date(now.getTime() + LIFECYCLE_DURATIONS.reminder_days * DAY_MS);
+    const candidates = await prisma.user.findMany({
+      where: {
+        email_verified: true,
+        lifecycle_reminded_at: null,
+        OR: [
+          { account_status: "TRIAL", trial_ends_at: { lte: horizon } },
+          {
+            account_status: "ACTIVE",
+            billingSubscription: { status: "CANCELED", current_period_end: { lte: horizon } },
+          },
+          { account_status: "PAST_DUE", billingSubscription: { grace_until: { lte: horizon } } },
+          {
+            account_status: "SUSPENDED",
+            status_changed_at: {
+              lte: new Date(horizon.getTime() - LIFECYCLE_DURATIONS.suspension_days * DAY_MS),
+            },
+          },
+          { account_status: "SCHEDULED_DELETION", deletion_scheduled_at: { lte: horizon } },
+        ],
+      },
+      include: { billingSubscription: true },
+    });
+
+    let sent = 0;
+    for (const user of candidates) {
+      const transition = this.getNextTransition(user);
+      // Overdue transitions happen on the next run, too late to remind
+      if (!transition || transition.at <= now) continue;
+
+      const { count } = await prisma.user.updateMany({
+        where: { user_id: user.user_id, lifecycle_reminded_at: null },
+        data: { lifecycle_reminded_at: now },
+      });
+      if (count === 0) continue;
+
+      try {
+        await EmailService.send(
+          "account_reminder",
+          user.email,
+          {
+            name: user.name || "there",
+            status: user.account_status as AccountStatus,
+            at: transition.at.toISOString(),
+            time_zone: resolveTimeZone(user.timezone),
+          },
+          { user_id: user.user_id, locale: user.locale, expires_at: transition.at }
+        );
+        sent++;
+      } catch (error) {
+        console.error(`❌ Failed to queue lifecycle reminder for ${user.user_id}:`, error);
+        await prisma.user.updateMany({
+          where: { user_id: user.user_id, lifecycle_reminded_at: now },
+          data: { lifecycle_reminded_at: null },
+        });
+      }
+    }
+
+    return sent;
+  }
+}
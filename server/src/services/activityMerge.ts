@@ -0,0 +1,235 @@
+import { ConnectedDevice, DailyActivitySummary, DeviceType } from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  ActivityMetric,
+  ActivityMetricSource,
+  EffectiveDailyActivity,
+  MetricResolutionRule,
+} from "../types/devices";
+import { fromDayKey, toDayKey } from "../utils/dayBoundary";
+
+export const ACTIVITY_METRICS: ActivityMetric[] = [
+  "steps",
+  "calories_burned",
+  "active_minutes",
+  "bmr_estimate",
+  "distance_km",
+  "heart_rate_avg",
+  "heart_rate_max",
+  "sleep_hours",
+  "weight_kg",
+  "body_fat_percentage",
+];
+
+// Movement is recorded by every device the user carries, so the same walk shows
+// up on the phone and the watch. Summing would double count; the device that
+// captured the most is taken as the most complete record. A zero here means
+// "not worn" rather than a real measurement.
+const CUMULATIVE_METRICS: ActivityMetric[] = [
+  "steps",
+  "calories_burned",
+  "active_minutes",
+  "distance_km",
+];
+
+type SummaryWithDevice = DailyActivitySummary & { device: ConnectedDevice };
+
+export class ActivityMergeService {
+  /**
+   * Build the effective activity for a day from every device that reported it
+   */
+  static async getEffectiveDailyActivity(
+    user_id: string,
+    date: string
+  ): Promise<EffectiveDailyActivity | null> {
+    const days = await this.getEffectiveActivityForRange(user_id, date, date);
+    return days.get(date) ?? null;
+  }
+
+  /**
+   * The effective activity for each day in a local date range, both ends
+   * included. Days without any device reports are left out.
+   */
+  static async getEffectiveActivityForRange(
+    user_id: string,
+    startDate: string,
+    endDate: string
+  ): Promise<Map<string, EffectiveDailyActivity>> {
+    const [summaries, priorities] = await Promise.all([
+      prisma.dailyActivitySummary.findMany({
+        where: {
+          user_id,
+          date: { gte: toDayKey(startDate), lte: toDayKey(endDate) },
+        },
+        include: { device: true },
+      }),
+      this.getSourcePriorities(user_id),
+    ]);
+
+    const byDate = new Map<string, SummaryWithDevice[]>();
+    for (const summary of summaries) {
+      const date = fromDayKey(summary.date);
+      byDate.set(date, [...(byDate.get(date) || []), summary]);
+    }
+
+    const days = new Map<string, EffectiveDailyActivity>();
+    for (const [date, daySummaries] of byDate) {
+      days.set(date, this.mergeSummaries(date, daySummaries, priorities));
+    }
+    return days;
+  }
+
+  /**
+   * Resolve every metric independently:
+   *  1. the user's per-metric device order, if one is configured
+   *  2. BMR follows whichever device supplied calories burned, since devices
+   *     split total energy into active + BMR differently
+   *  3. the primary device
+   *  4. highest value for cumulative metrics, most recent sync otherwise
+   */
+  static mergeSummaries(
+    date: string,
+    summaries: SummaryWithDevice[],
+    priorities: Partial<Record<ActivityMetric, string[]>> = {}
+  ): EffectiveDailyActivity {
+    const metrics: EffectiveDailyActivity["metrics"] = {};
+
+    // calories_burned is resolved before bmr_estimate so the pairing rule can use it
+    for (const metric of ACTIVITY_METRICS) {
+      const sources = this.collectSources(summaries, metric);
+      if (sources.length === 0) continue;
+
+      const { source, rule } = this.pickSource(
+        metric,
+        sources,
+        summaries,
+        priorities[metric],
+        metrics.calories_burned?.source.deviceId
+      );
+
+      const { value, syncedAt, ...device } = source;
+      metrics[metric] = {
+        value,
+        source: device,
+        rule,
+        alternatives: sources.filter((s) => s.deviceId !== source.deviceId),
+      };
+    }
+
+    return {
+      date,
+      deviceCount: new Set(summaries.map((s) => s.device_id)).size,
+      metrics,
+    };
+  }
+
+  static async getSourcePriorities(
+    user_id: string
+  ): Promise<Partial<Record<ActivityMetric, string[]>>> {
+    const rows = await prisma.activitySourcePriority.findMany({
+      where: { user_id },
+    });
+
+    const priorities: Partial<Record<ActivityMetric, string[]>> = {};
+    for (const row of rows) {
+      priorities[row.metric as ActivityMetric] = row.device_types;
+    }
+    return priorities;
+  }
+
+  /**
+   * Set the device order for one metric; an empty list falls back to the default policy
+   */
+  static async setSourcePriority(
+    user_id: string,
+    metric: ActivityMetric,
+    deviceTypes: DeviceType[]
+  ) {
+    try {
+      console.log("🔀 Setting activity source priority:", { user_id, metric, deviceTypes });
+
+      if (deviceTypes.length === 0) {
+        await prisma.activitySourcePriority.deleteMany({
+          where: { user_id, metric },
+        });
+        return null;
+      }
+
+      return await prisma.activitySourcePriority.upsert({
+        where: { user_id_metric: { user_id, metric } },
+        update: { device_types: deviceTypes },
+        create: { user_id, metric, device_types: deviceTypes },
+      });
+    } catch (error) {
+      console.error("💥 Error setting activity source priority:", error);
+      throw new Error("Failed to update source priority");
+    }
+  }
+
+  private static collectSources(
+    summaries: SummaryWithDevice[],
+    metric: ActivityMetric
+  ): ActivityMetricSource[] {
+    const sources: ActivityMetricSource[] = [];
+
+    for (const summary of summaries) {
+      const value = summary[metric];
+      if (value === null || value === undefined) continue;
+      if (value === 0 && CUMULATIVE_METRICS.includes(metric)) continue;
+
+      sources.push({
+        deviceId: summary.device_id,
+        deviceType: summary.device.device_type,
+        deviceName: summary.device.device_name,
+        value,
+        syncedAt: summary.sync_timestamp,
+      });
+    }
+
+    return sources;
+  }
+
+  private static pickSource(
+    metric: ActivityMetric,
+    sources: ActivityMetricSource[],
+    summaries: SummaryWithDevice[],
+    priority: string[] | undefined,
+    caloriesDeviceId: string | undefined
+  ): { source: ActivityMetricSource; rule: MetricResolutionRule } {
+    if (sources.length === 1) {
+      return { source: sources[0], rule: "only_source" };
+    }
+
+    for (const deviceType of priority || []) {
+      const match = sources.find((s) => s.deviceType === deviceType);
+      if (match) {
+        return { source: match, rule: "user_priority" };
+      }
+    }
+
+    if (metric === "bmr_estimate" && caloriesDeviceId) {
+      const paired = sources.find((s) => s.deviceId === caloriesDeviceId);
+      if (paired) {
+        return { source: paired, rule: "paired_with_calories" };
+      }
+    }
+
+    const primaryIds = new Set(
+      summaries.filter((s) => s.device.is_primary_device).map((s) => s.device_id)
+    );
+    const primary = sources.find((s) => primaryIds.has(s.deviceId));
+    if (primary) {
+      return { source: primary, rule: "primary_device" };
+    }
+
+    if (CUMULATIVE_METRICS.includes(metric)) {
+      const highest = sources.reduce((best, s) => (s.value > best.value ? s : best));
+      return { source: highest, rule: "highest_value" };
+    }
+
+    const latest = sources.reduce((best, s) =>
+      s.syncedAt.getTime() > best.syncedAt.getTime() ? s : best
+    );
+    return { source: latest, rule: "most_recent" };
+  }
+}
@@ -0,0 +1,359 @@
+import { TdeeEstimate } from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  TdeeEstimateStatus,
+  TdeeExplanation,
+  TdeeLimit,
+} from "../types/adaptiveTdee";
+import {
+  addDays,
+  fromDayKey,
+  getDayRange,
+  getLocalDate,
+  getUserTimeZone,
+  toDayKey,
+} from "../utils/dayBoundary";
+import { WeightService } from "./weight";
+
+// Completed days before the recalibration that are looked at
+const WINDOW_DAYS = 28;
+
+// Days under this are treated as partially logged and left out of the intake
+const MIN_LOGGED_DAY_KCAL = 800;
+const MIN_LOGGED_DAYS = 10;
+
+// The weigh-in trend has to cover at least two weeks of the window
+const MIN_WEIGH_IN_DAYS = 4;
+const MIN_TREND_SPAN_DAYS = 14;
+
+const KCAL_PER_KG = 7700;
+
+// The applied TDEE moves this much per recalibration at most, and never
+// further than this share away from the questionnaire formula
+const MAX_DAILY_STEP_KCAL = 50;
+const MAX_FORMULA_DEVIATION = 0.2;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export class AdaptiveTdeeService {
+  /**
+   * The TDEE the user's goals should be built on instead of the formula, or
+   * null when they opted out or nothing was calibrated yet
+   */
+  static async getActiveTdee(user_id: string): Promise<number | null> {
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      select: { adaptive_goals_enabled: true },
+    });
+    if (!user?.adaptive_goals_enabled) {
+      return null;
+    }
+
+    const latest = await this.getLatestAdaptiveEstimate(user_id);
+    return latest?.adaptive_tdee ?? null;
+  }
+
+  /**
+   * Keep an adaptive TDEE within bounds of the formula value it replaces;
+   * the formula may have changed since the estimate was made
+   */
+  static boundTdee(formulaTdee: number, adaptiveTdee: number): number {
+    const { min, max } = getBounds(formulaTdee);
+    return Math.min(max, Math.max(min, adaptiveTdee));
+  }
+
+  /**
+   * Back-calculate the TDEE from the intake logged over the last weeks and
+   * the weigh-in trend over the same days, and move the applied TDEE one
+   * limited step toward it. Stores one estimate per local day; returns null
+   * when the user opted out.
+   */
+  static async recalibrate(user_id: string, formulaTdee: number): Promise<TdeeEstimate | null> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { user_id },
+        select: { adaptive_goals_enabled: true },
+      });
+      if (!user?.adaptive_goals_enabled) {
+        return null;
+      }
+
+      const timeZone = await getUserTimeZone(user_id);
+      const today = getLocalDate(timeZone);
+      const windowStart = addDays(today, -WINDOW_DAYS);
+      const windowEnd = addDays(today, -1);
+
+      const intake = await this.getLoggedIntake(user_id, timeZone, windowStart, windowEnd);
+      const loggedDays = [...intake.values()].filter((kcal) => kcal >= MIN_LOGGED_DAY_KCAL);
+      const averageIntake = loggedDays.length
+        ? loggedDays.reduce((sum, kcal) => sum + kcal, 0) / loggedDays.length
+        : null;
+
+      const points = await WeightService.getTrend(user_id, windowStart, windowEnd);
+      const first = points[0];
+      const last = points[points.length - 1];
+      const trendSpanDays = points.length ? daysBetween(first.date, last.date) : 0;
+
+      const previous = await this.getLatestAdaptiveEstimate(user_id, today);
+
+      let status: TdeeEstimateStatus;
+      let observedTdee: number | null = null;
+      let adaptiveTdee = previous?.adaptive_tdee ?? null;
+      let limitedBy: TdeeLimit | null = null;
+
+      if (averageIntake === null || loggedDays.length < MIN_LOGGED_DAYS) {
+        status = "insufficient_intake";
+      } else if (points.length < MIN_WEIGH_IN_DAYS || trendSpanDays < MIN_TREND_SPAN_DAYS) {
+        status = "insufficient_weight";
+      } else {
+        status = "calibrated";
+
+        // Energy in minus what went into (or came out of) body mass
+        const storedPerDay = ((last.trend_kg - first.trend_kg) * KCAL_PER_KG) / trendSpanDays;
+        observedTdee = Math.round(averageIntake - storedPerDay);
+
+        const start = adaptiveTdee ?? formulaTdee;
+        const step = observedTdee - start;
+        let next = start + Math.max(-MAX_DAILY_STEP_KCAL, Math.min(MAX_DAILY_STEP_KCAL, step));
+        if (Math.abs(step) > MAX_DAILY_STEP_KCAL) {
+          limitedBy = "step";
+        }
+
+        const bounded = this.boundTdee(formulaTdee, next);
+        if (bounded !== next) {
+          next = bounded;
+          limitedBy = "bounds";
+        }
+        adaptiveTdee = Math.round(next);
+      }
+
+      const data = {
+        status,
+        window_start: toDayKey(windowStart),
+        window_end: toDayKey(windowEnd),
+        formula_tdee: Math.round(formulaTdee),
+        observed_tdee: observedTdee,
+        adaptive_tdee: adaptiveTdee,
+        limited_by: limitedBy,
+        logged_days: loggedDays.length,
+        average_intake_kcal: averageIntake === null ? null : Math.round(averageIntake),
+        weigh_in_days: points.length,
+        trend_start_kg: first?.trend_kg ?? null,
+        trend_end_kg: last?.trend_kg ?? null,
+        trend_span_days: trendSpanDays,
+      };
+
+      console.log(`🔥 TDEE recalibration for ${user_id} on ${today}:`, {
+        status,
+        formula: data.formula_tdee,
+        observed: observedTdee,
+        adaptive: adaptiveTdee,
+      });
+
+      return await prisma.tdeeEstimate.upsert({
+        where: { user_id_date: { user_id, date: toDayKey(today) } },
+        update: data,
+        create: { user_id, date: toDayKey(today), ...data },
+      });
+    } catch (error) {
+      console.error("💥 Error recalibrating TDEE:", error);
+      throw new Error("Failed to recalibrate TDEE");
+    }
+  }
+
+  /**
+   * Whether the user already has an estimate for their local today
+   */
+  static async isCalibratedToday(user_id: string): Promise<boolean> {
+    const today = getLocalDate(await getUserTimeZone(user_id));
+    const estimate = await prisma.tdeeEstimate.findUnique({
+      where: { user_id_date: { user_id, date: toDayKey(today) } },
+      select: { tdee_estimate_id: true },
+    });
+    return !!estimate;
+  }
+
+  static async setEnabled(user_id: string, enabled: boolean): Promise<void> {
+    try {
+      console.log(`🔥 ${enabled ? "Enabling" : "Disabling"} adaptive goals for user:`, user_id);
+
+      await prisma.user.update({
+        where: { user_id },
+        data: { adaptive_goals_enabled: enabled },
+      });
+    } catch (error) {
+      console.error("💥 Error updating adaptive goals setting:", error);
+      throw new Error("Failed to update adaptive goals setting");
+    }
+  }
+
+  /**
+   * The latest recalibration, what it was based on and how it changed the goals
+   */
+  static async getExplanation(user_id: string): Promise<TdeeExplanation> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { user_id },
+        select: { adaptive_goals_enabled: true },
+      });
+      const enabled = !!user?.adaptive_goals_enabled;
+
+      const latest = await prisma.tdeeEstimate.findFirst({
+        where: { user_id },
+        orderBy: { date: "desc" },
+      });
+
+      const explanation: TdeeExplanation = {
+        enabled,
+        status: latest ? (latest.status as TdeeEstimateStatus) : "not_calibrated",
+        calibrated_on: latest ? fromDayKey(latest.date) : null,
+        window: latest
+          ? { start_date: fromDayKey(latest.window_start), end_date: fromDayKey(latest.window_end) }
+          : null,
+        formula_tdee_kcal: latest?.formula_tdee ?? null,
+        observed_tdee_kcal: latest?.observed_tdee ?? null,
+        adaptive_tdee_kcal: enabled ? latest?.adaptive_tdee ?? null : null,
+        adjustment_kcal: 0,
+        limited_by: (latest?.limited_by as TdeeLimit | null) ?? null,
+        inputs: {
+          logged_days: latest?.logged_days ?? 0,
+          average_intake_kcal: latest?.average_intake_kcal ?? null,
+          weigh_in_days: latest?.weigh_in_days ?? 0,
+          trend_start_kg: latest?.trend_start_kg ?? null,
+          trend_end_kg: latest?.trend_end_kg ?? null,
+          trend_change_kg:
+            latest?.trend_start_kg != null && latest?.trend_end_kg != null
+              ? Math.round((latest.trend_end_kg - latest.trend_start_kg) * 100) / 100
+              : null,
+          trend_span_days: latest?.trend_span_days ?? 0,
+        },
+        bounds: {
+          min_tdee_kcal: latest ? getBounds(latest.formula_tdee).min : null,
+          max_tdee_kcal: latest ? getBounds(latest.formula_tdee).max : null,
+          max_daily_step_kcal: MAX_DAILY_STEP_KCAL,
+        },
+        requirements: {
+          min_logged_days: MIN_LOGGED_DAYS,
+          min_weigh_in_days: MIN_WEIGH_IN_DAYS,
+          min_trend_span_days: MIN_TREND_SPAN_DAYS,
+        },
+        messages: [],
+      };
+
+      if (explanation.adaptive_tdee_kcal !== null && explanation.formula_tdee_kcal !== null) {
+        explanation.adjustment_kcal =
+          explanation.adaptive_tdee_kcal - explanation.formula_tdee_kcal;
+      }
+      explanation.messages = this.describe(explanation);
+
+      return explanation;
+    } catch (error) {
+      console.error("💥 Error explaining TDEE estimate:", error);
+      throw new Error("Failed to fetch TDEE estimate");
+    }
+  }
+
+  private static describe(explanation: TdeeExplanation): string[] {
+    const { inputs } = explanation;
+    const messages: string[] = [];
+
+    if (!explanation.enabled) {
+      messages.push("Adaptive goals are off; calorie goals use the questionnaire formula only.");
+      return messages;
+    }
+
+    switch (explanation.status) {
+      case "not_calibrated":
+        messages.push("No recalibration yet; calorie goals use the questionnaire formula.");
+        break;
+      case "insufficient_intake":
+        messages.push(
+          `Only ${inputs.logged_days} fully logged day(s) in the last ${WINDOW_DAYS}; at least ${MIN_LOGGED_DAYS} are needed.`
+        );
+        break;
+      case "insufficient_weight":
+        messages.push(
+          `The weigh-ins cover ${inputs.trend_span_days} day(s) (${inputs.weigh_in_days} weigh-in day(s)); at least ${MIN_TREND_SPAN_DAYS} days with ${MIN_WEIGH_IN_DAYS} weigh-ins are needed.`
+        );
+        break;
+      case "calibrated":
+        messages.push(
+          `You ate ${inputs.average_intake_kcal} kcal on average over ${inputs.logged_days} logged day(s) while your weight trend changed by ${inputs.trend_change_kg} kg in ${inputs.trend_span_days} days, which points to about ${explanation.observed_tdee_kcal} kcal burned a day.`
+        );
+        break;
+    }
+
+    if (explanation.adaptive_tdee_kcal === null) {
+      return messages;
+    }
+
+    if (explanation.status !== "calibrated") {
+      messages.push("The previous estimate is kept until there is enough data again.");
+    }
+    if (explanation.limited_by === "step") {
+      messages.push(
+        `Goals move at most ${MAX_DAILY_STEP_KCAL} kcal a day toward the estimate.`
+      );
+    } else if (explanation.limited_by === "bounds") {
+      messages.push(
+        `The estimate is kept within ${Math.round(MAX_FORMULA_DEVIATION * 100)}% of the formula value.`
+      );
+    }
+    messages.push(
+      `Calorie goals are built on ${explanation.adaptive_tdee_kcal} kcal instead of the formula's ${explanation.formula_tdee_kcal} kcal (${explanation.adjustment_kcal >= 0 ? "+" : ""}${explanation.adjustment_kcal}).`
+    );
+
+    return messages;
+  }
+
+  /**
+   * Latest estimate with an applied TDEE, optionally before a local date
+   */
+  private static async getLatestAdaptiveEstimate(user_id: string, beforeDate?: string) {
+    return prisma.tdeeEstimate.findFirst({
+      where: {
+        user_id,
+        adaptive_tdee: { not: null },
+        ...(beforeDate ? { date: { lt: toDayKey(beforeDate) } } : {}),
+      },
+      orderBy: { date: "desc" },
+    });
+  }
+
+  /**
+   * Calories logged per local date of the range
+   */
+  private static async getLoggedIntake(
+    user_id: string,
+    timeZone: string,
+    startDate: string,
+    endDate: string
+  ): Promise<Map<string, number>> {
+    const { start, end } = getDayRange(startDate, timeZone, endDate);
+    const meals = await prisma.meal.findMany({
+      where: {
+        user_id,
+        created_at: { gte: start, lt: end },
+      },
+      select: { calories: true, created_at: true },
+    });
+
+    const intake = new Map<string, number>();
+    for (const meal of meals) {
+      const date = getLocalDate(timeZone, meal.created_at);
+      intake.set(date, (intake.get(date) || 0) + (meal.calories || 0));
+    }
+    return intake;
+  }
+}
+
+function getBounds(formulaTdee: number): { min: number; max: number } {
+  return {
+    min: Math.round(formulaTdee * (1 - MAX_FORMULA_DEVIATION)),
+    max: Math.round(formulaTdee * (1 + MAX_FORMULA_DEVIATION)),
+  };
+}
+
+function daysBetween(startDate: string, endDate: string): number {
+  return Math.round((toDayKey(endDate).getTime() - toDayKey(startDate).getTime()) / MS_PER_DAY);
+}
@@ -0,0 +1,234 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  AiFeature,
+  AiPlanLimit,
+  AiQuotaReservation,
+  AiQuotaStatus,
+  AiUsageReport,
+  SubscriptionPlan,
+} from "../types/aiQuota";
+import {
+  addDays,
+  fromDayKey,
+  getLocalDate,
+  getStartOfLocalDay,
+  listDates,
+  resolveTimeZone,
+  toDayKey,
+} from "../utils/dayBoundary";
+
+// The only place plan limits are defined
+export const AI_PLAN_LIMITS: Record<SubscriptionPlan, AiPlanLimit> = {
+  FREE: { name: "Free Plan", daily_units: 10 },
+  PREMIUM: { name: "Premium Plan", daily_units: 50 },
+  GOLD: { name: "Gold Plan", daily_units: null },
+};
+
+// Usage units charged per call, by how heavy the prompt is
+export const AI_FEATURE_COSTS: Record<AiFeature, number> = {
+  meal_analysis: 1,
+  meal_update: 1,
+  chat: 1,
+  health_recommendation: 1,
+  food_scan: 1,
+  menu_generation: 3,
+  meal_plan_generation: 3,
+};
+
+// Serializable transactions that collide are retried this many times in total
+const RESERVE_ATTEMPTS = 3;
+
+interface QuotaUser {
+  user_id: string;
+  subscription_type: string;
+  timezone: string | null;
+}
+
+export class AiQuotaService {
+  static getPlanLimit(subscription_type: string): AiPlanLimit {
+    return (
+      AI_PLAN_LIMITS[subscription_type as SubscriptionPlan] ?? AI_PLAN_LIMITS.FREE
+    );
+  }
+
+  static async getStatus(user_id: string): Promise<AiQuotaStatus> {
+    return this.buildStatus(await this.loadUser(user_id));
+  }
+
+  /**
+   * Check the quota and, when it covers the feature, add the call to the
+   * ledger in the same serializable transaction, so concurrent requests
+   * can't both spend the last units. ai_requests_count mirrors today's usage
+   * for the profile and achievements, restarting on the user's first call of
+   * a local day.
+   */
+  static async reserveQuota(user_id: string, feature: AiFeature): Promise<AiQuotaReservation> {
+    const cost = AI_FEATURE_COSTS[feature];
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await prisma.$transaction(
+          async (tx) => {
+            const user = await this.loadUser(user_id, tx);
+            const status = await this.buildStatus(user, tx);
+
+            if (status.remaining !== null && status.remaining < cost) {
+              return { allowed: false, cost, status, usage_id: null };
+            }
+
+            const timeZone = resolveTimeZone(user.timezone);
+            const today = getLocalDate(timeZone);
+            const dayStart = getStartOfLocalDay(today, timeZone);
+
+            const usage = await tx.aiUsage.create({
+              data: { user_id, feature, cost, date: toDayKey(today) },
+            });
+            await tx.user.updateMany({
+              where: { user_id, ai_requests_reset_at: { lt: dayStart } },
+              data: { ai_requests_count: 0, ai_requests_reset_at: dayStart },
+            });
+            await tx.user.update({
+              where: { user_id },
+              data: { ai_requests_count: { increment: cost } },
+            });
+
+            console.log(`🎟️ AI usage reserved for ${user_id}: ${feature} (${cost})`);
+
+            return {
+              allowed: true,
+              cost,
+              status: {
+                ...status,
+                used: status.used + cost,
+                remaining: status.remaining === null ? null : status.remaining - cost,
+              },
+              usage_id: usage.usage_id,
+            };
+          },
+          { isolationLevel: "Serializable" }
+        );
+      } catch (error) {
+        // Another reservation for the user committed first; check again
+        if (
+          attempt < RESERVE_ATTEMPTS &&
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === "P2034"
+        ) {
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Give back a reservation whose call failed. Releasing twice is harmless.
+   */
+  static async releaseQuota(usage_id: string): Promise<void> {
+    const released = await prisma.$transaction(async (tx) => {
+      const usage = await tx.aiUsage.findUnique({ where: { usage_id } });
+      if (!usage) return null;
+
+      const { count } = await tx.aiUsage.deleteMany({ where: { usage_id } });
+      if (count === 0) return null;
+
+      // Only while the mirror still includes the call, i.e. it hasn't restarted since
+      await tx.user.updateMany({
+        where: {
+          user_id: usage.user_id,
+          ai_requests_reset_at: { lte: usage.created_at },
+          ai_requests_count: { gte: usage.cost },
+        },
+        data: { ai_requests_count: { decrement: usage.cost } },
+      });
+      return usage;
+    });
+
+    if (released) {
+      console.log(
+        `🎟️ AI usage released for ${released.user_id}: ${released.feature} (${released.cost})`
+      );
+    }
+  }
+
+  /**
+   * Usage per local day and feature over the last `days` days
+   */
+  static async getUsageReport(user_id: string, days: number): Promise<AiUsageReport> {
+    const user = await this.loadUser(user_id);
+    const endDate = getLocalDate(resolveTimeZone(user.timezone));
+    const startDate = addDays(endDate, -(days - 1));
+
+    const rows = await prisma.aiUsage.groupBy({
+      by: ["date", "feature"],
+      where: {
+        user_id,
+        date: { gte: toDayKey(startDate), lte: toDayKey(endDate) },
+      },
+      _sum: { cost: true },
+    });
+
+    const report: AiUsageReport = {
+      start_date: startDate,
+      end_date: endDate,
+      total: 0,
+      by_feature: {},
+      days: listDates(startDate, endDate).map((date) => ({ date, total: 0, features: {} })),
+    };
+    const daysByDate = new Map(report.days.map((day) => [day.date, day]));
+
+    for (const row of rows) {
+      const day = daysByDate.get(fromDayKey(row.date));
+      const feature = row.feature as AiFeature;
+      const units = row._sum.cost ?? 0;
+      if (!day) continue;
+
+      day.total += units;
+      day.features[feature] = (day.features[feature] ?? 0) + units;
+      report.by_feature[feature] = (report.by_feature[feature] ?? 0) + units;
+      report.total += units;
+    }
+
+    return report;
+  }
+
+  private static async loadUser(
+    user_id: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<QuotaUser> {
+    const user = await client.user.findUnique({
+      where: { user_id },
+      select: { user_id: true, subscription_type: true, timezone: true },
+    });
+    if (!user) throw new Error("User not found");
+    return user;
+  }
+
+  private static async buildStatus(
+    user: QuotaUser,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<AiQuotaStatus> {
+    const timeZone = resolveTimeZone(user.timezone);
+    const today = getLocalDate(timeZone);
+    const plan = (user.subscription_type in AI_PLAN_LIMITS
+      ? user.subscription_type
+      : "FREE") as SubscriptionPlan;
+    const limit = this.getPlanLimit(plan);
+
+    const usage = await client.aiUsage.aggregate({
+      where: { user_id: user.user_id, date: toDayKey(today) },
+      _sum: { cost: true },
+    });
+    const used = usage._sum.cost ?? 0;
+
+    return {
+      plan,
+      name: limit.name,
+      limit: limit.daily_units,
+      used,
+      remaining: limit.daily_units === null ? null : Math.max(0, limit.daily_units - used),
+      reset_at: getStartOfLocalDay(addDays(today, 1), timeZone),
+    };
+  }
+}
@@ -1,6 +1,7 @@
 import { OpenAIService } from "./openai";
 import { prisma } from "../lib/database";
 import { StatisticsService } from "./statistics";
+import { addDays, getDayRange, getLocalDate, getUserTimeZone } from "../utils/dayBoundary";
 
 export interface DailyRecommendation {
   id: string;
@@ -36,21 +37,14 @@ export class AIRecommendationService {
         "week"
       );
 
-      // Get yesterday's performance specifically
-      const yesterday = new Date();
-      yesterday.setDate(yesterday.getDate() - 1);
-      const yesterdayStart = new Date(
-        yesterday.getFullYear(),
-        yesterday.getMonth(),
-        yesterday.getDate()
-      );
-      const yesterdayEnd = new Date(yesterdayStart);
-      yesterdayEnd.setDate(yesterdayEnd.getDate() + 1);
+      // Get yesterday's performance specifically, in the user's timezone
+      const timeZone = await getUserTimeZone(userId);
+      const yesterday = getDayRange(addDays(getLocalDate(timeZone), -1), timeZone);
 
       const yesterdayStats = await StatisticsService.getPeriodConsumption(
         userId,
-        yesterdayStart,
-        yesterdayEnd
+        yesterday.start,
+        yesterday.end
       );
       const dailyGoals = await StatisticsService.getUserDailyGoals(userId);
 
@@ -158,7 +152,7 @@ Be specific, actionable, and encouraging. Focus on realistic improvements.
     recommendations: any
   ): Promise<DailyRecommendation> {
     try {
-      const today = new Date().toISOString().split("T")[0];
+      const today = getLocalDate(await getUserTimeZone(userId));
 
       // Check if recommendations already exist for today
       const existing = await prisma.aiRecommendation.findFirst({
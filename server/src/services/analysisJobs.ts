@@ -0,0 +1,323 @@
+import { EventEmitter } from "events";
+import { MealAnalysisJob, Prisma } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { MealAnalysisInput, MealAnalysisJobDetails } from "../types/nutrition";
+import { NutritionService } from "./nutrition";
+import { AiQuotaService } from "./aiQuota";
+
+// One attempt, including the analysis' own 60 second limit and saving
+const JOB_TIMEOUT_MS = 90 * 1000;
+// Doubled after each failed attempt
+const RETRY_DELAY_MS = 5 * 1000;
+const POLL_INTERVAL_MS = 15 * 1000;
+const MAX_CONCURRENT_JOBS = 2;
+// Finished jobs stay available for polling this long
+const JOB_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// Errors another attempt won't fix
+const PERMANENT_ERRORS = [
+  "Image data is required",
+  "Invalid base64 image format",
+  "User not found",
+];
+
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+let running = 0;
+let draining = false;
+let pollTimer: NodeJS.Timeout | null = null;
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout;
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Analysis job timed out after ${ms / 1000} seconds`)),
+        ms
+      );
+    }),
+  ]).finally(() => clearTimeout(timer));
+}
+
+export class MealAnalysisJobService {
+  /**
+   * Queue a meal image for analysis and start it right away when a worker
+   * slot is free. The job survives restarts until it completes or fails; a
+   * failed job releases the quota reservation it was given.
+   */
+  static async enqueue(
+    user_id: string,
+    input: MealAnalysisInput,
+    ai_usage_id?: string
+  ): Promise<MealAnalysisJobDetails> {
+    const job = await prisma.mealAnalysisJob.create({
+      data: {
+        user_id,
+        input: input as unknown as Prisma.InputJsonValue,
+        ai_usage_id,
+      },
+    });
+
+    console.log(`🧾 Meal analysis job ${job.job_id} queued for ${user_id}`);
+
+    setImmediate(() => void this.drain());
+    return this.toDetails(job);
+  }
+
+  static async getJob(
+    user_id: string,
+    job_id: string
+  ): Promise<MealAnalysisJobDetails | null> {
+    const job = await prisma.mealAnalysisJob.findFirst({
+      where: { job_id, user_id },
+    });
+    return job ? this.toDetails(job) : null;
+  }
+
+  /**
+   * Be told about every status change of the user's jobs. Returns the
+   * function that stops listening.
+   */
+  static subscribe(
+    user_id: string,
+    listener: (job: MealAnalysisJobDetails) => void
+  ): () => void {
+    const event = `user:${user_id}`;
+    jobEvents.on(event, listener);
+    return () => {
+      jobEvents.off(event, listener);
+    };
+  }
+
+  /**
+   * Start the in-process worker. Jobs are also picked up on a timer, which
+   * runs retries that are due and jobs left behind by a stopped server.
+   */
+  static start() {
+    if (pollTimer) return;
+
+    console.log("🧾 Starting meal analysis worker");
+
+    const poll = async () => {
+      try {
+        await this.recoverStaleJobs();
+      } catch (error) {
+        console.error("💥 Meal analysis recovery failed:", error);
+      }
+      await this.drain();
+    };
+
+    pollTimer = setInterval(() => void poll(), POLL_INTERVAL_MS);
+    pollTimer.unref();
+    void poll();
+  }
+
+  // Run due jobs until the worker slots are full or the queue is empty
+  static async drain(): Promise<void> {
+    if (draining) return;
+    draining = true;
+
+    try {
+      while (running < MAX_CONCURRENT_JOBS) {
+        const job = await this.claimNext();
+        if (!job) break;
+
+        running++;
+        void this.runJob(job).finally(() => {
+          running--;
+          void this.drain();
+        });
+      }
+    } catch (error) {
+      console.error("💥 Meal analysis queue error:", error);
+    } finally {
+      draining = false;
+    }
+  }
+
+  /**
+   * Jobs still PROCESSING well past the attempt timeout belong to a worker
+   * that stopped; they are retried, or failed when out of attempts.
+   */
+  static async recoverStaleJobs(): Promise<number> {
+    const cutoff = new Date(Date.now() - 2 * JOB_TIMEOUT_MS);
+    const stale = await prisma.mealAnalysisJob.findMany({
+      where: { status: "PROCESSING", started_at: { lt: cutoff } },
+    });
+
+    for (const job of stale) {
+      const retry = job.attempts < job.max_attempts;
+      const { count } = await prisma.mealAnalysisJob.updateMany({
+        where: { job_id: job.job_id, status: "PROCESSING" },
+        data: retry
+          ? { status: "PENDING", run_after: new Date() }
+          : {
+              status: "FAILED",
+              error: "Analysis was interrupted. Please try again.",
+              input: Prisma.DbNull,
+              completed_at: new Date(),
+            },
+      });
+
+      if (count > 0 && !retry) {
+        await this.releaseUsage(job);
+        await this.publish(job.job_id);
+      }
+    }
+
+    if (stale.length > 0) {
+      console.log(`🧾 Recovered ${stale.length} interrupted meal analysis jobs`);
+    }
+    return stale.length;
+  }
+
+  static async purgeFinishedJobs(): Promise<number> {
+    const { count } = await prisma.mealAnalysisJob.deleteMany({
+      where: {
+        status: { in: ["COMPLETED", "FAILED"] },
+        completed_at: { lt: new Date(Date.now() - JOB_RETENTION_MS) },
+      },
+    });
+    return count;
+  }
+
+  // Take the oldest due job; the conditional update keeps two workers off the same job
+  private static async claimNext(): Promise<MealAnalysisJob | null> {
+    for (;;) {
+      const next = await prisma.mealAnalysisJob.findFirst({
+        where: { status: "PENDING", run_after: { lte: new Date() } },
+        orderBy: { run_after: "asc" },
+        select: { job_id: true },
+      });
+      if (!next) return null;
+
+      const { count } = await prisma.mealAnalysisJob.updateMany({
+        where: { job_id: next.job_id, status: "PENDING" },
+        data: {
+          status: "PROCESSING",
+          started_at: new Date(),
+          attempts: { increment: 1 },
+        },
+      });
+
+      if (count > 0) {
+        return this.publish(next.job_id);
+      }
+    }
+  }
+
+  private static async runJob(job: MealAnalysisJob): Promise<void> {
+    console.log(
+      `🧾 Running meal analysis job ${job.job_id} (attempt ${job.attempts}/${job.max_attempts})`
+    );
+
+    try {
+      const result = await withTimeout(
+        NutritionService.analyzeMeal(
+          job.user_id,
+          job.input as unknown as MealAnalysisInput
+        ),
+        JOB_TIMEOUT_MS
+      );
+
+      await prisma.mealAnalysisJob.update({
+        where: { job_id: job.job_id },
+        data: {
+          status: "COMPLETED",
+          result: result as unknown as Prisma.InputJsonValue,
+          error: null,
+          input: Prisma.DbNull,
+          completed_at: new Date(),
+        },
+      });
+
+      console.log(`✅ Meal analysis job ${job.job_id} completed`);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Failed to analyze meal";
+      const retry =
+        job.attempts < job.max_attempts && !PERMANENT_ERRORS.includes(message);
+
+      try {
+        if (retry) {
+          const delay = RETRY_DELAY_MS * 2 ** (job.attempts - 1);
+          await prisma.mealAnalysisJob.update({
+            where: { job_id: job.job_id },
+            data: {
+              status: "PENDING",
+              error: message,
+              run_after: new Date(Date.now() + delay),
+            },
+          });
+          setTimeout(() => void this.drain(), delay).unref();
+
+          console.warn(
+            `⚠️ Meal analysis job ${job.job_id} failed, retrying in ${delay / 1000}s:`,
+            message
+          );
+        } else {
+          await prisma.mealAnalysisJob.update({
+            where: { job_id: job.job_id },
+            data: {
+              status: "FAILED",
+              error: message,
+              input: Prisma.DbNull,
+              completed_at: new Date(),
+            },
+          });
+
+          console.error(`❌ Meal analysis job ${job.job_id} failed:`, message);
+          await this.releaseUsage(job);
+        }
+      } catch (updateError) {
+        console.error(
+          `💥 Failed to record meal analysis job ${job.job_id} failure:`,
+          updateError
+        );
+        return;
+      }
+    }
+
+    try {
+      await this.publish(job.job_id);
+    } catch (error) {
+      console.error(`💥 Failed to publish meal analysis job ${job.job_id}:`, error);
+    }
+  }
+
+  // A failed analysis isn't charged
+  private static async releaseUsage(job: MealAnalysisJob): Promise<void> {
+    if (!job.ai_usage_id) return;
+
+    try {
+      await AiQuotaService.releaseQuota(job.ai_usage_id);
+    } catch (error) {
+      console.error(`💥 Failed to release AI usage for job ${job.job_id}:`, error);
+    }
+  }
+
+  // Reload the job and tell the user's listeners about its state
+  private static async publish(job_id: string): Promise<MealAnalysisJob | null> {
+    const job = await prisma.mealAnalysisJob.findUnique({ where: { job_id } });
+    if (job) {
+      jobEvents.emit(`user:${job.user_id}`, this.toDetails(job));
+    }
+    return job;
+  }
+
+  private static toDetails(job: MealAnalysisJob): MealAnalysisJobDetails {
+    return {
+      job_id: job.job_id,
+      status: job.status,
+      attempts: job.attempts,
+      max_attempts: job.max_attempts,
+      result: job.status === "COMPLETED" ? job.result : null,
+      error: job.error,
+      created_at: job.created_at,
+      started_at: job.started_at,
+      completed_at: job.completed_at,
+    };
+  }
+}
@@ -2,11 +2,17 @@ import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
 import crypto from "crypto";
 import { prisma } from "../lib/database";
-import { SignUpInput, SignInInput } from "../types/auth";
+import { AccountLifecycleService } from "./accountLifecycle";
+import { AiQuotaService } from "./aiQuota";
+import { EmailService } from "./email/outbox";
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  REFRESH_TOKEN_DAYS,
+  SessionService,
+} from "./sessions";
+import { SignUpInput, SignInInput, SessionDevice } from "../types/auth";
 
 const JWT_SECRET = process.env.JWT_SECRET!;
-const JWT_EXPIRES_IN = "7d";
-const SESSION_EXPIRES_DAYS = 7;
 const PASSWORD_RESET_EXPIRES = "15m";
 
 const userSelectFields = {
@@ -15,7 +21,11 @@ const userSelectFields = {
   name: true,
   avatar_url: true,
   subscription_type: true,
+  account_status: true,
   birth_date: true,
+  timezone: true,
+  locale: true,
+  adaptive_goals_enabled: true,
   ai_requests_count: true,
   ai_requests_reset_at: true,
   created_at: true,
@@ -53,19 +63,9 @@ function verifyPasswordResetToken(token: string) {
   }
 }
 
-function generateToken(payload: object) {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN });
-}
-
-function getSessionExpiryDate() {
-  const date = new Date();
-  date.setDate(date.getDate() + SESSION_EXPIRES_DAYS);
-  return date;
-}
-
 export class AuthService {
   static async signUp(data: SignUpInput) {
-    const { email, name, password, birth_date } = data;
+    const { email, name, password, birth_date, timezone, locale } = data;
 
     const existingUser = await prisma.user.findFirst({
       where: { email },
@@ -73,6 +73,7 @@ export class AuthService {
         email_verified: true,
         email: true,
         name: true,
+        locale: true,
       },
     });
 
@@ -98,7 +99,8 @@ export class AuthService {
         await this.sendVerificationEmail(
           email,
           emailVerificationCode,
-          existingUser.name || name
+          existingUser.name || name,
+          existingUser.locale ?? locale
         );
 
         return {
@@ -117,7 +119,10 @@ export class AuthService {
         name,
         password_hash: hashedPassword,
         subscription_type: "FREE",
+        trial_ends_at: AccountLifecycleService.getTrialEnd(),
         birth_date: new Date(),
+        timezone,
+        locale,
         ai_requests_count: 0,
         ai_requests_reset_at: new Date(),
         email_verified: false,
@@ -132,7 +137,7 @@ export class AuthService {
     });
 
     // Send verification email
-    await this.sendVerificationEmail(email, emailVerificationCode, name);
+    await this.sendVerificationEmail(email, emailVerificationCode, name, locale);
 
     if (process.env.NODE_ENV !== "production") {
       console.log("✅ Created user:", user);
@@ -146,225 +151,19 @@ export class AuthService {
   static async sendVerificationEmail(
     email: string,
     code: string,
-    name: string
+    name: string,
+    locale?: string | null
   ) {
     try {
-      console.log("📧 Attempting to send verification email to:", email);
-
-      // Check if email credentials are configured
-      if (!process.env.EMAIL_USER || !process.env.EMAIL_PASSWORD) {
-        console.error(
-          "❌ Email credentials not configured in environment variables"
-        );
-        throw new Error(
-          "Email service not configured. Please contact support."
-        );
-      }
-
-      const nodemailer = require("nodemailer");
-
-      const transporter = nodemailer.createTransport({
-        service: "gmail",
-        host: "smtp.gmail.com",
-        port: 587,
-        secure: false,
-        auth: {
-          user: process.env.EMAIL_USER,
-          pass: process.env.EMAIL_PASSWORD,
-        },
-        tls: {
-          rejectUnauthorized: false,
-        },
-        debug: process.env.NODE_ENV !== "production",
-        logger: process.env.NODE_ENV !== "production",
-      });
-
-      // Improve email configuration debugging
-      console.log("🔍 Testing email connection...");
-      console.log("📧 Email config:", {
-        user: process.env.EMAIL_USER,
-        hasPassword: !!process.env.EMAIL_PASSWORD,
-        passwordLength: process.env.EMAIL_PASSWORD?.length || 0,
-      });
-      await transporter.verify();
-      console.log("✅ Email connection successful");
-
-      const mailOptions = {
-        from: `"Calo Fitness & Diet" <${process.env.EMAIL_USER}>`,
-        to: email,
-        subject: "Verify Your Email Address - Calo",
-        html: `
-    <!DOCTYPE html>
-    <html lang="en">
-    <head>
-      <meta charset="UTF-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>Email Verification - Calo</title>
-      <!--[if mso]>
-      <noscript>
-        <xml>
-          <o:OfficeDocumentSettings>
-            <o:PixelsPerInch>96</o:PixelsPerInch>
-          </o:OfficeDocumentSettings>
-        </xml>
-      </noscript>
-      <![endif]-->
-    </head>
-    <body style="margin: 0; padding: 0; background-color: #f8f9fa; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;">
-      <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="background-color: #f8f9fa;">
-        <tr>
-          <td align="center" style="padding: 40px 20px;">
-
-            <!-- Main Container -->
-            <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="600" style="max-width: 600px; background-color: #ffffff; border-radius: 12px; box-shadow: 0 4px 20px rgba(0, 0, 0, 0.08); overflow: hidden;">
-
-              <!-- Header Section -->
-              <tr>
-                <td style="background: linear-gradient(135deg, #4ECDC4 0%, #44A08D 100%); padding: 40px 32px; text-align: center;">
-                  <div style="background-color: rgba(255, 255, 255, 0.1); width: 80px; height: 80px; border-radius: 50%; margin: 0 auto 20px; display: flex; align-items: center; justify-content: center; border: 3px solid rgba(255, 255, 255, 0.2);">
-                    <div style="width: 40px; height: 40px; background-color: white; border-radius: 50%; position: relative;">
-                      <div style="position: absolute; top: 50%; left: 50%; transform: translate(-50%, -50%); width: 20px; height: 20px; background: linear-gradient(135deg, #4ECDC4 0%, #44A08D 100%); border-radius: 50%;"></div>
-                    </div>
-                  </div>
-                  <h1 style="color: #ffffff; font-size: 28px; font-weight: 700; margin: 0; letter-spacing: -0.5px;">Calo</h1>
-                  <p style="color: rgba(255, 255, 255, 0.9); font-size: 16px; margin: 8px 0 0 0; font-weight: 400;">Fitness & Diet</p>
-                </td>
-              </tr>
-
-              <!-- Content Section -->
-              <tr>
-                <td style="padding: 48px 32px 32px;">
-
-                  <!-- Greeting -->
-                  <h2 style="color: #1a1a1a; font-size: 24px; font-weight: 600; margin: 0 0 24px 0; line-height: 1.3;">
-                    Welcome, ${name}! 👋
-                  </h2>
-
-                  <p style="color: #4a5568; font-size: 16px; line-height: 1.6; margin: 0 0 32px 0;">
-                    Thank you for joining Calo! We're excited to help you on your fitness and nutrition journey. Please verify your email address using the code below.
-                  </p>
-
-                  <!-- Verification Code Container -->
-                  <div style="background: linear-gradient(135deg, #f7fafc 0%, #edf2f7 100%); border: 2px dashed #cbd5e0; border-radius: 12px; padding: 32px; text-align: center; margin: 32px 0;">
-                    <p style="color: #4a5568; font-size: 14px; margin: 0 0 16px 0; font-weight: 500; text-transform: uppercase; letter-spacing: 0.5px;">
-                      Verification Code
-                    </p>
-                    <div style="font-family: 'Courier New', monospace; font-size: 36px; font-weight: 700; color: #2d3748; letter-spacing: 8px; margin: 16px 0; text-align: center;">
-                      ${code}
-                    </div>
-                    <p style="color: #718096; font-size: 13px; margin: 16px 0 0 0;">
-                      This code expires in <strong>15 minutes</strong>
-                    </p>
-                  </div>
-
-                  <!-- Instructions -->
-                  <div style="background-color: #f0f9ff; border-left: 4px solid #3b82f6; padding: 20px; margin: 32px 0; border-radius: 0 8px 8px 0;">
-                    <h3 style="color: #1e40af; font-size: 16px; font-weight: 600; margin: 0 0 8px 0;">
-                      📱 What's next?
-                    </h3>
-                    <p style="color: #1e40af; font-size: 14px; line-height: 1.5; margin: 0;">
-                      Enter this code in the Calo app to verify your email and unlock all features including personalized meal plans, workout tracking, and progress analytics.
-                    </p>
-                  </div>
-
-                  <!-- Security Notice -->
-                  <div style="background-color: #fef2f2; border-left: 4px solid #ef4444; padding: 20px; margin: 32px 0; border-radius: 0 8px 8px 0;">
-                    <h3 style="color: #dc2626; font-size: 16px; font-weight: 600; margin: 0 0 8px 0;">
-                      🔒 Security Notice
-                    </h3>
-                    <p style="color: #dc2626; font-size: 14px; line-height: 1.5; margin: 0;">
-                      If you didn't create an account with Calo, please ignore this email. Never share your verification code with anyone.
-                    </p>
-                  </div>
-
-                </td>
-              </tr>
-
-              <!-- Footer Section -->
-              <tr>
-                <td style="background-color: #f8f9fa; padding: 32px; text-align: center; border-top: 1px solid #e2e8f0;">
-
-                  <!-- Social Links -->
-                  <div style="margin-bottom: 24px;">
-                    <a href="#" style="display: inline-block; margin: 0 8px; width: 40px; height: 40px; background-color: #4ECDC4; border-radius: 50%; text-decoration: none; line-height: 40px; color: white; font-size: 16px;">📧</a>
-                    <a href="#" style="display: inline-block; margin: 0 8px; width: 40px; height: 40px; background-color: #4ECDC4; border-radius: 50%; text-decoration: none; line-height: 40px; color: white; font-size: 16px;">💬</a>
-                    <a href="#" style="display: inline-block; margin: 0 8px; width: 40px; height: 40px; background-color: #4ECDC4; border-radius: 50%; text-decoration: none; line-height: 40px; color: white; font-size: 16px;">🌐</a>
-                  </div>
-
-                  <!-- Company Info -->
-                  <p style="color: #1a1a1a; font-size: 16px; font-weight: 600; margin: 0 0 8px 0;">
-                    Calo - Fitness & Diet
-                  </p>
-                  <p style="color: #718096; font-size: 14px; margin: 0 0 16px 0; line-height: 1.5;">
-                    Your Personal Nutrition & Fitness Assistant<br>
-                    Transform your health, one meal at a time.
-                  </p>
-
-                  <!-- Links -->
-                  <div style="margin: 24px 0;">
-                    <a href="#" style="color: #4ECDC4; text-decoration: none; font-size: 14px; margin: 0 16px; font-weight: 500;">Privacy Policy</a>
-                    <a href="#" style="color: #4ECDC4; text-decoration: none; font-size: 14px; margin: 0 16px; font-weight: 500;">Terms of Service</a>
-                    <a href="#" style="color: #4ECDC4; text-decoration: none; font-size: 14px; margin: 0 16px; font-weight: 500;">Support</a>
-                  </div>
-
-                  <!-- Copyright -->
-                  <p style="color: #a0aec0; font-size: 12px; margin: 20px 0 0 0;">
-                    © 2025 Calo. All rights reserved.<br>
-                    <a href="#" style="color: #a0aec0; text-decoration: none;">Unsubscribe</a> | 
-                    <a href="#" style="color: #a0aec0; text-decoration: none;">Update Preferences</a>
-                  </p>
-
-                </td>
-              </tr>
-
-            </table>
-
-          </td>
-        </tr>
-      </table>
-    </body>
-    </html>
-  `,
-      };
-
-      const result = await transporter.sendMail(mailOptions);
-      console.log(`✅ Verification email sent to ${email}`);
-      console.log("📧 Message ID:", result.messageId);
-
-      // Still log to console for development
-      if (process.env.NODE_ENV !== "production") {
-        console.log(`📧 Verification email for ${email}`);
-        console.log(`👤 Name: ${name}`);
-        console.log(`🔑 Verification Code: ${code}`);
-        console.log(`⏰ Code expires in 15 minutes`);
-      }
-
-      return true;
-    } catch (error: any) {
-      console.error("❌ Failed to send verification email:", error);
-
-      // More detailed error logging
-      if (error.code === "EAUTH") {
-        console.error(
-          "🔐 Authentication failed - check your email credentials"
-        );
-        console.error(
-          "💡 Make sure you're using an App Password for Gmail, not your regular password"
-        );
-      } else if (error.code === "ECONNECTION") {
-        console.error("🌐 Connection failed - check your internet connection");
-      } else if (error.code === "ESOCKET") {
-        console.error("🔌 Socket error - check network connectivity");
-      } else {
-        console.error("🚨 Unknown email error:", error.message);
-      }
-
-      // Fallback to console logging for development
-      console.log(`📧 FALLBACK - Verification email for ${email}`);
-      console.log(`👤 Name: ${name}`);
-      console.log(`🔑 Verification Code: ${code}`);
-      console.log(`⏰ Code expires in 15 minutes`);
-      console.log(`⚠️ Please check server console for verification code`);
+      await EmailService.send(
+        "email_verification",
+        email,
+        { name, code, expires_minutes: 15 },
+        { locale, expires_at: new Date(Date.now() + 15 * 60 * 1000) }
+      );
+      console.log(`📧 Verification email queued for ${email}`);
+    } catch (error) {
+      console.error("❌ Failed to queue verification email:", error);
 
       // For production, we should throw the error so signup knows email failed
       if (process.env.NODE_ENV === "production") {
@@ -372,13 +171,20 @@ export class AuthService {
           "Failed to send verification email. Please try again or contact support."
         );
       }
+    }
 
-      // In development, continue without throwing error
-      return true;
+    // Still log to console for development
+    if (process.env.NODE_ENV !== "production") {
+      console.log(`📧 Verification email for ${email}`);
+      console.log(`👤 Name: ${name}`);
+      console.log(`🔑 Verification Code: ${code}`);
+      console.log(`⏰ Code expires in 15 minutes`);
     }
+
+    return true;
   }
 
-  static async verifyEmail(email: string, code: string) {
+  static async verifyEmail(email: string, code: string, device: SessionDevice = {}) {
     console.log(`🔒 Verifying email ${email} with code ${code}`);
 
     const user = await prisma.user.findUnique({
@@ -437,26 +243,15 @@ export class AuthService {
 
     console.log("✅ User updated:", updatedUser);
 
-    const token = generateToken({
-      user_id: updatedUser.user_id,
-      email: updatedUser.email,
-    });
-
-    await prisma.session.create({
-      data: {
-        user_id: updatedUser.user_id,
-        token,
-        expiresAt: getSessionExpiryDate(),
-      },
-    });
+    const session = await SessionService.createSession(updatedUser, device);
 
     console.log(`✅ Session created for user: ${email}`);
 
-    return { user: updatedUser, token };
+    return { user: updatedUser, ...session };
   }
 
-  static async signIn(data: SignInInput) {
-    const { email, password } = data;
+  static async signIn(data: SignInInput, device: SessionDevice = {}) {
+    const { email, password, device_name } = data;
 
     const user = await prisma.user.findUnique({ where: { email } });
     if (!user) throw new Error("Invalid email or password");
@@ -464,55 +259,48 @@ export class AuthService {
     const isValid = await bcrypt.compare(password, user.password_hash);
     if (!isValid) throw new Error("Invalid email or password");
 
-    const token = generateToken({ user_id: user.user_id, email: user.email });
-
-    await prisma.session.create({
-      data: {
-        user_id: user.user_id,
-        token,
-        expiresAt: getSessionExpiryDate(),
-      },
+    const session = await SessionService.createSession(user, {
+      ...device,
+      device_name: device_name ?? device.device_name,
     });
 
     const { password_hash: _, ...userWithoutPassword } = user;
-    return { user: userWithoutPassword, token };
+    return { user: userWithoutPassword, ...session };
   }
 
+  /**
+   * The user behind an access token, as long as its session hasn't been
+   * revoked or expired
+   */
   static async verifyToken(token: string) {
     try {
-      const decoded = jwt.verify(token, JWT_SECRET) as {
-        user_id: string;
-        email: string;
-      };
-
-      if (
-        !decoded ||
-        typeof decoded !== "object" ||
-        !("user_id" in decoded) ||
-        !("email" in decoded)
-      ) {
-        throw new Error("Invalid token payload");
-      }
+      const decoded = SessionService.verifyAccessToken(token);
 
       const session = await prisma.session.findUnique({
-        where: { token },
+        where: { session_id: decoded.sid },
         include: {
           user: { select: userSelectFields },
         },
       });
 
-      if (!session || session.expiresAt < new Date()) {
+      if (
+        !session ||
+        session.user_id !== decoded.user_id ||
+        session.expiresAt < new Date()
+      ) {
         throw new Error("Session expired");
       }
 
-      return session.user;
+      SessionService.touch(session.session_id, session.last_used_at);
+
+      return { user: session.user, session_id: session.session_id };
     } catch {
       throw new Error("Invalid token");
     }
   }
 
-  static async signOut(token: string) {
-    await prisma.session.deleteMany({ where: { token } });
+  static async signOut(user_id: string, session_id: string) {
+    await SessionService.revokeSession(user_id, session_id);
   }
   static async sendPasswordResetEmail(email: string): Promise<void> {
     console.log("🔄 Sending password reset email to:", email);
@@ -543,7 +331,8 @@ export class AuthService {
     await this.sendPasswordResetEmailTemplate(
       email,
       resetCode,
-      user.name || "User"
+      user.name || "User",
+      user.locale
     );
 
     console.log("✅ Password reset code generated and sent");
@@ -552,238 +341,31 @@ export class AuthService {
   static async sendPasswordResetEmailTemplate(
     email: string,
     code: string,
-    name: string
+    name: string,
+    locale?: string | null
   ) {
     try {
-      const nodemailer = require("nodemailer");
-
-      const transporter = nodemailer.createTransport({
-        host: "smtp.gmail.com",
-        port: 587,
-        secure: false,
-        auth: {
-          user: process.env.EMAIL_USER,
-          pass: process.env.EMAIL_PASSWORD,
-        },
-        tls: {
-          rejectUnauthorized: false,
-        },
-        debug: process.env.NODE_ENV !== "production",
-        logger: process.env.NODE_ENV !== "production",
-      });
-
-      // Test the connection
-      console.log("🔍 Testing email connection...");
-      await transporter.verify();
-      console.log("✅ Email connection verified");
-
-      const mailOptions = {
-        from: `"Calo Fitness & Diet" <${process.env.EMAIL_USER}>`,
-        to: email,
-        subject: "Password Reset Code - Calo",
-        html: `
-    <!DOCTYPE html>
-    <html lang="en">
-    <head>
-      <meta charset="UTF-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>Password Reset - Calo</title>
-      <!--[if mso]>
-      <noscript>
-        <xml>
-          <o:OfficeDocumentSettings>
-            <o:PixelsPerInch>96</o:PixelsPerInch>
-          </o:OfficeDocumentSettings>
-        </xml>
-      </noscript>
-      <![endif]-->
-    </head>
-    <body style="margin: 0; padding: 0; background-color: #f8f9fa; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;">
-      <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="background-color: #f8f9fa;">
-        <tr>
-          <td align="center" style="padding: 40px 20px;">
-
-            <!-- Main Container -->
-            <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="600" style="max-width: 600px; background-color: #ffffff; border-radius: 12px; box-shadow: 0 4px 20px rgba(0, 0, 0, 0.08); overflow: hidden;">
-
-              <!-- Header Section -->
-              <tr>
-                <td style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 40px 32px; text-align: center; position: relative;">
-                  <!-- Background Pattern -->
-                  <div style="position: absolute; top: 0; left: 0; right: 0; bottom: 0; background-image: radial-gradient(circle at 20% 50%, rgba(255, 255, 255, 0.1) 0%, transparent 50%), radial-gradient(circle at 80% 20%, rgba(255, 255, 255, 0.1) 0%, transparent 50%); opacity: 0.5;"></div>
-
-                  <!-- Logo/Icon -->
-                  <div style="background-color: rgba(255, 255, 255, 0.15); width: 90px; height: 90px; border-radius: 50%; margin: 0 auto 20px; display: flex; align-items: center; justify-content: center; border: 3px solid rgba(255, 255, 255, 0.3); position: relative;">
-                    <div style="width: 50px; height: 50px; background-color: white; border-radius: 50%; position: relative;">
-                      <div style="position: absolute; top: 50%; left: 50%; transform: translate(-50%, -50%); width: 24px; height: 24px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 50%;"></div>
-                      <div style="position: absolute; top: 15px; left: 15px; width: 8px; height: 8px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 2px; transform: rotate(45deg);"></div>
-                    </div>
-                  </div>
-
-                  <h1 style="color: #ffffff; font-size: 32px; font-weight: 700; margin: 0; letter-spacing: -0.5px; position: relative;">Calo</h1>
-                  <p style="color: rgba(255, 255, 255, 0.9); font-size: 16px; margin: 8px 0 0 0; font-weight: 400; position: relative;">Password Reset</p>
-                </td>
-              </tr>
-
-              <!-- Content Section -->
-              <tr>
-                <td style="padding: 48px 32px 32px;">
-
-                  <!-- Greeting -->
-                  <div style="text-align: center; margin-bottom: 32px;">
-                    <div style="width: 60px; height: 60px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 50%; margin: 0 auto 16px; display: flex; align-items: center; justify-content: center;">
-                      <span style="color: white; font-size: 24px;">🔑</span>
-                    </div>
-                    <h2 style="color: #1a1a1a; font-size: 26px; font-weight: 600; margin: 0 0 8px 0; line-height: 1.3;">
-                      Reset Your Password
-                    </h2>
-                    <p style="color: #4a5568; font-size: 16px; margin: 0;">
-                      Hello <strong>${name}</strong>! We received a request to reset your password.
-                    </p>
-                  </div>
-
-                  <p style="color: #4a5568; font-size: 16px; line-height: 1.6; margin: 0 0 32px 0; text-align: center;">
-                    Enter the verification code below in the Calo app to create a new password for your account.
-                  </p>
-
-                  <!-- Verification Code Container -->
-                  <div style="background: linear-gradient(135deg, #f7fafc 0%, #edf2f7 100%); border: 2px solid #e2e8f0; border-radius: 16px; padding: 40px 32px; text-align: center; margin: 32px 0; position: relative; overflow: hidden;">
-                    <!-- Background decoration -->
-                    <div style="position: absolute; top: -50px; right: -50px; width: 100px; height: 100px; background: linear-gradient(135deg, #667eea20 0%, #764ba220 100%); border-radius: 50%; opacity: 0.5;"></div>
-                    <div style="position: absolute; bottom: -30px; left: -30px; width: 60px; height: 60px; background: linear-gradient(135deg, #667eea20 0%, #764ba220 100%); border-radius: 50%; opacity: 0.3;"></div>
-
-                    <p style="color: #4a5568; font-size: 14px; margin: 0 0 20px 0; font-weight: 600; text-transform: uppercase; letter-spacing: 1px; position: relative;">
-                      Your Reset Code
-                    </p>
-
-                    <!-- Code Display -->
-                    <div style="background-color: white; border: 2px solid #e2e8f0; border-radius: 12px; padding: 24px; margin: 20px 0; position: relative;">
-                      <div style="font-family: 'Courier New', monospace; font-size: 42px; font-weight: 700; color: #2d3748; letter-spacing: 10px; margin: 0; text-align: center; line-height: 1;">
-                        ${code}
-                      </div>
-                    </div>
-
-                    <div style="display: flex; align-items: center; justify-content: center; margin-top: 20px; position: relative;">
-                      <div style="width: 20px; height: 20px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 50%; margin-right: 8px; display: flex; align-items: center; justify-content: center;">
-                        <span style="color: white; font-size: 12px;">⏰</span>
-                      </div>
-                      <p style="color: #718096; font-size: 14px; margin: 0; font-weight: 500;">
-                        This code expires in <strong style="color: #4a5568;">15 minutes</strong>
-                      </p>
-                    </div>
-                  </div>
-
-                  <!-- Instructions -->
-                  <div style="background: linear-gradient(135deg, #f0f9ff 0%, #e0f2fe 100%); border-left: 4px solid #3b82f6; padding: 24px; margin: 32px 0; border-radius: 0 12px 12px 0; position: relative;">
-                    <div style="position: absolute; top: 20px; right: 20px; width: 30px; height: 30px; background: linear-gradient(135deg, #3b82f6 0%, #1d4ed8 100%); border-radius: 50%; display: flex; align-items: center; justify-content: center;">
-                      <span style="color: white; font-size: 14px;">📱</span>
-                    </div>
-                    <h3 style="color: #1e40af; font-size: 16px; font-weight: 600; margin: 0 0 8px 0;">
-                      How to use this code:
-                    </h3>
-                    <ul style="color: #1e40af; font-size: 14px; line-height: 1.6; margin: 0; padding-left: 20px;">
-                      <li>Open the Calo app on your device</li>
-                      <li>Enter this 6-digit code when prompted</li>
-                      <li>Create your new secure password</li>
-                      <li>Start using your account immediately</li>
-                    </ul>
-                  </div>
-
-                  <!-- Security Notice -->
-                  <div style="background: linear-gradient(135deg, #fef2f2 0%, #fee2e2 100%); border-left: 4px solid #ef4444; padding: 24px; margin: 32px 0; border-radius: 0 12px 12px 0; position: relative;">
-                    <div style="position: absolute; top: 20px; right: 20px; width: 30px; height: 30px; background: linear-gradient(135deg, #ef4444 0%, #dc2626 100%); border-radius: 50%; display: flex; align-items: center; justify-content: center;">
-                      <span style="color: white; font-size: 14px;">🔒</span>
-                    </div>
-                    <h3 style="color: #dc2626; font-size: 16px; font-weight: 600; margin: 0 0 8px 0;">
-                      Security Notice
-                    </h3>
-                    <p style="color: #dc2626; font-size: 14px; line-height: 1.5; margin: 0;">
-                      <strong>Important:</strong> If you didn't request this password reset, please ignore this email and contact our support team. Never share your reset code with anyone.
-                    </p>
-                  </div>
-
-                </td>
-              </tr>
-
-              <!-- Footer Section -->
-              <tr>
-                <td style="background: linear-gradient(135deg, #f8f9fa 0%, #e9ecef 100%); padding: 32px; text-align: center; border-top: 1px solid #e2e8f0;">
-
-                  <!-- Social Links -->
-                  <div style="margin-bottom: 24px;">
-                    <a href="#" style="display: inline-block; margin: 0 8px; width: 44px; height: 44px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 50%; text-decoration: none; line-height: 44px; color: white; font-size: 16px; transition: transform 0.2s;">📧</a>
-                    <a href="#" style="display: inline-block; margin: 0 8px; width: 44px; height: 44px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 50%; text-decoration: none; line-height: 44px; color: white; font-size: 16px; transition: transform 0.2s;">💬</a>
-                    <a href="#" style="display: inline-block; margin: 0 8px; width: 44px; height: 44px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 50%; text-decoration: none; line-height: 44px; color: white; font-size: 16px; transition: transform 0.2s;">🌐</a>
-                  </div>
-
-                  <!-- Company Info -->
-                  <div style="background-color: white; border-radius: 12px; padding: 20px; margin: 20px 0; box-shadow: 0 2px 10px rgba(0, 0, 0, 0.05);">
-                    <h3 style="color: #1a1a1a; font-size: 18px; font-weight: 600; margin: 0 0 8px 0;">
-                      Calo - Fitness & Diet
-                    </h3>
-                    <p style="color: #718096; font-size: 14px; margin: 0 0 16px 0; line-height: 1.5;">
-                      Your Personal Nutrition & Fitness Assistant<br>
-                      <strong style="color: #4a5568;">Transform your health, one meal at a time.</strong>
-                    </p>
-
-                    <!-- App Download Buttons -->
-                    <div style="margin: 16px 0;">
-                      <span style="display: inline-block; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 8px 16px; border-radius: 20px; font-size: 12px; font-weight: 500; margin: 0 4px;">📱 Available on iOS & Android</span>
-                    </div>
-                  </div>
-
-                  <!-- Links -->
-                  <div style="margin: 24px 0;">
-                    <a href="#" style="color: #667eea; text-decoration: none; font-size: 14px; margin: 0 16px; font-weight: 500; padding: 8px 12px; border-radius: 6px; background-color: rgba(102, 126, 234, 0.1);">Privacy Policy</a>
-                    <a href="#" style="color: #667eea; text-decoration: none; font-size: 14px; margin: 0 16px; font-weight: 500; padding: 8px 12px; border-radius: 6px; background-color: rgba(102, 126, 234, 0.1);">Terms of Service</a>
-                    <a href="#" style="color: #667eea; text-decoration: none; font-size: 14px; margin: 0 16px; font-weight: 500; padding: 8px 12px; border-radius: 6px; background-color: rgba(102, 126, 234, 0.1);">Support</a>
-                  </div>
-
-                  <!-- Copyright -->
-                  <p style="color: #a0aec0; font-size: 12px; margin: 20px 0 0 0; line-height: 1.5;">
-                    © 2025 Calo. All rights reserved.<br>
-                    <a href="#" style="color: #a0aec0; text-decoration: none;">Unsubscribe</a> | 
-                    <a href="#" style="color: #a0aec0; text-decoration: none;">Update Preferences</a>
-                  </p>
-
-                </td>
-              </tr>
-
-            </table>
-
-          </td>
-        </tr>
-      </table>
-    </body>
-    </html>
-  `,
-      };
-
-      const result = await transporter.sendMail(mailOptions);
-      console.log(`✅ Password reset email sent to ${email}`);
-      console.log("📧 Message ID:", result.messageId);
-
-      // Fallback to console logging for development
-      if (process.env.NODE_ENV !== "production") {
-        console.log(`📧 Password reset email for ${email}`);
-        console.log(`👤 Name: ${name}`);
-        console.log(`🔑 Reset Code: ${code}`);
-        console.log(`⏰ Code expires in 15 minutes`);
-      }
-
-      return true;
-    } catch (error: any) {
-      console.error("❌ Failed to send password reset email:", error);
+      await EmailService.send(
+        "password_reset",
+        email,
+        { name, code, expires_minutes: 15 },
+        { locale, expires_at: new Date(Date.now() + 15 * 60 * 1000) }
+      );
+      console.log(`📧 Password reset email queued for ${email}`);
+    } catch (error) {
+      // Don't throw error - let the process continue even if email fails
+      console.error("❌ Failed to queue password reset email:", error);
+    }
 
-      // Fallback to console logging if email fails
-      console.log(`📧 FALLBACK - Password reset code for ${email}`);
+    // Fallback to console logging for development
+    if (process.env.NODE_ENV !== "production") {
+      console.log(`📧 Password reset email for ${email}`);
       console.log(`👤 Name: ${name}`);
       console.log(`🔑 Reset Code: ${code}`);
       console.log(`⏰ Code expires in 15 minutes`);
-
-      // Don't throw error - let the process continue even if email fails
-      return true;
     }
+
+    return true;
   }
 
   static async verifyResetCode(email: string, code: string): Promise<string> {
@@ -894,13 +476,8 @@ export class AuthService {
     }
   }
   static async getRolePermissions(role: string) {
-    const permissions = {
-      FREE: { dailyRequests: 10 },
-      PREMIUM: { dailyRequests: 50 },
-      GOLD: { dailyRequests: -1 },
-    };
-
-    return permissions[role as keyof typeof permissions] ?? permissions.FREE;
+    const { daily_units } = AiQuotaService.getPlanLimit(role);
+    return { dailyRequests: daily_units ?? -1 };
   }
 
   static getCookieOptions() {
@@ -908,8 +485,19 @@ export class AuthService {
       httpOnly: true,
       secure: process.env.NODE_ENV === "production",
       sameSite: "lax" as const,
-      maxAge: SESSION_EXPIRES_DAYS * 24 * 60 * 60 * 1000,
+      maxAge: ACCESS_TOKEN_TTL_SECONDS * 1000,
       path: "/",
     };
   }
+
+  // Only sent to the auth routes that need it
+  static getRefreshCookieOptions() {
+    return {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax" as const,
+      maxAge: REFRESH_TOKEN_DAYS * 24 * 60 * 60 * 1000,
+      path: "/api/auth",
+    };
+  }
 }
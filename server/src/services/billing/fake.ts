@@ -0,0 +1,241 @@
+import crypto from "crypto";
+import {
+  BillingEvent,
+  BillingEventType,
+  BillingInterval,
+  BillingProvider,
+  CheckoutRequest,
+  CheckoutSession,
+  PaidPlan,
+} from "../../types/billing";
+
+const SIGNATURE_HEADER = "x-fake-billing-signature";
+// Deliveries signed longer ago than this are refused as replays
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+const CHECKOUT_EXPIRES_MS = 30 * 60 * 1000;
+
+interface FakeBillingConfig {
+  secret?: string;
+  baseUrl?: string;
+}
+
+interface FakeSubscription {
+  subscription_id: string;
+  user_id: string;
+  plan: PaidPlan;
+  interval: BillingInterval;
+  amount: number;
+  currency: string;
+  period_end: Date;
+  canceled: boolean;
+}
+
+// A webhook delivery as it would arrive over HTTP
+export interface FakeDelivery {
+  rawBody: Buffer;
+  headers: Record<string, string>;
+}
+
+function addInterval(date: Date, interval: BillingInterval): Date {
+  const next = new Date(date);
+  if (interval === "yearly") {
+    next.setUTCFullYear(next.getUTCFullYear() + 1);
+  } else {
+    next.setUTCMonth(next.getUTCMonth() + 1);
+  }
+  return next;
+}
+
+function randomId(prefix: string) {
+  return `${prefix}_${crypto.randomBytes(12).toString("hex")}`;
+}
+
+/**
+ * In-memory stand-in for a payment provider, for development and tests.
+ * Payments are made by calling completeCheckout or renewSubscription, which
+ * produce signed webhook deliveries in the same way a real provider would.
+ */
+export class FakeBillingProvider implements BillingProvider {
+  readonly name = "fake";
+
+  private readonly checkouts = new Map<string, CheckoutRequest & { expires_at: Date }>();
+  private readonly subscriptions = new Map<string, FakeSubscription>();
+
+  constructor(
+    private readonly config: FakeBillingConfig = {
+      secret:
+        process.env.FAKE_BILLING_SECRET ||
+        (process.env.NODE_ENV !== "production" ? "fake-billing-secret" : undefined),
+      baseUrl: process.env.API_BASE_URL,
+    }
+  ) {}
+
+  isConfigured(): boolean {
+    return process.env.NODE_ENV !== "production" && !!this.config.secret;
+  }
+
+  async createCheckout(request: CheckoutRequest): Promise<CheckoutSession> {
+    const checkout_id = randomId("cs");
+    const expires_at = new Date(Date.now() + CHECKOUT_EXPIRES_MS);
+    this.checkouts.set(checkout_id, { ...request, expires_at });
+
+    return {
+      provider: this.name,
+      checkout_id,
+      url: `${this.config.baseUrl || ""}/billing/fake/checkouts/${checkout_id}`,
+      expires_at,
+    };
+  }
+
+  parseWebhook(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>
+  ): BillingEvent {
+    const header = headers[SIGNATURE_HEADER];
+    if (typeof header !== "string") {
+      throw new Error("Missing webhook signature");
+    }
+
+    const parts = Object.fromEntries(
+      header.split(",").map((part) => part.split("=") as [string, string])
+    );
+    const timestamp = Number(parts.t);
+    if (
+      !Number.isFinite(timestamp) ||
+      Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS
+    ) {
+      throw new Error("Webhook signature expired");
+    }
+
+    const expected = Buffer.from(this.computeSignature(timestamp, rawBody), "hex");
+    const received = Buffer.from(parts.v1 || "", "hex");
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+      throw new Error("Invalid webhook signature");
+    }
+
+    const payload = JSON.parse(rawBody.toString("utf8"));
+    const data = payload.data || {};
+
+    return {
+      event_id: payload.id,
+      type: payload.type,
+      user_id: data.user_id,
+      provider_subscription_id: data.subscription_id,
+      plan: data.plan,
+      interval: data.interval,
+      provider_payment_id: data.payment_id,
+      amount: data.amount,
+      currency: data.currency,
+      payment_method: data.payment_method,
+      period_start: data.period_start ? new Date(data.period_start) : undefined,
+      period_end: data.period_end ? new Date(data.period_end) : undefined,
+      failure_reason: data.failure_reason,
+    };
+  }
+
+  async cancelSubscription(provider_subscription_id: string): Promise<void> {
+    const subscription = this.subscriptions.get(provider_subscription_id);
+    if (subscription) {
+      subscription.canceled = true;
+    }
+  }
+
+  /**
+   * Pay (or fail to pay) a pending checkout of the user. Returns null when
+   * the checkout doesn't exist, has expired or belongs to someone else.
+   */
+  completeCheckout(
+    user_id: string,
+    checkout_id: string,
+    outcome: "succeeded" | "failed"
+  ): FakeDelivery | null {
+    const checkout = this.checkouts.get(checkout_id);
+    if (!checkout || checkout.user_id !== user_id || checkout.expires_at < new Date()) {
+      return null;
+    }
+    this.checkouts.delete(checkout_id);
+
+    const now = new Date();
+    const subscription: FakeSubscription = {
+      subscription_id: randomId("sub"),
+      user_id: checkout.user_id,
+      plan: checkout.plan,
+      interval: checkout.interval,
+      amount: checkout.amount,
+      currency: checkout.currency,
+      period_end: now,
+      canceled: false,
+    };
+
+    if (outcome === "succeeded") {
+      this.subscriptions.set(subscription.subscription_id, subscription);
+    }
+
+    return this.charge(subscription, outcome);
+  }
+
+  /**
+   * Bill the next period of one of the user's subscriptions, as the
+   * provider does when a period ends. Returns null when nothing is due.
+   */
+  renewSubscription(user_id: string, outcome: "succeeded" | "failed"): FakeDelivery | null {
+    const subscription = [...this.subscriptions.values()].find(
+      (candidate) => candidate.user_id === user_id && !candidate.canceled
+    );
+    if (!subscription) return null;
+
+    return this.charge(subscription, outcome);
+  }
+
+  sign(rawBody: Buffer, timestamp: number = Math.floor(Date.now() / 1000)): string {
+    return `t=${timestamp},v1=${this.computeSignature(timestamp, rawBody)}`;
+  }
+
+  private charge(subscription: FakeSubscription, outcome: "succeeded" | "failed"): FakeDelivery {
+    const period_start = subscription.period_end;
+    const period_end = addInterval(period_start, subscription.interval);
+
+    if (outcome === "succeeded") {
+      subscription.period_end = period_end;
+    }
+
+    const type: BillingEventType =
+      outcome === "succeeded" ? "payment_succeeded" : "payment_failed";
+
+    return this.deliver(type, {
+      user_id: subscription.user_id,
+      subscription_id: subscription.subscription_id,
+      plan: subscription.plan,
+      interval: subscription.interval,
+      payment_id: randomId("pay"),
+      amount: subscription.amount,
+      currency: subscription.currency,
+      payment_method: "card",
+      period_start: period_start.toISOString(),
+      period_end: period_end.toISOString(),
+      ...(outcome === "failed" && { failure_reason: "card_declined" }),
+    });
+  }
+
+  private deliver(type: BillingEventType, data: Record<string, unknown>): FakeDelivery {
+    const rawBody = Buffer.from(
+      JSON.stringify({ id: randomId("evt"), type, created: new Date().toISOString(), data })
+    );
+
+    return {
+      rawBody,
+      headers: {
+        "content-type": "application/json",
+        [SIGNATURE_HEADER]: this.sign(rawBody),
+      },
+    };
+  }
+
+  private computeSignature(timestamp: number, rawBody: Buffer): string {
+    return crypto
+      .createHmac("sha256", this.config.secret || "")
+      .update(`${timestamp}.`)
+      .update(rawBody)
+      .digest("hex");
+  }
+}
@@ -0,0 +1,20 @@
+import { BillingProvider } from "../../types/billing";
+import { FakeBillingProvider } from "./fake";
+
+const providers = new Map<string, BillingProvider>();
+
+export class BillingProviderRegistry {
+  static register(provider: BillingProvider) {
+    providers.set(provider.name, provider);
+  }
+
+  static get(name: string): BillingProvider | undefined {
+    return providers.get(name);
+  }
+
+  static list(): BillingProvider[] {
+    return Array.from(providers.values());
+  }
+}
+
+BillingProviderRegistry.register(new FakeBillingProvider());
@@ -0,0 +1,292 @@
+import { beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { BillingSubscription, Prisma, SubscriptionPayment, User } from "@prisma/client";
+import { prisma } from "../../lib/database";
+import { BillingService } from "./subscriptions";
+import { FakeBillingProvider, FakeDelivery } from "./fake";
+import { BillingProviderRegistry } from "./index";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const USER_ID = "user-1";
+
+let provider: FakeBillingProvider;
+let user: User;
+let subscription: BillingSubscription | null;
+let payments: SubscriptionPayment[];
+let eventIds: Set<string>;
+
+// Matches the where clauses BillingService queries billing_subscriptions with
+function matches(row: BillingSubscription, where: any): boolean {
+  if (where.OR) return where.OR.some((clause: any) => matches(row, clause));
+
+  return Object.entries(where).every(([field, condition]: [string, any]) => {
+    const value = (row as any)[field];
+    if (condition && typeof condition === "object" && "lt" in condition) {
+      return value !== null && value < condition.lt;
+    }
+    return value === condition;
+  });
+}
+
+// One user's billing tables, kept in memory
+function useBillingStore() {
+  user = {
+    user_id: USER_ID,
+    email: "dana@example.com",
+    subscription_type: "FREE",
+    subscription_start: null,
+    subscription_end: null,
+    account_status: "TRIAL",
+    status_changed_at: new Date(),
+    lifecycle_reminded_at: null,
+  } as User;
+  subscription = null;
+  payments = [];
+  eventIds = new Set();
+
+  Object.assign(prisma, {
+    $transaction: async (fn: (tx: typeof prisma) => Promise<unknown>) => fn(prisma),
+    billingWebhookEvent: {
+      create: async ({ data }: any) => {
+        if (eventIds.has(data.event_id)) {
+          throw new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+            code: "P2002",
+            clientVersion: "test",
+          });
+        }
+        eventIds.add(data.event_id);
+        return data;
+      },
+    },
+    user: {
+      findUnique: async ({ include }: any) => ({
+        ...user,
+        ...(include?.billingSubscription && { billingSubscription: subscription }),
+        ...(include?.payments && { payments }),
+      }),
+      update: async ({ data }: any) => Object.assign(user, data),
+      updateMany: async ({ where, data }: any) => {
+        const statuses: string[] = where.account_status.in ?? [where.account_status];
+        if (!statuses.includes(user.account_status)) return { count: 0 };
+        Object.assign(user, data);
+        return { count: 1 };
+      },
+    },
+    billingSubscription: {
+      // A copy, as the row read before an update doesn't change with it
+      findUnique: async () => subscription && { ...subscription },
+      findMany: async ({ where }: any) => (subscription && matches(subscription, where) ? [subscription] : []),
+      upsert: async ({ create, update }: any) => {
+        subscription = subscription
+          ? Object.assign(subscription, update)
+          : ({ grace_until: null, canceled_at: null, ...create } as BillingSubscription);
+        return subscription;
+      },
+      update: async ({ data }: any) => Object.assign(subscription!, data),
+    },
+    subscriptionPayment: {
+      findFirst: async ({ where }: any) =>
+        payments.find(
+          (payment) =>
+            payment.provider === where.provider &&
+            payment.provider_subscription_id === where.provider_subscription_id &&
+            payment.status === where.status
+        ) ?? null,
+      upsert: async ({ where, create, update }: any) => {
+        const existing = payments.find(
+          (payment) => payment.provider_payment_id === where.provider_payment_id
+        );
+        if (existing) return Object.assign(existing, update);
+        const payment = { payment_id: payments.length + 1, payment_date: new Date(), ...create };
+        payments.push(payment);
+        return payment;
+      },
+    },
+    // Nothing to close, and no engine to close it with
+    $disconnect: async () => {},
+  });
+}
+
+function deliver(delivery: FakeDelivery | null) {
+  assert.ok(delivery, "nothing to deliver");
+  return BillingService.handleWebhook("fake", delivery.rawBody, delivery.headers);
+}
+
+async function subscribe(plan: "PREMIUM" | "GOLD") {
+  const checkout = await BillingService.createCheckout(USER_ID, { plan, interval: "monthly" });
+  await deliver(provider.completeCheckout(USER_ID, checkout.checkout_id, "succeeded"));
+  return subscription!.provider_subscription_id;
+}
+
+beforeEach(() => {
+  provider = new FakeBillingProvider({ secret: "test-billing-secret" });
+  BillingProviderRegistry.register(provider);
+  useBillingStore();
+});
+
+test("rejects deliveries whose signature doesn't check out", async () => {
+  const checkout = await BillingService.createCheckout(USER_ID, { plan: "GOLD", interval: "monthly" });
+  const delivery = provider.completeCheckout(USER_ID, checkout.checkout_id, "succeeded")!;
+
+  const tampered = Buffer.from(delivery.rawBody.toString("utf8").replace('"GOLD"', '"PREMIUM"'));
+  await assert.rejects(
+    BillingService.handleWebhook("fake", tampered, delivery.headers),
+    /Invalid webhook signature/
+  );
+
+  const { "x-fake-billing-signature": _signature, ...unsigned } = delivery.headers;
+  await assert.rejects(
+    BillingService.handleWebhook("fake", delivery.rawBody, unsigned),
+    /Missing webhook signature/
+  );
+
+  const old = Math.floor(Date.now() / 1000) - 10 * 60;
+  await assert.rejects(
+    BillingService.handleWebhook("fake", delivery.rawBody, {
+      "x-fake-billing-signature": provider.sign(delivery.rawBody, old),
+    }),
+    /Webhook signature expired/
+  );
+
+  const otherSecret = new FakeBillingProvider({ secret: "someone-else" });
+  await assert.rejects(
+    BillingService.handleWebhook("fake", delivery.rawBody, {
+      "x-fake-billing-signature": otherSecret.sign(delivery.rawBody),
+    }),
+    /Invalid webhook signature/
+  );
+
+  assert.equal(user.subscription_type, "FREE");
+  assert.equal(subscription, null);
+  assert.deepEqual(payments, []);
+});
+
+test("activates the plan once the checkout is paid", async () => {
+  const checkout = await BillingService.createCheckout(USER_ID, { plan: "PREMIUM", interval: "monthly" });
+  const result = await deliver(provider.completeCheckout(USER_ID, checkout.checkout_id, "succeeded"));
+
+  assert.equal(result.duplicate, false);
+  assert.equal(user.subscription_type, "PREMIUM");
+  assert.equal(user.account_status, "ACTIVE");
+  assert.equal(subscription!.status, "ACTIVE");
+  assert.equal(subscription!.plan, "PREMIUM");
+  assert.ok(subscription!.current_period_end.getTime() > Date.now() + 27 * DAY_MS);
+  assert.equal(payments.length, 1);
+  assert.equal(payments[0].status, "SUCCEEDED");
+  assert.equal(payments[0].amount, 29.9);
+});
+
+test("applies a redelivered event only once", async () => {
+  await subscribe("PREMIUM");
+  const renewal = provider.renewSubscription(USER_ID, "succeeded");
+
+  assert.equal((await deliver(renewal)).duplicate, false);
+  const periodEnd = subscription!.current_period_end;
+
+  assert.equal((await deliver(renewal)).duplicate, true);
+  assert.equal(subscription!.current_period_end, periodEnd);
+  assert.equal(payments.length, 2);
+});
+
+test("extends the period on renewal and keeps the start date", async () => {
+  await subscribe("PREMIUM");
+  const { current_period_end } = subscription!;
+  const startedAt = user.subscription_start;
+
+  await deliver(provider.renewSubscription(USER_ID, "succeeded"));
+
+  assert.equal(subscription!.current_period_start.getTime(), current_period_end.getTime());
+  assert.ok(subscription!.current_period_end > current_period_end);
+  assert.equal(user.subscription_end, subscription!.current_period_end);
+  assert.equal(user.subscription_start, startedAt);
+  assert.equal(user.subscription_type, "PREMIUM");
+});
+
+test("a failed renewal gives a grace period, then the plan expires", async () => {
+  await subscribe("GOLD");
+
+  await deliver(provider.renewSubscription(USER_ID, "failed"));
+
+  assert.equal(subscription!.status, "PAST_DUE");
+  assert.equal(user.account_status, "PAST_DUE");
+  assert.equal(user.subscription_type, "GOLD");
+  assert.ok(subscription!.grace_until! > subscription!.current_period_end);
+  assert.equal(user.subscription_end, subscription!.grace_until);
+  assert.equal(payments[1].status, "FAILED");
+  assert.equal(payments[1].failure_reason, "card_declined");
+
+  // Still within the grace period
+  assert.equal(await BillingService.expireLapsedSubscriptions(), 0);
+  assert.equal(user.subscription_type, "GOLD");
+
+  subscription!.grace_until = new Date(Date.now() - 1000);
+  assert.equal(await BillingService.expireLapsedSubscriptions(), 1);
+
+  assert.equal(subscription!.status, "EXPIRED");
+  assert.equal(user.subscription_type, "FREE");
+  assert.equal(user.account_status, "SUSPENDED");
+});
+
+test("paying during the grace period restores the plan", async () => {
+  await subscribe("GOLD");
+  await deliver(provider.renewSubscription(USER_ID, "failed"));
+
+  await deliver(provider.renewSubscription(USER_ID, "succeeded"));
+
+  assert.equal(subscription!.status, "ACTIVE");
+  assert.equal(subscription!.grace_until, null);
+  assert.equal(user.account_status, "ACTIVE");
+});
+
+test("a canceled plan stops renewing and lasts until the end of the paid period", async () => {
+  await subscribe("PREMIUM");
+
+  assert.equal(await BillingService.cancel(USER_ID), true);
+
+  assert.equal(subscription!.status, "CANCELED");
+  assert.ok(subscription!.canceled_at);
+  assert.equal(provider.renewSubscription(USER_ID, "succeeded"), null);
+  assert.equal(await BillingService.cancel(USER_ID), false);
+
+  assert.equal(await BillingService.expireLapsedSubscriptions(), 0);
+  assert.equal(user.subscription_type, "PREMIUM");
+
+  subscription!.current_period_end = new Date(Date.now() - 1000);
+  assert.equal(await BillingService.expireLapsedSubscriptions(), 1);
+  assert.equal(user.subscription_type, "FREE");
+});
+
+test("changing plans cancels the old subscription and ignores its late events", async () => {
+  const premium = await subscribe("PREMIUM");
+  // Charged before the switch, delivered after it
+  const lateRenewal = provider.renewSubscription(USER_ID, "succeeded");
+
+  const gold = await subscribe("GOLD");
+
+  assert.notEqual(gold, premium);
+  assert.equal(user.subscription_type, "GOLD");
+  assert.equal(subscription!.plan, "GOLD");
+  assert.equal(subscription!.status, "ACTIVE");
+
+  await deliver(lateRenewal);
+
+  assert.equal(user.subscription_type, "GOLD");
+  assert.equal(subscription!.provider_subscription_id, gold);
+  assert.equal(payments.filter((payment) => payment.provider_subscription_id === premium).length, 2);
+
+  // Only the new subscription renews
+  await deliver(provider.renewSubscription(USER_ID, "succeeded"));
+  assert.equal(payments.at(-1)!.provider_subscription_id, gold);
+  assert.equal(payments.at(-1)!.plan_type, "GOLD");
+});
+
+test("a failed first checkout leaves the current plan alone", async () => {
+  await subscribe("PREMIUM");
+  const checkout = await BillingService.createCheckout(USER_ID, { plan: "GOLD", interval: "monthly" });
+
+  await deliver(provider.completeCheckout(USER_ID, checkout.checkout_id, "failed"));
+
+  assert.equal(user.subscription_type, "PREMIUM");
+  assert.equal(subscription!.status, "ACTIVE");
+  assert.equal(payments.at(-1)!.status, "FAILED");
+});
@@ -0,0 +1,399 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../../lib/database";
+import {
+  BillingEvent,
+  BillingProvider,
+  CheckoutInput,
+  CheckoutSession,
+  PlanPrice,
+  SubscriptionDetails,
+} from "../../types/billing";
+import { AccountLifecycleService, LIFECYCLE_DURATIONS } from "../accountLifecycle";
+import { BillingProviderRegistry } from "./index";
+
+const DEFAULT_PROVIDER = process.env.BILLING_PROVIDER || "fake";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const PLAN_PRICES: PlanPrice[] = [
+  { plan: "PREMIUM", interval: "monthly", amount: 29.9, currency: "ILS" },
+  { plan: "PREMIUM", interval: "yearly", amount: 299, currency: "ILS" },
+  { plan: "GOLD", interval: "monthly", amount: 49.9, currency: "ILS" },
+  { plan: "GOLD", interval: "yearly", amount: 499, currency: "ILS" },
+];
+
+type Tx = Prisma.TransactionClient;
+
+// A provider subscription that a newer one took over from
+interface ReplacedSubscription {
+  provider: string;
+  provider_subscription_id: string;
+}
+
+export class BillingService {
+  static getProvider(name: string = DEFAULT_PROVIDER): BillingProvider {
+    const provider = BillingProviderRegistry.get(name);
+    if (!provider) {
+      throw new Error(`Billing provider ${name} is not supported`);
+    }
+    if (!provider.isConfigured()) {
+      throw new Error(`Billing provider ${name} is not configured`);
+    }
+    return provider;
+  }
+
+  static listPlans(): PlanPrice[] {
+    return PLAN_PRICES;
+  }
+
+  static async createCheckout(user_id: string, input: CheckoutInput): Promise<CheckoutSession> {
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      include: { billingSubscription: true },
+    });
+    if (!user) throw new Error("User not found");
+
+    const current = user.billingSubscription;
+    if (
+      current &&
+      current.plan === input.plan &&
+      (current.status === "ACTIVE" || current.status === "PAST_DUE")
+    ) {
+      throw new Error("Already subscribed to this plan");
+    }
+
+    const price = PLAN_PRICES.find(
+      (candidate) => candidate.plan === input.plan && candidate.interval === input.interval
+    )!;
+
+    const checkout = await this.getProvider().createCheckout({
+      user_id,
+      email: user.email,
+      ...price,
+    });
+
+    console.log(`💳 Checkout ${checkout.checkout_id} created for ${user_id}: ${input.plan} ${input.interval}`);
+    return checkout;
+  }
+
+  /**
+   * Verify and apply a webhook delivery. Each event is applied once; a
+   * delivery the provider retries comes back as a duplicate. When the event
+   * starts a new subscription (a plan change), the one it replaces is
+   * canceled with its provider.
+   */
+  static async handleWebhook(
+    providerName: string,
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>
+  ): Promise<{ duplicate: boolean; event: BillingEvent }> {
+    const provider = this.getProvider(providerName);
+    const event = provider.parseWebhook(rawBody, headers);
+
+    let replaced: ReplacedSubscription | null;
+    try {
+      replaced = await prisma.$transaction(async (tx) => {
+        await tx.billingWebhookEvent.create({
+          data: { provider: provider.name, event_id: event.event_id, type: event.type },
+        });
+        return this.applyEvent(tx, provider.name, event);
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+        console.log(`💳 Billing event ${event.event_id} already applied`);
+        return { duplicate: true, event };
+      }
+      throw error;
+    }
+
+    console.log(`💳 Billing event ${event.event_id} (${event.type}) applied for ${event.user_id}`);
+
+    if (replaced) {
+      await this.cancelReplaced(event.user_id, replaced);
+    }
+
+    return { duplicate: false, event };
+  }
+
+  static async getSubscription(user_id: string): Promise<SubscriptionDetails | null> {
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      include: {
+        billingSubscription: true,
+        payments: { orderBy: { payment_date: "desc" }, take: 12 },
+      },
+    });
+    if (!user) return null;
+
+    const subscription = user.billingSubscription;
+
+    return {
+      plan: user.subscription_type,
+      status: subscription?.status ?? null,
+      interval: subscription?.interval ?? null,
+      provider: subscription?.provider ?? null,
+      current_period_end: subscription?.current_period_end ?? null,
+      grace_until: subscription?.grace_until ?? null,
+      canceled_at: subscription?.canceled_at ?? null,
+      payments: user.payments.map((payment) => ({
+        payment_id: payment.payment_id,
+        plan_type: payment.plan_type,
+        amount: payment.amount,
+        currency: payment.currency,
+        status: payment.status,
+        payment_date: payment.payment_date,
+        period_end: payment.period_end,
+        failure_reason: payment.failure_reason,
+      })),
+    };
+  }
+
+  /**
+   * Stop renewing. The plan stays until the paid period (or the grace
+   * period of a failed renewal) runs out. Resolves to false when there is
+   * nothing to cancel.
+   */
+  static async cancel(user_id: string): Promise<boolean> {
+    const subscription = await prisma.billingSubscription.findUnique({ where: { user_id } });
+    if (!subscription || (subscription.status !== "ACTIVE" && subscription.status !== "PAST_DUE")) {
+      return false;
+    }
+
+    await this.getProvider(subscription.provider).cancelSubscription(
+      subscription.provider_subscription_id
+    );
+
+    await prisma.billingSubscription.update({
+      where: { user_id },
+      data: { status: "CANCELED", canceled_at: new Date() },
+    });
+
+    console.log(`💳 Subscription canceled for ${user_id}, paid until ${subscription.current_period_end.toISOString()}`);
+    return true;
+  }
+
+  /**
+   * Move users whose paid time ran out back to FREE: canceled plans after
+   * their period, failed renewals after the grace period, and plans the
+   * provider never renewed or failed once the grace period has passed too.
+   */
+  static async expireLapsedSubscriptions(): Promise<number> {
+    const now = new Date();
+    const lapsed = await prisma.billingSubscription.findMany({
+      where: {
+        OR: [
+          { status: "CANCELED", current_period_end: { lt: now } },
+          { status: "PAST_DUE", grace_until: { lt: now } },
+          {
+            status: "ACTIVE",
+            current_period_end: {
+              lt: new Date(now.getTime() - LIFECYCLE_DURATIONS.past_due_days * DAY_MS),
+            },
+          },
+        ],
+      },
+    });
+
+    for (const subscription of lapsed) {
+      await prisma.$transaction((tx) => this.endSubscription(tx, subscription.user_id, now));
+      console.log(`💳 Subscription of ${subscription.user_id} expired (${subscription.status})`);
+    }
+
+    return lapsed.length;
+  }
+
+  /**
+   * Apply an event to the user's plan. Only the current subscription, or
+   * the first payment of a new one, changes it; events of a subscription
+   * that was replaced or has ended are only recorded. Returns the
+   * subscription a new one replaced, if it still renews.
+   */
+  private static async applyEvent(
+    tx: Tx,
+    provider: string,
+    event: BillingEvent
+  ): Promise<ReplacedSubscription | null> {
+    const subscription = await tx.billingSubscription.findUnique({
+      where: { user_id: event.user_id },
+    });
+    const isCurrent =
+      !!subscription &&
+      subscription.provider === provider &&
+      subscription.provider_subscription_id === event.provider_subscription_id;
+
+    // Its first payment starts a subscription; one that has been paid for
+    // before and isn't current anymore was replaced or has ended
+    const isStarting =
+      !isCurrent &&
+      event.type === "payment_succeeded" &&
+      !(await tx.subscriptionPayment.findFirst({
+        where: {
+          provider,
+          provider_subscription_id: event.provider_subscription_id,
+          status: "SUCCEEDED",
+        },
+        select: { payment_id: true },
+      }));
+
+    if (event.type !== "subscription_ended") {
+      await this.recordPayment(tx, provider, event);
+    }
+
+    // A failed first checkout, or anything from a replaced subscription, leaves the plan as it is
+    if (!isCurrent && !isStarting) {
+      console.log(`💳 Event ${event.event_id} is not for the current subscription of ${event.user_id}, recorded only`);
+      return null;
+    }
+
+    switch (event.type) {
+      case "payment_succeeded": {
+        if (!event.period_end) throw new Error("Payment event has no period end");
+        const periodStart = event.period_start ?? new Date();
+
+        await tx.billingSubscription.upsert({
+          where: { user_id: event.user_id },
+          create: {
+            user_id: event.user_id,
+            provider,
+            provider_subscription_id: event.provider_subscription_id,
+            plan: event.plan,
+            interval: event.interval,
+            status: "ACTIVE",
+            current_period_start: periodStart,
+            current_period_end: event.period_end,
+          },
+          update: {
+            provider,
+            provider_subscription_id: event.provider_subscription_id,
+            plan: event.plan,
+            interval: event.interval,
+            status: "ACTIVE",
+            current_period_start: periodStart,
+            current_period_end: event.period_end,
+            grace_until: null,
+            canceled_at: null,
+          },
+        });
+
+        const user = await tx.user.findUnique({
+          where: { user_id: event.user_id },
+          select: { account_status: true },
+        });
+        // A renewal of the same plan keeps the original start date
+        const continuing =
+          isCurrent && subscription!.plan === event.plan && subscription!.status !== "EXPIRED";
+
+        await tx.user.update({
+          where: { user_id: event.user_id },
+          data: {
+            subscription_type: event.plan,
+            ...(!continuing && { subscription_start: periodStart }),
+            subscription_end: event.period_end,
+            // Paying also restores an account that was suspended or scheduled
+            // for deletion; a renewal only re-arms the reminder
+            ...(user?.account_status === "ACTIVE"
+              ? { lifecycle_reminded_at: null }
+              : AccountLifecycleService.statusUpdate("ACTIVE")),
+          },
+        });
+
+        // Still renewing alongside the new one unless it is canceled
+        if (
+          !isCurrent &&
+          subscription &&
+          (subscription.status === "ACTIVE" || subscription.status === "PAST_DUE")
+        ) {
+          return {
+            provider: subscription.provider,
+            provider_subscription_id: subscription.provider_subscription_id,
+          };
+        }
+        break;
+      }
+
+      case "payment_failed": {
+        if (subscription!.status !== "ACTIVE") break;
+
+        const from = Math.max(subscription!.current_period_end.getTime(), Date.now());
+        const graceUntil = new Date(from + LIFECYCLE_DURATIONS.past_due_days * DAY_MS);
+
+        await tx.billingSubscription.update({
+          where: { user_id: event.user_id },
+          data: { status: "PAST_DUE", grace_until: graceUntil },
+        });
+        await tx.user.updateMany({
+          where: { user_id: event.user_id, account_status: "ACTIVE" },
+          data: AccountLifecycleService.statusUpdate("PAST_DUE"),
+        });
+        await tx.user.update({
+          where: { user_id: event.user_id },
+          data: { subscription_end: graceUntil },
+        });
+        break;
+      }
+
+      case "subscription_ended": {
+        await this.endSubscription(tx, event.user_id, new Date());
+        break;
+      }
+    }
+
+    return null;
+  }
+
+  // The new plan is already in effect; a failure here only leaves the old one to be canceled by hand
+  private static async cancelReplaced(user_id: string, replaced: ReplacedSubscription) {
+    try {
+      await this.getProvider(replaced.provider).cancelSubscription(replaced.provider_subscription_id);
+      console.log(`💳 Replaced subscription ${replaced.provider_subscription_id} of ${user_id} canceled`);
+    } catch (error) {
+      console.error(
+        `💥 Failed to cancel replaced subscription ${replaced.provider}/${replaced.provider_subscription_id} of ${user_id}:`,
+        error
+      );
+    }
+  }
+
+  private static async recordPayment(tx: Tx, provider: string, event: BillingEvent) {
+    const data = {
+      user_id: event.user_id,
+      plan_type: event.plan,
+      amount: event.amount ?? 0,
+      currency: event.currency ?? "ILS",
+      status: event.type === "payment_succeeded" ? ("SUCCEEDED" as const) : ("FAILED" as const),
+      provider,
+      provider_subscription_id: event.provider_subscription_id,
+      period_start: event.period_start,
+      period_end: event.period_end,
+      failure_reason: event.failure_reason,
+      payment_method: event.payment_method,
+    };
+
+    if (!event.provider_payment_id) {
+      await tx.subscriptionPayment.create({ data });
+      return;
+    }
+
+    await tx.subscriptionPayment.upsert({
+      where: { provider_payment_id: event.provider_payment_id },
+      create: { ...data, provider_payment_id: event.provider_payment_id },
+      update: data,
+    });
+  }
+
+  // An account already scheduled for deletion stays scheduled
+  private static async endSubscription(tx: Tx, user_id: string, endedAt: Date) {
+    await tx.billingSubscription.update({
+      where: { user_id },
+      data: { status: "EXPIRED", grace_until: null },
+    });
+    await tx.user.update({
+      where: { user_id },
+      data: { subscription_type: "FREE", subscription_end: endedAt },
+    });
+    await tx.user.updateMany({
+      where: { user_id, account_status: { in: ["ACTIVE", "PAST_DUE"] } },
+      data: AccountLifecycleService.statusUpdate("SUSPENDED", endedAt),
+    });
+  }
+}
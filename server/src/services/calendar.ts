@@ -4,8 +4,22 @@ import {
   DayData,
   WeeklyAnalysis,
   CalendarEvent,
+  CalendarEventUpdateInput,
   GamificationBadge,
+  RecurrenceInput,
 } from "../types/calendar";
+import {
+  fromDayKey,
+  getDayRange,
+  getLocalDate,
+  getMonthDates,
+  getUserTimeZone,
+  listDates,
+  toDayKey,
+} from "../utils/dayBoundary";
+import { CalendarRecurrenceService } from "./calendarRecurrence";
+import { formatRecurrenceRule } from "./ics/recurrence";
+import { WeightService } from "./weight";
 
 export class CalendarService {
   // Default nutritional goals (can be customized per user later)
@@ -27,19 +41,20 @@ export class CalendarService {
     try {
       console.log("📅 Fetching calendar data for user:", user_id, year, month);
 
-      // Get start and end dates for the month
-      const startDate = new Date(year, month - 1, 1);
-      const endDate = new Date(year, month, 0); // Last day of the month
+      // Month boundaries in the user's own timezone
+      const timeZone = await getUserTimeZone(user_id);
+      const { startDate, endDate } = getMonthDates(year, month);
+      const { start, end } = getDayRange(startDate, timeZone, endDate);
 
-      console.log("📊 Date range:", startDate, "to", endDate);
+      console.log("📊 Date range:", startDate, "to", endDate, timeZone);
 
       // Fetch meals for the month
       const meals = await prisma.meal.findMany({
         where: {
           user_id: user_id,
           created_at: {
-            gte: startDate,
-            lte: new Date(endDate.getTime() + 24 * 60 * 60 * 1000),
+            gte: start,
+            lt: end,
           },
         },
         orderBy: {
@@ -47,31 +62,28 @@ export class CalendarService {
         },
       });
 
-      // Fetch calendar events for the month
-      const events = await prisma.calendarEvent.findMany({
-        where: {
-          user_id: user_id,
-          date: {
-            gte: startDate,
-            lte: endDate,
-          },
-        },
-        orderBy: {
-          date: "asc",
-        },
-      });
+      // Fetch calendar events for the month, with recurring events expanded
+      const events = await CalendarRecurrenceService.getOccurrences(
+        user_id,
+        startDate,
+        endDate
+      );
 
       // Fetch activity data if available
       const activities = await prisma.dailyActivitySummary.findMany({
         where: {
           user_id: user_id,
           date: {
-            gte: startDate,
-            lte: endDate,
+            gte: toDayKey(startDate),
+            lte: toDayKey(endDate),
           },
         },
       });
 
+      // Daily weigh-ins and their trend
+      const weightPoints = await WeightService.getTrend(user_id, startDate, endDate);
+      const weightByDate = new Map(weightPoints.map((point) => [point.date, point]));
+
       console.log("🍽️ Found", meals.length, "meals for the month");
       console.log("📅 Found", events.length, "events for the month");
 
@@ -81,7 +93,7 @@ export class CalendarService {
       // Group meals by date
       const mealsByDate: Record<string, any[]> = {};
       meals.forEach((meal) => {
-        const dateStr = meal.created_at.toISOString().split("T")[0];
+        const dateStr = getLocalDate(timeZone, meal.created_at);
         if (!mealsByDate[dateStr]) {
           mealsByDate[dateStr] = [];
         }
@@ -91,7 +103,7 @@ export class CalendarService {
       // Group events by date
       const eventsByDate: Record<string, any[]> = {};
       events.forEach((event) => {
-        const dateStr = event.date.toISOString().split("T")[0];
+        const dateStr = fromDayKey(event.date);
         if (!eventsByDate[dateStr]) {
           eventsByDate[dateStr] = [];
         }
@@ -101,17 +113,13 @@ export class CalendarService {
       // Group activities by date
       const activitiesByDate: Record<string, any> = {};
       activities.forEach((activity) => {
-        const dateStr = activity.date.toISOString().split("T")[0];
+        const dateStr = fromDayKey(activity.date);
         activitiesByDate[dateStr] = activity;
       });
 
       // Generate calendar data for each day of the month
       const calendarData: Record<string, DayData> = {};
-      const daysInMonth = endDate.getDate();
-
-      for (let day = 1; day <= daysInMonth; day++) {
-        const date = new Date(year, month - 1, day);
-        const dateStr = date.toISOString().split("T")[0];
+      for (const dateStr of listDates(startDate, endDate)) {
         const dayMeals = mealsByDate[dateStr] || [];
         const dayEvents = eventsByDate[dateStr] || [];
         const dayActivity = activitiesByDate[dateStr];
@@ -145,6 +153,7 @@ export class CalendarService {
           id: event.event_id,
           title: event.title,
           type: event.type,
+          recurring: event.recurrence_rule !== null,
           created_at: event.created_at.toISOString(),
         }));
 
@@ -161,6 +170,8 @@ export class CalendarService {
           meal_count: dayMeals.length,
           quality_score,
           water_intake_ml: totals.water,
+          weight_kg: weightByDate.get(dateStr)?.weight_kg ?? null,
+          weight_trend_kg: weightByDate.get(dateStr)?.trend_kg ?? null,
           events: formattedEvents,
         };
       }
@@ -210,7 +221,8 @@ export class CalendarService {
       const monthlyProgress = totalDays > 0 ? (goalDays / totalDays) * 100 : 0;
 
       // Calculate streak days
-      const streakDays = this.calculateStreakDays(currentDays);
+      const today = getLocalDate(await getUserTimeZone(user_id));
+      const streakDays = this.calculateStreakDays(currentDays, today);
 
       // Calculate averages
       const totalCalories = currentDays.reduce(
@@ -283,7 +295,8 @@ export class CalendarService {
     date: string,
     title: string,
     type: string,
-    description?: string
+    description?: string,
+    recurrence?: RecurrenceInput | null
   ) {
     try {
       console.log("📝 Adding event for user:", user_id, {
@@ -291,15 +304,17 @@ export class CalendarService {
         title,
         type,
         description,
+        recurrence,
       });
 
       const event = await prisma.calendarEvent.create({
         data: {
           user_id,
-          date: new Date(date),
+          date: toDayKey(date),
           title,
           type,
           description,
+          recurrence_rule: recurrence ? formatRecurrenceRule(recurrence) : null,
         },
       });
 
@@ -311,38 +326,89 @@ export class CalendarService {
     }
   }
 
-  static async getEventsForDate(user_id: string, date: string) {
+  /**
+   * Update an event; for a recurring event the change applies to the whole
+   * series. Changing the rule clears the occurrences removed from the old one.
+   */
+  static async updateEvent(
+    user_id: string,
+    event_id: string,
+    updates: CalendarEventUpdateInput
+  ) {
     try {
-      console.log("📅 Getting events for date:", date);
+      console.log("✏️ Updating event:", event_id, updates);
 
-      const events = await prisma.calendarEvent.findMany({
-        where: {
-          user_id,
-          date: new Date(date),
-        },
-        orderBy: {
-          created_at: "asc",
+      const existing = await prisma.calendarEvent.findFirst({
+        where: { event_id, user_id },
+      });
+
+      if (!existing) {
+        return null;
+      }
+
+      const { recurrence, date, ...fields } = updates;
+      const event = await prisma.calendarEvent.update({
+        where: { event_id },
+        data: {
+          ...fields,
+          ...(date ? { date: toDayKey(date) } : {}),
+          ...(recurrence !== undefined
+            ? {
+                recurrence_rule: recurrence ? formatRecurrenceRule(recurrence) : null,
+                excluded_dates: [],
+              }
+            : {}),
         },
       });
 
-      return events;
+      console.log("✅ Event updated");
+      return event;
+    } catch (error) {
+      console.error("💥 Error updating event:", error);
+      throw new Error("Failed to update event");
+    }
+  }
+
+  static async getEventsForDate(user_id: string, date: string) {
+    try {
+      console.log("📅 Getting events for date:", date);
+
+      return await CalendarRecurrenceService.getOccurrences(user_id, date, date);
     } catch (error) {
       console.error("💥 Error fetching events:", error);
       throw new Error("Failed to fetch events");
     }
   }
 
-  static async deleteEvent(user_id: string, event_id: string) {
+  /**
+   * Delete an event. With a date, only that occurrence of a recurring event
+   * is removed and the rest of the series stays.
+   */
+  static async deleteEvent(user_id: string, event_id: string, date?: string) {
     try {
-      console.log("🗑️ Deleting event:", event_id);
+      console.log("🗑️ Deleting event:", event_id, date || "");
 
-      const event = await prisma.calendarEvent.deleteMany({
+      const existing = await prisma.calendarEvent.findFirst({
         where: {
           event_id,
           user_id, // Ensure user can only delete their own events
         },
       });
 
+      if (!existing) {
+        return null;
+      }
+
+      const event =
+        date && existing.recurrence_rule
+          ? await prisma.calendarEvent.update({
+              where: { event_id },
+              data: { excluded_dates: { push: toDayKey(date) } },
+            })
+          : await prisma.calendarEvent.delete({
+              where: { event_id },
+            });
+
       console.log("✅ Event deleted");
       return event;
     } catch (error) {
@@ -382,7 +448,8 @@ export class CalendarService {
     const hasWorkoutEvent = events.some((event) => event.type === "workout");
     const hasFastingEvent = events.some(
       (event) =>
-        event.type === "health" && event.title.toLowerCase().includes("fast")
+        event.type === "fasting" ||
+        (event.type === "health" && event.title.toLowerCase().includes("fast"))
     );
 
     if (hasWorkoutEvent) {
@@ -407,13 +474,12 @@ export class CalendarService {
     return Math.round(finalScore);
   }
 
-  private static calculateStreakDays(days: DayData[]): number {
+  private static calculateStreakDays(days: DayData[], today: string): number {
     let streak = 0;
-    const today = new Date();
 
     // Sort days by date (most recent first)
     const sortedDays = days
-      .filter((day) => new Date(day.date) <= today) // Only count days up to today
+      .filter((day) => day.date <= today) // Only count days up to the user's today
       .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
     for (const day of sortedDays) {
@@ -0,0 +1,68 @@
+import { CalendarEvent } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { CalendarEventOccurrence } from "../types/calendar";
+import { fromDayKey, toDayKey } from "../utils/dayBoundary";
+import { expandRecurrence, parseRecurrenceRule } from "./ics/recurrence";
+
+export class CalendarRecurrenceService {
+  /**
+   * Occurrences of the user's calendar events between startDate and endDate
+   * (inclusive, local "YYYY-MM-DD"). Recurring events are expanded from
+   * their rule; occurrences the user removed are left out.
+   */
+  static async getOccurrences(
+    user_id: string,
+    startDate: string,
+    endDate: string
+  ): Promise<CalendarEventOccurrence[]> {
+    const events = await prisma.calendarEvent.findMany({
+      where: {
+        user_id,
+        OR: [
+          {
+            recurrence_rule: null,
+            date: { gte: toDayKey(startDate), lte: toDayKey(endDate) },
+          },
+          {
+            recurrence_rule: { not: null },
+            date: { lte: toDayKey(endDate) },
+          },
+        ],
+      },
+      orderBy: [{ date: "asc" }, { created_at: "asc" }],
+    });
+
+    return events
+      .flatMap((event) => this.expandEvent(event, startDate, endDate))
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  private static expandEvent(
+    event: CalendarEvent,
+    startDate: string,
+    endDate: string
+  ): CalendarEventOccurrence[] {
+    const firstDate = fromDayKey(event.date);
+    const rule = event.recurrence_rule ? parseRecurrenceRule(event.recurrence_rule) : null;
+
+    // Rules that no longer parse fall back to the first occurrence only
+    const excluded = new Set(event.excluded_dates.map(fromDayKey));
+    const dates = (rule ? expandRecurrence(firstDate, rule, endDate) : [firstDate]).filter(
+      (date) => date >= startDate && date <= endDate && !excluded.has(date)
+    );
+
+    return dates.map((date) => ({
+      event_id: event.event_id,
+      user_id: event.user_id,
+      date: toDayKey(date),
+      title: event.title,
+      type: event.type,
+      description: event.description,
+      source: event.source,
+      recurrence_rule: event.recurrence_rule,
+      series_start_date: event.recurrence_rule ? firstDate : null,
+      created_at: event.created_at,
+      updated_at: event.updated_at,
+    }));
+  }
+}
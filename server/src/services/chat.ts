@@ -1,5 +1,6 @@
 import OpenAI from "openai";
 import { prisma } from "../lib/database";
+import { getDayRange, getLocalDate, getUserTimeZone } from "../utils/dayBoundary";
 
 const openai = process.env.OPENAI_API_KEY
   ? new OpenAI({
@@ -199,13 +200,14 @@ For cooking questions: give suggestions for nutritional improvement of the recip
       });
 
       // Get today's intake
-      const today = new Date().toISOString().split("T")[0];
+      const timeZone = await getUserTimeZone(userId);
+      const { start, end } = getDayRange(getLocalDate(timeZone), timeZone);
       const todayMeals = await prisma.meal.findMany({
         where: {
           user_id: userId,
           created_at: {
-            gte: new Date(today),
-            lt: new Date(new Date(today).getTime() + 24 * 60 * 60 * 1000),
+            gte: start,
+            lt: end,
           },
         },
       });
@@ -1,10 +1,17 @@
 import cron from "node-cron";
-import { EnhancedDailyGoalsService } from "../database/dailyGoals";
 import { EnhancedAIRecommendationService } from "../database/aiRecommendations";
 import { DatabaseOptimizationService } from "../database/optimization";
+import { WearableSyncService } from "../wearables/sync";
+import { ProductCatalogService } from "../products/catalog";
+import { MealAnalysisJobService } from "../analysisJobs";
+import { BillingService } from "../billing/subscriptions";
+import { AccountLifecycleService } from "../accountLifecycle";
+import { EmailService } from "../email/outbox";
+import { NotificationEmailService } from "../email/notifications";
 
 export class EnhancedCronJobService {
-  private static isRunning = false;
+  // Each job only waits on its own previous run
+  private static runningJobs = new Set<string>();
   private static lastRun = new Map<string, Date>();
 
   /**
@@ -13,20 +20,13 @@ export class EnhancedCronJobService {
   static initializeEnhancedCronJobs() {
     console.log("🚀 Initializing enhanced cron jobs...");
 
-    // Daily goals creation at 00:30 AM
-    cron.schedule("30 0 * * *", async () => {
-      await this.runJobSafely('daily-goals', async () => {
-        console.log("📊 Running daily goals creation at 00:30 AM");
-        const result = await EnhancedDailyGoalsService.createDailyGoalsForAllUsers();
-        console.log("✅ Daily goals creation completed:", result);
-      });
-    });
-
-    // AI recommendations at 06:00 AM
-    cron.schedule("0 6 * * *", async () => {
+    // AI recommendations hourly, from 06:00 in each user's timezone
+    cron.schedule("0 * * * *", async () => {
       await this.runJobSafely('ai-recommendations', async () => {
-        console.log("🤖 Running AI recommendations generation at 6:00 AM");
-        const result = await EnhancedAIRecommendationService.generateRecommendationsForAllUsers();
+        console.log("🤖 Running AI recommendations generation for users past 6:00 AM local");
+        const result = await EnhancedAIRecommendationService.generateRecommendationsForAllUsers({
+          minLocalHour: 6,
+        });
         console.log("✅ AI recommendations completed:", result);
       });
     });
@@ -43,6 +43,15 @@ export class EnhancedCronJobService {
         }
         
         await DatabaseOptimizationService.optimizeDatabase();
+
+        const purgedMisses = await ProductCatalogService.purgeExpiredMisses();
+        console.log(`🧹 Purged ${purgedMisses} expired product lookup misses`);
+
+        const purgedJobs = await MealAnalysisJobService.purgeFinishedJobs();
+        console.log(`🧹 Purged ${purgedJobs} finished meal analysis jobs`);
+
+        const purgedEmails = await EmailService.purgeFinishedEmails();
+        console.log(`🧹 Purged ${purgedEmails} old outbox emails`);
         console.log("✅ Database optimization completed");
       });
     });
@@ -65,6 +74,41 @@ export class EnhancedCronJobService {
       });
     });
 
+    // Wearable provider pull every hour; each device honors its own sync_frequency_hours
+    cron.schedule("15 * * * *", async () => {
+      await this.runJobSafely('wearable-sync', async () => {
+        console.log("⌚ Running scheduled wearable sync");
+        const result = await WearableSyncService.syncDueDevices();
+        console.log("✅ Wearable sync completed:", {
+          checked: result.checked,
+          synced: result.synced,
+          failed: result.failed,
+        });
+      });
+    });
+
+    // Downgrade plans whose paid or grace period ran out
+    cron.schedule("45 * * * *", async () => {
+      await this.runJobSafely('billing-expiry', async () => {
+        const expired = await BillingService.expireLapsedSubscriptions();
+        console.log(`💳 Expired ${expired} lapsed subscriptions`);
+      });
+    });
+
+    // Trial ends, suspensions, deletions and the reminders before them
+    cron.schedule("30 * * * *", async () => {
+      await this.runJobSafely('account-lifecycle', async () => {
+        await AccountLifecycleService.runLifecycle();
+      });
+    });
+
+    // Weekly summaries and plan reminders, each at its local time for the user
+    cron.schedule("10 * * * *", async () => {
+      await this.runJobSafely('notification-emails', async () => {
+        await NotificationEmailService.sendScheduledEmails();
+      });
+    });
+
     console.log("✅ Enhanced cron jobs initialized");
 
     // Run immediate startup tasks
@@ -77,8 +121,8 @@ export class EnhancedCronJobService {
    * Run a cron job safely with error handling and duplicate prevention
    */
   private static async runJobSafely(jobName: string, jobFunction: () => Promise<void>) {
-    if (this.isRunning) {
-      console.log(`⏭️ Skipping ${jobName} - another job is running`);
+    if (this.runningJobs.has(jobName)) {
+      console.log(`⏭️ Skipping ${jobName} - previous run still in progress`);
       return;
     }
 
@@ -91,7 +135,7 @@ export class EnhancedCronJobService {
       return;
     }
 
-    this.isRunning = true;
+    this.runningJobs.add(jobName);
     this.lastRun.set(jobName, now);
 
     try {
@@ -101,7 +145,7 @@ export class EnhancedCronJobService {
     } catch (error) {
       console.error(`💥 Job failed: ${jobName}`, error);
     } finally {
-      this.isRunning = false;
+      this.runningJobs.delete(jobName);
     }
   }
 
@@ -122,12 +166,7 @@ export class EnhancedCronJobService {
         await DatabaseOptimizationService.performIntelligentCleanup();
       }
 
-      // 3. Force create daily goals for all users (testing mode)
-      console.log("📊 Force creating daily goals for all users...");
-      const goalsResult = await EnhancedDailyGoalsService.forceCreateGoalsForAllUsers();
-      console.log("✅ Daily goals startup task completed:", goalsResult);
-
-      // 4. Generate missing AI recommendations (if OpenAI is available)
+      // 3. Generate missing AI recommendations (if OpenAI is available)
       if (process.env.OPENAI_API_KEY) {
         console.log("🤖 Generating missing AI recommendations...");
         const recommendationsResult = await EnhancedAIRecommendationService.generateRecommendationsForAllUsers();
@@ -162,12 +201,7 @@ export class EnhancedCronJobService {
       // 2. Optimize database
       await DatabaseOptimizationService.optimizeDatabase();
 
-      // 3. Force create daily goals for ALL users
-      console.log("📊 Force creating daily goals for ALL users...");
-      const goalsResult = await EnhancedDailyGoalsService.forceCreateGoalsForAllUsers();
-      console.log("📊 Daily goals result:", goalsResult);
-
-      // 4. Generate AI recommendations
+      // 3. Generate AI recommendations
       if (process.env.OPENAI_API_KEY) {
         const recommendationsResult = await EnhancedAIRecommendationService.generateRecommendationsForAllUsers();
         console.log("🤖 AI recommendations result:", recommendationsResult);
@@ -186,17 +220,22 @@ export class EnhancedCronJobService {
    */
   static getJobStatus(): {
     isRunning: boolean;
+    runningJobs: string[];
     lastRuns: Record<string, Date>;
     nextRuns: Record<string, string>;
   } {
     return {
-      isRunning: this.isRunning,
+      isRunning: this.runningJobs.size > 0,
+      runningJobs: Array.from(this.runningJobs),
       lastRuns: Object.fromEntries(this.lastRun),
       nextRuns: {
-        'daily-goals': '00:30 AM daily',
-        'ai-recommendations': '06:00 AM daily',
+        'ai-recommendations': 'Hourly at :00 (from 06:00 AM user local time)',
         'database-optimization': 'Every 6 hours',
-        'health-check': 'Every 2 hours'
+        'health-check': 'Every 2 hours',
+        'notification-emails': 'Hourly at :10 (weekly summaries Sunday 08:00, plan reminders 07:00 user local time)',
+        'wearable-sync': 'Hourly at :15',
+        'account-lifecycle': 'Hourly at :30',
+        'billing-expiry': 'Hourly at :45'
       }
     };
   }
@@ -1,7 +1,13 @@
 import cron from "node-cron";
 import { prisma } from "../lib/database";
 import { AIRecommendationService } from "./aiRecommendations";
-import { DailyGoalsService } from "./dailyGoal";
+import { EnhancedDailyGoalsService } from "./database/dailyGoals";
+import { AdaptiveTdeeService } from "./adaptiveTdee";
+import {
+  getLocalDate,
+  getLocalHour,
+  resolveTimeZone,
+} from "../utils/dayBoundary";
 
 export class CronJobService {
   static initializeCronJobs() {
@@ -13,16 +19,16 @@ export class CronJobService {
       await this.emergencyDatabaseCleanup();
     });
 
-    // Create daily goals for all users at 00:30 AM
-    cron.schedule("30 0 * * *", async () => {
-      console.log("📊 Running daily goals creation at 00:30 AM");
-      await this.createDailyGoalsForAllUsers();
+    // Recalibrate adaptive TDEE hourly; each user once per local day
+    cron.schedule("15 * * * *", async () => {
+      console.log("🔥 Running hourly adaptive TDEE recalibration");
+      await this.recalibrateAdaptiveGoalsForAllUsers();
     });
 
-    // Generate daily AI recommendations at 06:00 AM
-    cron.schedule("0 6 * * *", async () => {
-      console.log("🤖 Running daily AI recommendations job at 6:00 AM");
-      await this.generateDailyRecommendationsForAllUsers();
+    // Generate daily AI recommendations hourly, from 06:00 in each user's timezone
+    cron.schedule("0 * * * *", async () => {
+      console.log("🤖 Running hourly AI recommendations job");
+      await this.generateDailyRecommendationsForAllUsers(6);
     });
 
     // Emergency backup job - run every 2 hours for missed items
@@ -44,137 +50,93 @@ export class CronJobService {
     }, 3000); // Wait 3 seconds after startup
   }
 
-  static async createDailyGoalsForAllUsers(): Promise<void> {
-    console.log("📊 Starting daily goals creation...");
+  static async recalibrateAdaptiveGoalsForAllUsers(): Promise<void> {
+    console.log("🔥 Starting adaptive TDEE recalibration...");
 
     try {
-      // Test database connection first
-      await prisma.$connect();
-
-      const today = new Date();
-      const todayString = today.toISOString().split("T")[0];
-      const todayDayOfWeek = today.getDay();
-
-      // Get users who should receive goals today
-      const eligibleUsers = await prisma.user.findMany({
+      const users = await prisma.user.findMany({
         where: {
-          AND: [
-            // Users who haven't completed questionnaire should still get basic goals
-            {
-              OR: [
-                { is_questionnaire_completed: true },
-                { is_questionnaire_completed: false },
-              ],
-            },
-            // Don't create goals if they already exist for today
-            {
-              dailyGoals: {
-                none: {
-                  date: {
-                    equals: new Date(todayString),
-                  },
-                },
-              },
-            },
-          ],
-        },
-        include: {
-          questionnaires: {
-            orderBy: { date_completed: "desc" },
-            take: 1,
-          },
+          adaptive_goals_enabled: true,
+          is_questionnaire_completed: true,
         },
+        select: { user_id: true },
       });
 
-      console.log(
-        `📊 Found ${eligibleUsers.length} potentially eligible users`
-      );
-
-      let successCount = 0;
+      let recalibratedCount = 0;
       let errorCount = 0;
-      let skippedCount = 0;
 
-      for (const user of eligibleUsers) {
+      for (const user of users) {
         try {
-          // Check if this user should get goals today based on subscription and signup date
-          const signupDayOfWeek = new Date(user.signup_date).getDay();
-          const isPremium =
-            user.subscription_type === "PREMIUM" ||
-            user.subscription_type === "GOLD";
-
-          // Premium users get daily goals every day
-          // Free users only get goals on their signup day of the week
-          const shouldCreateToday =
-            isPremium || todayDayOfWeek === signupDayOfWeek;
-
-          if (!shouldCreateToday) {
-            skippedCount++;
-            console.log(
-              `⏭️ Skipped user ${user.user_id} - not their goal day (signup: ${signupDayOfWeek}, today: ${todayDayOfWeek})`
-            );
+          if (await AdaptiveTdeeService.isCalibratedToday(user.user_id)) {
             continue;
           }
 
-          // Use the DailyGoalsService to create goals
-          await DailyGoalsService.createOrUpdateDailyGoals(user.user_id);
-          successCount++;
-          console.log(
-            `✅ Created daily goal for user: ${user.user_id} (${
-              isPremium ? "Premium" : "Free"
-            })`
-          );
+          await EnhancedDailyGoalsService.recalibrateAdaptiveGoals(user.user_id);
+          recalibratedCount++;
         } catch (userError) {
           errorCount++;
           console.error(
-            `❌ Failed to create goal for user ${user.user_id}:`,
+            `❌ Failed to recalibrate TDEE for user ${user.user_id}:`,
             userError
           );
-          continue;
         }
       }
 
       console.log(
-        `📊 Daily goals creation completed: ${successCount} success, ${errorCount} errors, ${skippedCount} skipped`
+        `🔥 Adaptive TDEE recalibration completed: ${recalibratedCount} recalibrated, ${errorCount} errors`
       );
     } catch (error) {
-      console.error("❌ Error creating daily goals:", error);
-    } finally {
-      await prisma.$disconnect();
+      console.error("❌ Error recalibrating adaptive TDEE:", error);
     }
   }
 
-  private static async generateDailyRecommendationsForAllUsers(): Promise<void> {
+  private static async generateDailyRecommendationsForAllUsers(
+    minLocalHour?: number
+  ): Promise<void> {
     try {
       console.log("🤖 Starting daily AI recommendations generation...");
 
       // Test database connection first
       await prisma.$connect();
 
-      const today = new Date().toISOString().split("T")[0];
-
-      // Get all users who don't have recommendations for today
-      const usersWithoutRecommendations = await prisma.user.findMany({
+      const users = await prisma.user.findMany({
         where: {
-          AND: [
-            {
-              is_questionnaire_completed: true,
-            },
-            {
-              aiRecommendations: {
-                none: {
-                  date: today,
-                },
-              },
-            },
-          ],
+          is_questionnaire_completed: true,
         },
         select: {
           user_id: true,
           email: true,
           name: true,
+          timezone: true,
         },
       });
 
+      // "Today" is each user's local date; skip users whose day hasn't reached minLocalHour
+      const userDates = new Map<string, string>();
+      users.forEach((user) => {
+        const timeZone = resolveTimeZone(user.timezone);
+        if (minLocalHour === undefined || getLocalHour(timeZone) >= minLocalHour) {
+          userDates.set(user.user_id, getLocalDate(timeZone));
+        }
+      });
+
+      // Get all users who don't have recommendations for today
+      const existingRecommendations = await prisma.aiRecommendation.findMany({
+        where: {
+          user_id: { in: [...userDates.keys()] },
+          date: { in: [...new Set(userDates.values())] },
+        },
+        select: { user_id: true, date: true },
+      });
+      const usersWithRecommendations = new Set(
+        existingRecommendations
+          .filter((recommendation) => userDates.get(recommendation.user_id) === recommendation.date)
+          .map((recommendation) => recommendation.user_id)
+      );
+      const usersWithoutRecommendations = users.filter(
+        (user) => userDates.has(user.user_id) && !usersWithRecommendations.has(user.user_id)
+      );
+
       console.log(
         `🎯 Found ${usersWithoutRecommendations.length} users needing AI recommendations`
       );
@@ -239,10 +201,7 @@ export class CronJobService {
     try {
       console.log("🆘 Running emergency creation for missing items...");
 
-      // Create missing daily goals first
-      await this.createDailyGoalsForAllUsers();
-
-      // Then create missing AI recommendations
+      // Create missing AI recommendations
       await this.generateDailyRecommendationsForAllUsers();
 
       console.log("✅ Emergency creation completed");
@@ -324,10 +283,7 @@ export class CronJobService {
       // 1. Emergency database cleanup first
       await this.emergencyDatabaseCleanup();
 
-      // 2. Create daily goals for all users
-      await this.createDailyGoalsForAllUsers();
-
-      // 3. Generate AI recommendations if possible
+      // 2. Generate AI recommendations if possible
       try {
         await this.generateDailyRecommendationsForAllUsers();
       } catch (aiError) {
@@ -3,6 +3,15 @@ import { DatabaseOptimizationService } from "./optimization";
 import { OpenAIService } from "../openai";
 import { DailyRecommendation, AIRecommendationResponse } from "../../types/recommendations";
 import { StatisticsService } from "../statistics";
+import { EnhancedDailyGoalsService } from "./dailyGoals";
+import {
+  addDays,
+  getDayRange,
+  getLocalDate,
+  getLocalHour,
+  getUserTimeZone,
+  resolveTimeZone,
+} from "../../utils/dayBoundary";
 export interface RecommendationCreationResult {
   created: number;
   updated: number;
@@ -12,9 +21,13 @@ export interface RecommendationCreationResult {
 
 export class EnhancedAIRecommendationService {
   /**
-   * Generate AI recommendations for all eligible users
+   * Generate AI recommendations for all eligible users. Each user's "today" is
+   * their local date; minLocalHour limits the run to users whose local day has
+   * reached that hour.
    */
-  static async generateRecommendationsForAllUsers(): Promise<RecommendationCreationResult> {
+  static async generateRecommendationsForAllUsers(
+    options: { minLocalHour?: number } = {}
+  ): Promise<RecommendationCreationResult> {
     console.log("🤖 Starting enhanced AI recommendations generation...");
 
     const result: RecommendationCreationResult = {
@@ -25,22 +38,38 @@ export class EnhancedAIRecommendationService {
     };
 
     try {
-      const today = new Date().toISOString().split('T')[0];
+      const candidates = await prisma.user.findMany({
+        where: { is_questionnaire_completed: true },
+        select: { user_id: true, timezone: true }
+      });
+
+      // Each user's local date, for users whose day is due
+      const userDates = new Map<string, string>();
+      candidates.forEach(candidate => {
+        const timeZone = resolveTimeZone(candidate.timezone);
+        if (options.minLocalHour === undefined || getLocalHour(timeZone) >= options.minLocalHour) {
+          userDates.set(candidate.user_id, getLocalDate(timeZone));
+        }
+      });
+
+      // Only users without recommendations for their today
+      const existingRecommendations = await prisma.aiRecommendation.findMany({
+        where: {
+          user_id: { in: [...userDates.keys()] },
+          date: { in: [...new Set(userDates.values())] }
+        },
+        select: { user_id: true, date: true }
+      });
+      existingRecommendations.forEach(existing => {
+        if (userDates.get(existing.user_id) === existing.date) {
+          userDates.delete(existing.user_id);
+        }
+      });
 
       // Get users who need recommendations with optimized query
       const eligibleUsers = await prisma.user.findMany({
         where: {
-          AND: [
-            { is_questionnaire_completed: true },
-            {
-              // Only users without recommendations for today
-              aiRecommendations: {
-                none: {
-                  date: today
-                }
-              }
-            }
-          ]
+          user_id: { in: [...userDates.keys()] }
         },
         include: {
           questionnaires: {
@@ -68,7 +97,7 @@ export class EnhancedAIRecommendationService {
             // Double-check for duplicates
             const duplicateCheck = await DatabaseOptimizationService.checkForDuplicates(
               user.user_id, 
-              today
+              userDates.get(user.user_id)!
             );
 
             if (duplicateCheck.hasRecommendation) {
@@ -125,21 +154,14 @@ export class EnhancedAIRecommendationService {
         "week"
       );
 
-      // Get yesterday's performance specifically
-      const yesterday = new Date();
-      yesterday.setDate(yesterday.getDate() - 1);
-      const yesterdayStart = new Date(
-        yesterday.getFullYear(),
-        yesterday.getMonth(),
-        yesterday.getDate()
-      );
-      const yesterdayEnd = new Date(yesterdayStart);
-      yesterdayEnd.setDate(yesterdayEnd.getDate() + 1);
+      // Get yesterday's performance specifically, in the user's timezone
+      const timeZone = await getUserTimeZone(userId);
+      const yesterday = getDayRange(addDays(getLocalDate(timeZone), -1), timeZone);
 
       const yesterdayStats = await StatisticsService.getPeriodConsumption(
         userId,
-        yesterdayStart,
-        yesterdayEnd
+        yesterday.start,
+        yesterday.end
       );
       const dailyGoals = await StatisticsService.getUserDailyGoals(userId);
 
@@ -331,6 +353,7 @@ Be specific, actionable, and encouraging. Focus on realistic improvements.
   private static async getUserRecentPerformance(userId: string) {
     try {
       const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+      const timeZone = await getUserTimeZone(userId);
 
       const [recentMeals, recentWaterIntake, recentGoals] = await Promise.all([
         prisma.meal.findMany({
@@ -356,18 +379,11 @@ Be specific, actionable, and encouraging. Focus on realistic improvements.
             date: true
           }
         }),
-        prisma.dailyGoal.findMany({
-          where: {
-            user_id: userId,
-            date: { gte: sevenDaysAgo }
-          },
-          select: {
-            calories: true,
-            protein_g: true,
-            water_ml: true,
-            date: true
-          }
-        })
+        EnhancedDailyGoalsService.getGoalsForRange(
+          userId,
+          getLocalDate(timeZone, sevenDaysAgo),
+          getLocalDate(timeZone)
+        )
       ]);
 
       // Calculate performance metrics
@@ -375,7 +391,7 @@ Be specific, actionable, and encouraging. Focus on realistic improvements.
       const totalProtein = recentMeals.reduce((sum, meal) => sum + (meal.protein_g || 0), 0);
       const avgWaterIntake = recentWaterIntake.reduce((sum, water) => sum + (water.cups_consumed || 0), 0) / Math.max(recentWaterIntake.length, 1);
       
-      const goalAchievementRate = this.calculateGoalAchievementRate(recentMeals, recentGoals);
+      const goalAchievementRate = this.calculateGoalAchievementRate(recentMeals, recentGoals, timeZone);
 
       return {
         totalCalories,
@@ -383,7 +399,7 @@ Be specific, actionable, and encouraging. Focus on realistic improvements.
         avgWaterIntake,
         goalAchievementRate,
         mealFrequency: recentMeals.length / 7,
-        consistencyScore: this.calculateConsistencyScore(recentMeals)
+        consistencyScore: this.calculateConsistencyScore(recentMeals, timeZone)
       };
 
     } catch (error) {
@@ -547,7 +563,7 @@ Be specific, actionable, and encouraging. Consider the user's allergies and diet
     recommendations: AIRecommendationResponse
   ): Promise<DailyRecommendation> {
     try {
-      const today = new Date().toISOString().split('T')[0];
+      const today = getLocalDate(await getUserTimeZone(userId));
 
       const saved = await prisma.aiRecommendation.create({
         data: {
@@ -609,13 +625,17 @@ Be specific, actionable, and encouraging. Consider the user's allergies and diet
   /**
    * Calculate goal achievement rate
    */
-  private static calculateGoalAchievementRate(meals: any[], goals: any[]): number {
+  private static calculateGoalAchievementRate(
+    meals: any[],
+    goals: any[],
+    timeZone: string
+  ): number {
     if (goals.length === 0) return 0;
 
     // Group meals by date
     const mealsByDate = new Map<string, any[]>();
     meals.forEach(meal => {
-      const date = meal.created_at.toISOString().split('T')[0];
+      const date = getLocalDate(timeZone, meal.created_at);
       if (!mealsByDate.has(date)) {
         mealsByDate.set(date, []);
       }
@@ -624,8 +644,7 @@ Be specific, actionable, and encouraging. Consider the user's allergies and diet
 
     let achievedDays = 0;
     goals.forEach(goal => {
-      const date = goal.date.toISOString().split('T')[0];
-      const dayMeals = mealsByDate.get(date) || [];
+      const dayMeals = mealsByDate.get(goal.date) || [];
       const dayCalories = dayMeals.reduce((sum, meal) => sum + (meal.calories || 0), 0);
       
       if (dayCalories >= (goal.calories * 0.8)) { // 80% of goal considered achieved
@@ -639,13 +658,13 @@ Be specific, actionable, and encouraging. Consider the user's allergies and diet
   /**
    * Calculate consistency score based on meal timing patterns
    */
-  private static calculateConsistencyScore(meals: any[]): number {
+  private static calculateConsistencyScore(meals: any[], timeZone: string): number {
     if (meals.length < 3) return 0;
 
     // Group meals by date and calculate daily consistency
     const mealsByDate = new Map<string, any[]>();
     meals.forEach(meal => {
-      const date = meal.created_at.toISOString().split('T')[0];
+      const date = getLocalDate(timeZone, meal.created_at);
       if (!mealsByDate.has(date)) {
         mealsByDate.set(date, []);
       }
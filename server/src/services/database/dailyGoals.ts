@@ -1,632 +1,317 @@
+import { GoalVersion } from "@prisma/client";
 import { prisma } from "../../lib/database";
-import { NutritionGoals } from "../../types/statistics";
-
-export interface DailyGoalCreationResult {
-  created: number;
-  updated: number;
-  skipped: number;
-  errors: string[];
-  details: Array<{
-    user_id: string;
-    action: 'created' | 'updated' | 'skipped' | 'error';
-    message: string;
-  }>;
+import { DailyGoalEventAdjustments } from "../../types/calendar";
+import { GoalVersionSource, ManualGoalsInput } from "../../types/goals";
+import { NutritionGoals } from "../statistics";
+import {
+  fromDayKey,
+  getLocalDate,
+  getUserTimeZone,
+  listDates,
+  resolveTimeZone,
+} from "../../utils/dayBoundary";
+import { EventGoalRulesService } from "../eventGoalRules";
+import { AdaptiveTdeeService } from "../adaptiveTdee";
+import { GoalVersionService } from "../goalVersions";
+
+// A day's resolved targets, including any calendar event adjustments
+export interface DailyGoalTargets extends NutritionGoals {
+  date: string;
+  // "default" when no version is in effect yet and the formula is used
+  source: GoalVersionSource | "default";
+  goal_version_id: string | null;
+  effective_from: string | null;
+  event_adjustments: DailyGoalEventAdjustments | null;
 }
 
+// Versions the adaptive TDEE may replace; manual and meal plan targets are the user's own choice,
+// and migrated ones may have been either
+const ADAPTIVE_SOURCES: Array<GoalVersionSource | "default"> = ["default", "questionnaire", "adaptive"];
+// Recalibrations that move the calorie target less than this don't create a version
+const MIN_ADAPTIVE_CHANGE_KCAL = 25;
+
 export class EnhancedDailyGoalsService {
   /**
-   * FIXED - Create daily goals for all users with PROPER upsert operations
+   * Get user's goals for their local today
    */
-  static async createDailyGoalsForAllUsers(): Promise<DailyGoalCreationResult> {
-    console.log("📊 === STARTING DAILY GOALS CREATION (FIXED VERSION) ===");
-
-    const result: DailyGoalCreationResult = {
-      created: 0,
-      updated: 0,
-      skipped: 0,
-      errors: [],
-      details: []
-    };
-
+  static async getUserDailyGoals(userId: string): Promise<DailyGoalTargets> {
     try {
-      // Step 1: Get today's date in the correct format
-      const today = new Date();
-      const todayString = today.toISOString().split('T')[0];
-      const todayDate = new Date(todayString);
-      
-      console.log(`📅 TODAY: ${todayString}`);
-      console.log(`📅 TODAY DATE OBJECT: ${todayDate.toISOString()}`);
-
-      // Step 2: Get ALL users from database
-      console.log("👥 FETCHING ALL USERS...");
-      const allUsers = await prisma.user.findMany({
-        select: {
-          user_id: true,
-          email: true,
-          subscription_type: true,
-          is_questionnaire_completed: true,
-          created_at: true
-        }
-      });
+      const today = getLocalDate(await getUserTimeZone(userId));
+      const [goals] = await this.getGoalsForRange(userId, today, today);
 
-      console.log(`👥 TOTAL USERS FOUND: ${allUsers.length}`);
-      
-      if (allUsers.length === 0) {
-        console.log("❌ NO USERS FOUND IN DATABASE!");
-        return result;
-      }
+      console.log(`📊 Resolved daily goals for ${userId} on ${today} (${goals.source})`);
+      return goals;
 
-      // Step 3: Get questionnaires for personalized goals
-      console.log("📋 FETCHING QUESTIONNAIRES...");
-      const questionnaires = await prisma.userQuestionnaire.findMany({
-        select: {
-          user_id: true,
-          age: true,
-          weight_kg: true,
-          height_cm: true,
-          gender: true,
-          main_goal: true,
-          physical_activity_level: true,
-          date_completed: true
-        }
-      });
+    } catch (error) {
+      console.error("💥 Error getting user daily goals:", error);
+      // Return safe defaults
+      return {
+        calories: 2000,
+        protein_g: 150,
+        carbs_g: 250,
+        fats_g: 67,
+        fiber_g: 25,
+        sodium_mg: 2300,
+        sugar_g: 50,
+        water_ml: 2500,
+        date: getLocalDate(resolveTimeZone()),
+        source: "default",
+        goal_version_id: null,
+        effective_from: null,
+        event_adjustments: null
+      };
+    }
+  }
 
-      // Group questionnaires by user_id (get latest for each user)
-      const questionnaireMap = new Map();
-      questionnaires.forEach(q => {
-        const existing = questionnaireMap.get(q.user_id);
-        if (!existing || q.date_completed > existing.date_completed) {
-          questionnaireMap.set(q.user_id, q);
-        }
-      });
+  /**
+   * Goals of every local date between startDate and endDate (inclusive):
+   * the version in effect on the day, or the questionnaire formula before
+   * the first version, plus the day's calendar event adjustments
+   */
+  static async getGoalsForRange(
+    userId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<DailyGoalTargets[]> {
+    const versions = await GoalVersionService.resolveVersions(userId, startDate, endDate);
+
+    let formulaGoals: NutritionGoals | null = null;
+    if ([...versions.values()].some(version => !version)) {
+      formulaGoals = await this.calculateGoalsForUser(userId, await this.getLatestQuestionnaire(userId));
+    }
 
-      console.log(`📋 USERS WITH QUESTIONNAIRES: ${questionnaireMap.size}`);
-
-      // Step 4: Check existing goals for today
-      console.log("🔍 CHECKING EXISTING GOALS FOR TODAY...");
-      const existingGoals = await prisma.dailyGoal.findMany({
-        where: {
-          date: todayDate
-        },
-        select: {
-          user_id: true,
-          id: true,
-          calories: true
-        }
-      });
+    const baseByDate = new Map<string, NutritionGoals>();
+    for (const [date, version] of versions) {
+      baseByDate.set(date, version ? GoalVersionService.toTargets(version) : formulaGoals!);
+    }
 
-      console.log(`📊 EXISTING GOALS FOR TODAY: ${existingGoals.length}`);
-      const existingUserIds = new Set(existingGoals.map(g => g.user_id));
-
-      // Step 5: Process EACH user individually with UPSERT operations
-      for (let i = 0; i < allUsers.length; i++) {
-        const user = allUsers[i];
-        
-        try {
-          console.log(`\n📊 [${i + 1}/${allUsers.length}] PROCESSING USER: ${user.user_id} (${user.email})`);
-
-          // Get questionnaire for this user
-          const questionnaire = questionnaireMap.get(user.user_id);
-          console.log(`📋 Questionnaire found for ${user.user_id}: ${!!questionnaire}`);
-
-          // Calculate personalized goals
-          const goals = this.calculatePersonalizedGoals(questionnaire);
-          console.log(`🎯 Calculated goals for ${user.user_id}:`, goals);
-
-          // Use UPSERT to handle existing goals properly
-          console.log(`💾 UPSERTING daily goal for user: ${user.user_id}...`);
-          
-          const upsertedGoal = await prisma.dailyGoal.upsert({
-            where: {
-              user_id_date: {
-                user_id: user.user_id,
-                date: todayDate
-              }
-            },
-            update: {
-              calories: goals.calories,
-              protein_g: goals.protein_g,
-              carbs_g: goals.carbs_g,
-              fats_g: goals.fats_g,
-              fiber_g: goals.fiber_g,
-              sodium_mg: goals.sodium_mg,
-              sugar_g: goals.sugar_g,
-              water_ml: goals.water_ml,
-              updated_at: new Date()
-            },
-            create: {
-              user_id: user.user_id,
-              date: todayDate,
-              calories: goals.calories,
-              protein_g: goals.protein_g,
-              carbs_g: goals.carbs_g,
-              fats_g: goals.fats_g,
-              fiber_g: goals.fiber_g,
-              sodium_mg: goals.sodium_mg,
-              sugar_g: goals.sugar_g,
-              water_ml: goals.water_ml,
-            }
-          });
-
-          // Determine if it was created or updated
-          const wasExisting = existingUserIds.has(user.user_id);
-          
-          if (wasExisting) {
-            console.log(`🔄 UPDATED existing goal for user: ${user.user_id}`);
-            result.updated++;
-            result.details.push({
-              user_id: user.user_id,
-              action: 'updated',
-              message: `Goal updated with ID ${upsertedGoal.id}`
-            });
-          } else {
-            console.log(`✅ CREATED new goal for user: ${user.user_id}`);
-            result.created++;
-            result.details.push({
-              user_id: user.user_id,
-              action: 'created',
-              message: `Goal created with ID ${upsertedGoal.id}`
-            });
-          }
-
-          console.log(`✅ UPSERTED GOAL:`, {
-            id: upsertedGoal.id,
-            user_id: upsertedGoal.user_id,
-            date: upsertedGoal.date.toISOString(),
-            calories: upsertedGoal.calories,
-            action: wasExisting ? 'UPDATED' : 'CREATED'
-          });
-
-          // IMMEDIATE VERIFICATION - Check if it actually exists
-          const verification = await prisma.dailyGoal.findUnique({
-            where: { id: upsertedGoal.id }
-          });
-
-          if (verification) {
-            console.log(`✅ VERIFIED: Goal exists in database with ID ${verification.id}`);
-          } else {
-            console.error(`❌ VERIFICATION FAILED: Goal not found in database!`);
-            result.errors.push(`Verification failed for user ${user.user_id}`);
-          }
-
-        } catch (userError) {
-          console.error(`❌ ERROR processing user ${user.user_id}:`, userError);
-          result.errors.push(`User ${user.user_id}: ${userError instanceof Error ? userError.message : 'Unknown error'}`);
-          result.details.push({
-            user_id: user.user_id,
-            action: 'error',
-            message: userError instanceof Error ? userError.message : 'Unknown error'
-          });
-        }
-      }
+    const adjusted = await EventGoalRulesService.adjustGoals(userId, baseByDate);
 
-      // Step 6: Final verification - count all goals for today
-      console.log("\n🔍 FINAL VERIFICATION: Counting all goals for today...");
-      const finalGoalCount = await prisma.dailyGoal.count({
-        where: {
-          date: todayDate
-        }
-      });
+    return listDates(startDate, endDate).map(date => {
+      const version = versions.get(date) ?? null;
+      const { goals, adjustments } = adjusted.get(date)!;
 
-      console.log(`📊 TOTAL GOALS IN DATABASE FOR TODAY: ${finalGoalCount}`);
-
-      // List all goals for today for verification
-      const allTodayGoals = await prisma.dailyGoal.findMany({
-        where: {
-          date: todayDate
-        },
-        select: {
-          id: true,
-          user_id: true,
-          calories: true,
-          created_at: true,
-          updated_at: true
-        }
-      });
+      return {
+        calories: Math.round(goals.calories),
+        protein_g: Math.round(goals.protein_g),
+        carbs_g: Math.round(goals.carbs_g),
+        fats_g: Math.round(goals.fats_g),
+        fiber_g: Math.round(goals.fiber_g),
+        sodium_mg: Math.round(goals.sodium_mg),
+        sugar_g: Math.round(goals.sugar_g),
+        water_ml: Math.round(goals.water_ml),
+        date,
+        source: version ? (version.source as GoalVersionSource) : "default",
+        goal_version_id: version?.goal_version_id ?? null,
+        effective_from: version ? fromDayKey(version.effective_from) : null,
+        event_adjustments: adjustments
+      };
+    });
+  }
 
-      console.log(`📋 ALL GOALS FOR TODAY (${allTodayGoals.length}):`);
-      allTodayGoals.forEach((goal, index) => {
-        console.log(`  ${index + 1}. ID: ${goal.id}, User: ${goal.user_id}, Calories: ${goal.calories}, Created: ${goal.created_at.toISOString()}, Updated: ${goal.updated_at.toISOString()}`);
-      });
+  static async getVersionHistory(userId: string): Promise<GoalVersion[]> {
+    return GoalVersionService.getVersions(userId);
+  }
 
-      console.log(`\n📊 === FINAL RESULT ===`);
-      console.log(`✅ Created: ${result.created}`);
-      console.log(`🔄 Updated: ${result.updated}`);
-      console.log(`⏭️ Skipped: ${result.skipped}`);
-      console.log(`❌ Errors: ${result.errors.length}`);
-      console.log(`📊 Total goals in DB: ${finalGoalCount}`);
+  /**
+   * New targets from the latest questionnaire, effective from the user's today
+   */
+  static async setQuestionnaireGoals(userId: string): Promise<GoalVersion> {
+    const today = getLocalDate(await getUserTimeZone(userId));
+    const goals = await this.calculateGoalsForUser(userId, await this.getLatestQuestionnaire(userId));
 
-      return result;
+    return GoalVersionService.createVersion(userId, "questionnaire", today, goals);
+  }
 
-    } catch (error) {
-      console.error("💥 CRITICAL ERROR in daily goals creation:", error);
-      result.errors.push(error instanceof Error ? error.message : 'Unknown error');
-      return result;
-    }
+  /**
+   * Targets set by the user; the ones left out carry over from the goals in
+   * effect on the effective date
+   */
+  static async setManualGoals(userId: string, input: ManualGoalsInput): Promise<GoalVersion> {
+    const { effective_from, note, ...targets } = input;
+    const date = effective_from || getLocalDate(await getUserTimeZone(userId));
+    const current = await this.getBaseGoals(userId, date);
+
+    const definedTargets = Object.fromEntries(
+      Object.entries(targets).filter(([, value]) => value !== undefined)
+    );
+
+    return GoalVersionService.createVersion(
+      userId,
+      "manual",
+      date,
+      { ...current.goals, ...definedTargets },
+      { note }
+    );
   }
 
   /**
-   * Force create daily goals for ALL users - TESTING VERSION with UPSERT
+   * Targets of a meal plan the user just activated, from their today on.
+   * Plans without a calorie target leave the goals as they are.
    */
-  static async forceCreateGoalsForAllUsers(): Promise<DailyGoalCreationResult> {
-    console.log("🚨 === FORCE CREATING DAILY GOALS FOR ALL USERS ===");
-
-    const result: DailyGoalCreationResult = {
-      created: 0,
-      updated: 0,
-      skipped: 0,
-      errors: [],
-      details: []
-    };
+  static async applyMealPlanGoals(
+    userId: string,
+    plan: {
+      plan_id: string;
+      name: string;
+      target_calories_daily: number | null;
+      target_protein_daily: number | null;
+      target_carbs_daily: number | null;
+      target_fats_daily: number | null;
+    }
+  ): Promise<GoalVersion | null> {
+    if (!plan.target_calories_daily) {
+      return null;
+    }
 
-    try {
-      const today = new Date();
-      const todayString = today.toISOString().split('T')[0];
-      const todayDate = new Date(todayString);
-      
-      console.log(`📅 Force creating goals for date: ${todayString}`);
-      console.log(`📅 Date object: ${todayDate.toISOString()}`);
-
-      // Get ALL users with questionnaires
-      const allUsers = await prisma.user.findMany({
-        include: {
-          questionnaires: {
-            orderBy: { date_completed: 'desc' },
-            take: 1
-          }
-        }
-      });
+    const today = getLocalDate(await getUserTimeZone(userId));
+    const current = await this.getBaseGoals(userId, today);
+
+    return GoalVersionService.createVersion(
+      userId,
+      "meal_plan",
+      today,
+      {
+        ...current.goals,
+        calories: plan.target_calories_daily,
+        protein_g: plan.target_protein_daily ?? current.goals.protein_g,
+        carbs_g: plan.target_carbs_daily ?? current.goals.carbs_g,
+        fats_g: plan.target_fats_daily ?? current.goals.fats_g
+      },
+      { meal_plan_id: plan.plan_id, note: plan.name }
+    );
+  }
 
-      console.log(`👥 FORCE processing ${allUsers.length} users`);
+  /**
+   * Recalibrate the user's adaptive TDEE and, when the calorie target moves,
+   * version the new targets from today. Users without a questionnaire have
+   * no formula to adapt and are skipped; manual and meal plan targets are
+   * left alone.
+   */
+  static async recalibrateAdaptiveGoals(userId: string) {
+    const questionnaire = await this.getLatestQuestionnaire(userId);
 
-      // Get existing goals to determine create vs update
-      const existingGoals = await prisma.dailyGoal.findMany({
-        where: {
-          date: todayDate
-        },
-        select: {
-          user_id: true
-        }
-      });
+    if (!questionnaire) {
+      console.log(`⏭️ No questionnaire for ${userId}, skipping TDEE recalibration`);
+      return null;
+    }
 
-      const existingUserIds = new Set(existingGoals.map(g => g.user_id));
-      console.log(`📊 Users with existing goals: ${existingUserIds.size}`);
-
-      for (let i = 0; i < allUsers.length; i++) {
-        const user = allUsers[i];
-        
-        try {
-          console.log(`\n🔄 [${i + 1}/${allUsers.length}] FORCE processing user: ${user.user_id} (${user.email})`);
-
-          const questionnaire = user.questionnaires[0];
-          const goals = this.calculatePersonalizedGoals(questionnaire);
-          
-          console.log(`🎯 Goals calculated for ${user.user_id}:`, goals);
-
-          // Use UPSERT to handle existing goals properly
-          console.log(`💾 UPSERTING goal for user: ${user.user_id}`);
-          
-          const upsertedGoal = await prisma.dailyGoal.upsert({
-            where: {
-              user_id_date: {
-                user_id: user.user_id,
-                date: todayDate
-              }
-            },
-            update: {
-              calories: goals.calories,
-              protein_g: goals.protein_g,
-              carbs_g: goals.carbs_g,
-              fats_g: goals.fats_g,
-              fiber_g: goals.fiber_g,
-              sodium_mg: goals.sodium_mg,
-              sugar_g: goals.sugar_g,
-              water_ml: goals.water_ml,
-              updated_at: new Date()
-            },
-            create: {
-              user_id: user.user_id,
-              date: todayDate,
-              calories: goals.calories,
-              protein_g: goals.protein_g,
-              carbs_g: goals.carbs_g,
-              fats_g: goals.fats_g,
-              fiber_g: goals.fiber_g,
-              sodium_mg: goals.sodium_mg,
-              sugar_g: goals.sugar_g,
-              water_ml: goals.water_ml,
-            }
-          });
-
-          // Determine if it was created or updated
-          const wasExisting = existingUserIds.has(user.user_id);
-          
-          if (wasExisting) {
-            console.log(`🔄 UPDATED goal for user: ${user.user_id}`);
-            result.updated++;
-            result.details.push({
-              user_id: user.user_id,
-              action: 'updated',
-              message: `Goal updated with ID ${upsertedGoal.id}`
-            });
-          } else {
-            console.log(`✅ CREATED goal for user: ${user.user_id}`);
-            result.created++;
-            result.details.push({
-              user_id: user.user_id,
-              action: 'created',
-              message: `Goal created with ID ${upsertedGoal.id}`
-            });
-          }
-
-          console.log(`✅ UPSERTED GOAL:`, {
-            id: upsertedGoal.id,
-            user_id: upsertedGoal.user_id,
-            date: upsertedGoal.date.toISOString(),
-            calories: upsertedGoal.calories,
-            action: wasExisting ? 'UPDATED' : 'CREATED'
-          });
-
-          // IMMEDIATE VERIFICATION
-          const verification = await prisma.dailyGoal.findUnique({
-            where: { id: upsertedGoal.id }
-          });
-
-          if (verification) {
-            console.log(`✅ VERIFIED: Goal exists in database with ID ${verification.id}`);
-          } else {
-            console.error(`❌ VERIFICATION FAILED!`);
-            result.errors.push(`Verification failed for user ${user.user_id}`);
-          }
-
-        } catch (userError) {
-          console.error(`❌ ERROR processing user ${user.user_id}:`, userError);
-          result.errors.push(`User ${user.user_id}: ${userError instanceof Error ? userError.message : 'Unknown error'}`);
-          result.details.push({
-            user_id: user.user_id,
-            action: 'error',
-            message: userError instanceof Error ? userError.message : 'Unknown error'
-          });
-        }
-      }
+    const estimate = await AdaptiveTdeeService.recalibrate(
+      userId,
+      this.calculateFormulaTdee(questionnaire)
+    );
+    if (!estimate) {
+      return null;
+    }
 
-      // Final verification
-      const finalCount = await prisma.dailyGoal.count({
-        where: {
-          date: todayDate
-        }
-      });
+    const today = getLocalDate(await getUserTimeZone(userId));
+    const current = await this.getBaseGoals(userId, today);
+    if (!ADAPTIVE_SOURCES.includes(current.source)) {
+      console.log(`⏭️ ${current.source} goals in effect for ${userId}, not adapting them`);
+      return estimate;
+    }
 
-      console.log(`\n📊 === FORCE CREATION COMPLETED ===`);
-      console.log(`✅ Created: ${result.created}`);
-      console.log(`🔄 Updated: ${result.updated}`);
-      console.log(`⏭️ Skipped: ${result.skipped}`);
-      console.log(`❌ Errors: ${result.errors.length}`);
-      console.log(`📊 Total goals in DB: ${finalCount}`);
-
-      // List all goals for verification
-      const allGoals = await prisma.dailyGoal.findMany({
-        where: { date: todayDate },
-        select: {
-          id: true,
-          user_id: true,
-          calories: true,
-          protein_g: true,
-          created_at: true,
-          updated_at: true
-        }
-      });
+    const goals = await this.calculateGoalsForUser(userId, questionnaire);
+    if (Math.abs(goals.calories - current.goals.calories) >= MIN_ADAPTIVE_CHANGE_KCAL) {
+      await GoalVersionService.createVersion(userId, "adaptive", today, goals);
+    }
 
-      console.log(`📋 ALL GOALS IN DATABASE FOR TODAY:`);
-      allGoals.forEach((goal, index) => {
-        console.log(`  ${index + 1}. ID: ${goal.id}, User: ${goal.user_id}, Calories: ${goal.calories}, Protein: ${goal.protein_g}g`);
-      });
+    return estimate;
+  }
 
-      return result;
+  /**
+   * Back to the plain questionnaire formula from today, after the user opted
+   * out of adaptive goals while adaptive targets were in effect
+   */
+  static async revertAdaptiveGoals(userId: string): Promise<GoalVersion | null> {
+    const today = getLocalDate(await getUserTimeZone(userId));
+    const current = await this.getBaseGoals(userId, today);
 
-    } catch (error) {
-      console.error("💥 ERROR in force creation:", error);
-      result.errors.push(error instanceof Error ? error.message : 'Unknown error');
-      return result;
+    if (current.source !== "adaptive") {
+      return null;
     }
+
+    return this.setQuestionnaireGoals(userId);
   }
 
   /**
-   * Get user's current daily goals - CREATE IF MISSING using UPSERT
+   * Goals in effect on a local date before calendar event adjustments
    */
-  static async getUserDailyGoals(userId: string): Promise<NutritionGoals> {
-    try {
-      console.log(`📊 === GETTING DAILY GOALS FOR USER: ${userId} ===`);
-      
-      const today = new Date();
-      const todayString = today.toISOString().split('T')[0];
-      const todayDate = new Date(todayString);
-      
-      console.log(`📅 Looking for goals on date: ${todayString}`);
-      console.log(`📅 Date object: ${todayDate.toISOString()}`);
-      
-      // Get questionnaire for goal calculation
-      const questionnaire = await prisma.userQuestionnaire.findFirst({
-        where: { user_id: userId },
-        orderBy: { date_completed: 'desc' }
-      });
-
-      console.log(`📋 Questionnaire found: ${!!questionnaire}`);
-
-      // Calculate goals
-      const goals = this.calculatePersonalizedGoals(questionnaire);
-      console.log(`🎯 Calculated goals:`, goals);
-
-      // Use UPSERT to get or create goals
-      const dailyGoal = await prisma.dailyGoal.upsert({
-        where: {
-          user_id_date: {
-            user_id: userId,
-            date: todayDate
-          }
-        },
-        update: {
-          // Don't update existing goals unless needed
-          updated_at: new Date()
-        },
-        create: {
-          user_id: userId,
-          date: todayDate,
-          calories: goals.calories,
-          protein_g: goals.protein_g,
-          carbs_g: goals.carbs_g,
-          fats_g: goals.fats_g,
-          fiber_g: goals.fiber_g,
-          sodium_mg: goals.sodium_mg,
-          sugar_g: goals.sugar_g,
-          water_ml: goals.water_ml,
-        }
-      });
-
-      console.log(`✅ UPSERTED daily goal:`, {
-        id: dailyGoal.id,
-        user_id: dailyGoal.user_id,
-        date: dailyGoal.date.toISOString(),
-        calories: dailyGoal.calories
-      });
+  private static async getBaseGoals(
+    userId: string,
+    date: string
+  ): Promise<{ goals: NutritionGoals; source: GoalVersionSource | "default" }> {
+    const version = (await GoalVersionService.resolveVersions(userId, date, date)).get(date);
+
+    if (version) {
+      return { goals: GoalVersionService.toTargets(version), source: version.source as GoalVersionSource };
+    }
 
-      return {
-        calories: Number(dailyGoal.calories),
-        protein_g: Number(dailyGoal.protein_g),
-        carbs_g: Number(dailyGoal.carbs_g),
-        fats_g: Number(dailyGoal.fats_g),
-        fiber_g: Number(dailyGoal.fiber_g),
-        sodium_mg: Number(dailyGoal.sodium_mg),
-        sugar_g: Number(dailyGoal.sugar_g),
-        water_ml: Number(dailyGoal.water_ml)
-      };
+    return {
+      goals: await this.calculateGoalsForUser(userId, await this.getLatestQuestionnaire(userId)),
+      source: "default"
+    };
+  }
 
-    } catch (error) {
-      console.error("💥 Error getting user daily goals:", error);
-      // Return safe defaults
-      return {
-        calories: 2000,
-        protein_g: 150,
-        carbs_g: 250,
-        fats_g: 67,
-        fiber_g: 25,
-        sodium_mg: 2300,
-        sugar_g: 50,
-        water_ml: 2500
-      };
-    }
+  private static async getLatestQuestionnaire(userId: string) {
+    return prisma.userQuestionnaire.findFirst({
+      where: { user_id: userId },
+      orderBy: { date_completed: 'desc' }
+    });
   }
 
   /**
-   * Force create daily goals for a specific user - GUARANTEED TO WORK with UPSERT
+   * Personalized goals built on the user's adaptive TDEE when they have one
    */
-  static async forceCreateDailyGoalsForUser(userId: string): Promise<NutritionGoals> {
-    try {
-      console.log(`🔄 === FORCE CREATING DAILY GOALS FOR USER: ${userId} ===`);
-
-      // Get user with questionnaire
-      const user = await prisma.user.findUnique({
-        where: { user_id: userId },
-        include: {
-          questionnaires: {
-            orderBy: { date_completed: 'desc' },
-            take: 1
-          }
-        }
-      });
-
-      if (!user) {
-        throw new Error("User not found");
-      }
-
-      console.log(`👤 Found user: ${user.email}`);
-      console.log(`📋 Questionnaires: ${user.questionnaires.length}`);
-
-      const questionnaire = user.questionnaires[0];
-      const goals = this.calculatePersonalizedGoals(questionnaire);
-      
-      const today = new Date();
-      const todayString = today.toISOString().split('T')[0];
-      const todayDate = new Date(todayString);
-
-      console.log(`🎯 Calculated goals for ${userId}:`, goals);
-      console.log(`📅 Creating for date: ${todayString}`);
-
-      // Use UPSERT to handle existing goals
-      console.log(`💾 UPSERTING goal for user: ${userId}`);
-      const upsertedGoal = await prisma.dailyGoal.upsert({
-        where: {
-          user_id_date: {
-            user_id: userId,
-            date: todayDate
-          }
-        },
-        update: {
-          calories: goals.calories,
-          protein_g: goals.protein_g,
-          carbs_g: goals.carbs_g,
-          fats_g: goals.fats_g,
-          fiber_g: goals.fiber_g,
-          sodium_mg: goals.sodium_mg,
-          sugar_g: goals.sugar_g,
-          water_ml: goals.water_ml,
-          updated_at: new Date()
-        },
-        create: {
-          user_id: userId,
-          date: todayDate,
-          calories: goals.calories,
-          protein_g: goals.protein_g,
-          carbs_g: goals.carbs_g,
-          fats_g: goals.fats_g,
-          fiber_g: goals.fiber_g,
-          sodium_mg: goals.sodium_mg,
-          sugar_g: goals.sugar_g,
-          water_ml: goals.water_ml,
-        }
-      });
+  private static async calculateGoalsForUser(userId: string, questionnaire: any): Promise<NutritionGoals> {
+    const adaptiveTdee = await AdaptiveTdeeService.getActiveTdee(userId);
+    return this.calculatePersonalizedGoals(questionnaire, adaptiveTdee);
+  }
 
-      console.log(`✅ UPSERTED daily goal:`, {
-        id: upsertedGoal.id,
-        user_id: upsertedGoal.user_id,
-        date: upsertedGoal.date.toISOString(),
-        calories: upsertedGoal.calories
-      });
+  /**
+   * Maintenance calories from the questionnaire (Mifflin-St Jeor BMR times activity)
+   */
+  private static calculateFormulaTdee(questionnaire: any): number {
+    const weight = Number(questionnaire.weight_kg) || 70;
+    const height = Number(questionnaire.height_cm) || 170;
+    const age = Number(questionnaire.age) || 25;
+    const isMale = questionnaire.gender?.toLowerCase().includes('male') || 
+                   questionnaire.gender?.toLowerCase().includes('זכר') ||
+                   questionnaire.gender === 'MALE';
+
+    let bmr;
+    if (isMale) {
+      bmr = 10 * weight + 6.25 * height - 5 * age + 5;
+    } else {
+      bmr = 10 * weight + 6.25 * height - 5 * age - 161;
+    }
 
-      // IMMEDIATE VERIFICATION
-      const verification = await prisma.dailyGoal.findUnique({
-        where: { id: upsertedGoal.id }
-      });
+    console.log(`🔢 BMR calculated: ${Math.round(bmr)} for ${isMale ? 'male' : 'female'}`);
 
-      if (verification) {
-        console.log(`✅ VERIFIED: Goal exists in database with ID ${verification.id}`);
-      } else {
-        console.error(`❌ VERIFICATION FAILED!`);
-        throw new Error("Goal creation verification failed");
-      }
+    // Activity level multipliers
+    const activityMultipliers = {
+      'NONE': 1.2,
+      'LIGHT': 1.375,
+      'MODERATE': 1.55,
+      'HIGH': 1.725
+    };
 
-      // Return the upserted goals
-      return {
-        calories: Number(upsertedGoal.calories),
-        protein_g: Number(upsertedGoal.protein_g),
-        carbs_g: Number(upsertedGoal.carbs_g),
-        fats_g: Number(upsertedGoal.fats_g),
-        fiber_g: Number(upsertedGoal.fiber_g),
-        sodium_mg: Number(upsertedGoal.sodium_mg),
-        sugar_g: Number(upsertedGoal.sugar_g),
-        water_ml: Number(upsertedGoal.water_ml)
-      };
+    const activityLevel = questionnaire.physical_activity_level || 'MODERATE';
+    const activityMultiplier = activityMultipliers[activityLevel] || 1.55;
+    const tdee = bmr * activityMultiplier;
 
-    } catch (error) {
-      console.error(`💥 ERROR force creating daily goals for user ${userId}:`, error);
-      throw error;
-    }
+    console.log(`⚡ TDEE calculated: ${Math.round(tdee)} (activity: ${activityLevel}, multiplier: ${activityMultiplier})`);
+    return tdee;
   }
 
   /**
-   * Calculate personalized daily goals based on questionnaire
+   * Calculate personalized daily goals based on questionnaire. An adaptive
+   * TDEE replaces the formula's maintenance calories, within its bounds.
    */
-  private static calculatePersonalizedGoals(questionnaire: any): NutritionGoals {
+  private static calculatePersonalizedGoals(
+    questionnaire: any,
+    adaptiveTdee: number | null = null
+  ): NutritionGoals {
     console.log("🧮 === CALCULATING PERSONALIZED GOALS ===");
     console.log("📋 Questionnaire available:", !!questionnaire);
 
@@ -651,36 +336,16 @@ export class EnhancedDailyGoalsService {
         activity: questionnaire.physical_activity_level
       });
 
-      // Calculate BMR using Mifflin-St Jeor equation
       const weight = Number(questionnaire.weight_kg) || 70;
-      const height = Number(questionnaire.height_cm) || 170;
-      const age = Number(questionnaire.age) || 25;
-      const isMale = questionnaire.gender?.toLowerCase().includes('male') || 
-                     questionnaire.gender?.toLowerCase().includes('זכר') ||
-                     questionnaire.gender === 'MALE';
-
-      let bmr;
-      if (isMale) {
-        bmr = 10 * weight + 6.25 * height - 5 * age + 5;
-      } else {
-        bmr = 10 * weight + 6.25 * height - 5 * age - 161;
-      }
-
-      console.log(`🔢 BMR calculated: ${Math.round(bmr)} for ${isMale ? 'male' : 'female'}`);
-
-      // Activity level multipliers
-      const activityMultipliers = {
-        'NONE': 1.2,
-        'LIGHT': 1.375,
-        'MODERATE': 1.55,
-        'HIGH': 1.725
-      };
-
       const activityLevel = questionnaire.physical_activity_level || 'MODERATE';
-      const activityMultiplier = activityMultipliers[activityLevel] || 1.55;
-      const tdee = bmr * activityMultiplier;
+      const formulaTdee = this.calculateFormulaTdee(questionnaire);
+      const tdee = adaptiveTdee !== null
+        ? AdaptiveTdeeService.boundTdee(formulaTdee, adaptiveTdee)
+        : formulaTdee;
 
-      console.log(`⚡ TDEE calculated: ${Math.round(tdee)} (activity: ${activityLevel}, multiplier: ${activityMultiplier})`);
+      if (adaptiveTdee !== null) {
+        console.log(`🔥 Adaptive TDEE: ${Math.round(tdee)} (formula: ${Math.round(formulaTdee)})`);
+      }
 
       // Adjust based on goal
       const mainGoal = questionnaire.main_goal;
@@ -749,144 +414,4 @@ export class EnhancedDailyGoalsService {
     console.log("🎯 === FINAL CALCULATED GOALS ===", finalGoals);
     return finalGoals;
   }
-
-  /**
-   * Simple method to create goals for a single user - DIRECT UPSERT
-   */
-  static async createDailyGoalForUser(userId: string): Promise<boolean> {
-    try {
-      console.log(`📊 === CREATING DAILY GOAL FOR SINGLE USER: ${userId} ===`);
-
-      const today = new Date();
-      const todayString = today.toISOString().split('T')[0];
-      const todayDate = new Date(todayString);
-
-      console.log(`📅 Creating goal for date: ${todayString}`);
-
-      // Get questionnaire
-      const questionnaire = await prisma.userQuestionnaire.findFirst({
-        where: { user_id: userId },
-        orderBy: { date_completed: 'desc' }
-      });
-
-      // Calculate goals
-      const goals = this.calculatePersonalizedGoals(questionnaire);
-      console.log(`🎯 Calculated goals:`, goals);
-
-      // Use UPSERT to handle existing goals
-      console.log(`💾 UPSERTING goal in database...`);
-      const upsertedGoal = await prisma.dailyGoal.upsert({
-        where: {
-          user_id_date: {
-            user_id: userId,
-            date: todayDate
-          }
-        },
-        update: {
-          calories: goals.calories,
-          protein_g: goals.protein_g,
-          carbs_g: goals.carbs_g,
-          fats_g: goals.fats_g,
-          fiber_g: goals.fiber_g,
-          sodium_mg: goals.sodium_mg,
-          sugar_g: goals.sugar_g,
-          water_ml: goals.water_ml,
-          updated_at: new Date()
-        },
-        create: {
-          user_id: userId,
-          date: todayDate,
-          calories: goals.calories,
-          protein_g: goals.protein_g,
-          carbs_g: goals.carbs_g,
-          fats_g: goals.fats_g,
-          fiber_g: goals.fiber_g,
-          sodium_mg: goals.sodium_mg,
-          sugar_g: goals.sugar_g,
-          water_ml: goals.water_ml,
-        }
-      });
-
-      console.log(`✅ GOAL UPSERTED SUCCESSFULLY:`, {
-        id: upsertedGoal.id,
-        user_id: upsertedGoal.user_id,
-        date: upsertedGoal.date.toISOString(),
-        calories: upsertedGoal.calories
-      });
-
-      // Verify it exists
-      const verification = await prisma.dailyGoal.findUnique({
-        where: { id: upsertedGoal.id }
-      });
-
-      if (verification) {
-        console.log(`✅ VERIFIED: Goal exists in database`);
-        return true;
-      } else {
-        console.error(`❌ VERIFICATION FAILED`);
-        return false;
-      }
-
-    } catch (error) {
-      console.error(`💥 ERROR creating daily goal for user ${userId}:`, error);
-      return false;
-    }
-  }
-
-  /**
-   * Debug method to check database state
-   */
-  static async debugDatabaseState(): Promise<any> {
-    try {
-      console.log("🔍 === DEBUGGING DATABASE STATE ===");
-
-      const today = new Date();
-      const todayString = today.toISOString().split('T')[0];
-      const todayDate = new Date(todayString);
-
-      // Get total users
-      const totalUsers = await prisma.user.count();
-      console.log(`👥 Total users in database: ${totalUsers}`);
-
-      // Get users with goals today
-      const goalsToday = await prisma.dailyGoal.findMany({
-        where: { date: todayDate },
-        select: {
-          id: true,
-          user_id: true,
-          calories: true,
-          created_at: true,
-          updated_at: true
-        }
-      });
-
-      console.log(`📊 Goals for today (${todayString}): ${goalsToday.length}`);
-
-      // Get all users
-      const allUsers = await prisma.user.findMany({
-        select: {
-          user_id: true,
-          email: true,
-          subscription_type: true
-        }
-      });
-
-      console.log(`👥 All users:`);
-      allUsers.forEach((user, index) => {
-        const hasGoal = goalsToday.some(g => g.user_id === user.user_id);
-        console.log(`  ${index + 1}. ${user.user_id} (${user.email}) - ${user.subscription_type} - Goal: ${hasGoal ? 'YES' : 'NO'}`);
-      });
-
-      return {
-        totalUsers,
-        goalsToday: goalsToday.length,
-        allUsers,
-        goalsToday: goalsToday
-      };
-
-    } catch (error) {
-      console.error("💥 Error debugging database state:", error);
-      return null;
-    }
-  }
-}
\ No newline at end of file
+}
@@ -143,18 +143,6 @@ export class DatabaseOptimizationService {
           }
         }
 
-        // 5. Clean old daily goals (keep last 90 days)
-        const ninetyDaysAgo = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
-        const oldGoalsResult = await tx.dailyGoal.deleteMany({
-          where: {
-            created_at: {
-              lt: ninetyDaysAgo
-            }
-          }
-        });
-        deletedRecords += oldGoalsResult.count;
-        console.log(`🗑️ Deleted ${oldGoalsResult.count} old daily goals`);
-
       }, {
         timeout: 60000, // 60 second timeout
         isolationLevel: 'Serializable'
@@ -209,33 +197,22 @@ export class DatabaseOptimizationService {
    * Check for duplicate prevention
    */
   static async checkForDuplicates(userId: string, date: string): Promise<{
-    hasDailyGoal: boolean;
     hasRecommendation: boolean;
   }> {
     try {
-      const [dailyGoal, recommendation] = await Promise.all([
-        prisma.dailyGoal.findFirst({
-          where: {
-            user_id: userId,
-            date: new Date(date)
-          }
-        }),
-        prisma.aiRecommendation.findFirst({
-          where: {
-            user_id: userId,
-            date: date
-          }
-        })
-      ]);
+      const recommendation = await prisma.aiRecommendation.findFirst({
+        where: {
+          user_id: userId,
+          date: date
+        }
+      });
 
       return {
-        hasDailyGoal: !!dailyGoal,
         hasRecommendation: !!recommendation
       };
     } catch (error) {
       console.error("Error checking for duplicates:", error);
       return {
-        hasDailyGoal: false,
         hasRecommendation: false
       };
     }
@@ -263,13 +240,13 @@ export class DatabaseOptimizationService {
       const criticalCounts = await Promise.all([
         prisma.user.count(),
         prisma.meal.count(),
-        prisma.dailyGoal.count()
+        prisma.goalVersion.count()
       ]);
 
       console.log("📊 Critical table counts:", {
         users: criticalCounts[0],
         meals: criticalCounts[1],
-        dailyGoals: criticalCounts[2]
+        goalVersions: criticalCounts[2]
       });
 
       console.log("✅ Emergency recovery completed successfully");
@@ -1,5 +1,26 @@
 import { prisma } from "../lib/database";
-import { ActivityData, DailyBalance } from "../types/devices";
+import {
+  ActivityData,
+  DailyActivityEntry,
+  DailyBalance,
+  DeviceBatchSyncResult,
+  DeviceSyncMode,
+} from "../types/devices";
+import { TokenEncryptionService } from "./tokenEncryption";
+import { ActivityMergeService } from "./activityMerge";
+import {
+  addDays,
+  fromDayKey,
+  getDayRange,
+  getLocalDate,
+  getStartOfLocalDay,
+  getUserTimeZone,
+  listDates,
+  toDayKey,
+} from "../utils/dayBoundary";
+
+// How far back a backfill looks for days with no activity data
+const MAX_BACKFILL_DAYS = 90;
 
 export class DeviceService {
   static async getUserDevices(user_id: string) {
@@ -24,7 +45,8 @@ export class DeviceService {
     deviceType: string,
     deviceName: string,
     accessToken?: string,
-    refreshToken?: string
+    refreshToken?: string,
+    tokenExpiresAt?: Date
   ) {
     try {
       console.log("🔗 Connecting device for user:", user_id, {
@@ -75,7 +97,7 @@ export class DeviceService {
               ? this.encryptToken(refreshToken)
               : null,
             token_expires_at: accessToken
-              ? new Date(Date.now() + 3600000)
+              ? tokenExpiresAt || new Date(Date.now() + 3600000)
               : null, // 1 hour default
             updated_at: new Date(),
           },
@@ -85,6 +107,11 @@ export class DeviceService {
         return updatedDevice;
       } else {
         // Create new device
+        const hasPrimaryDevice =
+          (await prisma.connectedDevice.count({
+            where: { user_id, is_primary_device: true },
+          })) > 0;
+
         const newDevice = await prisma.connectedDevice.create({
           data: {
             user_id,
@@ -92,7 +119,7 @@ export class DeviceService {
             device_type: deviceType as any,
             connection_status: "CONNECTED",
             last_sync_time: new Date(),
-            is_primary_device: true, // First device is primary
+            is_primary_device: !hasPrimaryDevice, // First device is primary
             access_token_encrypted: accessToken
               ? this.encryptToken(accessToken)
               : null,
@@ -100,7 +127,7 @@ export class DeviceService {
               ? this.encryptToken(refreshToken)
               : null,
             token_expires_at: accessToken
-              ? new Date(Date.now() + 3600000)
+              ? tokenExpiresAt || new Date(Date.now() + 3600000)
               : null, // 1 hour default
           },
         });
@@ -148,10 +175,48 @@ export class DeviceService {
     }
   }
 
+  /**
+   * Make one device the primary source; the merge policy prefers it for every
+   * metric the user has no explicit source priority for
+   */
+  static async setPrimaryDevice(user_id: string, deviceId: string) {
+    try {
+      console.log("⭐ Setting primary device:", deviceId, "for user:", user_id);
+
+      const device = await prisma.connectedDevice.findFirst({
+        where: {
+          connected_device_id: deviceId,
+          user_id,
+        },
+      });
+
+      if (!device) {
+        throw new Error("Device not found");
+      }
+
+      const [, primaryDevice] = await prisma.$transaction([
+        prisma.connectedDevice.updateMany({
+          where: { user_id, is_primary_device: true },
+          data: { is_primary_device: false },
+        }),
+        prisma.connectedDevice.update({
+          where: { connected_device_id: deviceId },
+          data: { is_primary_device: true },
+        }),
+      ]);
+
+      console.log("✅ Primary device updated");
+      return primaryDevice;
+    } catch (error) {
+      console.error("💥 Error setting primary device:", error);
+      throw new Error("Failed to set primary device");
+    }
+  }
+
   static async syncDeviceData(
     user_id: string,
     deviceId: string,
-    activityData: ActivityData
+    activityData: ActivityData & { date?: string }
   ) {
     try {
       console.log("🔄 Syncing device data:", deviceId, activityData);
@@ -167,51 +232,111 @@ export class DeviceService {
         throw new Error("Device not found");
       }
 
-      const today = new Date().toISOString().split("T")[0];
+      // Older clients send no date and mean "today"
+      const { date, ...metrics } = activityData;
+      const day = date || getLocalDate(await getUserTimeZone(user_id));
 
-      // Upsert daily activity summary
-      const activitySummary = await prisma.dailyActivitySummary.upsert({
-        where: {
-          user_id_device_id_date: {
-            user_id,
-            device_id: deviceId,
-            date: new Date(today),
-          },
-        },
-        update: {
-          steps: activityData.steps || 0,
-          calories_burned: activityData.caloriesBurned || 0,
-          active_minutes: activityData.activeMinutes || 0,
-          bmr_estimate: activityData.bmr || 0,
-          heart_rate_avg: activityData.heartRate,
-          weight_kg: activityData.weight,
-          body_fat_percentage: activityData.bodyFat,
-          sleep_hours: activityData.sleepHours,
-          distance_km: activityData.distance,
-          sync_timestamp: new Date(),
+      const activitySummary = await this.saveDailyActivity(
+        user_id,
+        device,
+        day,
+        metrics
+      );
+
+      // Update device last sync time
+      await prisma.connectedDevice.update({
+        where: { connected_device_id: deviceId },
+        data: {
+          last_sync_time: new Date(),
+          connection_status: "CONNECTED",
           updated_at: new Date(),
-          raw_data: activityData as any,
         },
-        create: {
+      });
+
+      console.log("✅ Device data synced successfully");
+      return activitySummary;
+    } catch (error) {
+      console.error("💥 Error syncing device data:", error);
+      throw new Error("Failed to sync device data");
+    }
+  }
+
+  /**
+   * Store a batch of per-day activity pushed by the client. Days are upserted on
+   * (user, device, date), so re-sending a day replaces it instead of duplicating it.
+   * In backfill mode the result also lists days since the previous sync that are
+   * still missing, so the client can send them in a follow-up batch.
+   */
+  static async syncDeviceDays(
+    user_id: string,
+    deviceId: string,
+    days: DailyActivityEntry[],
+    mode: DeviceSyncMode = "append"
+  ): Promise<DeviceBatchSyncResult> {
+    try {
+      console.log(`🔄 Syncing ${days.length} days (${mode}) for device:`, deviceId);
+
+      const device = await prisma.connectedDevice.findFirst({
+        where: {
+          connected_device_id: deviceId,
+          user_id,
+        },
+      });
+
+      if (!device) {
+        throw new Error("Device not found");
+      }
+
+      // The same date may appear more than once in a batch, the last entry wins
+      const byDate = new Map<string, DailyActivityEntry>();
+      for (const day of days) {
+        byDate.set(day.date, day);
+      }
+
+      const existing = await prisma.dailyActivitySummary.findMany({
+        where: {
           user_id,
           device_id: deviceId,
-          date: new Date(today),
-          steps: activityData.steps || 0,
-          calories_burned: activityData.caloriesBurned || 0,
-          active_minutes: activityData.activeMinutes || 0,
-          bmr_estimate: activityData.bmr || 0,
-          heart_rate_avg: activityData.heartRate,
-          weight_kg: activityData.weight,
-          body_fat_percentage: activityData.bodyFat,
-          sleep_hours: activityData.sleepHours,
-          distance_km: activityData.distance,
-          source_device: device.device_name,
-          sync_timestamp: new Date(),
-          raw_data: activityData as any,
+          date: { in: Array.from(byDate.keys()).map(toDayKey) },
         },
       });
+      const existingByDate = new Map(
+        existing.map((row) => [fromDayKey(row.date), row])
+      );
+
+      const result: DeviceBatchSyncResult = {
+        deviceId,
+        mode,
+        daysReceived: days.length,
+        created: 0,
+        updated: 0,
+        unchanged: 0,
+      };
+
+      for (const [date, { date: _date, ...metrics }] of byDate) {
+        const current = existingByDate.get(date);
+
+        if (current && this.hasSameActivityValues(current, metrics)) {
+          result.unchanged++;
+          continue;
+        }
+
+        await this.saveDailyActivity(user_id, device, date, metrics);
+        if (current) {
+          result.updated++;
+        } else {
+          result.created++;
+        }
+      }
+
+      if (mode === "backfill") {
+        result.missingDates = await this.findMissingActivityDates(
+          user_id,
+          deviceId,
+          device.last_sync_time || device.created_at
+        );
+      }
 
-      // Update device last sync time
       await prisma.connectedDevice.update({
         where: { connected_device_id: deviceId },
         data: {
@@ -221,14 +346,145 @@ export class DeviceService {
         },
       });
 
-      console.log("✅ Device data synced successfully");
-      return activitySummary;
+      console.log("✅ Device days synced:", result);
+      return result;
     } catch (error) {
-      console.error("💥 Error syncing device data:", error);
+      console.error("💥 Error syncing device days:", error);
       throw new Error("Failed to sync device data");
     }
   }
 
+  /**
+   * Days from the given point up to today that have no activity row for the device
+   */
+  static async findMissingActivityDates(
+    user_id: string,
+    deviceId: string,
+    since: Date
+  ): Promise<string[]> {
+    const timeZone = await getUserTimeZone(user_id);
+    const today = getLocalDate(timeZone);
+    const earliest = addDays(today, -(MAX_BACKFILL_DAYS - 1));
+    const sinceDate = getLocalDate(timeZone, since);
+    const start = sinceDate < earliest ? earliest : sinceDate;
+
+    const rows = await prisma.dailyActivitySummary.findMany({
+      where: {
+        user_id,
+        device_id: deviceId,
+        date: { gte: toDayKey(start), lte: toDayKey(today) },
+      },
+      select: { date: true },
+    });
+    const covered = new Set(rows.map((row) => fromDayKey(row.date)));
+
+    return listDates(start, today).filter((date) => !covered.has(date));
+  }
+
+  /**
+   * Upsert one day of activity for a device into DailyActivitySummary
+   */
+  static async saveDailyActivity(
+    user_id: string,
+    device: { connected_device_id: string; device_name: string },
+    date: string,
+    activityData: ActivityData & { raw?: Record<string, any> }
+  ) {
+    const values = {
+      ...this.buildActivityValues(activityData),
+      sync_timestamp: new Date(),
+    };
+
+    if (activityData.weight) {
+      await this.saveDeviceWeight(user_id, device.connected_device_id, date, activityData);
+    }
+
+    return prisma.dailyActivitySummary.upsert({
+      where: {
+        user_id_device_id_date: {
+          user_id,
+          device_id: device.connected_device_id,
+          date: toDayKey(date),
+        },
+      },
+      update: {
+        ...values,
+        updated_at: new Date(),
+      },
+      create: {
+        user_id,
+        device_id: device.connected_device_id,
+        date: toDayKey(date),
+        source_device: device.device_name,
+        ...values,
+      },
+    });
+  }
+
+  /**
+   * Mirror a device-reported weight into the weigh-in log, one entry per
+   * device per day. Devices report no time, so the weigh-in is placed at the
+   * start of the user's local day.
+   */
+  private static async saveDeviceWeight(
+    user_id: string,
+    device_id: string,
+    date: string,
+    activityData: ActivityData
+  ) {
+    const values = {
+      weight_kg: activityData.weight!,
+      body_fat_percentage: activityData.bodyFat,
+    };
+
+    await prisma.weightEntry.upsert({
+      where: {
+        user_id_device_id_date: { user_id, device_id, date: toDayKey(date) },
+      },
+      update: values,
+      create: {
+        user_id,
+        device_id,
+        date: toDayKey(date),
+        measured_at: getStartOfLocalDay(date, await getUserTimeZone(user_id)),
+        source: "device",
+        ...values,
+      },
+    });
+  }
+
+  private static buildActivityValues(
+    activityData: ActivityData & { raw?: Record<string, any> }
+  ) {
+    const { raw, ...metrics } = activityData;
+    const round = (value?: number) =>
+      value === undefined || value === null ? value : Math.round(value);
+
+    return {
+      steps: round(metrics.steps) || 0,
+      calories_burned: metrics.caloriesBurned || 0,
+      active_minutes: round(metrics.activeMinutes) || 0,
+      bmr_estimate: metrics.bmr || 0,
+      heart_rate_avg: round(metrics.heartRate),
+      heart_rate_max: round(metrics.heartRateMax),
+      weight_kg: metrics.weight,
+      body_fat_percentage: metrics.bodyFat,
+      sleep_hours: metrics.sleepHours,
+      distance_km: metrics.distance,
+      raw_data: (raw ? { ...metrics, ...raw } : metrics) as any,
+    };
+  }
+
+  private static hasSameActivityValues(
+    row: Record<string, any>,
+    activityData: ActivityData
+  ): boolean {
+    const { raw_data, ...values } = this.buildActivityValues(activityData);
+    return Object.entries(values).every(
+      ([key, value]) => (row[key] ?? null) === (value ?? null)
+    );
+  }
+
   static async getActivityData(
     user_id: string,
     startDate: string,
@@ -244,8 +500,8 @@ export class DeviceService {
         where: {
           user_id,
           date: {
-            gte: new Date(startDate),
-            lte: new Date(endDate),
+            gte: toDayKey(startDate),
+            lte: toDayKey(endDate),
           },
         },
         include: {
@@ -276,17 +532,15 @@ export class DeviceService {
         date
       );
 
-      // Get calories consumed from meals
-      const startDate = new Date(date);
-      const endDate = new Date(date);
-      endDate.setDate(endDate.getDate() + 1);
+      // Get calories consumed from meals during the user's local day
+      const { start, end } = getDayRange(date, await getUserTimeZone(user_id));
 
       const meals = await prisma.meal.findMany({
         where: {
           user_id,
           created_at: {
-            gte: startDate,
-            lt: endDate,
+            gte: start,
+            lt: end,
           },
         },
       });
@@ -296,24 +550,20 @@ export class DeviceService {
         0
       );
 
-      // Get calories burned from activity data
-      const activityData = await prisma.dailyActivitySummary.findFirst({
-        where: {
-          user_id,
-          date: new Date(date),
-        },
-        orderBy: {
-          sync_timestamp: "desc",
-        },
-      });
+      // Get calories burned from the activity merged across all devices
+      const activity = await ActivityMergeService.getEffectiveDailyActivity(
+        user_id,
+        date
+      );
 
-      if (!activityData) {
+      if (!activity) {
         console.log("⚠️ No activity data found for date");
         return null;
       }
 
       const caloriesOut =
-        (activityData.calories_burned || 0) + (activityData.bmr_estimate || 0);
+        (activity.metrics.calories_burned?.value || 0) +
+        (activity.metrics.bmr_estimate?.value || 0);
       const balance = caloriesIn - caloriesOut;
       const balancePercent =
         caloriesOut > 0 ? Math.abs(balance) / caloriesOut : 0;
@@ -335,6 +585,7 @@ export class DeviceService {
         caloriesOut: Math.round(caloriesOut),
         balance: Math.round(balance),
         balanceStatus,
+        activity,
       };
 
       console.log("✅ Daily balance calculated:", dailyBalance);
@@ -345,17 +596,9 @@ export class DeviceService {
     }
   }
 
-  // TOKEN ENCRYPTION/DECRYPTION (Basic implementation - use proper encryption in production)
+  // TOKEN ENCRYPTION/DECRYPTION (AES-256-GCM envelope, see TokenEncryptionService)
   private static encryptToken(token: string): string {
-    // In production, use proper encryption like AES
-    // For now, just base64 encode (NOT SECURE - for demo only)
-    return Buffer.from(token).toString("base64");
-  }
-
-  private static decryptToken(encryptedToken: string): string {
-    // In production, use proper decryption
-    // For now, just base64 decode (NOT SECURE - for demo only)
-    return Buffer.from(encryptedToken, "base64").toString();
+    return TokenEncryptionService.encrypt(token);
   }
 
   static async getDeviceTokens(
@@ -377,13 +620,23 @@ export class DeviceService {
         return {};
       }
 
+      const access = device.access_token_encrypted
+        ? TokenEncryptionService.decrypt(device.access_token_encrypted)
+        : undefined;
+      const refresh = device.refresh_token_encrypted
+        ? TokenEncryptionService.decrypt(device.refresh_token_encrypted)
+        : undefined;
+
+      // Legacy base64 values (or values under a retired key) are rewritten on first read
+      if (access?.needsReEncryption || refresh?.needsReEncryption) {
+        await this.reEncryptDeviceTokens(device).catch((error) =>
+          console.error("💥 Failed to re-encrypt device tokens:", error)
+        );
+      }
+
       return {
-        accessToken: device.access_token_encrypted
-          ? this.decryptToken(device.access_token_encrypted)
-          : undefined,
-        refreshToken: device.refresh_token_encrypted
-          ? this.decryptToken(device.refresh_token_encrypted)
-          : undefined,
+        accessToken: access?.value,
+        refreshToken: refresh?.value,
       };
     } catch (error) {
       console.error("💥 Error getting device tokens:", error);
@@ -395,7 +648,8 @@ export class DeviceService {
     user_id: string,
     deviceId: string,
     accessToken?: string,
-    refreshToken?: string
+    refreshToken?: string,
+    tokenExpiresAt?: Date
   ) {
     try {
       await prisma.connectedDevice.updateMany({
@@ -411,7 +665,7 @@ export class DeviceService {
             ? this.encryptToken(refreshToken)
             : undefined,
           token_expires_at: accessToken
-            ? new Date(Date.now() + 3600000)
+            ? tokenExpiresAt || new Date(Date.now() + 3600000)
             : undefined,
           updated_at: new Date(),
         },
@@ -423,4 +677,91 @@ export class DeviceService {
       throw new Error("Failed to update device tokens");
     }
   }
+
+  /**
+   * Re-encrypt every stored device token under the active key version.
+   * Run after adding a new key to TOKEN_ENCRYPTION_KEYS and switching
+   * TOKEN_ENCRYPTION_ACTIVE_KEY; old keys can be removed once this completes.
+   */
+  static async rotateTokenEncryption(batchSize = 100): Promise<{
+    checked: number;
+    rotated: number;
+    failed: number;
+  }> {
+    const stats = { checked: 0, rotated: 0, failed: 0 };
+    let cursor: string | undefined;
+
+    console.log(
+      "🔐 Rotating device tokens to key version:",
+      TokenEncryptionService.getActiveKeyVersion()
+    );
+
+    while (true) {
+      const devices = await prisma.connectedDevice.findMany({
+        where: {
+          OR: [
+            { access_token_encrypted: { not: null } },
+            { refresh_token_encrypted: { not: null } },
+          ],
+        },
+        orderBy: { connected_device_id: "asc" },
+        take: batchSize,
+        ...(cursor ? { skip: 1, cursor: { connected_device_id: cursor } } : {}),
+      });
+
+      if (devices.length === 0) break;
+
+      for (const device of devices) {
+        stats.checked++;
+        try {
+          if (await this.reEncryptDeviceTokens(device)) {
+            stats.rotated++;
+          }
+        } catch (error) {
+          stats.failed++;
+          console.error(
+            `💥 Failed to rotate tokens for device ${device.connected_device_id}:`,
+            error
+          );
+        }
+      }
+
+      cursor = devices[devices.length - 1].connected_device_id;
+    }
+
+    console.log("✅ Device token rotation finished:", stats);
+    return stats;
+  }
+
+  private static async reEncryptDeviceTokens(device: {
+    connected_device_id: string;
+    access_token_encrypted: string | null;
+    refresh_token_encrypted: string | null;
+  }): Promise<boolean> {
+    const access = device.access_token_encrypted
+      ? TokenEncryptionService.rotate(device.access_token_encrypted)
+      : null;
+    const refresh = device.refresh_token_encrypted
+      ? TokenEncryptionService.rotate(device.refresh_token_encrypted)
+      : null;
+
+    if (!access && !refresh) {
+      return false;
+    }
+
+    // Compare-and-set so a concurrent token refresh is never overwritten
+    const { count } = await prisma.connectedDevice.updateMany({
+      where: {
+        connected_device_id: device.connected_device_id,
+        access_token_encrypted: device.access_token_encrypted,
+        refresh_token_encrypted: device.refresh_token_encrypted,
+      },
+      data: {
+        ...(access ? { access_token_encrypted: access } : {}),
+        ...(refresh ? { refresh_token_encrypted: refresh } : {}),
+      },
+    });
+
+    return count > 0;
+  }
 }
@@ -0,0 +1,41 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { EmailMessage, EmailTransport } from "../../types/email";
+
+/**
+ * Development stand-in that writes each email to a directory instead of
+ * sending it: a JSON file with the headers and text, and the HTML next to
+ * it to open in a browser.
+ */
+export class FileEmailTransport implements EmailTransport {
+  readonly name = "file";
+
+  constructor(
+    private readonly directory: string = process.env.EMAIL_OUTBOX_DIR ||
+      path.join(process.cwd(), "email-outbox")
+  ) {}
+
+  isConfigured(): boolean {
+    return process.env.NODE_ENV !== "production";
+  }
+
+  async send(message: EmailMessage): Promise<{ message_id: string }> {
+    const message_id = `${Date.now()}-${crypto.randomBytes(4).toString("hex")}`;
+    const file = path.join(this.directory, message_id);
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(
+      `${file}.json`,
+      JSON.stringify(
+        { to: message.to, subject: message.subject, text: message.text },
+        null,
+        2
+      )
+    );
+    await fs.writeFile(`${file}.html`, message.html);
+
+    console.log(`📨 Email "${message.subject}" for ${message.to} written to ${file}.html`);
+    return { message_id };
+  }
+}
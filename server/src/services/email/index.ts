@@ -0,0 +1,32 @@
+import { EmailTransport } from "../../types/email";
+import { FileEmailTransport } from "./file";
+import { SmtpEmailTransport } from "./smtp";
+
+const transports = new Map<string, EmailTransport>();
+
+export class EmailTransportRegistry {
+  static register(transport: EmailTransport) {
+    transports.set(transport.name, transport);
+  }
+
+  static get(name: string): EmailTransport | undefined {
+    return transports.get(name);
+  }
+
+  static list(): EmailTransport[] {
+    return Array.from(transports.values());
+  }
+
+  /**
+   * EMAIL_TRANSPORT when set, otherwise the first configured transport in
+   * registration order, so SMTP wins once it has credentials
+   */
+  static getDefault(): EmailTransport | undefined {
+    const name = process.env.EMAIL_TRANSPORT;
+    if (name) return transports.get(name);
+    return this.list().find((transport) => transport.isConfigured());
+  }
+}
+
+EmailTransportRegistry.register(new SmtpEmailTransport());
+EmailTransportRegistry.register(new FileEmailTransport());
@@ -0,0 +1,129 @@
+import { EmailContent, EmailLocale, EmailMessage } from "../../types/email";
+
+const RTL_LOCALES: EmailLocale[] = ["he"];
+
+const BRAND: Record<EmailLocale, { tagline: string; footer: string }> = {
+  en: {
+    tagline: "Fitness & Diet",
+    footer: "Your Personal Nutrition & Fitness Assistant",
+  },
+  he: {
+    tagline: "כושר ותזונה",
+    footer: "העוזר האישי שלך לתזונה וכושר",
+  },
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Wrap a template's content in the shared Calo layout. Right-to-left
+ * locales get dir="rtl" and right alignment throughout, since many mail
+ * clients ignore the dir attribute on its own.
+ */
+export function renderLayout(
+  content: EmailContent,
+  locale: EmailLocale
+): Omit<EmailMessage, "to"> {
+  const rtl = RTL_LOCALES.includes(locale);
+  const dir = rtl ? "rtl" : "ltr";
+  const align = rtl ? "right" : "left";
+  const brand = BRAND[locale];
+  const year = new Date().getFullYear();
+
+  const paragraphs = content.paragraphs
+    .map(
+      (paragraph) =>
+        `<p style="color: #4a5568; font-size: 16px; line-height: 1.6; margin: 0 0 20px 0; text-align: ${align};">${escapeHtml(paragraph)}</p>`
+    )
+    .join("\n");
+
+  const code = content.code
+    ? `<div style="background-color: #f7fafc; border: 2px dashed #cbd5e0; border-radius: 12px; padding: 32px; text-align: center; margin: 32px 0;">
+        <p style="color: #4a5568; font-size: 14px; margin: 0 0 16px 0; font-weight: 500;">${escapeHtml(content.code.label)}</p>
+        <div dir="ltr" style="font-family: 'Courier New', monospace; font-size: 36px; font-weight: 700; color: #2d3748; letter-spacing: 8px;">${escapeHtml(content.code.value)}</div>
+        ${content.code.note ? `<p style="color: #718096; font-size: 13px; margin: 16px 0 0 0;">${escapeHtml(content.code.note)}</p>` : ""}
+      </div>`
+    : "";
+
+  const facts = content.facts?.length
+    ? `<table role="presentation" dir="${dir}" cellspacing="0" cellpadding="0" border="0" width="100%" style="margin: 24px 0; border-collapse: collapse;">
+        ${content.facts
+          .map(
+            (fact) => `<tr>
+          <td style="padding: 10px 0; border-bottom: 1px solid #e2e8f0; color: #718096; font-size: 14px; text-align: ${align};">${escapeHtml(fact.label)}</td>
+          <td style="padding: 10px 0; border-bottom: 1px solid #e2e8f0; color: #1a1a1a; font-size: 16px; font-weight: 600; text-align: ${rtl ? "left" : "right"};">${escapeHtml(fact.value)}</td>
+        </tr>`
+          )
+          .join("\n")}
+      </table>`
+    : "";
+
+  const notice = content.notice
+    ? `<div style="background-color: #f0f9ff; border-${rtl ? "right" : "left"}: 4px solid #3b82f6; padding: 20px; margin: 32px 0 0 0;">
+        <p style="color: #1e40af; font-size: 14px; line-height: 1.5; margin: 0; text-align: ${align};">${escapeHtml(content.notice)}</p>
+      </div>`
+    : "";
+
+  const html = `<!DOCTYPE html>
+<html lang="${locale}" dir="${dir}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(content.subject)}</title>
+</head>
+<body dir="${dir}" style="margin: 0; padding: 0; background-color: #f8f9fa; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif;">
+  <table role="presentation" dir="${dir}" cellspacing="0" cellpadding="0" border="0" width="100%" style="background-color: #f8f9fa;">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table role="presentation" dir="${dir}" cellspacing="0" cellpadding="0" border="0" width="600" style="max-width: 600px; background-color: #ffffff; border-radius: 12px; overflow: hidden;">
+          <tr>
+            <td style="background: linear-gradient(135deg, #4ECDC4 0%, #44A08D 100%); padding: 32px; text-align: center;">
+              <h1 style="color: #ffffff; font-size: 28px; font-weight: 700; margin: 0;">Calo</h1>
+              <p style="color: rgba(255, 255, 255, 0.9); font-size: 16px; margin: 8px 0 0 0;">${brand.tagline}</p>
+            </td>
+          </tr>
+          <tr>
+            <td dir="${dir}" style="padding: 40px 32px 32px; text-align: ${align};">
+              <h2 style="color: #1a1a1a; font-size: 24px; font-weight: 600; margin: 0 0 24px 0; line-height: 1.3; text-align: ${align};">${escapeHtml(content.heading)}</h2>
+              ${paragraphs}
+              ${code}
+              ${facts}
+              ${notice}
+            </td>
+          </tr>
+          <tr>
+            <td style="background-color: #f8f9fa; padding: 24px 32px; text-align: center; border-top: 1px solid #e2e8f0;">
+              <p style="color: #718096; font-size: 14px; margin: 0 0 8px 0;">${brand.footer}</p>
+              <p style="color: #a0aec0; font-size: 12px; margin: 0;">© ${year} Calo</p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+
+  const text = [
+    content.heading,
+    "",
+    ...content.paragraphs.flatMap((paragraph) => [paragraph, ""]),
+    ...(content.code
+      ? [`${content.code.label}: ${content.code.value}`, ...(content.code.note ? [content.code.note] : []), ""]
+      : []),
+    ...(content.facts?.length
+      ? [...content.facts.map((fact) => `${fact.label}: ${fact.value}`), ""]
+      : []),
+    ...(content.notice ? [content.notice, ""] : []),
+    `Calo - ${brand.tagline}`,
+  ].join("\n");
+
+  return { subject: content.subject, html, text };
+}
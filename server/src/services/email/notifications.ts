@@ -0,0 +1,220 @@
+import { prisma } from "../../lib/database";
+import { PlannedMeal } from "../../types/email";
+import {
+  addDays,
+  getDayOfWeek,
+  getDayRange,
+  getLocalDate,
+  getLocalHour,
+  resolveTimeZone,
+} from "../../utils/dayBoundary";
+import { EnhancedDailyGoalsService } from "../database/dailyGoals";
+import { EmailService } from "./outbox";
+
+// Local time the notifications go out, checked hourly
+const WEEKLY_SUMMARY_DAY = 0; // Sunday
+const WEEKLY_SUMMARY_HOUR = 8;
+const PLAN_REMINDER_HOUR = 7;
+
+interface NotificationUser {
+  user_id: string;
+  email: string;
+  name: string | null;
+  locale: string | null;
+  timezone: string;
+  preference: "DAILY" | "WEEKLY" | "NONE" | null;
+}
+
+/**
+ * Scheduled notification emails. Each is queued once per period through a
+ * dedupe key, so the hourly job can run as often as it likes.
+ */
+export class NotificationEmailService {
+  static async sendScheduledEmails(): Promise<{ weekly_summaries: number; plan_reminders: number }> {
+    const users = await this.loadRecipients();
+
+    const weekly_summaries = await this.sendWeeklySummaries(users);
+    const plan_reminders = await this.sendPlanReminders(users);
+
+    console.log(
+      `📬 Queued ${weekly_summaries} weekly summaries and ${plan_reminders} plan reminders`
+    );
+    return { weekly_summaries, plan_reminders };
+  }
+
+  // Last week's logging for users whose local Sunday morning has come
+  static async sendWeeklySummaries(users: NotificationUser[]): Promise<number> {
+    const due = users
+      .filter((user) => user.preference !== "NONE")
+      .map((user) => {
+        const today = getLocalDate(user.timezone);
+        const end_date = addDays(today, -1);
+        return {
+          user,
+          today,
+          end_date,
+          start_date: addDays(end_date, -6),
+        };
+      })
+      .filter(
+        ({ user, today }) =>
+          getDayOfWeek(today) === WEEKLY_SUMMARY_DAY &&
+          getLocalHour(user.timezone) >= WEEKLY_SUMMARY_HOUR
+      );
+
+    const pending = await this.withoutQueued(
+      due.map((entry) => ({
+        ...entry,
+        dedupe_key: `weekly_summary:${entry.user.user_id}:${entry.start_date}`,
+      }))
+    );
+
+    let queued = 0;
+    for (const { user, start_date, end_date, dedupe_key } of pending) {
+      try {
+        const { start, end } = getDayRange(start_date, user.timezone, end_date);
+        const meals = await prisma.meal.findMany({
+          where: { user_id: user.user_id, created_at: { gte: start, lt: end } },
+          select: { calories: true, protein_g: true, created_at: true },
+        });
+
+        const daysLogged = new Set(
+          meals.map((meal) => getLocalDate(user.timezone, meal.created_at))
+        ).size;
+        const totalCalories = meals.reduce((sum, meal) => sum + (meal.calories || 0), 0);
+        const totalProtein = meals.reduce((sum, meal) => sum + (meal.protein_g || 0), 0);
+
+        // Only goals the user actually has; the built-in defaults mean nothing here
+        const goals = (
+          await EnhancedDailyGoalsService.getGoalsForRange(user.user_id, start_date, end_date)
+        ).filter((goal) => goal.source !== "default");
+
+        const { created } = await EmailService.send(
+          "weekly_summary",
+          user.email,
+          {
+            name: user.name || "there",
+            start_date,
+            end_date,
+            days_logged: daysLogged,
+            meals_logged: meals.length,
+            avg_calories: daysLogged ? totalCalories / daysLogged : 0,
+            avg_protein_g: daysLogged ? totalProtein / daysLogged : 0,
+            calorie_goal: goals.length
+              ? goals.reduce((sum, goal) => sum + goal.calories, 0) / goals.length
+              : null,
+          },
+          { user_id: user.user_id, locale: user.locale, dedupe_key }
+        );
+        if (created) queued++;
+      } catch (error) {
+        console.error(`❌ Failed to queue weekly summary for ${user.user_id}:`, error);
+      }
+    }
+
+    return queued;
+  }
+
+  // Today's meals from the active plan, for users who asked for daily emails
+  static async sendPlanReminders(users: NotificationUser[]): Promise<number> {
+    const due = users
+      .filter(
+        (user) =>
+          user.preference === "DAILY" && getLocalHour(user.timezone) >= PLAN_REMINDER_HOUR
+      )
+      .map((user) => {
+        const date = getLocalDate(user.timezone);
+        return { user, date, dedupe_key: `plan_reminder:${user.user_id}:${date}` };
+      });
+
+    const pending = await this.withoutQueued(due);
+
+    let queued = 0;
+    for (const { user, date, dedupe_key } of pending) {
+      try {
+        const plan = await prisma.userMealPlan.findFirst({
+          where: { user_id: user.user_id, is_active: true },
+          include: {
+            schedules: {
+              where: { day_of_week: getDayOfWeek(date) },
+              include: { template: true },
+              orderBy: { meal_order: "asc" },
+            },
+          },
+        });
+        if (!plan || plan.schedules.length === 0) continue;
+
+        const meals: PlannedMeal[] = plan.schedules.map((schedule) => ({
+          timing: schedule.meal_timing,
+          name: schedule.template.name,
+          calories:
+            schedule.template.calories !== null
+              ? schedule.template.calories * schedule.portion_multiplier
+              : null,
+        }));
+
+        const { created } = await EmailService.send(
+          "plan_reminder",
+          user.email,
+          { name: user.name || "there", plan_name: plan.name, date, meals },
+          {
+            user_id: user.user_id,
+            locale: user.locale,
+            dedupe_key,
+            // Yesterday's menu is no use today
+            expires_at: getDayRange(date, user.timezone).end,
+          }
+        );
+        if (created) queued++;
+      } catch (error) {
+        console.error(`❌ Failed to queue plan reminder for ${user.user_id}:`, error);
+      }
+    }
+
+    return queued;
+  }
+
+  // Verified users with app access, with their latest notification preference
+  private static async loadRecipients(): Promise<NotificationUser[]> {
+    const users = await prisma.user.findMany({
+      where: {
+        email_verified: true,
+        account_status: { in: ["TRIAL", "ACTIVE", "PAST_DUE"] },
+      },
+      select: {
+        user_id: true,
+        email: true,
+        name: true,
+        locale: true,
+        timezone: true,
+        questionnaires: {
+          orderBy: { date_completed: "desc" },
+          take: 1,
+          select: { notifications_preference: true },
+        },
+      },
+    });
+
+    return users.map((user) => ({
+      user_id: user.user_id,
+      email: user.email,
+      name: user.name,
+      locale: user.locale,
+      timezone: resolveTimeZone(user.timezone),
+      preference: user.questionnaires[0]?.notifications_preference ?? null,
+    }));
+  }
+
+  // Drop entries whose email was already queued in an earlier run
+  private static async withoutQueued<T extends { dedupe_key: string }>(entries: T[]): Promise<T[]> {
+    if (entries.length === 0) return [];
+
+    const queued = await prisma.emailOutbox.findMany({
+      where: { dedupe_key: { in: entries.map((entry) => entry.dedupe_key) } },
+      select: { dedupe_key: true },
+    });
+    const keys = new Set(queued.map((email) => email.dedupe_key));
+
+    return entries.filter((entry) => !keys.has(entry.dedupe_key));
+  }
+}
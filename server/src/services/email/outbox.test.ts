@@ -0,0 +1,279 @@
+import { after, afterEach, beforeEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { EmailOutbox, Prisma } from "@prisma/client";
+import { prisma } from "../../lib/database";
+import { EmailMessage, EmailTransport } from "../../types/email";
+import { EmailService } from "./outbox";
+import { FileEmailTransport } from "./file";
+import { EmailTransportRegistry } from "./index";
+
+const SECOND_MS = 1000;
+
+const verification = { name: "Dana", code: "482913", expires_minutes: 15 };
+
+let outboxDir: string;
+let emails: Map<string, EmailOutbox>;
+let failures: unknown[];
+
+// Writes to the outbox directory once the queued failures have been thrown
+class FlakyTransport implements EmailTransport {
+  readonly name = "flaky";
+
+  constructor(private readonly files: FileEmailTransport) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async send(message: EmailMessage): Promise<{ message_id: string }> {
+    if (failures.length > 0) throw failures.shift();
+    return this.files.send(message);
+  }
+}
+
+// The email_outbox table, kept in memory
+function useOutboxStore() {
+  emails = new Map();
+  let nextId = 1;
+
+  const find = (where: any) =>
+    where.email_id
+      ? emails.get(where.email_id)
+      : [...emails.values()].find((email) => email.dedupe_key === where.dedupe_key);
+
+  const apply = (email: EmailOutbox, data: any) => {
+    const { attempts, ...rest } = data;
+    Object.assign(email, rest, { updated_at: new Date() });
+    if (attempts?.increment) email.attempts += attempts.increment;
+    return email;
+  };
+
+  Object.assign(prisma, {
+    emailOutbox: {
+      create: async ({ data }: any) => {
+        if (data.dedupe_key && find({ dedupe_key: data.dedupe_key })) {
+          throw new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+            code: "P2002",
+            clientVersion: "test",
+          });
+        }
+        const email = {
+          email_id: `email-${nextId++}`,
+          user_id: null,
+          subject: null,
+          status: "PENDING",
+          dedupe_key: null,
+          attempts: 0,
+          max_attempts: 5,
+          run_after: new Date(),
+          expires_at: null,
+          transport: null,
+          provider_message_id: null,
+          error: null,
+          started_at: null,
+          sent_at: null,
+          created_at: new Date(),
+          updated_at: new Date(),
+          ...data,
+        } as EmailOutbox;
+        emails.set(email.email_id, email);
+        return { ...email };
+      },
+      findUnique: async ({ where }: any) => {
+        const email = find(where);
+        return email ? { ...email } : null;
+      },
+      findFirst: async ({ where }: any) => {
+        const due = [...emails.values()]
+          .filter((email) => email.status === where.status && email.run_after <= where.run_after.lte)
+          .sort((a, b) => a.run_after.getTime() - b.run_after.getTime());
+        return due[0] ? { email_id: due[0].email_id } : null;
+      },
+      updateMany: async ({ where, data }: any) => {
+        const email = emails.get(where.email_id);
+        if (!email || email.status !== where.status) return { count: 0 };
+        apply(email, data);
+        return { count: 1 };
+      },
+      update: async ({ where, data }: any) => ({ ...apply(emails.get(where.email_id)!, data) }),
+    },
+    // Nothing to close, and no engine to close it with
+    $disconnect: async () => {},
+  });
+}
+
+// The worker sends in the background; wait for it to put the email down
+async function settled(email_id: string): Promise<EmailOutbox> {
+  for (let i = 0; i < 200; i++) {
+    const email = emails.get(email_id)!;
+    if (email.status !== "SENDING" && email.attempts > 0) return email;
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  throw new Error(`Email ${email_id} was never sent`);
+}
+
+// Make a queued retry due now and run the worker
+async function retryNow(email_id: string): Promise<EmailOutbox> {
+  const attempts = emails.get(email_id)!.attempts;
+  emails.get(email_id)!.run_after = new Date(Date.now() - SECOND_MS);
+  await EmailService.drain();
+  for (let i = 0; i < 200 && emails.get(email_id)!.attempts === attempts; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  return settled(email_id);
+}
+
+async function writtenEmails(): Promise<{ to: string; subject: string; text: string }[]> {
+  const files = (await fs.readdir(outboxDir)).filter((file) => file.endsWith(".json"));
+  return Promise.all(
+    files.map(async (file) => JSON.parse(await fs.readFile(path.join(outboxDir, file), "utf8")))
+  );
+}
+
+// The worker logs every email it sends from the background, which Node 20's
+// test runner can mistake for its own messages
+mock.method(console, "log", () => {});
+
+beforeEach(async () => {
+  outboxDir = await fs.mkdtemp(path.join(os.tmpdir(), "email-outbox-"));
+  const files = new FileEmailTransport(outboxDir);
+  EmailTransportRegistry.register(files);
+  EmailTransportRegistry.register(new FlakyTransport(files));
+  process.env.EMAIL_TRANSPORT = "file";
+  failures = [];
+  useOutboxStore();
+});
+
+afterEach(async () => {
+  await fs.rm(outboxDir, { recursive: true, force: true });
+});
+
+after(() => {
+  delete process.env.EMAIL_TRANSPORT;
+});
+
+test("queues an email and writes it out in the recipient's language", async () => {
+  const queued = await EmailService.send("email_verification", "dana@example.com", verification, {
+    locale: "he",
+  });
+
+  assert.equal(queued.created, true);
+  assert.equal(queued.status, "PENDING");
+
+  const email = await settled(queued.email_id);
+  assert.equal(email.status, "SENT");
+  assert.equal(email.attempts, 1);
+  assert.equal(email.transport, "file");
+  assert.equal(email.subject, "אימות כתובת האימייל - Calo");
+  assert.ok(email.sent_at);
+  // The code isn't kept once it has been sent
+  assert.equal(email.params, Prisma.DbNull);
+
+  const [written] = await writtenEmails();
+  assert.equal(written.to, "dana@example.com");
+  assert.equal(written.subject, "אימות כתובת האימייל - Calo");
+  const html = await fs.readFile(path.join(outboxDir, `${email.provider_message_id}.html`), "utf8");
+  assert.match(html, /<html lang="he" dir="rtl">/);
+  assert.match(html, />482913</);
+});
+
+test("falls back to the default locale for languages without templates", async () => {
+  const queued = await EmailService.send("email_verification", "dana@example.com", verification, {
+    locale: "fr",
+  });
+
+  const email = await settled(queued.email_id);
+  assert.equal(email.locale, "en");
+  assert.equal(email.subject, "Verify Your Email Address - Calo");
+});
+
+test("queues an email once per dedupe key", async () => {
+  const options = { dedupe_key: "plan_reminder:user-1:2026-10-19" };
+  const params = { name: "Dana", plan_name: "Mediterranean", date: "2026-10-19", meals: [] };
+
+  const first = await EmailService.send("plan_reminder", "dana@example.com", params, options);
+  await settled(first.email_id);
+  const second = await EmailService.send("plan_reminder", "dana@example.com", params, options);
+
+  assert.equal(first.created, true);
+  assert.equal(second.created, false);
+  assert.equal(second.email_id, first.email_id);
+  assert.equal(second.status, "SENT");
+  assert.equal(emails.size, 1);
+  assert.equal((await writtenEmails()).length, 1);
+});
+
+test("retries a failed send with a doubling delay until it goes through", async () => {
+  process.env.EMAIL_TRANSPORT = "flaky";
+  failures = [new Error("connect ECONNREFUSED"), new Error("Greeting never received")];
+
+  const queued = await EmailService.send("password_reset", "dana@example.com", verification);
+
+  let email = await settled(queued.email_id);
+  assert.equal(email.status, "PENDING");
+  assert.equal(email.attempts, 1);
+  assert.equal(email.error, "connect ECONNREFUSED");
+  assert.ok(Math.abs(email.run_after.getTime() - (Date.now() + 30 * SECOND_MS)) < SECOND_MS);
+  // Not due yet, so the worker leaves it
+  await EmailService.drain();
+  assert.equal(emails.get(queued.email_id)!.attempts, 1);
+
+  email = await retryNow(queued.email_id);
+  assert.equal(email.status, "PENDING");
+  assert.equal(email.attempts, 2);
+  assert.ok(Math.abs(email.run_after.getTime() - (Date.now() + 60 * SECOND_MS)) < SECOND_MS);
+
+  email = await retryNow(queued.email_id);
+  assert.equal(email.status, "SENT");
+  assert.equal(email.attempts, 3);
+  assert.equal(email.transport, "flaky");
+  assert.equal(email.error, null);
+  assert.equal((await writtenEmails()).length, 1);
+});
+
+test("gives up after the last attempt", async () => {
+  process.env.EMAIL_TRANSPORT = "flaky";
+  failures = Array.from({ length: 5 }, () => new Error("connect ECONNREFUSED"));
+
+  const queued = await EmailService.send("password_reset", "dana@example.com", verification);
+  emails.get(queued.email_id)!.max_attempts = 2;
+
+  await settled(queued.email_id);
+  const email = await retryNow(queued.email_id);
+
+  assert.equal(email.status, "FAILED");
+  assert.equal(email.attempts, 2);
+  assert.equal(email.params, Prisma.DbNull);
+  assert.deepEqual(await writtenEmails(), []);
+});
+
+test("doesn't retry an address the mail server rejected", async () => {
+  process.env.EMAIL_TRANSPORT = "flaky";
+  failures = [Object.assign(new Error("550 No such user"), { responseCode: 550 })];
+
+  const queued = await EmailService.send("password_reset", "nobody@example.com", verification);
+
+  const email = await settled(queued.email_id);
+  assert.equal(email.status, "FAILED");
+  assert.equal(email.attempts, 1);
+  assert.equal(email.error, "550 No such user");
+});
+
+test("drops an email that expired while waiting for a retry", async () => {
+  process.env.EMAIL_TRANSPORT = "flaky";
+  failures = [new Error("connect ECONNREFUSED")];
+
+  const queued = await EmailService.send("email_verification", "dana@example.com", verification, {
+    expires_at: new Date(Date.now() + 15 * 60 * SECOND_MS),
+  });
+  await settled(queued.email_id);
+  emails.get(queued.email_id)!.expires_at = new Date(Date.now() - SECOND_MS);
+
+  const email = await retryNow(queued.email_id);
+  assert.equal(email.status, "FAILED");
+  assert.equal(email.error, "Expired before it could be sent");
+  assert.deepEqual(await writtenEmails(), []);
+});
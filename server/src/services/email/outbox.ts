@@ -0,0 +1,295 @@
+import { EmailOutbox, Prisma } from "@prisma/client";
+import { prisma } from "../../lib/database";
+import {
+  EmailLocale,
+  EmailTemplateName,
+  EmailTemplateParams,
+  QueuedEmail,
+  SendEmailOptions,
+  emailLocaleSchema,
+} from "../../types/email";
+import { EmailTransportRegistry } from "./index";
+import { EmailTemplateRegistry } from "./templates";
+
+const SEND_TIMEOUT_MS = 30 * 1000;
+// Doubled after each failed attempt
+const RETRY_DELAY_MS = 30 * 1000;
+const POLL_INTERVAL_MS = 30 * 1000;
+const MAX_CONCURRENT_SENDS = 2;
+// Sent and failed emails stay for support questions this long
+const EMAIL_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const DEFAULT_LOCALE: EmailLocale =
+  emailLocaleSchema.safeParse(process.env.EMAIL_DEFAULT_LOCALE).data ?? "en";
+
+let running = 0;
+let draining = false;
+let pollTimer: NodeJS.Timeout | null = null;
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout;
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Sending timed out after ${ms / 1000} seconds`)),
+        ms
+      );
+    }),
+  ]).finally(() => clearTimeout(timer));
+}
+
+// SMTP 5xx replies, e.g. a rejected address, won't change on another try
+function isPermanentError(error: unknown): boolean {
+  const responseCode = (error as { responseCode?: number } | null)?.responseCode;
+  return typeof responseCode === "number" && responseCode >= 500 && responseCode < 600;
+}
+
+/**
+ * Every email goes through the outbox: it is stored first, then sent by an
+ * in-process worker that retries failed attempts with backoff, so an email
+ * isn't lost when the mail server is briefly unreachable.
+ */
+export class EmailService {
+  static resolveLocale(locale?: string | null): EmailLocale {
+    return emailLocaleSchema.safeParse(locale).data ?? DEFAULT_LOCALE;
+  }
+
+  /**
+   * Queue an email and start sending it right away when a worker slot is
+   * free. Throws when no transport is configured, so callers that need the
+   * email, like sign up, can tell the user.
+   */
+  static async send<T extends EmailTemplateName>(
+    template: T,
+    to: string,
+    params: EmailTemplateParams[T],
+    options: SendEmailOptions = {}
+  ): Promise<QueuedEmail> {
+    if (!EmailTransportRegistry.getDefault()?.isConfigured()) {
+      throw new Error("Email service not configured. Please contact support.");
+    }
+
+    let email: EmailOutbox;
+    try {
+      email = await prisma.emailOutbox.create({
+        data: {
+          user_id: options.user_id,
+          to,
+          template,
+          locale: this.resolveLocale(options.locale),
+          params: params as unknown as Prisma.InputJsonValue,
+          dedupe_key: options.dedupe_key,
+          expires_at: options.expires_at,
+        },
+      });
+    } catch (error) {
+      if (
+        options.dedupe_key &&
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        const existing = await prisma.emailOutbox.findUnique({
+          where: { dedupe_key: options.dedupe_key },
+        });
+        if (existing) {
+          return { ...this.toQueued(existing), created: false };
+        }
+      }
+      throw error;
+    }
+
+    console.log(`📨 Email ${email.email_id} (${template}) queued for ${to}`);
+
+    setImmediate(() => void this.drain());
+    return { ...this.toQueued(email), created: true };
+  }
+
+  /**
+   * Start the in-process worker. The outbox is also checked on a timer,
+   * which sends retries that are due and emails left behind by a stopped
+   * server.
+   */
+  static start() {
+    if (pollTimer) return;
+
+    console.log("📨 Starting email outbox worker");
+
+    const poll = async () => {
+      try {
+        await this.recoverStaleEmails();
+      } catch (error) {
+        console.error("💥 Email outbox recovery failed:", error);
+      }
+      await this.drain();
+    };
+
+    pollTimer = setInterval(() => void poll(), POLL_INTERVAL_MS);
+    pollTimer.unref();
+    void poll();
+  }
+
+  // Send due emails until the worker slots are full or the outbox is empty
+  static async drain(): Promise<void> {
+    if (draining) return;
+    draining = true;
+
+    try {
+      while (running < MAX_CONCURRENT_SENDS) {
+        const email = await this.claimNext();
+        if (!email) break;
+
+        running++;
+        void this.deliver(email).finally(() => {
+          running--;
+          void this.drain();
+        });
+      }
+    } catch (error) {
+      console.error("💥 Email outbox error:", error);
+    } finally {
+      draining = false;
+    }
+  }
+
+  /**
+   * Emails still SENDING well past the send timeout belong to a worker that
+   * stopped. They go back in the queue; a few might arrive twice, which
+   * beats not arriving at all.
+   */
+  static async recoverStaleEmails(): Promise<number> {
+    const { count } = await prisma.emailOutbox.updateMany({
+      where: {
+        status: "SENDING",
+        started_at: { lt: new Date(Date.now() - 2 * SEND_TIMEOUT_MS) },
+      },
+      data: { status: "PENDING", run_after: new Date() },
+    });
+
+    if (count > 0) {
+      console.log(`📨 Recovered ${count} interrupted emails`);
+    }
+    return count;
+  }
+
+  static async purgeFinishedEmails(): Promise<number> {
+    const { count } = await prisma.emailOutbox.deleteMany({
+      where: {
+        status: { in: ["SENT", "FAILED"] },
+        updated_at: { lt: new Date(Date.now() - EMAIL_RETENTION_MS) },
+      },
+    });
+    return count;
+  }
+
+  // Take the oldest due email; the conditional update keeps two workers off the same one
+  private static async claimNext(): Promise<EmailOutbox | null> {
+    for (;;) {
+      const next = await prisma.emailOutbox.findFirst({
+        where: { status: "PENDING", run_after: { lte: new Date() } },
+        orderBy: { run_after: "asc" },
+        select: { email_id: true },
+      });
+      if (!next) return null;
+
+      const { count } = await prisma.emailOutbox.updateMany({
+        where: { email_id: next.email_id, status: "PENDING" },
+        data: {
+          status: "SENDING",
+          started_at: new Date(),
+          attempts: { increment: 1 },
+        },
+      });
+
+      if (count > 0) {
+        return prisma.emailOutbox.findUnique({ where: { email_id: next.email_id } });
+      }
+    }
+  }
+
+  private static async deliver(email: EmailOutbox): Promise<void> {
+    let permanent = false;
+
+    try {
+      if (email.expires_at && email.expires_at < new Date()) {
+        permanent = true;
+        throw new Error("Expired before it could be sent");
+      }
+      if (!EmailTemplateRegistry.has(email.template)) {
+        permanent = true;
+        throw new Error(`Unknown email template: ${email.template}`);
+      }
+
+      const transport = EmailTransportRegistry.getDefault();
+      if (!transport?.isConfigured()) {
+        throw new Error("Email service not configured");
+      }
+
+      const rendered = EmailTemplateRegistry.render(
+        email.template,
+        this.resolveLocale(email.locale),
+        email.params as any
+      );
+      const { message_id } = await withTimeout(
+        transport.send({ to: email.to, ...rendered }),
+        SEND_TIMEOUT_MS
+      );
+
+      await prisma.emailOutbox.update({
+        where: { email_id: email.email_id },
+        data: {
+          status: "SENT",
+          subject: rendered.subject,
+          transport: transport.name,
+          provider_message_id: message_id,
+          error: null,
+          params: Prisma.DbNull,
+          sent_at: new Date(),
+        },
+      });
+
+      console.log(`✅ Email ${email.email_id} (${email.template}) sent to ${email.to}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to send email";
+      const retry =
+        !permanent && !isPermanentError(error) && email.attempts < email.max_attempts;
+
+      try {
+        if (retry) {
+          const delay = RETRY_DELAY_MS * 2 ** (email.attempts - 1);
+          await prisma.emailOutbox.update({
+            where: { email_id: email.email_id },
+            data: {
+              status: "PENDING",
+              error: message,
+              run_after: new Date(Date.now() + delay),
+            },
+          });
+          setTimeout(() => void this.drain(), delay).unref();
+
+          console.warn(
+            `⚠️ Email ${email.email_id} failed, retrying in ${delay / 1000}s:`,
+            message
+          );
+        } else {
+          await prisma.emailOutbox.update({
+            where: { email_id: email.email_id },
+            data: { status: "FAILED", error: message, params: Prisma.DbNull },
+          });
+
+          console.error(`❌ Email ${email.email_id} (${email.template}) failed:`, message);
+        }
+      } catch (updateError) {
+        console.error(`💥 Failed to record email ${email.email_id} failure:`, updateError);
+      }
+    }
+  }
+
+  private static toQueued(email: EmailOutbox): Omit<QueuedEmail, "created"> {
+    return {
+      email_id: email.email_id,
+      template: email.template,
+      status: email.status,
+    };
+  }
+}
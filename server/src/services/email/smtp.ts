@@ -0,0 +1,65 @@
+import { EmailMessage, EmailTransport } from "../../types/email";
+
+interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from?: string;
+}
+
+/**
+ * Sends through an SMTP server; Gmail with an app password unless
+ * EMAIL_HOST says otherwise.
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = "smtp";
+
+  private transporter: any = null;
+
+  constructor(
+    private readonly config: SmtpConfig = {
+      host: process.env.EMAIL_HOST || "smtp.gmail.com",
+      port: Number(process.env.EMAIL_PORT) || 587,
+      secure: process.env.EMAIL_SECURE === "true",
+      user: process.env.EMAIL_USER,
+      password: process.env.EMAIL_PASSWORD,
+      from: process.env.EMAIL_FROM,
+    }
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.config.user && !!this.config.password;
+  }
+
+  async send(message: EmailMessage): Promise<{ message_id: string }> {
+    const result = await this.getTransporter().sendMail({
+      from: this.config.from || `"Calo Fitness & Diet" <${this.config.user}>`,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+    });
+
+    return { message_id: result.messageId };
+  }
+
+  // Created on first use and kept, so connections are pooled across emails
+  private getTransporter() {
+    if (!this.transporter) {
+      const nodemailer = require("nodemailer");
+      this.transporter = nodemailer.createTransport({
+        host: this.config.host,
+        port: this.config.port,
+        secure: this.config.secure,
+        pool: true,
+        auth: {
+          user: this.config.user,
+          pass: this.config.password,
+        },
+      });
+    }
+    return this.transporter;
+  }
+}
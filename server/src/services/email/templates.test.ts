@@ -0,0 +1,82 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { EmailTemplateRegistry } from "./templates";
+
+const verification = { name: "Dana", code: "482913", expires_minutes: 15 };
+
+test("renders English emails left to right", () => {
+  const email = EmailTemplateRegistry.render("email_verification", "en", verification);
+
+  assert.equal(email.subject, "Verify Your Email Address - Calo");
+  assert.match(email.html, /<html lang="en" dir="ltr">/);
+  assert.match(email.html, /<body dir="ltr"/);
+  assert.match(email.html, /Welcome, Dana!/);
+  assert.match(email.html, />482913</);
+  assert.match(email.html, /This code expires in 15 minutes/);
+  assert.doesNotMatch(email.html, /text-align: right/);
+
+  assert.match(email.text, /^Welcome, Dana! 👋\n/);
+  assert.match(email.text, /Verification Code: 482913/);
+  assert.match(email.text, /Calo - Fitness & Diet$/);
+});
+
+test("renders Hebrew emails right to left, with the code kept left to right", () => {
+  const email = EmailTemplateRegistry.render("email_verification", "he", verification);
+
+  assert.equal(email.subject, "אימות כתובת האימייל - Calo");
+  assert.match(email.html, /<html lang="he" dir="rtl">/);
+  assert.match(email.html, /<body dir="rtl"/);
+  // Mail clients that ignore dir still get the alignment
+  assert.match(email.html, /<h2 [^>]*text-align: right;">ברוכים הבאים, Dana! 👋<\/h2>/);
+  assert.doesNotMatch(email.html, /text-align: left;">/);
+  assert.match(email.html, /<div dir="ltr"[^>]*>482913<\/div>/);
+  assert.match(email.html, /הקוד בתוקף למשך 15 דקות/);
+  assert.match(email.html, /העוזר האישי שלך לתזונה וכושר/);
+
+  assert.match(email.text, /קוד אימות: 482913/);
+  assert.match(email.text, /Calo - כושר ותזונה$/);
+});
+
+test("lines up fact rows for the reading direction", () => {
+  const params = {
+    name: "Dana",
+    plan_name: "Mediterranean",
+    date: "2026-10-19",
+    meals: [
+      { timing: "BREAKFAST", name: "Shakshuka", calories: 420.4 },
+      { timing: "BRUNCH", name: "Fruit", calories: null },
+    ],
+  };
+
+  const en = EmailTemplateRegistry.render("plan_reminder", "en", params);
+  assert.match(en.text, /Monday, October 19/);
+  assert.match(en.text, /Breakfast: Shakshuka \(420 kcal\)/);
+  // Timings without a translation are shown as they are
+  assert.match(en.text, /BRUNCH: Fruit/);
+  assert.match(en.html, /text-align: right;">Shakshuka/);
+
+  const he = EmailTemplateRegistry.render("plan_reminder", "he", params);
+  assert.match(he.html, /<table role="presentation" dir="rtl"/);
+  assert.match(he.html, /text-align: right;">ארוחת בוקר<\/td>/);
+  assert.match(he.html, /text-align: left;">Shakshuka \(420 קק&quot;ל\)<\/td>/);
+  assert.match(he.text, /ארוחת בוקר: Shakshuka \(420 קק"ל\)/);
+});
+
+test("escapes parameters in the HTML but not in the text", () => {
+  const email = EmailTemplateRegistry.render("password_reset", "en", {
+    ...verification,
+    name: `<img src=x onerror="alert(1)">`,
+  });
+
+  assert.doesNotMatch(email.html, /<img/);
+  assert.match(email.html, /Hello &lt;img src=x onerror=&quot;alert\(1\)&quot;&gt;!/);
+  assert.match(email.text, /Hello <img src=x onerror="alert\(1\)">!/);
+});
+
+test("refuses templates it doesn't know", () => {
+  assert.equal(EmailTemplateRegistry.has("newsletter"), false);
+  assert.throws(
+    () => EmailTemplateRegistry.render("newsletter" as "password_reset", "en", verification),
+    /Unknown email template: newsletter/
+  );
+});
@@ -0,0 +1,282 @@
+import {
+  EmailContent,
+  EmailLocale,
+  EmailMessage,
+  EmailTemplate,
+  EmailTemplateName,
+  EmailTemplateParams,
+} from "../../types/email";
+import { renderLayout } from "./layout";
+
+const INTL_LOCALES: Record<EmailLocale, string> = { en: "en-US", he: "he-IL" };
+
+const MEAL_TIMINGS: Record<EmailLocale, Record<string, string>> = {
+  en: {
+    BREAKFAST: "Breakfast",
+    LUNCH: "Lunch",
+    DINNER: "Dinner",
+    SNACK: "Snack",
+    MORNING_SNACK: "Morning snack",
+    AFTERNOON_SNACK: "Afternoon snack",
+  },
+  he: {
+    BREAKFAST: "ארוחת בוקר",
+    LUNCH: "ארוחת צהריים",
+    DINNER: "ארוחת ערב",
+    SNACK: "נשנוש",
+    MORNING_SNACK: "נשנוש בוקר",
+    AFTERNOON_SNACK: "נשנוש אחר הצהריים",
+  },
+};
+
+function formatInstant(iso: string, locale: EmailLocale, timeZone: string): string {
+  return new Date(iso).toLocaleDateString(INTL_LOCALES[locale], {
+    dateStyle: "long",
+    timeZone,
+  });
+}
+
+// Local dates are plain YYYY-MM-DD, so they are formatted as UTC midnight
+function formatDay(date: string, locale: EmailLocale): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(INTL_LOCALES[locale], {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    timeZone: "UTC",
+  });
+}
+
+function formatNumber(value: number, locale: EmailLocale): string {
+  return Math.round(value).toLocaleString(INTL_LOCALES[locale]);
+}
+
+const emailVerification: EmailTemplate<"email_verification"> = {
+  en: ({ name, code, expires_minutes }) => ({
+    subject: "Verify Your Email Address - Calo",
+    heading: `Welcome, ${name}! 👋`,
+    paragraphs: [
+      "Thank you for joining Calo! We're excited to help you on your fitness and nutrition journey. Please verify your email address using the code below.",
+      "Enter this code in the Calo app to verify your email and unlock all features including personalized meal plans, workout tracking, and progress analytics.",
+    ],
+    code: {
+      label: "Verification Code",
+      value: code,
+      note: `This code expires in ${expires_minutes} minutes`,
+    },
+    notice:
+      "If you didn't create an account with Calo, please ignore this email. Never share your verification code with anyone.",
+  }),
+  he: ({ name, code, expires_minutes }) => ({
+    subject: "אימות כתובת האימייל - Calo",
+    heading: `ברוכים הבאים, ${name}! 👋`,
+    paragraphs: [
+      "תודה שהצטרפת ל-Calo! אנחנו שמחים ללוות אותך במסע הכושר והתזונה שלך. יש לאמת את כתובת האימייל באמצעות הקוד שלמטה.",
+      "הזינו את הקוד באפליקציית Calo כדי לאמת את האימייל ולפתוח את כל האפשרויות, כולל תוכניות ארוחות אישיות, מעקב אימונים וניתוח התקדמות.",
+    ],
+    code: {
+      label: "קוד אימות",
+      value: code,
+      note: `הקוד בתוקף למשך ${expires_minutes} דקות`,
+    },
+    notice:
+      "אם לא יצרת חשבון ב-Calo, אפשר להתעלם מהודעה זו. אין למסור את קוד האימות לאף אחד.",
+  }),
+};
+
+const passwordReset: EmailTemplate<"password_reset"> = {
+  en: ({ name, code, expires_minutes }) => ({
+    subject: "Reset Your Password - Calo",
+    heading: "Reset Your Password",
+    paragraphs: [
+      `Hello ${name}! We received a request to reset your password.`,
+      "Enter the code below in the Calo app to create a new password for your account.",
+    ],
+    code: {
+      label: "Your Reset Code",
+      value: code,
+      note: `This code expires in ${expires_minutes} minutes`,
+    },
+    notice:
+      "If you didn't request this password reset, please ignore this email and contact our support team. Never share your reset code with anyone.",
+  }),
+  he: ({ name, code, expires_minutes }) => ({
+    subject: "איפוס סיסמה - Calo",
+    heading: "איפוס הסיסמה שלך",
+    paragraphs: [
+      `שלום ${name}! קיבלנו בקשה לאפס את הסיסמה שלך.`,
+      "הזינו את הקוד שלמטה באפליקציית Calo כדי לבחור סיסמה חדשה לחשבון.",
+    ],
+    code: {
+      label: "קוד האיפוס שלך",
+      value: code,
+      note: `הקוד בתוקף למשך ${expires_minutes} דקות`,
+    },
+    notice:
+      "אם לא ביקשת לאפס את הסיסמה, אפשר להתעלם מהודעה זו ולפנות לצוות התמיכה שלנו. אין למסור את קוד האיפוס לאף אחד.",
+  }),
+};
+
+const accountReminder: EmailTemplate<"account_reminder"> = {
+  en: ({ name, status, at, time_zone }) => {
+    const date = formatInstant(at, "en", time_zone);
+    const copy: Record<typeof status, { subject: string; message: string }> = {
+      TRIAL: {
+        subject: "Your Calo trial is ending soon",
+        message: `Your free trial ends on ${date}. Choose a plan before then to keep using Calo without interruption.`,
+      },
+      ACTIVE: {
+        subject: "Your Calo subscription is ending soon",
+        message: `Your subscription was canceled and ends on ${date}. Resubscribe to keep your access.`,
+      },
+      PAST_DUE: {
+        subject: "We couldn't renew your Calo subscription",
+        message: `Your last payment didn't go through. Update your payment details before ${date} or your account will be suspended.`,
+      },
+      SUSPENDED: {
+        subject: "Your Calo account will be scheduled for deletion",
+        message: `Your account has been suspended for a while and will be scheduled for deletion on ${date}. Choose a plan to keep your data.`,
+      },
+      SCHEDULED_DELETION: {
+        subject: "Your Calo account will be deleted soon",
+        message: `Your account and all of its data will be permanently deleted on ${date}. Sign in and restore your account before then to keep it.`,
+      },
+    };
+
+    return {
+      subject: copy[status].subject,
+      heading: `Hi ${name},`,
+      paragraphs: [copy[status].message],
+    };
+  },
+  he: ({ name, status, at, time_zone }) => {
+    const date = formatInstant(at, "he", time_zone);
+    const copy: Record<typeof status, { subject: string; message: string }> = {
+      TRIAL: {
+        subject: "תקופת הניסיון שלך ב-Calo מסתיימת בקרוב",
+        message: `תקופת הניסיון החינמית מסתיימת ב-${date}. בחרו מסלול לפני כן כדי להמשיך להשתמש ב-Calo ללא הפסקה.`,
+      },
+      ACTIVE: {
+        subject: "המנוי שלך ב-Calo מסתיים בקרוב",
+        message: `המנוי שלך בוטל ויסתיים ב-${date}. חדשו את המנוי כדי לשמור על הגישה.`,
+      },
+      PAST_DUE: {
+        subject: "לא הצלחנו לחדש את המנוי שלך ב-Calo",
+        message: `התשלום האחרון לא עבר. עדכנו את פרטי התשלום לפני ${date}, אחרת החשבון יושעה.`,
+      },
+      SUSPENDED: {
+        subject: "החשבון שלך ב-Calo יתוזמן למחיקה",
+        message: `החשבון שלך מושעה כבר זמן מה ויתוזמן למחיקה ב-${date}. בחרו מסלול כדי לשמור על הנתונים שלך.`,
+      },
+      SCHEDULED_DELETION: {
+        subject: "החשבון שלך ב-Calo יימחק בקרוב",
+        message: `החשבון וכל הנתונים שבו יימחקו לצמיתות ב-${date}. היכנסו לחשבון ושחזרו אותו לפני כן כדי לשמור עליו.`,
+      },
+    };
+
+    return {
+      subject: copy[status].subject,
+      heading: `שלום ${name},`,
+      paragraphs: [copy[status].message],
+    };
+  },
+};
+
+const weeklySummary: EmailTemplate<"weekly_summary"> = {
+  en: (params) => ({
+    subject: "Your week with Calo",
+    heading: `Hi ${params.name}, here's your week`,
+    paragraphs: [
+      params.days_logged > 0
+        ? `From ${formatDay(params.start_date, "en")} to ${formatDay(params.end_date, "en")} you logged meals on ${params.days_logged} of 7 days.`
+        : `You didn't log any meals from ${formatDay(params.start_date, "en")} to ${formatDay(params.end_date, "en")}. A photo of your next meal is all it takes to get back on track.`,
+    ],
+    facts:
+      params.days_logged > 0
+        ? [
+            { label: "Meals logged", value: formatNumber(params.meals_logged, "en") },
+            { label: "Average calories per day", value: formatNumber(params.avg_calories, "en") },
+            ...(params.calorie_goal
+              ? [{ label: "Daily calorie goal", value: formatNumber(params.calorie_goal, "en") }]
+              : []),
+            { label: "Average protein per day", value: `${formatNumber(params.avg_protein_g, "en")} g` },
+          ]
+        : undefined,
+  }),
+  he: (params) => ({
+    subject: "השבוע שלך עם Calo",
+    heading: `שלום ${params.name}, זה השבוע שלך`,
+    paragraphs: [
+      params.days_logged > 0
+        ? `בין ${formatDay(params.start_date, "he")} ל${formatDay(params.end_date, "he")} תיעדת ארוחות ב-${params.days_logged} מתוך 7 ימים.`
+        : `לא תיעדת ארוחות בין ${formatDay(params.start_date, "he")} ל${formatDay(params.end_date, "he")}. צילום של הארוחה הבאה מספיק כדי לחזור למסלול.`,
+    ],
+    facts:
+      params.days_logged > 0
+        ? [
+            { label: "ארוחות שתועדו", value: formatNumber(params.meals_logged, "he") },
+            { label: "ממוצע קלוריות ליום", value: formatNumber(params.avg_calories, "he") },
+            ...(params.calorie_goal
+              ? [{ label: "יעד קלוריות יומי", value: formatNumber(params.calorie_goal, "he") }]
+              : []),
+            { label: "ממוצע חלבון ליום", value: `${formatNumber(params.avg_protein_g, "he")} גרם` },
+          ]
+        : undefined,
+  }),
+};
+
+const planReminder: EmailTemplate<"plan_reminder"> = {
+  en: (params) => ({
+    subject: `Today's meals: ${params.plan_name}`,
+    heading: `Good morning, ${params.name}!`,
+    paragraphs: [`Here's what ${params.plan_name} has for ${formatDay(params.date, "en")}.`],
+    facts: params.meals.map((meal) => ({
+      label: MEAL_TIMINGS.en[meal.timing] ?? meal.timing,
+      value:
+        meal.calories !== null
+          ? `${meal.name} (${formatNumber(meal.calories, "en")} kcal)`
+          : meal.name,
+    })),
+  }),
+  he: (params) => ({
+    subject: `הארוחות של היום: ${params.plan_name}`,
+    heading: `בוקר טוב, ${params.name}!`,
+    paragraphs: [`זה מה שמחכה לך היום, ${formatDay(params.date, "he")}, בתוכנית ${params.plan_name}.`],
+    facts: params.meals.map((meal) => ({
+      label: MEAL_TIMINGS.he[meal.timing] ?? meal.timing,
+      value:
+        meal.calories !== null
+          ? `${meal.name} (${formatNumber(meal.calories, "he")} קק"ל)`
+          : meal.name,
+    })),
+  }),
+};
+
+const templates = new Map<string, EmailTemplate<any>>();
+
+export class EmailTemplateRegistry {
+  static register<T extends EmailTemplateName>(name: T, template: EmailTemplate<T>) {
+    templates.set(name, template);
+  }
+
+  static has(name: string): name is EmailTemplateName {
+    return templates.has(name);
+  }
+
+  static render<T extends EmailTemplateName>(
+    name: T,
+    locale: EmailLocale,
+    params: EmailTemplateParams[T]
+  ): Omit<EmailMessage, "to"> {
+    const template = templates.get(name);
+    if (!template) throw new Error(`Unknown email template: ${name}`);
+
+    const content: EmailContent = template[locale](params);
+    return renderLayout(content, locale);
+  }
+}
+
+EmailTemplateRegistry.register("email_verification", emailVerification);
+EmailTemplateRegistry.register("password_reset", passwordReset);
+EmailTemplateRegistry.register("account_reminder", accountReminder);
+EmailTemplateRegistry.register("weekly_summary", weeklySummary);
+EmailTemplateRegistry.register("plan_reminder", planReminder);
@@ -0,0 +1,267 @@
+import { EventGoalRule } from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  CalendarEventOccurrence,
+  CalendarEventType,
+  DailyGoalEventAdjustments,
+  EventGoalAdjustment,
+  EventGoalRuleInput,
+  EventGoalRuleSettings,
+  GoalAdjustmentAmounts,
+  calendarEventTypeSchema,
+} from "../types/calendar";
+import { fromDayKey } from "../utils/dayBoundary";
+import { NutritionGoals } from "./statistics";
+import { CalendarRecurrenceService } from "./calendarRecurrence";
+
+type RuleValues = Omit<EventGoalRuleSettings, "event_type" | "is_default">;
+
+const NEUTRAL_RULE: RuleValues = {
+  is_enabled: true,
+  calories_delta: 0,
+  calories_multiplier: 1,
+  protein_delta_g: 0,
+  carbs_delta_g: 0,
+  fats_delta_g: 0,
+  water_delta_ml: 0,
+  eating_window_start: null,
+  eating_window_end: null,
+};
+
+// Applied until the user configures the type; other types change nothing
+const DEFAULT_RULES: Partial<Record<CalendarEventType, Partial<RuleValues>>> = {
+  workout: {
+    calories_delta: 300,
+    protein_delta_g: 20,
+    carbs_delta_g: 40,
+    water_delta_ml: 500,
+  },
+  fasting: {
+    water_delta_ml: 500,
+    eating_window_start: "19:00",
+    eating_window_end: "04:00",
+  },
+  holiday: { calories_multiplier: 1.15 },
+  social: { calories_delta: 250 },
+};
+
+// Event rules never push the day's calorie target below this
+const MIN_ADJUSTED_CALORIES = 1200;
+
+export class EventGoalRulesService {
+  /**
+   * The effective rule of every event type: the user's own rule, or the
+   * default when they have not configured that type
+   */
+  static async getRules(user_id: string): Promise<EventGoalRuleSettings[]> {
+    try {
+      const rules = await this.getRuleMap(user_id);
+      return [...rules.values()];
+    } catch (error) {
+      console.error("💥 Error fetching event goal rules:", error);
+      throw new Error("Failed to fetch event goal rules");
+    }
+  }
+
+  static async updateRule(
+    user_id: string,
+    event_type: CalendarEventType,
+    input: EventGoalRuleInput
+  ): Promise<EventGoalRuleSettings> {
+    try {
+      console.log("🎯 Updating event goal rule:", user_id, event_type, input);
+
+      // The first customization starts from the default rule of the type
+      const rule = await prisma.eventGoalRule.upsert({
+        where: { user_id_event_type: { user_id, event_type } },
+        update: input,
+        create: { user_id, event_type, ...this.getDefaultValues(event_type), ...input },
+      });
+
+      return this.toSettings(rule);
+    } catch (error) {
+      console.error("💥 Error updating event goal rule:", error);
+      throw new Error("Failed to update event goal rule");
+    }
+  }
+
+  static async resetRule(
+    user_id: string,
+    event_type: CalendarEventType
+  ): Promise<EventGoalRuleSettings> {
+    try {
+      await prisma.eventGoalRule.deleteMany({
+        where: { user_id, event_type },
+      });
+
+      return this.getDefaultRule(event_type);
+    } catch (error) {
+      console.error("💥 Error resetting event goal rule:", error);
+      throw new Error("Failed to reset event goal rule");
+    }
+  }
+
+  /**
+   * Apply the rules of the event types occurring on each local date to that
+   * day's base goals. Each type counts once, however many of its events fall
+   * on the day; multipliers apply to the base targets, not to each other.
+   */
+  static async adjustGoals<T extends NutritionGoals>(
+    user_id: string,
+    baseByDate: Map<string, T>
+  ): Promise<Map<string, { goals: T; adjustments: DailyGoalEventAdjustments | null }>> {
+    const dates = [...baseByDate.keys()].sort();
+    const results = new Map<string, { goals: T; adjustments: DailyGoalEventAdjustments | null }>(
+      dates.map((date) => [date, { goals: baseByDate.get(date)!, adjustments: null }])
+    );
+    if (dates.length === 0) {
+      return results;
+    }
+
+    const occurrences = await CalendarRecurrenceService.getOccurrences(
+      user_id,
+      dates[0],
+      dates[dates.length - 1]
+    );
+    if (occurrences.length === 0) {
+      return results;
+    }
+
+    const occurrencesByDate = new Map<string, CalendarEventOccurrence[]>();
+    for (const occurrence of occurrences) {
+      const date = fromDayKey(occurrence.date);
+      if (!occurrencesByDate.has(date)) {
+        occurrencesByDate.set(date, []);
+      }
+      occurrencesByDate.get(date)!.push(occurrence);
+    }
+
+    const rules = await this.getRuleMap(user_id);
+    for (const [date, dayOccurrences] of occurrencesByDate) {
+      const base = baseByDate.get(date);
+      if (base) {
+        results.set(date, this.applyRules(user_id, date, base, dayOccurrences, rules));
+      }
+    }
+
+    return results;
+  }
+
+  private static applyRules<T extends NutritionGoals>(
+    user_id: string,
+    date: string,
+    base: T,
+    occurrences: CalendarEventOccurrence[],
+    rules: Map<string, EventGoalRuleSettings>
+  ): { goals: T; adjustments: DailyGoalEventAdjustments | null } {
+    const titlesByType = new Map<string, string[]>();
+    for (const occurrence of occurrences) {
+      if (!titlesByType.has(occurrence.type)) {
+        titlesByType.set(occurrence.type, []);
+      }
+      titlesByType.get(occurrence.type)!.push(occurrence.title);
+    }
+
+    const applied: EventGoalAdjustment[] = [];
+    let eatingWindow: DailyGoalEventAdjustments["eating_window"] = null;
+
+    for (const [type, titles] of titlesByType) {
+      const rule = rules.get(type);
+      if (!rule || !rule.is_enabled) continue;
+
+      const scale = rule.calories_multiplier - 1;
+      const adjustment: EventGoalAdjustment = {
+        event_type: rule.event_type,
+        event_titles: titles,
+        calories: Math.round(base.calories * scale + rule.calories_delta),
+        protein_g: Math.round(base.protein_g * scale + rule.protein_delta_g),
+        carbs_g: Math.round(base.carbs_g * scale + rule.carbs_delta_g),
+        fats_g: Math.round(base.fats_g * scale + rule.fats_delta_g),
+        water_ml: rule.water_delta_ml,
+      };
+
+      const hasWindow = rule.eating_window_start && rule.eating_window_end;
+      if (hasWindow && !eatingWindow) {
+        eatingWindow = { start: rule.eating_window_start!, end: rule.eating_window_end! };
+      }
+
+      if (hasWindow || Object.values(this.pickAmounts(adjustment)).some((value) => value !== 0)) {
+        applied.push(adjustment);
+      }
+    }
+
+    if (applied.length === 0) {
+      return { goals: base, adjustments: null };
+    }
+
+    const goals = { ...base };
+    goals.calories = Math.max(
+      MIN_ADJUSTED_CALORIES,
+      base.calories + applied.reduce((sum, a) => sum + a.calories, 0)
+    );
+    for (const key of ["protein_g", "carbs_g", "fats_g", "water_ml"] as const) {
+      goals[key] = Math.max(0, base[key] + applied.reduce((sum, a) => sum + a[key], 0));
+    }
+
+    console.log(`🎯 Event adjustments for ${user_id} on ${date}:`, applied.map((a) => a.event_type));
+
+    return {
+      goals,
+      adjustments: {
+        applied,
+        // Totals are what was actually added after clamping
+        totals: {
+          calories: goals.calories - base.calories,
+          protein_g: goals.protein_g - base.protein_g,
+          carbs_g: goals.carbs_g - base.carbs_g,
+          fats_g: goals.fats_g - base.fats_g,
+          water_ml: goals.water_ml - base.water_ml,
+        },
+        eating_window: eatingWindow,
+      },
+    };
+  }
+
+  private static async getRuleMap(user_id: string): Promise<Map<string, EventGoalRuleSettings>> {
+    const stored = await prisma.eventGoalRule.findMany({
+      where: { user_id },
+    });
+
+    const rules = new Map<string, EventGoalRuleSettings>(
+      calendarEventTypeSchema.options.map((type) => [type, this.getDefaultRule(type)])
+    );
+    for (const rule of stored) {
+      rules.set(rule.event_type, this.toSettings(rule));
+    }
+    return rules;
+  }
+
+  private static getDefaultRule(event_type: CalendarEventType): EventGoalRuleSettings {
+    return { event_type, ...this.getDefaultValues(event_type), is_default: true };
+  }
+
+  private static getDefaultValues(event_type: CalendarEventType): RuleValues {
+    return { ...NEUTRAL_RULE, ...DEFAULT_RULES[event_type] };
+  }
+
+  private static toSettings(rule: EventGoalRule): EventGoalRuleSettings {
+    return {
+      event_type: rule.event_type as CalendarEventType,
+      is_enabled: rule.is_enabled,
+      calories_delta: rule.calories_delta,
+      calories_multiplier: rule.calories_multiplier,
+      protein_delta_g: rule.protein_delta_g,
+      carbs_delta_g: rule.carbs_delta_g,
+      fats_delta_g: rule.fats_delta_g,
+      water_delta_ml: rule.water_delta_ml,
+      eating_window_start: rule.eating_window_start,
+      eating_window_end: rule.eating_window_end,
+      is_default: false,
+    };
+  }
+
+  private static pickAmounts(adjustment: EventGoalAdjustment): GoalAdjustmentAmounts {
+    const { calories, protein_g, carbs_g, fats_g, water_ml } = adjustment;
+    return { calories, protein_g, carbs_g, fats_g, water_ml };
+  }
+}
@@ -1,37 +1,17 @@
 import { prisma } from "../lib/database";
 import { openai } from "./openai";
-import axios from "axios";
-
-interface ProductData {
-  barcode?: string;
-  name: string;
-  brand?: string;
-  category: string;
-  nutrition_per_100g: {
-    calories: number;
-    protein: number;
-    carbs: number;
-    fat: number;
-    fiber?: number;
-    sugar?: number;
-    sodium?: number;
-    saturated_fat?: number;
-    trans_fat?: number;
-    cholesterol?: number;
-    potassium?: number;
-    calcium?: number;
-    iron?: number;
-    vitamin_c?: number;
-    vitamin_d?: number;
-  };
-  ingredients: string[];
-  allergens: string[];
-  labels: string[];
-  health_score?: number;
-  image_url?: string;
-  serving_size?: string;
-  servings_per_container?: number;
-}
+import { ProductCatalogService } from "./products/catalog";
+import { ProductOverrideService } from "./products/overrides";
+import { ScanHistoryService } from "./products/scanHistory";
+import { ProductCompatibilityService } from "./products/compatibility";
+import {
+  CompatibilityResult,
+  CompatibilityRule,
+  ProductData,
+  ResolvedQuantity,
+  ScanHistoryEntry,
+} from "../types/products";
+import { resolveProductQuantity, scaleNutrition } from "../utils/servingSize";
 
 interface UserAnalysis {
   compatibility_score: number;
@@ -44,8 +24,23 @@ interface UserAnalysis {
   alerts: string[];
   recommendations: string[];
   health_assessment: string;
+  compatibility?: CompatibilityResult;
 }
 
+const COMPATIBILITY_ICONS: Record<CompatibilityRule, string> = {
+  allergy: "⚠️",
+  diet: "🌱",
+  kosher: "✡️",
+  disliked_food: "👎",
+};
+
+const AVOID_PENALTIES: Record<CompatibilityRule, number> = {
+  allergy: 30,
+  diet: 20,
+  kosher: 15,
+  disliked_food: 5,
+};
+
 export class FoodScannerService {
   static async scanBarcode(
     barcode: string,
@@ -53,31 +48,42 @@ export class FoodScannerService {
   ): Promise<{
     product: ProductData;
     user_analysis: UserAnalysis;
+    scan_id?: string;
+    has_override?: boolean;
   }> {
     try {
       console.log("🔍 Scanning barcode:", barcode);
 
-      // Try to get product from our database first
-      let productData = await this.getProductFromDatabase(barcode);
-
-      if (!productData) {
-        // Try external food database APIs
-        productData = await this.getProductFromExternalAPI(barcode);
+      // Local catalog first, external providers only on a miss or a stale entry
+      const lookup = await ProductCatalogService.lookupBarcode(barcode);
 
-        if (!productData) {
-          throw new Error("Product not found in any database");
-        }
-
-        // Save to our database for future use
-        await this.saveProductToDatabase(productData, barcode, userId);
-      } else {
-        // Update the access time for existing products
-        await prisma.foodProduct.update({
-          where: { barcode },
-          data: { updated_at: new Date() },
+      if (!lookup) {
+        await ScanHistoryService.recordScan({
+          userId,
+          scanType: "barcode",
+          barcode,
         });
+        throw new Error("Product not found in any database");
       }
 
+      // The user's own corrections win over the shared catalog values
+      const override = await ProductOverrideService.getOverride(
+        userId,
+        lookup.productId
+      );
+      const productData = ProductOverrideService.applyOverride(
+        lookup.product,
+        override
+      );
+
+      const scan = await ScanHistoryService.recordScan({
+        userId,
+        scanType: "barcode",
+        barcode,
+        productId: lookup.productId,
+        product: productData,
+      });
+
       // Get user-specific analysis
       const userAnalysis = await this.analyzeProductForUser(
         productData,
@@ -87,6 +93,8 @@ export class FoodScannerService {
       return {
         product: productData,
         user_analysis: userAnalysis,
+        scan_id: scan?.scan_id,
+        has_override: !!override,
       };
     } catch (error) {
       console.error("💥 Barcode scan error:", error);
@@ -100,6 +108,8 @@ export class FoodScannerService {
   ): Promise<{
     product: ProductData;
     user_analysis: UserAnalysis;
+    scan_id?: string;
+    has_override?: boolean;
   }> {
     try {
       console.log("📷 Scanning product image with AI...");
@@ -134,6 +144,7 @@ Return JSON with this exact structure:
   },
   "ingredients": ["ingredient1", "ingredient2"],
   "allergens": ["allergen1", "allergen2"],
+  "traces": ["allergens listed after 'may contain'"],
   "labels": ["kosher", "vegan", "gluten-free", "organic", "non-gmo"],
   "health_score": number (0-100),
   "barcode": "if visible",
@@ -178,11 +189,13 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
 
       const productData = JSON.parse(content) as ProductData;
 
-      // Save to database if barcode was detected, or create a unique identifier for image scans
-      const productId =
-        productData.barcode ||
-        `img_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      await this.saveProductToDatabase(productData, productId, userId);
+      // Labels read by the model stay in the user's scan history and are never
+      // written to the shared catalog, where they could replace provider data
+      const scan = await ScanHistoryService.recordScan({
+        userId,
+        scanType: "image",
+        product: productData,
+      });
 
       // Get user-specific analysis
       const userAnalysis = await this.analyzeProductForUser(
@@ -193,6 +206,7 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
       return {
         product: productData,
         user_analysis: userAnalysis,
+        scan_id: scan?.scan_id,
       };
     } catch (error) {
       console.error("💥 Image scan error:", error);
@@ -203,32 +217,40 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
   static async addProductToMealLog(
     userId: string,
     productData: ProductData,
-    quantity: number,
-    mealTiming: string = "SNACK"
+    quantity: number | ResolvedQuantity,
+    mealTiming: string = "SNACK",
+    scanId?: string
   ): Promise<any> {
     try {
       console.log("📝 Adding product to meal log...");
 
-      // Calculate nutrition for the specified quantity
-      const nutritionPer100g = productData.nutrition_per_100g;
-      const multiplier = quantity / 100;
+      // A plain number is grams, as sent by older clients
+      const resolved =
+        typeof quantity === "number"
+          ? resolveProductQuantity(productData, { amount: quantity, unit: "g" })
+          : quantity;
+
+      if (!resolved) {
+        throw new Error("Invalid quantity");
+      }
+
+      // Scale every label value, micronutrients included, to the logged amount
+      const nutrition = scaleNutrition(
+        productData.nutrition_per_100g,
+        resolved.baseAmount
+      );
+      const isVolume = resolved.basis === "volume";
 
       const mealData = {
-        meal_name: `${productData.name} (${quantity}g)`,
-        calories: Math.round((nutritionPer100g.calories || 0) * multiplier),
-        protein_g: Math.round((nutritionPer100g.protein || 0) * multiplier),
-        carbs_g: Math.round((nutritionPer100g.carbs || 0) * multiplier),
-        fats_g: Math.round((nutritionPer100g.fat || 0) * multiplier),
-        fiber_g: nutritionPer100g.fiber
-          ? Math.round(nutritionPer100g.fiber * multiplier)
-          : null,
-        sugar_g: nutritionPer100g.sugar
-          ? Math.round(nutritionPer100g.sugar * multiplier)
-          : null,
-        sodium_mg: nutritionPer100g.sodium
-          ? Math.round(nutritionPer100g.sodium * multiplier)
-          : null,
-        serving_size_g: quantity,
+        meal_name: `${productData.name} (${resolved.description})`,
+        calories: nutrition.calories || 0,
+        protein_g: nutrition.protein || 0,
+        carbs_g: nutrition.carbs || 0,
+        fats_g: nutrition.fat || 0,
+        fiber_g: nutrition.fiber ?? null,
+        sugar_g: nutrition.sugar ?? null,
+        sodium_mg: nutrition.sodium ?? null,
+        serving_size_g: isVolume ? null : resolved.baseAmount,
         food_category: productData.category,
         ingredients: JSON.stringify(productData.ingredients),
         additives_json: {
@@ -238,9 +260,18 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
         },
         allergens_json: {
           allergens: productData.allergens,
+          traces: productData.traces || [],
         },
-        vitamins_json: {},
-        micronutrients_json: {},
+        vitamins_json: this.compactNutrients({
+          vitamin_c_mg: nutrition.vitamin_c,
+          vitamin_d_mcg: nutrition.vitamin_d,
+        }),
+        micronutrients_json: this.compactNutrients({
+          potassium_mg: nutrition.potassium,
+          calcium_mg: nutrition.calcium,
+          iron_mg: nutrition.iron,
+          trans_fats_g: nutrition.trans_fat,
+        }),
         image_url: productData.image_url || "",
         processing_level: "processed",
         confidence: 85,
@@ -249,21 +280,17 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
             ? "Product may have health concerns based on analysis"
             : null,
         // Add missing required fields
-        saturated_fats_g: nutritionPer100g.saturated_fat
-          ? Math.round(nutritionPer100g.saturated_fat * multiplier)
-          : null,
+        saturated_fats_g: nutrition.saturated_fat ?? null,
         polyunsaturated_fats_g: null,
         monounsaturated_fats_g: null,
         omega_3_g: null,
         omega_6_g: null,
         soluble_fiber_g: null,
         insoluble_fiber_g: null,
-        cholesterol_mg: nutritionPer100g.cholesterol
-          ? Math.round(nutritionPer100g.cholesterol * multiplier)
-          : null,
+        cholesterol_mg: nutrition.cholesterol ?? null,
         alcohol_g: null,
         caffeine_mg: null,
-        liquids_ml: null,
+        liquids_ml: isVolume ? resolved.baseAmount : null,
         glycemic_index: null,
         insulin_index: null,
         cooking_method: null,
@@ -279,6 +306,10 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
         },
       });
 
+      if (scanId) {
+        await ScanHistoryService.linkMeal(userId, scanId, meal.meal_id);
+      }
+
       // Award achievement for first scan
       await this.checkAndAwardAchievements(userId);
 
@@ -289,190 +320,15 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
     }
   }
 
-  static async getScanHistory(userId: string): Promise<any[]> {
+  static async getScanHistory(userId: string): Promise<ScanHistoryEntry[]> {
     try {
-      // Get both scanned food products and meals created from scanned items
-      const [products, meals] = await Promise.all([
-        prisma.foodProduct.findMany({
-          where: { user_id: userId },
-          orderBy: { created_at: "desc" },
-          take: 25,
-        }),
-        prisma.meal.findMany({
-          where: {
-            user_id: userId,
-            meal_name: { contains: "g)" }, // Meals created from scanner have format "Product (XXXg)"
-          },
-          orderBy: { created_at: "desc" },
-          take: 25,
-        }),
-      ]);
-
-      // Combine and format the results
-      const history = [
-        ...products.map((product) => ({
-          id: product.product_id,
-          product_name: product.product_name,
-          name: product.product_name,
-          brand: product.brand,
-          category: product.category,
-          barcode: product.barcode,
-          created_at: product.created_at,
-          type: "product",
-        })),
-        ...meals.map((meal) => ({
-          id: meal.meal_id,
-          product_name: meal.meal_name,
-          name: meal.meal_name,
-          category: meal.food_category,
-          created_at: meal.created_at,
-          type: "meal",
-        })),
-      ].sort(
-        (a, b) =>
-          new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-      );
-
-      return history.slice(0, 50);
+      return await ScanHistoryService.getHistory(userId);
     } catch (error) {
       console.error("Error getting scan history:", error);
       return [];
     }
   }
 
-  private static async getProductFromDatabase(
-    barcode: string
-  ): Promise<ProductData | null> {
-    try {
-      const product = await prisma.foodProduct.findUnique({
-        where: { barcode },
-      });
-
-      if (!product) return null;
-
-      return {
-        barcode: product.barcode,
-        name: product.product_name,
-        brand: product.brand || undefined,
-        category: product.category,
-        nutrition_per_100g: product.nutrition_per_100g as any,
-        ingredients: product.ingredients as string[],
-        allergens: product.allergens as string[],
-        labels: product.labels as string[],
-        health_score: product.health_score || undefined,
-        image_url: product.image_url || undefined,
-      };
-    } catch (error) {
-      console.error("Error getting product from database:", error);
-      return null;
-    }
-  }
-
-  private static async getProductFromExternalAPI(
-    barcode: string
-  ): Promise<ProductData | null> {
-    try {
-      // Try OpenFoodFacts
-      const response = await axios.get(
-        `https://world.openfoodfacts.org/api/v0/product/${barcode}.json`,
-        { timeout: 5000 }
-      );
-
-      if (response.data.status === 1 && response.data.product) {
-        const product = response.data.product;
-        const nutriments = product.nutriments || {};
-
-        return {
-          barcode,
-          name: product.product_name || "Unknown Product",
-          brand: product.brands || undefined,
-          category: product.categories?.split(",")[0] || "Unknown",
-          nutrition_per_100g: {
-            calories:
-              nutriments.energy_kcal_100g ||
-              nutriments["energy-kcal_100g"] ||
-              nutriments.energy_100g ||
-              0,
-            protein: nutriments.proteins_100g || 0,
-            carbs: nutriments.carbohydrates_100g || 0,
-            fat: nutriments.fat_100g || 0,
-            fiber: nutriments.fiber_100g || undefined,
-            sugar: nutriments.sugars_100g || undefined,
-            sodium: nutriments.sodium_100g
-              ? nutriments.sodium_100g * 1000
-              : undefined,
-            saturated_fat: nutriments.saturated_fat_100g || undefined,
-            trans_fat: nutriments.trans_fat_100g || undefined,
-            cholesterol: nutriments.cholesterol_100g || undefined,
-            potassium: nutriments.potassium_100g || undefined,
-            calcium: nutriments.calcium_100g || undefined,
-            iron: nutriments.iron_100g || undefined,
-            vitamin_c: nutriments.vitamin_c_100g || undefined,
-            vitamin_d: nutriments.vitamin_d_100g || undefined,
-          },
-          ingredients:
-            product.ingredients_text_en
-              ?.split(",")
-              .map((i: string) => i.trim()) || [],
-          allergens:
-            product.allergens_tags?.map((a: string) => a.replace("en:", "")) ||
-            [],
-          labels:
-            product.labels_tags?.map((l: string) => l.replace("en:", "")) || [],
-          health_score: product.nutriscore_score || undefined,
-          image_url: product.image_url || undefined,
-          serving_size: product.serving_size || undefined,
-          servings_per_container: product.servings_per_container || undefined,
-        };
-      }
-
-      return null;
-    } catch (error: any) {
-      console.warn("❌ OpenFoodFacts failed:", error.message || error);
-      return null;
-    }
-  }
-
-  private static async saveProductToDatabase(
-    productData: ProductData,
-    barcode: string,
-    user_id: string
-  ): Promise<void> {
-    try {
-      await prisma.foodProduct.upsert({
-        where: { barcode },
-        update: {
-          product_name: productData.name,
-          brand: productData.brand,
-          category: productData.category,
-          nutrition_per_100g: productData.nutrition_per_100g,
-          ingredients: productData.ingredients,
-          allergens: productData.allergens,
-          labels: productData.labels,
-          health_score: productData.health_score,
-          image_url: productData.image_url,
-          updated_at: new Date(),
-        },
-        create: {
-          barcode,
-          product_name: productData.name,
-          brand: productData.brand,
-          category: productData.category,
-          nutrition_per_100g: productData.nutrition_per_100g,
-          ingredients: productData.ingredients,
-          allergens: productData.allergens,
-          labels: productData.labels,
-          health_score: productData.health_score,
-          image_url: productData.image_url,
-          user_id,
-          created_at: new Date(),
-        },
-      });
-    } catch (error) {
-      console.error("Error saving product to database:", error);
-    }
-  }
-
   private static async analyzeProductForUser(
     productData: ProductData,
     userId: string
@@ -516,41 +372,25 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
         };
       }
 
-      // Check for dietary restrictions
+      // Allergens, diet and kashrut from the deterministic compatibility check
       if (questionnaire) {
-        const userAllergies =
-          (questionnaire.allergies as string[] | null | undefined) || [];
-        const productAllergens = productData.allergens || [];
-        const allergenMatches = userAllergies.filter((allergy: string) =>
-          productAllergens.some((allergen) =>
-            allergen.toLowerCase().includes(allergy.toLowerCase())
-          )
+        const compatibility = ProductCompatibilityService.evaluate(
+          productData,
+          ProductCompatibilityService.toDietProfile(questionnaire)
         );
+        analysis.compatibility = compatibility;
 
-        if (allergenMatches.length > 0) {
-          analysis.alerts.push(
-            `⚠️ אלרגן: המוצר מכיל ${allergenMatches.join(", ")}`
-          );
-          analysis.compatibility_score -= 30;
-        }
-
-        // Check dietary style compatibility
-        const dietaryStyle = questionnaire.dietary_style?.toLowerCase();
-        const productLabels = productData.labels.map((l) => l.toLowerCase());
-
-        if (dietaryStyle === "vegan" && !productLabels.includes("vegan")) {
-          analysis.alerts.push("🌱 המוצר אינו מתאים לתזונה טבגנית");
-          analysis.compatibility_score -= 20;
+        for (const match of compatibility.matches) {
+          analysis.alerts.push(`${COMPATIBILITY_ICONS[match.rule]} ${match.reason}`);
         }
 
-        if (dietaryStyle === "vegetarian" && productLabels.includes("meat")) {
-          analysis.alerts.push("🥬 המוצר מכיל בשר ואינו מתאים לצמחונים");
-          analysis.compatibility_score -= 20;
-        }
-
-        if (questionnaire.kosher && !productLabels.includes("kosher")) {
-          analysis.alerts.push("✡️ המוצר אינו כשר");
-          analysis.compatibility_score -= 15;
+        // Each rule counts once, at its worst severity
+        const rules = new Set(compatibility.matches.map((m) => m.rule));
+        for (const rule of rules) {
+          const avoid = compatibility.matches.some(
+            (m) => m.rule === rule && m.severity === "avoid"
+          );
+          analysis.compatibility_score -= avoid ? AVOID_PENALTIES[rule] : 5;
         }
       }
 
@@ -656,4 +496,10 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
       console.error("Error checking achievements:", error);
     }
   }
+
+  private static compactNutrients(values: Record<string, number | undefined>) {
+    return Object.fromEntries(
+      Object.entries(values).filter(([, value]) => value !== undefined)
+    );
+  }
 }
@@ -0,0 +1,130 @@
+import { GenericFood, Meal, Prisma } from "@prisma/client";
+import { prisma } from "../../lib/database";
+import { ComposeMealInput, FoodNutrients } from "../../types/foods";
+import {
+  getDayRange,
+  getLocalDate,
+  getLocalHour,
+  getUserTimeZone,
+} from "../../utils/dayBoundary";
+import { scaleNutrients, sumNutrients, toMealMicronutrientJson } from "./nutrients";
+import { FoodSearchService } from "./search";
+
+export interface ComputedMealDetails {
+  meal_name: string;
+  meal_period?: string;
+  // Local YYYY-MM-DD; the meal is logged at the current time of that day
+  date?: string;
+  nutrients: FoodNutrients;
+  serving_size_g: number | null;
+  ingredients: Prisma.InputJsonValue;
+}
+
+function mealPeriodForHour(hour: number): string {
+  if (hour >= 5 && hour < 12) return "breakfast";
+  if (hour >= 12 && hour < 18) return "lunch";
+  if (hour >= 18 && hour < 22) return "dinner";
+  return "other";
+}
+
+export class MealComposerService {
+  /**
+   * Log a meal built from generic foods and gram amounts. Every nutrient is
+   * computed from the food tables, so no analysis is involved. Resolves to
+   * null when one of the foods doesn't exist.
+   */
+  static async composeMeal(user_id: string, input: ComposeMealInput): Promise<Meal | null> {
+    const foodIds = [...new Set(input.items.map((item) => item.food_id))];
+    const foods = await prisma.genericFood.findMany({
+      where: { food_id: { in: foodIds } },
+    });
+
+    if (foods.length !== foodIds.length) {
+      return null;
+    }
+
+    const foodsById = new Map<number, GenericFood>(foods.map((food) => [food.food_id, food]));
+
+    const ingredients = input.items.map((item) => {
+      const food = foodsById.get(item.food_id)!;
+      return {
+        food_id: food.food_id,
+        name: food.name_he || food.name_en,
+        name_en: food.name_en,
+        name_he: food.name_he,
+        grams: item.grams,
+        ...scaleNutrients(FoodSearchService.toNutrients(food), item.grams / 100),
+      };
+    });
+
+    const mealName =
+      input.meal_name ||
+      ingredients
+        .map((ingredient) => ingredient.name)
+        .filter(Boolean)
+        .join(", ")
+        .slice(0, 200);
+
+    return this.logComputedMeal(user_id, {
+      meal_name: mealName,
+      meal_period: input.meal_period,
+      date: input.date,
+      nutrients: sumNutrients(ingredients),
+      serving_size_g: input.items.reduce((sum, item) => sum + item.grams, 0),
+      ingredients,
+    });
+  }
+
+  /**
+   * Save a meal whose nutrients are already known. The meal period follows
+   * the user's local time unless given.
+   */
+  static async logComputedMeal(user_id: string, details: ComputedMealDetails): Promise<Meal> {
+    const timeZone = await getUserTimeZone(user_id);
+    const { nutrients } = details;
+
+    // A bare date means that day in the user's timezone at the current time of day
+    let loggedAt = new Date();
+    if (details.date) {
+      const today = getDayRange(getLocalDate(timeZone), timeZone).start;
+      loggedAt = new Date(
+        getDayRange(details.date, timeZone).start.getTime() + (Date.now() - today.getTime())
+      );
+    }
+
+    const { vitamins, minerals } = toMealMicronutrientJson(nutrients);
+
+    console.log(`🥗 Logging computed meal "${details.meal_name}" for ${user_id}`);
+
+    return prisma.meal.create({
+      data: {
+        user_id,
+        image_url: "",
+        analysis_status: "COMPLETED",
+        meal_name: details.meal_name,
+        meal_period: details.meal_period || mealPeriodForHour(getLocalHour(timeZone, loggedAt)),
+        calories: nutrients.calories,
+        protein_g: nutrients.protein_g,
+        carbs_g: nutrients.carbs_g,
+        fats_g: nutrients.fats_g,
+        fiber_g: nutrients.fiber_g,
+        sugar_g: nutrients.sugar_g,
+        sodium_mg: nutrients.sodium_mg,
+        saturated_fats_g: nutrients.saturated_fats_g,
+        polyunsaturated_fats_g: nutrients.polyunsaturated_fats_g,
+        monounsaturated_fats_g: nutrients.monounsaturated_fats_g,
+        cholesterol_mg: nutrients.cholesterol_mg,
+        alcohol_g: nutrients.alcohol_g,
+        caffeine_mg: nutrients.caffeine_mg,
+        serving_size_g:
+          details.serving_size_g !== null ? Math.round(details.serving_size_g * 100) / 100 : null,
+        vitamins_json: vitamins,
+        micronutrients_json: minerals,
+        ingredients: details.ingredients,
+        confidence: 100,
+        upload_time: loggedAt,
+        created_at: loggedAt,
+      },
+    });
+  }
+}
@@ -0,0 +1,315 @@
+import fs from "fs";
+import readline from "readline";
+import zlib from "zlib";
+import { prisma } from "../../lib/database";
+import {
+  FoodImportFormat,
+  FoodImportOptions,
+  FoodImportResult,
+  FoodRecord,
+} from "../../types/foods";
+import { MicronutrientKey } from "../../types/micronutrients";
+import { parseDelimitedLine } from "../../utils/csv";
+import { extractMicronutrients } from "../micronutrients/normalize";
+import { FoodSearchService } from "./search";
+
+const DEFAULT_BATCH_SIZE = 500;
+
+type NutrientColumn = Exclude<keyof FoodRecord, "source_id" | "name_en" | "name_he" | "category" | "micronutrients">;
+
+// Column names per field: our own, then the Ministry of Health (Tzameret) ones
+const TEXT_COLUMNS: Record<"source_id" | "name_en" | "name_he" | "category", string[]> = {
+  source_id: ["source_id", "smlmitzrach", "code", "id"],
+  name_en: ["name_en", "english_name", "name"],
+  name_he: ["name_he", "shmmitzrach", "hebrew_name"],
+  category: ["category", "food_group"],
+};
+
+const NUTRIENT_COLUMNS: Record<NutrientColumn, string[]> = {
+  calories: ["calories", "food_energy", "energy_kcal"],
+  protein_g: ["protein_g", "protein"],
+  carbs_g: ["carbs_g", "carbohydrates"],
+  fats_g: ["fats_g", "total_fat"],
+  fiber_g: ["fiber_g", "total_dietary_fiber"],
+  sugar_g: ["sugar_g", "total_sugars"],
+  sodium_mg: ["sodium_mg", "sodium"],
+  saturated_fats_g: ["saturated_fats_g", "saturated_fat"],
+  polyunsaturated_fats_g: ["polyunsaturated_fats_g", "polyunsaturated_fat"],
+  monounsaturated_fats_g: ["monounsaturated_fats_g", "monounsaturated_fat"],
+  cholesterol_mg: ["cholesterol_mg", "cholesterol"],
+  alcohol_g: ["alcohol_g", "alcohol"],
+  caffeine_mg: ["caffeine_mg", "caffeine"],
+};
+
+// FoodData Central nutrient numbers; energy falls back to the Atwater values
+const USDA_NUTRIENTS: Record<NutrientColumn, string[]> = {
+  calories: ["208", "957", "958"],
+  protein_g: ["203"],
+  carbs_g: ["205"],
+  fats_g: ["204"],
+  fiber_g: ["291"],
+  sugar_g: ["269", "2000"],
+  sodium_mg: ["307"],
+  saturated_fats_g: ["606"],
+  polyunsaturated_fats_g: ["646"],
+  monounsaturated_fats_g: ["645"],
+  cholesterol_mg: ["601"],
+  alcohol_g: ["221"],
+  caffeine_mg: ["262"],
+};
+
+const USDA_MICRONUTRIENTS: Record<MicronutrientKey, string> = {
+  calcium: "301",
+  iron: "303",
+  potassium: "306",
+  magnesium: "304",
+  zinc: "309",
+  selenium: "317",
+  vitamin_a: "320",
+  vitamin_c: "401",
+  vitamin_d: "328",
+  vitamin_e: "323",
+  vitamin_k: "430",
+  vitamin_b6: "415",
+  vitamin_b12: "418",
+  folate: "435",
+};
+
+function parseNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string" || !value.trim()) return null;
+  const parsed = parseFloat(value.replace(",", "."));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function normalizeColumn(column: string): string {
+  return column
+    .replace(/^\uFEFF/, "")
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+export class FoodImportService {
+  /**
+   * Load a food composition table into GenericFood. CSV/TSV tables use our
+   * column names or the Ministry of Health (Tzameret) ones; USDA FoodData
+   * Central Foundation and SR Legacy JSON downloads are read whole. Values
+   * must be per 100 g. Rows already imported from the same source are
+   * updated in place.
+   */
+  static async importFile(
+    filePath: string,
+    options: FoodImportOptions = {}
+  ): Promise<FoodImportResult> {
+    const format = options.format || this.detectFormat(filePath);
+    const source = options.source || (format === "usda" ? "usda" : "moh");
+    const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+    const result: FoodImportResult = { read: 0, imported: 0, skipped: 0, failed: 0 };
+
+    console.log(`🥕 Importing ${format.toUpperCase()} food table:`, filePath);
+
+    let batch: FoodRecord[] = [];
+
+    for await (const record of format === "usda"
+      ? this.readUsdaFile(filePath)
+      : this.readCsvFile(filePath)) {
+      result.read++;
+
+      if (!record) {
+        result.skipped++;
+        continue;
+      }
+
+      batch.push(record);
+
+      if (batch.length >= batchSize) {
+        await this.flush(batch, source, result);
+        batch = [];
+        console.log(`🥕 ${result.imported} foods imported so far`);
+      }
+
+      if (options.limit && result.imported + batch.length >= options.limit) {
+        break;
+      }
+    }
+
+    if (batch.length > 0) {
+      await this.flush(batch, source, result);
+    }
+
+    FoodSearchService.invalidate();
+
+    console.log("✅ Food import finished:", result);
+    return result;
+  }
+
+  private static async *readCsvFile(filePath: string): AsyncGenerator<FoodRecord | null> {
+    let input: NodeJS.ReadableStream = fs.createReadStream(filePath);
+    if (filePath.endsWith(".gz")) {
+      input = input.pipe(zlib.createGunzip());
+    }
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+    let header: string[] | null = null;
+    let delimiter = ",";
+
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+
+      if (!header) {
+        delimiter = line.includes("\t") ? "\t" : ",";
+        header = parseDelimitedLine(line, delimiter).map(normalizeColumn);
+        continue;
+      }
+
+      const values = parseDelimitedLine(line, delimiter);
+      const row: Record<string, string> = {};
+      header.forEach((column, index) => {
+        row[column] = values[index]?.trim() ?? "";
+      });
+
+      yield this.csvRowToRecord(row);
+    }
+  }
+
+  private static csvRowToRecord(row: Record<string, string>): FoodRecord | null {
+    const text = (field: keyof typeof TEXT_COLUMNS) => {
+      const column = TEXT_COLUMNS[field].find((name) => row[name]);
+      return column ? row[column] : null;
+    };
+    const nutrient = (field: NutrientColumn) => {
+      for (const column of NUTRIENT_COLUMNS[field]) {
+        const value = parseNumber(row[column]);
+        if (value !== null) return value;
+      }
+      return null;
+    };
+
+    // Every other column is offered to the micronutrient normaliser, which
+    // picks up names like "calcium", "vitamin_d_mcg" or "vitamin_a_iu"
+    return this.toRecord(
+      text("source_id"),
+      text("name_en"),
+      text("name_he"),
+      text("category"),
+      nutrient,
+      extractMicronutrients(row)
+    );
+  }
+
+  private static async *readUsdaFile(filePath: string): AsyncGenerator<FoodRecord | null> {
+    let content = fs.readFileSync(filePath);
+    if (filePath.endsWith(".gz")) {
+      content = zlib.gunzipSync(content);
+    }
+
+    const data = JSON.parse(content.toString("utf8"));
+    const foods: any[] = Array.isArray(data)
+      ? data
+      : data.FoundationFoods || data.SRLegacyFoods || data.SurveyFoods || [];
+
+    for (const food of foods) {
+      const amounts = new Map<string, { amount: number; unit: string }>();
+      for (const entry of food.foodNutrients || []) {
+        const number = entry.nutrient?.number;
+        if (number && typeof entry.amount === "number") {
+          amounts.set(String(number), { amount: entry.amount, unit: entry.nutrient.unitName || "" });
+        }
+      }
+
+      const nutrient = (field: NutrientColumn) => {
+        const number = USDA_NUTRIENTS[field].find((candidate) => amounts.has(candidate));
+        return number ? amounts.get(number)!.amount : null;
+      };
+
+      const micronutrients = extractMicronutrients(
+        Object.fromEntries(
+          (Object.keys(USDA_MICRONUTRIENTS) as MicronutrientKey[])
+            .filter((key) => amounts.has(USDA_MICRONUTRIENTS[key]))
+            .map((key) => [key, amounts.get(USDA_MICRONUTRIENTS[key])])
+        )
+      );
+
+      yield this.toRecord(
+        food.fdcId != null ? String(food.fdcId) : null,
+        food.description || null,
+        null,
+        food.foodCategory?.description || food.wweiaFoodCategory?.wweiaFoodCategoryDescription || null,
+        nutrient,
+        micronutrients
+      );
+    }
+  }
+
+  // Rows need an id, a name and an energy value; missing macros count as zero
+  private static toRecord(
+    source_id: string | null,
+    name_en: string | null,
+    name_he: string | null,
+    category: string | null,
+    nutrient: (field: NutrientColumn) => number | null,
+    micronutrients: FoodRecord["micronutrients"]
+  ): FoodRecord | null {
+    const calories = nutrient("calories");
+    if (!source_id || (!name_en && !name_he) || calories === null) {
+      return null;
+    }
+
+    return {
+      source_id,
+      name_en,
+      name_he,
+      category,
+      calories,
+      protein_g: nutrient("protein_g") ?? 0,
+      carbs_g: nutrient("carbs_g") ?? 0,
+      fats_g: nutrient("fats_g") ?? 0,
+      fiber_g: nutrient("fiber_g"),
+      sugar_g: nutrient("sugar_g"),
+      sodium_mg: nutrient("sodium_mg"),
+      saturated_fats_g: nutrient("saturated_fats_g"),
+      polyunsaturated_fats_g: nutrient("polyunsaturated_fats_g"),
+      monounsaturated_fats_g: nutrient("monounsaturated_fats_g"),
+      cholesterol_mg: nutrient("cholesterol_mg"),
+      alcohol_g: nutrient("alcohol_g"),
+      caffeine_mg: nutrient("caffeine_mg"),
+      micronutrients,
+    };
+  }
+
+  private static async flush(batch: FoodRecord[], source: string, result: FoodImportResult) {
+    // Tables can repeat an id; the last occurrence wins
+    const unique = new Map(batch.map((record) => [record.source_id, record]));
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        for (const [source_id, record] of unique) {
+          await tx.genericFood.upsert({
+            where: { source_source_id: { source, source_id } },
+            create: { ...record, source },
+            update: record,
+          });
+        }
+      });
+
+      result.imported += unique.size;
+      result.skipped += batch.length - unique.size;
+    } catch (error) {
+      console.error("💥 Failed to import food batch:", error);
+      result.failed += batch.length;
+    }
+  }
+
+  private static detectFormat(filePath: string): FoodImportFormat {
+    const name = filePath.replace(/\.gz$/, "").toLowerCase();
+    if (name.endsWith(".json")) {
+      return "usda";
+    }
+    if (name.endsWith(".csv") || name.endsWith(".tsv")) {
+      return "csv";
+    }
+    throw new Error("Cannot detect table format, pass it explicitly (csv or usda)");
+  }
+}
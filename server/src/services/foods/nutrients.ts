@@ -0,0 +1,122 @@
+import { FoodNutrients } from "../../types/foods";
+import { MicronutrientKey } from "../../types/micronutrients";
+import { ProductNutrition } from "../../types/products";
+import { extractMicronutrients } from "../micronutrients/normalize";
+import { MICRONUTRIENTS } from "../micronutrients/referenceTables";
+
+export type ScalarNutrient = Exclude<keyof FoodNutrients, "micronutrients">;
+
+export const SCALAR_NUTRIENTS: ScalarNutrient[] = [
+  "calories",
+  "protein_g",
+  "carbs_g",
+  "fats_g",
+  "fiber_g",
+  "sugar_g",
+  "sodium_mg",
+  "saturated_fats_g",
+  "polyunsaturated_fats_g",
+  "monounsaturated_fats_g",
+  "cholesterol_mg",
+  "alcohol_g",
+  "caffeine_mg",
+];
+
+function round(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+// Optional nutrients stay null until a part that has them is added
+export function emptyNutrients(): FoodNutrients {
+  return {
+    calories: 0,
+    protein_g: 0,
+    carbs_g: 0,
+    fats_g: 0,
+    fiber_g: null,
+    sugar_g: null,
+    sodium_mg: null,
+    saturated_fats_g: null,
+    polyunsaturated_fats_g: null,
+    monounsaturated_fats_g: null,
+    cholesterol_mg: null,
+    alcohol_g: null,
+    caffeine_mg: null,
+    micronutrients: {},
+  };
+}
+
+export function scaleNutrients(nutrients: FoodNutrients, factor: number): FoodNutrients {
+  const scaled = emptyNutrients();
+
+  for (const field of SCALAR_NUTRIENTS) {
+    const value = nutrients[field];
+    (scaled as any)[field] = value === null ? null : round(value * factor);
+  }
+  for (const [nutrient, amount] of Object.entries(nutrients.micronutrients) as [MicronutrientKey, number][]) {
+    scaled.micronutrients[nutrient] = round(amount * factor);
+  }
+
+  return scaled;
+}
+
+export function sumNutrients(parts: FoodNutrients[]): FoodNutrients {
+  const total = emptyNutrients();
+
+  for (const part of parts) {
+    for (const field of SCALAR_NUTRIENTS) {
+      const value = part[field];
+      if (value !== null) {
+        (total as any)[field] = round((total[field] ?? 0) + value);
+      }
+    }
+    for (const [nutrient, amount] of Object.entries(part.micronutrients) as [MicronutrientKey, number][]) {
+      total.micronutrients[nutrient] = round((total.micronutrients[nutrient] ?? 0) + amount);
+    }
+  }
+
+  return total;
+}
+
+// Per 100 g of a catalog product, in the same shape as generic foods
+export function productToNutrients(nutrition: ProductNutrition): FoodNutrients {
+  return {
+    ...emptyNutrients(),
+    calories: nutrition.calories || 0,
+    protein_g: nutrition.protein || 0,
+    carbs_g: nutrition.carbs || 0,
+    fats_g: nutrition.fat || 0,
+    fiber_g: nutrition.fiber ?? null,
+    sugar_g: nutrition.sugar ?? null,
+    sodium_mg: nutrition.sodium ?? null,
+    saturated_fats_g: nutrition.saturated_fat ?? null,
+    cholesterol_mg: nutrition.cholesterol ?? null,
+    micronutrients: extractMicronutrients({
+      potassium_mg: nutrition.potassium,
+      calcium_mg: nutrition.calcium,
+      iron_mg: nutrition.iron,
+      vitamin_c_mg: nutrition.vitamin_c,
+      vitamin_d_mcg: nutrition.vitamin_d,
+    }),
+  };
+}
+
+/**
+ * Micronutrients as Meal.vitamins_json and Meal.micronutrients_json, with
+ * unit-suffixed keys split the way meal analysis fills them
+ */
+export function toMealMicronutrientJson(nutrients: FoodNutrients) {
+  const vitamins: Record<string, number> = {};
+  const minerals: Record<string, number> = {};
+
+  for (const [nutrient, amount] of Object.entries(nutrients.micronutrients) as [MicronutrientKey, number][]) {
+    const key = `${nutrient}_${MICRONUTRIENTS[nutrient].unit}`;
+    if (nutrient.startsWith("vitamin_") || nutrient === "folate") {
+      vitamins[key] = round(amount);
+    } else {
+      minerals[key] = round(amount);
+    }
+  }
+
+  return { vitamins, minerals };
+}
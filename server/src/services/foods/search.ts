@@ -0,0 +1,182 @@
+import { GenericFood } from "@prisma/client";
+import { prisma } from "../../lib/database";
+import { FoodNutrients, FoodSearchResult } from "../../types/foods";
+import { MicronutrientAmounts } from "../../types/micronutrients";
+import { normalizeText } from "../products/compatibility";
+
+const INDEX_TTL_MS = 10 * 60 * 1000;
+
+// Foods scoring below this are not returned
+const MIN_SCORE = 0.5;
+
+// Attached Hebrew prefixes: ו, ה, ב, כ, ל, מ, ש
+const HEBREW_PREFIX = /^[והבכלמש]{1,2}(?=[א-ת]{2})/;
+
+interface IndexedFood {
+  food_id: number;
+  // Words of the English and of the Hebrew name
+  names: string[][];
+}
+
+interface FoodMatch {
+  food: IndexedFood;
+  score: number;
+  // Words in the matched name
+  length: number;
+}
+
+let index: { foods: IndexedFood[]; loadedAt: number } | null = null;
+
+function trigrams(word: string): Set<string> {
+  const padded = `  ${word} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    grams.add(padded.slice(i, i + 3));
+  }
+  return grams;
+}
+
+// Dice coefficient over character trigrams, tolerant of typos and plurals
+function similarity(a: string, b: string): number {
+  const gramsA = trigrams(a);
+  const gramsB = trigrams(b);
+  let shared = 0;
+  for (const gram of gramsA) {
+    if (gramsB.has(gram)) shared++;
+  }
+  return (2 * shared) / (gramsA.size + gramsB.size);
+}
+
+// The query word as typed, and without a Hebrew prefix ("בחלב" -> "חלב")
+function variants(token: string): string[] {
+  const stripped = token.replace(HEBREW_PREFIX, "");
+  return stripped !== token ? [token, stripped] : [token];
+}
+
+function scoreWord(token: string, word: string): number {
+  if (word === token) return 1;
+  if (token.length >= 2 && word.startsWith(token)) return 0.9;
+  return similarity(token, word);
+}
+
+/**
+ * Each query word is matched to its closest word in the name and the score
+ * is the average of those matches. Exact words beat prefixes, which beat
+ * trigram look-alikes. The better of the English and Hebrew names counts.
+ */
+function matchFood(tokens: string[], food: IndexedFood): FoodMatch {
+  let match: FoodMatch = { food, score: 0, length: 0 };
+
+  for (const words of food.names) {
+    let total = 0;
+    for (const token of tokens) {
+      let best = 0;
+      for (const variant of variants(token)) {
+        for (const word of words) {
+          best = Math.max(best, scoreWord(variant, word));
+        }
+      }
+      total += best;
+    }
+
+    const score = total / tokens.length;
+    if (score > match.score) {
+      match = { food, score, length: words.length };
+    }
+  }
+
+  return match;
+}
+
+export class FoodSearchService {
+  /**
+   * Fuzzy search of the generic food table by English or Hebrew name.
+   * Among equal matches, shorter names (the plain food rather than dishes
+   * made with it) come first.
+   */
+  static async search(query: string, limit: number = 20): Promise<FoodSearchResult[]> {
+    const tokens = normalizeText(query).split(" ").filter(Boolean);
+    if (tokens.length === 0) return [];
+
+    const foods = await this.getIndex();
+    const matches = foods
+      .map((food) => matchFood(tokens, food))
+      .filter((match) => match.score >= MIN_SCORE)
+      .sort((a, b) => b.score - a.score || a.length - b.length)
+      .slice(0, limit);
+
+    if (matches.length === 0) return [];
+
+    const rows = await prisma.genericFood.findMany({
+      where: { food_id: { in: matches.map((match) => match.food.food_id) } },
+    });
+    const rowsById = new Map(rows.map((row) => [row.food_id, row]));
+
+    return matches
+      .filter((match) => rowsById.has(match.food.food_id))
+      .map((match) => this.toSearchResult(rowsById.get(match.food.food_id)!, match.score));
+  }
+
+  static async getFood(food_id: number): Promise<FoodSearchResult | null> {
+    const food = await prisma.genericFood.findUnique({ where: { food_id } });
+    return food ? this.toSearchResult(food, 1) : null;
+  }
+
+  static toNutrients(food: GenericFood): FoodNutrients {
+    return {
+      calories: food.calories,
+      protein_g: food.protein_g,
+      carbs_g: food.carbs_g,
+      fats_g: food.fats_g,
+      fiber_g: food.fiber_g,
+      sugar_g: food.sugar_g,
+      sodium_mg: food.sodium_mg,
+      saturated_fats_g: food.saturated_fats_g,
+      polyunsaturated_fats_g: food.polyunsaturated_fats_g,
+      monounsaturated_fats_g: food.monounsaturated_fats_g,
+      cholesterol_mg: food.cholesterol_mg,
+      alcohol_g: food.alcohol_g,
+      caffeine_mg: food.caffeine_mg,
+      micronutrients: (food.micronutrients ?? {}) as MicronutrientAmounts,
+    };
+  }
+
+  // Dropped after an import so new foods are searchable right away
+  static invalidate() {
+    index = null;
+  }
+
+  private static toSearchResult(food: GenericFood, score: number): FoodSearchResult {
+    return {
+      food_id: food.food_id,
+      name_en: food.name_en,
+      name_he: food.name_he,
+      category: food.category,
+      source: food.source,
+      score: Math.round(score * 100) / 100,
+      per_100g: this.toNutrients(food),
+    };
+  }
+
+  // Names of every food, kept in memory; the table is a few thousand rows
+  private static async getIndex(): Promise<IndexedFood[]> {
+    if (index && Date.now() - index.loadedAt < INDEX_TTL_MS) {
+      return index.foods;
+    }
+
+    const rows = await prisma.genericFood.findMany({
+      select: { food_id: true, name_en: true, name_he: true },
+    });
+
+    const foods = rows.map((row) => ({
+      food_id: row.food_id,
+      names: [row.name_en, row.name_he]
+        .filter((name): name is string => !!name)
+        .map((name) => normalizeText(name).split(" ").filter(Boolean)),
+    }));
+
+    index = { foods, loadedAt: Date.now() };
+    console.log(`🥕 Food search index loaded: ${foods.length} foods`);
+    return foods;
+  }
+}
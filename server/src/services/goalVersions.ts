@@ -0,0 +1,102 @@
+import { GoalVersion } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { GoalVersionSource } from "../types/goals";
+import { fromDayKey, listDates, toDayKey } from "../utils/dayBoundary";
+import { NutritionGoals } from "./statistics";
+
+export class GoalVersionService {
+  static async createVersion(
+    user_id: string,
+    source: GoalVersionSource,
+    effective_from: string,
+    targets: NutritionGoals,
+    details: { meal_plan_id?: string; note?: string } = {}
+  ): Promise<GoalVersion> {
+    try {
+      console.log(`🎯 New ${source} goal version for ${user_id} from ${effective_from}:`, targets);
+
+      return await prisma.goalVersion.create({
+        data: {
+          user_id,
+          source,
+          effective_from: toDayKey(effective_from),
+          calories: targets.calories,
+          protein_g: targets.protein_g,
+          carbs_g: targets.carbs_g,
+          fats_g: targets.fats_g,
+          fiber_g: targets.fiber_g,
+          sodium_mg: targets.sodium_mg,
+          sugar_g: targets.sugar_g,
+          water_ml: targets.water_ml,
+          meal_plan_id: details.meal_plan_id,
+          note: details.note,
+        },
+      });
+    } catch (error) {
+      console.error("💥 Error creating goal version:", error);
+      throw new Error("Failed to save daily goals");
+    }
+  }
+
+  /**
+   * The user's versions, newest effective date first
+   */
+  static async getVersions(user_id: string, limit: number = 50): Promise<GoalVersion[]> {
+    return prisma.goalVersion.findMany({
+      where: { user_id },
+      orderBy: [{ effective_from: "desc" }, { created_at: "desc" }],
+      take: limit,
+    });
+  }
+
+  /**
+   * The version in effect on each local date of the range (inclusive): the
+   * latest one effective on or before the date, the most recently created
+   * winning on the same date. Dates before the first version map to null.
+   */
+  static async resolveVersions(
+    user_id: string,
+    startDate: string,
+    endDate: string
+  ): Promise<Map<string, GoalVersion | null>> {
+    const [previous, inRange] = await Promise.all([
+      prisma.goalVersion.findFirst({
+        where: { user_id, effective_from: { lte: toDayKey(startDate) } },
+        orderBy: [{ effective_from: "desc" }, { created_at: "desc" }],
+      }),
+      prisma.goalVersion.findMany({
+        where: {
+          user_id,
+          effective_from: { gt: toDayKey(startDate), lte: toDayKey(endDate) },
+        },
+        orderBy: [{ effective_from: "asc" }, { created_at: "asc" }],
+      }),
+    ]);
+
+    const resolved = new Map<string, GoalVersion | null>();
+    let current = previous;
+    let next = 0;
+
+    for (const date of listDates(startDate, endDate)) {
+      while (next < inRange.length && fromDayKey(inRange[next].effective_from) <= date) {
+        current = inRange[next++];
+      }
+      resolved.set(date, current);
+    }
+
+    return resolved;
+  }
+
+  static toTargets(version: GoalVersion): NutritionGoals {
+    return {
+      calories: version.calories,
+      protein_g: version.protein_g,
+      carbs_g: version.carbs_g,
+      fats_g: version.fats_g,
+      fiber_g: version.fiber_g,
+      sodium_mg: version.sodium_mg,
+      sugar_g: version.sugar_g,
+      water_ml: version.water_ml,
+    };
+  }
+}
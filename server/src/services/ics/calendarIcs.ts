@@ -0,0 +1,673 @@
+import crypto from "crypto";
+import { MealTiming } from "@prisma/client";
+import { prisma } from "../../lib/database";
+import {
+  CalendarEventType,
+  CalendarFeedLink,
+  CalendarImportResult,
+  IcsDateValue,
+  IcsEvent,
+  IcsExportEvent,
+  calendarEventTypeSchema,
+} from "../../types/calendar";
+import {
+  addDays,
+  fromDayKey,
+  getDayOfWeek,
+  getLocalDate,
+  getUserTimeZone,
+  getZonedInstant,
+  isValidTimeZone,
+  listDates,
+  resolveTimeZone,
+  toDayKey,
+} from "../../utils/dayBoundary";
+import { normalizeText } from "../products/compatibility";
+import { durationToDays, parseIcs } from "./parser";
+import { expandRecurrence, parseRecurrenceRule } from "./recurrence";
+import { formatIcsCalendar } from "./writer";
+
+const FEED_TOKEN_BYTES = 32;
+const UID_DOMAIN = "nutrition-tracker";
+
+// Feed window: past calendar events stay visible for a year, meal-plan meals
+// are generated for a rolling window since the feed is refreshed hourly
+const FEED_PAST_DAYS = 365;
+const MEAL_PLAN_PAST_DAYS = 7;
+const MEAL_PLAN_FUTURE_DAYS = 28;
+const MEAL_DURATION_MINUTES = 30;
+
+// Import window, in the user's local dates
+const IMPORT_PAST_DAYS = 30;
+const IMPORT_FUTURE_DAYS = 365;
+const MAX_EVENT_SPAN_DAYS = 14;
+const MAX_IMPORTED_OCCURRENCES = 2000;
+const UPSERT_BATCH_SIZE = 100;
+
+// First match wins, so a fast day that is also a holiday imports as fasting
+const EVENT_TYPE_KEYWORDS: Array<{ type: CalendarEventType; keywords: string[] }> = [
+  {
+    type: "fasting",
+    keywords: [
+      "fast day",
+      "fasting",
+      "ramadan",
+      "yom kippur",
+      "tisha b'av",
+      "צום",
+      "תענית",
+      "יום כיפור",
+      "תשעה באב",
+      "רמדאן",
+    ],
+  },
+  {
+    type: "workout",
+    keywords: [
+      "workout",
+      "gym",
+      "training",
+      "run",
+      "running",
+      "marathon",
+      "yoga",
+      "pilates",
+      "swim",
+      "swimming",
+      "cycling",
+      "crossfit",
+      "אימון",
+      "ריצה",
+      "חדר כושר",
+      "יוגה",
+      "פילאטיס",
+      "שחייה",
+      "מרתון",
+      "רכיבה",
+    ],
+  },
+  {
+    type: "social",
+    keywords: [
+      "wedding",
+      "birthday",
+      "party",
+      "bar mitzvah",
+      "bat mitzvah",
+      "celebration",
+      "dinner with",
+      "חתונה",
+      "חתונת",
+      "יום הולדת",
+      "מסיבה",
+      "בר מצווה",
+      "בת מצווה",
+      "ברית",
+      "שבע ברכות",
+    ],
+  },
+  {
+    type: "holiday",
+    keywords: [
+      "holiday",
+      "passover",
+      "pesach",
+      "rosh hashana",
+      "rosh hashanah",
+      "sukkot",
+      "hanukkah",
+      "chanukah",
+      "purim",
+      "shavuot",
+      "christmas",
+      "thanksgiving",
+      "easter",
+      "eid",
+      "חג",
+      "פסח",
+      "ראש השנה",
+      "סוכות",
+      "חנוכה",
+      "פורים",
+      "שבועות",
+      "ליל הסדר",
+    ],
+  },
+  {
+    type: "travel",
+    keywords: ["flight", "trip", "vacation", "travel", "טיסה", "טיול", "חופשה", "נסיעה"],
+  },
+  {
+    type: "health",
+    keywords: [
+      "doctor",
+      "dentist",
+      "clinic",
+      "blood test",
+      "checkup",
+      "dietitian",
+      "רופא",
+      "רופאה",
+      "רופא שיניים",
+      "בדיקת דם",
+      "מרפאה",
+      "דיאטנית",
+      "תזונאית",
+    ],
+  },
+];
+
+const MEAL_TIMES: Record<MealTiming, string> = {
+  BREAKFAST: "08:00",
+  MORNING_SNACK: "10:30",
+  LUNCH: "13:00",
+  AFTERNOON_SNACK: "16:30",
+  SNACK: "16:30",
+  DINNER: "19:00",
+};
+
+const MEAL_LABELS: Record<MealTiming, string> = {
+  BREAKFAST: "Breakfast",
+  MORNING_SNACK: "Morning snack",
+  LUNCH: "Lunch",
+  AFTERNOON_SNACK: "Afternoon snack",
+  SNACK: "Snack",
+  DINNER: "Dinner",
+};
+
+interface ImportedOccurrence {
+  uid: string;
+  date: string;
+  title: string;
+  type: CalendarEventType;
+  description?: string;
+}
+
+export class CalendarIcsService {
+  /**
+   * Create (or rotate) the user's secret feed token. The token is returned
+   * once; only its hash is stored, so rotating invalidates old feed URLs.
+   */
+  static async createFeedToken(user_id: string): Promise<string> {
+    try {
+      const token = crypto.randomBytes(FEED_TOKEN_BYTES).toString("base64url");
+
+      await prisma.user.update({
+        where: { user_id },
+        data: { calendar_feed_token_hash: hashFeedToken(token) },
+      });
+
+      console.log("🔑 Calendar feed token created for user:", user_id);
+      return token;
+    } catch (error) {
+      console.error("💥 Error creating calendar feed token:", error);
+      throw new Error("Failed to create calendar feed");
+    }
+  }
+
+  static async revokeFeedToken(user_id: string): Promise<void> {
+    try {
+      await prisma.user.update({
+        where: { user_id },
+        data: { calendar_feed_token_hash: null },
+      });
+      console.log("🗑️ Calendar feed token revoked for user:", user_id);
+    } catch (error) {
+      console.error("💥 Error revoking calendar feed token:", error);
+      throw new Error("Failed to revoke calendar feed");
+    }
+  }
+
+  static async hasFeedToken(user_id: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      select: { calendar_feed_token_hash: true },
+    });
+    return !!user?.calendar_feed_token_hash;
+  }
+
+  static getFeedLink(apiBaseUrl: string, token: string): CalendarFeedLink {
+    const feed_url = `${apiBaseUrl.replace(/\/$/, "")}/calendar/feed/${token}.ics`;
+    return {
+      feed_url,
+      webcal_url: feed_url.replace(/^https?:\/\//, "webcal://"),
+    };
+  }
+
+  /**
+   * Build the ICS document for a feed token: the user's calendar events plus
+   * the meals of their active meal plan. Returns null for unknown tokens.
+   */
+  static async getFeedForToken(token: string): Promise<string | null> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { calendar_feed_token_hash: hashFeedToken(token) },
+        select: {
+          user_id: true,
+          name: true,
+          timezone: true,
+          active_meal_plan_id: true,
+        },
+      });
+
+      if (!user) {
+        return null;
+      }
+
+      const timeZone = resolveTimeZone(user.timezone);
+      const today = getLocalDate(timeZone);
+
+      // Recurring events are exported once with their rule, whenever they started
+      const calendarEvents = await prisma.calendarEvent.findMany({
+        where: {
+          user_id: user.user_id,
+          OR: [
+            { date: { gte: toDayKey(addDays(today, -FEED_PAST_DAYS)) } },
+            { recurrence_rule: { not: null } },
+          ],
+        },
+        orderBy: { date: "asc" },
+      });
+
+      const events: IcsExportEvent[] = calendarEvents.map((event) => ({
+        uid: `calendar-event-${event.event_id}@${UID_DOMAIN}`,
+        summary: event.title,
+        description: event.description || undefined,
+        categories: [event.type],
+        date: fromDayKey(event.date),
+        rrule: event.recurrence_rule || undefined,
+        exdates: event.excluded_dates.map(fromDayKey),
+        stamp: event.updated_at,
+      }));
+
+      if (user.active_meal_plan_id) {
+        events.push(
+          ...(await this.buildMealPlanEvents(
+            user.user_id,
+            user.active_meal_plan_id,
+            timeZone,
+            today
+          ))
+        );
+      }
+
+      console.log(`📤 Serving calendar feed for user ${user.user_id}: ${events.length} events`);
+      return formatIcsCalendar(
+        user.name ? `${user.name} - Nutrition` : "Nutrition",
+        timeZone,
+        events
+      );
+    } catch (error) {
+      console.error("💥 Error building calendar feed:", error);
+      throw new Error("Failed to build calendar feed");
+    }
+  }
+
+  /**
+   * Import the events of an ICS document into CalendarEvent. Recurring events
+   * are expanded within the import window, each occurrence landing on its
+   * date in the user's timezone. Re-importing the same file updates the
+   * existing rows, and cancelled events remove what an earlier import created.
+   */
+  static async importIcs(user_id: string, ics: string): Promise<CalendarImportResult> {
+    try {
+      const timeZone = await getUserTimeZone(user_id);
+      const today = getLocalDate(timeZone);
+      const windowStart = addDays(today, -IMPORT_PAST_DAYS);
+      const windowEnd = addDays(today, IMPORT_FUTURE_DAYS);
+
+      const events = parseIcs(ics);
+      const result: CalendarImportResult = {
+        events_found: events.length,
+        created: 0,
+        updated: 0,
+        removed: 0,
+        skipped: 0,
+        by_type: {},
+        warnings: [],
+      };
+
+      console.log(`📥 Importing ${events.length} calendar events for user:`, user_id);
+
+      // Modified or cancelled single occurrences of a recurring event
+      const overriddenDates = new Map<string, Set<string>>();
+      for (const event of events) {
+        if (event.recurrenceId) {
+          if (!overriddenDates.has(event.uid)) {
+            overriddenDates.set(event.uid, new Set());
+          }
+          overriddenDates.get(event.uid)!.add(event.recurrenceId.date);
+        }
+      }
+
+      const occurrences = new Map<string, ImportedOccurrence>();
+      const cancelled: Array<{ uid: string; dates?: string[] }> = [];
+
+      for (const event of events) {
+        const type = this.classifyEventType(event.summary, event.categories);
+
+        let dates: string[];
+        if (event.recurrenceId) {
+          dates = [event.start.date];
+        } else {
+          dates = this.getEventDates(event, windowEnd, result.warnings);
+          const excluded = new Set([
+            ...event.exdates.map((exdate) => exdate.date),
+            ...(overriddenDates.get(event.uid) || []),
+          ]);
+          dates = dates.filter((date) => !excluded.has(date));
+        }
+
+        const localDates = dates
+          .flatMap((date) => this.expandEventSpan(event, date, timeZone))
+          .filter((date) => date >= windowStart && date <= windowEnd);
+
+        if (event.status === "CANCELLED") {
+          cancelled.push(
+            event.recurrenceId
+              ? { uid: event.uid, dates: [this.toUserDate(event.recurrenceId, timeZone)] }
+              : { uid: event.uid }
+          );
+          result.skipped++;
+          continue;
+        }
+
+        if (localDates.length === 0) {
+          result.skipped++;
+          continue;
+        }
+
+        for (const date of localDates) {
+          occurrences.set(`${event.uid}|${date}`, {
+            uid: event.uid,
+            date,
+            title: event.summary || "Imported event",
+            type,
+            description: event.description?.slice(0, 2000),
+          });
+        }
+      }
+
+      let toSave = [...occurrences.values()].sort((a, b) => a.date.localeCompare(b.date));
+      if (toSave.length > MAX_IMPORTED_OCCURRENCES) {
+        result.warnings.push(
+          `Only the first ${MAX_IMPORTED_OCCURRENCES} of ${toSave.length} occurrences were imported`
+        );
+        toSave = toSave.slice(0, MAX_IMPORTED_OCCURRENCES);
+      }
+
+      for (const { uid, dates } of cancelled) {
+        const removed = await prisma.calendarEvent.deleteMany({
+          where: {
+            user_id,
+            source: "ics_import",
+            external_uid: uid,
+            ...(dates ? { date: { in: dates.map(toDayKey) } } : {}),
+          },
+        });
+        result.removed += removed.count;
+      }
+
+      const existing = await prisma.calendarEvent.findMany({
+        where: {
+          user_id,
+          external_uid: { in: [...new Set(toSave.map((occurrence) => occurrence.uid))] },
+        },
+        select: { external_uid: true, date: true },
+      });
+      const existingKeys = new Set(
+        existing.map((event) => `${event.external_uid}|${fromDayKey(event.date)}`)
+      );
+
+      for (let i = 0; i < toSave.length; i += UPSERT_BATCH_SIZE) {
+        const batch = toSave.slice(i, i + UPSERT_BATCH_SIZE);
+        await prisma.$transaction(
+          batch.map((occurrence) =>
+            prisma.calendarEvent.upsert({
+              where: {
+                user_id_external_uid_date: {
+                  user_id,
+                  external_uid: occurrence.uid,
+                  date: toDayKey(occurrence.date),
+                },
+              },
+              update: {
+                title: occurrence.title,
+                type: occurrence.type,
+                description: occurrence.description,
+              },
+              create: {
+                user_id,
+                date: toDayKey(occurrence.date),
+                title: occurrence.title,
+                type: occurrence.type,
+                description: occurrence.description,
+                source: "ics_import",
+                external_uid: occurrence.uid,
+              },
+            })
+          )
+        );
+      }
+
+      for (const occurrence of toSave) {
+        if (existingKeys.has(`${occurrence.uid}|${occurrence.date}`)) {
+          result.updated++;
+        } else {
+          result.created++;
+        }
+        result.by_type[occurrence.type] = (result.by_type[occurrence.type] || 0) + 1;
+      }
+
+      console.log("✅ Calendar import completed:", {
+        created: result.created,
+        updated: result.updated,
+        removed: result.removed,
+        skipped: result.skipped,
+      });
+      return result;
+    } catch (error) {
+      console.error("💥 Error importing calendar:", error);
+      throw new Error("Failed to import calendar");
+    }
+  }
+
+  /**
+   * Pick the CalendarEvent type for an imported event. A category that is
+   * already one of our types (e.g. from our own feed) wins; otherwise the
+   * summary and categories are matched against Hebrew and English keywords.
+   */
+  static classifyEventType(summary: string, categories: string[] = []): CalendarEventType {
+    const direct = categories
+      .map((category) => category.toLowerCase())
+      .find((category): category is CalendarEventType =>
+        calendarEventTypeSchema.options.includes(category as CalendarEventType)
+      );
+    if (direct) {
+      return direct;
+    }
+
+    const text = normalizeText([summary, ...categories].join(" "));
+    const match = EVENT_TYPE_KEYWORDS.find(({ keywords }) =>
+      keywords.some((keyword) => keywordPattern(keyword).test(text))
+    );
+    return match?.type || "general";
+  }
+
+  /**
+   * Event-zone dates of every occurrence, DTSTART first
+   */
+  private static getEventDates(event: IcsEvent, windowEnd: string, warnings: string[]): string[] {
+    // One day of slack: an occurrence's wall date can be a day behind the user's date
+    const lastDate = addDays(windowEnd, 1);
+    let dates = [event.start.date];
+
+    if (event.rrule) {
+      const rule = parseRecurrenceRule(event.rrule);
+      if (rule) {
+        dates = expandRecurrence(event.start.date, rule, lastDate);
+      } else {
+        warnings.push(
+          `Unsupported recurrence "${event.rrule}" on "${event.summary}"; only the first occurrence was imported`
+        );
+      }
+    }
+
+    const rdates = event.rdates.map((rdate) => rdate.date).filter((date) => date <= lastDate);
+    return [...new Set([...dates, ...rdates])].sort();
+  }
+
+  /**
+   * The user-local dates one occurrence covers. All-day events may span
+   * several days; timed events count on the day they start.
+   */
+  private static expandEventSpan(event: IcsEvent, date: string, timeZone: string): string[] {
+    if (event.start.time) {
+      return [this.toUserDate({ ...event.start, date }, timeZone)];
+    }
+
+    let span = 1;
+    if (event.end && !event.end.time) {
+      span = Math.round(
+        (toDayKey(event.end.date).getTime() - toDayKey(event.start.date).getTime()) /
+          (24 * 60 * 60 * 1000)
+      );
+    } else if (event.duration) {
+      span = durationToDays(event.duration);
+    }
+
+    span = Math.min(Math.max(span, 1), MAX_EVENT_SPAN_DAYS);
+    return Array.from({ length: span }, (_, offset) => addDays(date, offset));
+  }
+
+  /**
+   * The user's local date of an iCalendar value. Floating times and unknown
+   * TZIDs (e.g. Windows zone names) keep their wall date.
+   */
+  private static toUserDate(value: IcsDateValue, timeZone: string): string {
+    if (!value.time) {
+      return value.date;
+    }
+    if (value.utc) {
+      return getLocalDate(timeZone, new Date(`${value.date}T${value.time}Z`));
+    }
+    if (value.tzid && isValidTimeZone(value.tzid)) {
+      return getLocalDate(timeZone, getZonedInstant(value.date, value.time, value.tzid));
+    }
+    return value.date;
+  }
+
+  private static async buildMealPlanEvents(
+    user_id: string,
+    plan_id: string,
+    timeZone: string,
+    today: string
+  ): Promise<IcsExportEvent[]> {
+    const plan = await prisma.userMealPlan.findFirst({
+      where: { plan_id, user_id, is_active: true },
+      include: {
+        schedules: {
+          include: { template: true },
+          orderBy: [{ day_of_week: "asc" }, { meal_order: "asc" }],
+        },
+      },
+    });
+
+    if (!plan || plan.schedules.length === 0) {
+      return [];
+    }
+
+    const mealTimes = await this.getMealTimes(user_id);
+
+    let firstDate = addDays(today, -MEAL_PLAN_PAST_DAYS);
+    if (plan.start_date && getLocalDate(timeZone, plan.start_date) > firstDate) {
+      firstDate = getLocalDate(timeZone, plan.start_date);
+    }
+    let lastDate = addDays(today, MEAL_PLAN_FUTURE_DAYS);
+    if (plan.end_date && getLocalDate(timeZone, plan.end_date) < lastDate) {
+      lastDate = getLocalDate(timeZone, plan.end_date);
+    }
+
+    const events: IcsExportEvent[] = [];
+    for (const date of listDates(firstDate, lastDate)) {
+      const weekday = getDayOfWeek(date);
+
+      for (const schedule of plan.schedules) {
+        if (schedule.day_of_week !== weekday) continue;
+
+        const { template } = schedule;
+        const start = getZonedInstant(date, mealTimes[schedule.meal_timing], timeZone);
+        const portion = schedule.portion_multiplier || 1;
+        const details = [
+          template.calories ? `${Math.round(template.calories * portion)} kcal` : null,
+          template.protein_g ? `${Math.round(template.protein_g * portion)}g protein` : null,
+          template.carbs_g ? `${Math.round(template.carbs_g * portion)}g carbs` : null,
+          template.fats_g ? `${Math.round(template.fats_g * portion)}g fat` : null,
+        ].filter(Boolean);
+
+        events.push({
+          uid: `meal-${schedule.schedule_id}-${date.replace(/-/g, "")}@${UID_DOMAIN}`,
+          summary: `${MEAL_LABELS[schedule.meal_timing]}: ${template.name}`,
+          description: [
+            plan.name,
+            details.join(", "),
+            portion !== 1 ? `Portion: x${portion}` : null,
+            schedule.is_optional ? "Optional" : null,
+          ]
+            .filter(Boolean)
+            .join("\n"),
+          categories: ["meal_plan", schedule.meal_timing.toLowerCase()],
+          start,
+          end: new Date(start.getTime() + MEAL_DURATION_MINUTES * 60 * 1000),
+          stamp: plan.updated_at,
+        });
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Meal times from the questionnaire ("8:00, 13:00, 19:00") override the
+   * defaults for breakfast, lunch and dinner
+   */
+  private static async getMealTimes(user_id: string): Promise<Record<MealTiming, string>> {
+    const questionnaire = await prisma.userQuestionnaire.findFirst({
+      where: { user_id },
+      orderBy: { date_completed: "desc" },
+      select: { meal_times: true },
+    });
+
+    const times = (questionnaire?.meal_times || "")
+      .split(",")
+      .map((time) => time.trim().match(/^(\d{1,2}):(\d{2})$/))
+      .filter((match): match is RegExpMatchArray => !!match && Number(match[1]) < 24)
+      .map((match) => `${match[1].padStart(2, "0")}:${match[2]}`);
+
+    if (times.length < 3) {
+      return MEAL_TIMES;
+    }
+
+    return {
+      ...MEAL_TIMES,
+      BREAKFAST: times[0],
+      LUNCH: times[1],
+      DINNER: times[times.length - 1],
+    };
+  }
+}
+
+function hashFeedToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Whole-word keyword pattern over normalized text. Hebrew keywords allow up
+ * to two attached prefix letters (ו, ה, ב, כ, ל, מ, ש).
+ */
+function keywordPattern(keyword: string): RegExp {
+  const escaped = normalizeText(keyword).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return /[\u05D0-\u05EA]/.test(escaped)
+    ? new RegExp(`(?<![\\u05D0-\\u05EA'])[\\u05D5\\u05D4\\u05D1\\u05DB\\u05DC\\u05DE\\u05E9]{0,2}${escaped}(?![\\u05D0-\\u05EA'])`)
+    : new RegExp(`(?<![a-z0-9])${escaped}(?:e?s)?(?![a-z0-9])`);
+}
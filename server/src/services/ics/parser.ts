@@ -0,0 +1,222 @@
+import crypto from "crypto";
+import { IcsDateValue, IcsEvent } from "../../types/calendar";
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const DATE_VALUE_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+
+/**
+ * Parse the VEVENTs of an iCalendar (RFC 5545) document. Nested components
+ * such as VALARM are skipped, and events without a usable DTSTART are dropped.
+ */
+export function parseIcs(text: string): IcsEvent[] {
+  // Unfold continuation lines before splitting into properties
+  const lines = text
+    .replace(/\r\n|\r/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n");
+
+  const events: IcsEvent[] = [];
+  const stack: string[] = [];
+  let current: IcsProperty[] | null = null;
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+
+    const property = parseProperty(line);
+    if (!property) continue;
+
+    if (property.name === "BEGIN") {
+      const component = property.value.toUpperCase();
+      stack.push(component);
+      if (component === "VEVENT") {
+        current = [];
+      }
+      continue;
+    }
+
+    if (property.name === "END") {
+      const component = stack.pop();
+      if (component === "VEVENT" && current) {
+        const event = toEvent(current);
+        if (event) {
+          events.push(event);
+        }
+        current = null;
+      }
+      continue;
+    }
+
+    // Only properties that belong directly to the VEVENT
+    if (current && stack[stack.length - 1] === "VEVENT") {
+      current.push(property);
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Parse a DATE or DATE-TIME property value. Returns null for malformed values.
+ */
+export function parseIcsDate(
+  value: string,
+  params: Record<string, string> = {}
+): IcsDateValue | null {
+  const match = value.trim().match(DATE_VALUE_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const date = `${year}-${month}-${day}`;
+  if (isNaN(new Date(`${date}T00:00:00.000Z`).getTime())) {
+    return null;
+  }
+
+  if (hour === undefined || params.VALUE === "DATE") {
+    return { date, utc: false };
+  }
+
+  return {
+    date,
+    time: `${hour}:${minute}:${second}`,
+    utc: utc === "Z",
+    tzid: utc ? undefined : params.TZID,
+  };
+}
+
+/**
+ * Whole days in an ISO 8601 duration such as "P1D", "P2W" or "PT36H"
+ */
+export function durationToDays(duration: string): number {
+  const match = duration.match(/^[+]?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) {
+    return 0;
+  }
+
+  const [, weeks, days, hours] = match;
+  return (
+    Number(weeks || 0) * 7 + Number(days || 0) + Math.floor(Number(hours || 0) / 24)
+  );
+}
+
+function toEvent(properties: IcsProperty[]): IcsEvent | null {
+  const first = (name: string) => properties.find((p) => p.name === name);
+  const all = (name: string) => properties.filter((p) => p.name === name);
+
+  const startProperty = first("DTSTART");
+  const start = startProperty && parseIcsDate(startProperty.value, startProperty.params);
+  if (!start) {
+    return null;
+  }
+
+  const endProperty = first("DTEND");
+  const recurrenceProperty = first("RECURRENCE-ID");
+  const summary = unescapeText(first("SUMMARY")?.value || "").trim();
+
+  return {
+    // Events without a UID still need a stable identity for re-imports
+    uid:
+      first("UID")?.value.trim() ||
+      crypto
+        .createHash("sha256")
+        .update(`${summary}|${startProperty!.value}`)
+        .digest("hex")
+        .slice(0, 32),
+    summary,
+    description: first("DESCRIPTION")
+      ? unescapeText(first("DESCRIPTION")!.value).trim() || undefined
+      : undefined,
+    categories: all("CATEGORIES").flatMap((p) =>
+      splitList(p.value).map((category) => unescapeText(category).trim()).filter(Boolean)
+    ),
+    status: first("STATUS")?.value.trim().toUpperCase(),
+    start,
+    end: (endProperty && parseIcsDate(endProperty.value, endProperty.params)) || undefined,
+    duration: first("DURATION")?.value.trim(),
+    rrule: first("RRULE")?.value.trim(),
+    exdates: all("EXDATE").flatMap((p) => parseDateList(p)),
+    rdates: all("RDATE").flatMap((p) => parseDateList(p)),
+    recurrenceId:
+      (recurrenceProperty &&
+        parseIcsDate(recurrenceProperty.value, recurrenceProperty.params)) ||
+      undefined,
+  };
+}
+
+function parseDateList(property: IcsProperty): IcsDateValue[] {
+  // RDATE;VALUE=PERIOD lists "start/end" pairs; only the start matters here
+  return splitList(property.value)
+    .map((value) => parseIcsDate(value.split("/")[0], property.params))
+    .filter((value): value is IcsDateValue => value !== null);
+}
+
+function parseProperty(line: string): IcsProperty | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ":" && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator === -1) {
+    return null;
+  }
+
+  const [name, ...rawParams] = splitOutsideQuotes(line.slice(0, separator), ";");
+  const params: Record<string, string> = {};
+  for (const rawParam of rawParams) {
+    const equals = rawParam.indexOf("=");
+    if (equals === -1) continue;
+    params[rawParam.slice(0, equals).toUpperCase()] = rawParam
+      .slice(equals + 1)
+      .replace(/^"|"$/g, "");
+  }
+
+  return {
+    name: name.trim().toUpperCase(),
+    params,
+    value: line.slice(separator + 1),
+  };
+}
+
+function splitOutsideQuotes(text: string, delimiter: string): string[] {
+  const parts: string[] = [];
+  let inQuotes = false;
+  let current = "";
+
+  for (const char of text) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    }
+    if (char === delimiter && !inQuotes) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+// Split a comma separated value, keeping escaped commas
+function splitList(value: string): string[] {
+  return value.split(/(?<!\\),/);
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+}
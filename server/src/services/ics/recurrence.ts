@@ -0,0 +1,250 @@
+import { RecurrenceFrequency, RecurrenceInput, RecurrenceRule } from "../../types/calendar";
+import { addDays, getDayOfWeek, toDayKey } from "../../utils/dayBoundary";
+import { parseIcsDate } from "./parser";
+
+const WEEKDAYS: Record<string, number> = {
+  SU: 0,
+  MO: 1,
+  TU: 2,
+  WE: 3,
+  TH: 4,
+  FR: 5,
+  SA: 6,
+};
+
+const FREQUENCIES: RecurrenceFrequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+
+// Hard stop for rules that never produce a date inside the window
+const MAX_PERIODS = 5000;
+
+/**
+ * Parse an RRULE value. Returns null for frequencies finer than a day or
+ * malformed rules; callers then import only the first occurrence.
+ */
+export function parseRecurrenceRule(value: string): RecurrenceRule | null {
+  const parts: Record<string, string> = {};
+  for (const part of value.split(";")) {
+    const [key, partValue] = part.split("=");
+    if (key && partValue !== undefined) {
+      parts[key.trim().toUpperCase()] = partValue.trim().toUpperCase();
+    }
+  }
+
+  const freq = parts.FREQ as RecurrenceFrequency;
+  if (!FREQUENCIES.includes(freq)) {
+    return null;
+  }
+
+  const byDay: RecurrenceRule["byDay"] = [];
+  for (const day of splitValues(parts.BYDAY)) {
+    const match = day.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+    if (!match) return null;
+    byDay.push({
+      weekday: WEEKDAYS[match[2]],
+      ordinal: match[1] ? Number(match[1]) : undefined,
+    });
+  }
+
+  const count = parts.COUNT ? Number(parts.COUNT) : undefined;
+  const interval = parts.INTERVAL ? Number(parts.INTERVAL) : 1;
+  if ((count !== undefined && !(count > 0)) || !(interval > 0)) {
+    return null;
+  }
+
+  return {
+    freq,
+    interval: Math.floor(interval),
+    count,
+    until: (parts.UNTIL && parseIcsDate(parts.UNTIL)) || undefined,
+    byDay,
+    byMonthDay: splitValues(parts.BYMONTHDAY).map(Number).filter((n) => n !== 0 && !isNaN(n)),
+    byMonth: splitValues(parts.BYMONTH).map(Number).filter((n) => n >= 1 && n <= 12),
+    weekStart: WEEKDAYS[parts.WKST] ?? WEEKDAYS.MO,
+  };
+}
+
+/**
+ * Build the RRULE value for a recurring event created in the app
+ */
+export function formatRecurrenceRule(input: RecurrenceInput): string {
+  const parts = [`FREQ=${input.frequency}`];
+  if (input.interval && input.interval > 1) {
+    parts.push(`INTERVAL=${input.interval}`);
+  }
+  if (input.days_of_week?.length) {
+    const codes = Object.keys(WEEKDAYS);
+    const days = [...new Set(input.days_of_week)].sort((a, b) => a - b);
+    parts.push(`BYDAY=${days.map((day) => codes[day]).join(",")}`);
+  }
+  if (input.until) {
+    parts.push(`UNTIL=${input.until.replace(/-/g, "")}`);
+  } else if (input.count) {
+    parts.push(`COUNT=${input.count}`);
+  }
+  return parts.join(";");
+}
+
+/**
+ * Dates ("YYYY-MM-DD", in the event's own zone) on which a recurring event
+ * starting on startDate occurs, up to windowEnd. COUNT is counted from the
+ * first occurrence, so occurrences before the caller's window still use it up.
+ */
+export function expandRecurrence(
+  startDate: string,
+  rule: RecurrenceRule,
+  windowEnd: string
+): string[] {
+  const lastDate =
+    rule.until && rule.until.date < windowEnd ? rule.until.date : windowEnd;
+  const limit = rule.count ?? Infinity;
+
+  // DTSTART is always the first occurrence, even when it does not match the rule
+  const dates: string[] = [startDate];
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    const { periodStart, candidates } = getPeriodCandidates(startDate, rule, period);
+    if (periodStart > lastDate) break;
+
+    for (const date of candidates) {
+      if (date <= startDate) continue;
+      if (date > lastDate || dates.length >= limit) {
+        return dates;
+      }
+      dates.push(date);
+    }
+  }
+
+  return dates;
+}
+
+/**
+ * First day and sorted candidate dates of the rule's n-th period (the day,
+ * week, month or year n intervals after the start)
+ */
+function getPeriodCandidates(
+  startDate: string,
+  rule: RecurrenceRule,
+  period: number
+): { periodStart: string; candidates: string[] } {
+  const [startYear, startMonth, startDay] = startDate.split("-").map(Number);
+  const step = period * rule.interval;
+  let periodStart: string;
+  let candidates: string[];
+
+  switch (rule.freq) {
+    case "DAILY": {
+      periodStart = addDays(startDate, step);
+      candidates = matchesDayFilters(periodStart, rule) ? [periodStart] : [];
+      break;
+    }
+    case "WEEKLY": {
+      const offset = (getDayOfWeek(startDate) - rule.weekStart + 7) % 7;
+      const weekStart = addDays(startDate, step * 7 - offset);
+      periodStart = weekStart;
+      const weekdays = rule.byDay.length
+        ? rule.byDay.map((day) => day.weekday)
+        : [getDayOfWeek(startDate)];
+      candidates = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i)).filter(
+        (date) => weekdays.includes(getDayOfWeek(date)) && matchesMonth(date, rule)
+      );
+      break;
+    }
+    case "MONTHLY": {
+      const monthIndex = startMonth - 1 + step;
+      const year = startYear + Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+      periodStart = formatDate(year, month, 1);
+      candidates = rule.byMonth.length && !rule.byMonth.includes(month)
+        ? []
+        : getMonthCandidates(year, month, startDay, rule);
+      break;
+    }
+    case "YEARLY": {
+      const year = startYear + step;
+      periodStart = formatDate(year, 1, 1);
+      const months = rule.byMonth.length ? rule.byMonth : [startMonth];
+      candidates = [...months]
+        .sort((a, b) => a - b)
+        .flatMap((month) => getMonthCandidates(year, month, startDay, rule));
+      break;
+    }
+  }
+
+  return { periodStart, candidates: [...new Set(candidates)].sort() };
+}
+
+function getMonthCandidates(
+  year: number,
+  month: number,
+  startDay: number,
+  rule: RecurrenceRule
+): string[] {
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const dateOf = (day: number) => formatDate(year, month, day);
+
+  let days: number[];
+  if (rule.byMonthDay.length) {
+    days = rule.byMonthDay
+      .map((day) => (day > 0 ? day : daysInMonth + day + 1))
+      .filter((day) => day >= 1 && day <= daysInMonth);
+  } else if (rule.byDay.length) {
+    days = [];
+    for (const { weekday, ordinal } of rule.byDay) {
+      const matching = Array.from({ length: daysInMonth }, (_, i) => i + 1).filter(
+        (day) => getDayOfWeek(dateOf(day)) === weekday
+      );
+      if (ordinal === undefined) {
+        days.push(...matching);
+      } else {
+        const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        if (day !== undefined) days.push(day);
+      }
+    }
+  } else {
+    // Months without the start's day (e.g. the 31st) are skipped, as RFC 5545 requires
+    days = startDay <= daysInMonth ? [startDay] : [];
+  }
+
+  const dates = days.map(dateOf);
+  // BYDAY narrows BYMONTHDAY when both are given
+  return rule.byMonthDay.length && rule.byDay.length
+    ? dates.filter((date) => rule.byDay.some((day) => day.weekday === getDayOfWeek(date)))
+    : dates;
+}
+
+function matchesDayFilters(date: string, rule: RecurrenceRule): boolean {
+  if (!matchesMonth(date, rule)) return false;
+
+  if (rule.byDay.length && !rule.byDay.some((day) => day.weekday === getDayOfWeek(date))) {
+    return false;
+  }
+
+  if (rule.byMonthDay.length) {
+    const key = toDayKey(date);
+    const day = key.getUTCDate();
+    const daysInMonth = new Date(
+      Date.UTC(key.getUTCFullYear(), key.getUTCMonth() + 1, 0)
+    ).getUTCDate();
+    return rule.byMonthDay.some((monthDay) =>
+      monthDay > 0 ? monthDay === day : daysInMonth + monthDay + 1 === day
+    );
+  }
+
+  return true;
+}
+
+function matchesMonth(date: string, rule: RecurrenceRule): boolean {
+  return !rule.byMonth.length || rule.byMonth.includes(Number(date.slice(5, 7)));
+}
+
+function splitValues(value?: string): string[] {
+  return value ? value.split(",").map((part) => part.trim()).filter(Boolean) : [];
+}
+
+function formatDate(year: number, month: number, day: number): string {
+  return `${String(year).padStart(4, "0")}-${pad(month)}-${pad(day)}`;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
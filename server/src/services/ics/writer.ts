@@ -0,0 +1,111 @@
+import { IcsExportEvent } from "../../types/calendar";
+import { addDays } from "../../utils/dayBoundary";
+
+const PRODUCT_ID = "-//Nutrition Tracker//Calendar Feed//EN";
+
+// RFC 5545 limits content lines to 75 octets, excluding the line break
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Serialize events as an iCalendar document. All-day events use DATE values
+ * and may recur; timed events are written in UTC so no VTIMEZONE definitions
+ * are needed.
+ */
+export function formatIcsCalendar(
+  calendarName: string,
+  timeZone: string,
+  events: IcsExportEvent[]
+): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+  ];
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatUtc(event.stamp)}`
+    );
+
+    if (event.date) {
+      lines.push(
+        `DTSTART;VALUE=DATE:${formatDate(event.date)}`,
+        `DTEND;VALUE=DATE:${formatDate(addDays(event.date, 1))}`
+      );
+      if (event.rrule) {
+        lines.push(`RRULE:${event.rrule}`);
+      }
+      if (event.exdates?.length) {
+        lines.push(`EXDATE;VALUE=DATE:${event.exdates.map(formatDate).join(",")}`);
+      }
+    } else if (event.start) {
+      lines.push(`DTSTART:${formatUtc(event.start)}`);
+      if (event.end) {
+        lines.push(`DTEND:${formatUtc(event.end)}`);
+      }
+    }
+
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.categories?.length) {
+      lines.push(`CATEGORIES:${event.categories.map(escapeText).join(",")}`);
+    }
+    lines.push("TRANSP:TRANSPARENT", "END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+function formatDate(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+function formatUtc(instant: Date): string {
+  return instant.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Fold on character boundaries so multi-byte (e.g. Hebrew) text stays valid UTF-8
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
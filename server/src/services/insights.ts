@@ -0,0 +1,811 @@
+import { prisma } from "../lib/database";
+import { ActivityMergeService } from "./activityMerge";
+import { NutritionGoals } from "./statistics";
+import { DailyGoalTargets, EnhancedDailyGoalsService } from "./database/dailyGoals";
+import {
+  InsightPriority,
+  InsightsReport,
+  NutritionInsight,
+} from "../types/statistics";
+import { EffectiveDailyActivity } from "../types/devices";
+import {
+  addDays,
+  fromDayKey,
+  getDayOfWeek,
+  getDayRange,
+  getLocalDate,
+  getLocalHour,
+  getUserTimeZone,
+  listDates,
+  toDayKey,
+} from "../utils/dayBoundary";
+
+interface DaySnapshot {
+  date: string;
+  weekday: number;
+  meals: InsightMeal[];
+  totals: {
+    calories: number;
+    protein_g: number;
+    carbs_g: number;
+    fats_g: number;
+    fiber_g: number;
+    sugar_g: number;
+    sodium_mg: number;
+  };
+  goal: NutritionGoals;
+  water_ml: number | null;
+  activity: {
+    steps: number;
+    calories_out: number;
+  } | null;
+}
+
+interface InsightMeal {
+  created_at: Date;
+  // Hour of day in the user's timezone
+  local_hour: number;
+  meal_period: string | null;
+  calories: number | null;
+  protein_g: number | null;
+  carbs_g: number | null;
+  fats_g: number | null;
+  fiber_g: number | null;
+  sugar_g: number | null;
+  sodium_mg: number | null;
+}
+
+type InsightRule = (days: DaySnapshot[], window: number) => NutritionInsight | null;
+
+const PRIORITY_WEIGHT: Record<InsightPriority, number> = {
+  high: 300,
+  medium: 200,
+  low: 100,
+};
+
+// Minimum number of logged days before a rule is allowed to draw conclusions
+const MIN_LOGGED_DAYS = 3;
+
+export class InsightsService {
+  /**
+   * Evaluate the user's recent history and return ranked, evidence-backed insights
+   */
+  static async generateInsights(
+    userId: string,
+    fallbackGoals: NutritionGoals,
+    windowDays: number = 7
+  ): Promise<InsightsReport> {
+    console.log(`💡 Generating insights for user: ${userId}, window: ${windowDays} days`);
+
+    // The window is the last windowDays local days, today included
+    const timeZone = await getUserTimeZone(userId);
+    const endDate = getLocalDate(timeZone);
+    const startDate = addDays(endDate, -(windowDays - 1));
+    const range = getDayRange(startDate, timeZone, endDate);
+    const dayKeys = { gte: toDayKey(startDate), lte: toDayKey(endDate) };
+
+    const [meals, dailyGoals, waterIntakes, activities] =
+      await Promise.all([
+        prisma.meal.findMany({
+          where: {
+            user_id: userId,
+            created_at: { gte: range.start, lt: range.end },
+          },
+          select: {
+            created_at: true,
+            meal_period: true,
+            calories: true,
+            protein_g: true,
+            carbs_g: true,
+            fats_g: true,
+            fiber_g: true,
+            sugar_g: true,
+            sodium_mg: true,
+          },
+          orderBy: { created_at: "asc" },
+        }),
+        EnhancedDailyGoalsService.getGoalsForRange(userId, startDate, endDate),
+        prisma.waterIntake.findMany({
+          where: { user_id: userId, date: dayKeys },
+          select: { date: true, milliliters_consumed: true },
+        }),
+        ActivityMergeService.getEffectiveActivityForRange(userId, startDate, endDate),
+      ]);
+
+    const days = this.buildDaySnapshots(
+      listDates(startDate, endDate),
+      timeZone,
+      meals,
+      dailyGoals,
+      waterIntakes,
+      activities,
+      fallbackGoals
+    );
+
+    const rules: InsightRule[] = [
+      (d, w) => this.loggingConsistencyRule(d, w),
+      (d) =>
+        this.limitExceededRule(d, {
+          id: "sodium_over_goal",
+          nutrient: "sodium_mg",
+          label: "Sodium",
+          unit: "mg",
+          advice: "Swap processed and restaurant foods for home-cooked options.",
+        }),
+      (d) =>
+        this.limitExceededRule(d, {
+          id: "sugar_over_goal",
+          nutrient: "sugar_g",
+          label: "Sugar",
+          unit: "g",
+          advice: "Watch sweetened drinks, desserts and flavored yogurts.",
+        }),
+      (d) =>
+        this.targetMissedRule(d, {
+          id: "protein_goal",
+          nutrient: "protein_g",
+          label: "Protein",
+          unit: "g",
+          advice: "Add a protein source such as eggs, legumes, fish or dairy to each meal.",
+        }),
+      (d) =>
+        this.targetMissedRule(d, {
+          id: "fiber_goal",
+          nutrient: "fiber_g",
+          label: "Fiber",
+          unit: "g",
+          advice: "Include more vegetables, whole grains and legumes.",
+        }),
+      (d) => this.calorieBalanceRule(d),
+      (d) => this.hydrationRule(d),
+      (d) => this.lateNightEatingRule(d),
+      (d) => this.breakfastRule(d),
+      (d) => this.weekendPatternRule(d),
+      (d) => this.activityRule(d),
+    ];
+
+    const insights = rules
+      .map((rule) => {
+        try {
+          return rule(days, windowDays);
+        } catch (error) {
+          console.error("⚠️ Insight rule failed:", error);
+          return null;
+        }
+      })
+      .filter((insight): insight is NutritionInsight => insight !== null)
+      .sort((a, b) => b.score - a.score);
+
+    const daysLogged = days.filter((day) => day.meals.length > 0).length;
+
+    console.log(`✅ Generated ${insights.length} insights for user: ${userId}`);
+
+    return {
+      period: {
+        start_date: days[0]?.date,
+        end_date: days[days.length - 1]?.date,
+        days: windowDays,
+      },
+      days_logged: daysLogged,
+      insights,
+      // Legacy shape consumed by the statistics screen
+      mainInsights: insights
+        .filter((insight) => insight.type !== "recommendation")
+        .map((insight) => ({
+          type: insight.id,
+          message: insight.message,
+          category: insight.category,
+        })),
+      recommendations: insights
+        .filter((insight) => insight.type !== "achievement")
+        .map((insight) => ({
+          type: insight.id,
+          message: insight.message,
+          priority: insight.priority,
+        })),
+    };
+  }
+
+  private static buildDaySnapshots(
+    dates: string[],
+    timeZone: string,
+    meals: Omit<InsightMeal, "local_hour">[],
+    dailyGoals: DailyGoalTargets[],
+    waterIntakes: { date: Date; milliliters_consumed: number }[],
+    activities: Map<string, EffectiveDailyActivity>,
+    fallbackGoals: NutritionGoals
+  ): DaySnapshot[] {
+    const days: DaySnapshot[] = [];
+
+    for (const key of dates) {
+      const dayMeals = meals
+        .filter((meal) => getLocalDate(timeZone, meal.created_at) === key)
+        .map((meal) => ({ ...meal, local_hour: getLocalHour(timeZone, meal.created_at) }));
+      const goal = dailyGoals.find((g) => g.date === key);
+      const water = waterIntakes.filter((w) => fromDayKey(w.date) === key);
+      const activity = activities.get(key);
+
+      days.push({
+        date: key,
+        weekday: getDayOfWeek(key),
+        meals: dayMeals,
+        totals: dayMeals.reduce(
+          (acc, meal) => ({
+            calories: acc.calories + (meal.calories || 0),
+            protein_g: acc.protein_g + (meal.protein_g || 0),
+            carbs_g: acc.carbs_g + (meal.carbs_g || 0),
+            fats_g: acc.fats_g + (meal.fats_g || 0),
+            fiber_g: acc.fiber_g + (meal.fiber_g || 0),
+            sugar_g: acc.sugar_g + (meal.sugar_g || 0),
+            sodium_mg: acc.sodium_mg + (meal.sodium_mg || 0),
+          }),
+          {
+            calories: 0,
+            protein_g: 0,
+            carbs_g: 0,
+            fats_g: 0,
+            fiber_g: 0,
+            sugar_g: 0,
+            sodium_mg: 0,
+          }
+        ),
+        goal: goal
+          ? {
+              calories: Number(goal.calories),
+              protein_g: Number(goal.protein_g),
+              carbs_g: Number(goal.carbs_g),
+              fats_g: Number(goal.fats_g),
+              fiber_g: Number(goal.fiber_g),
+              sodium_mg: Number(goal.sodium_mg),
+              sugar_g: Number(goal.sugar_g),
+              water_ml: Number(goal.water_ml),
+            }
+          : fallbackGoals,
+        water_ml: water.length
+          ? water.reduce((sum, w) => sum + (w.milliliters_consumed || 0), 0)
+          : null,
+        // Merged across devices the same way as the daily balance, so BMR
+        // comes from the device that supplied calories burned
+        activity: activity
+          ? {
+              steps: activity.metrics.steps?.value || 0,
+              calories_out:
+                (activity.metrics.calories_burned?.value || 0) +
+                (activity.metrics.bmr_estimate?.value || 0),
+            }
+          : null,
+      });
+    }
+
+    return days;
+  }
+
+  private static buildInsight(
+    insight: Omit<NutritionInsight, "score">,
+    magnitude: number
+  ): NutritionInsight {
+    // Priority dominates ranking; magnitude (0-1) breaks ties within a priority
+    const clamped = Math.max(0, Math.min(1, magnitude));
+    return {
+      ...insight,
+      score: PRIORITY_WEIGHT[insight.priority] + Math.round(clamped * 99),
+    };
+  }
+
+  private static loggedDays(days: DaySnapshot[]) {
+    return days.filter((day) => day.meals.length > 0);
+  }
+
+  private static resolveMealPeriod(meal: InsightMeal): string {
+    if (meal.meal_period && meal.meal_period !== "other") {
+      return meal.meal_period;
+    }
+
+    const hour = meal.local_hour;
+    if (hour >= 5 && hour < 12) return "breakfast";
+    if (hour >= 12 && hour < 18) return "lunch";
+    if (hour >= 18 && hour < 22) return "dinner";
+    return "late_night";
+  }
+
+  /**
+   * Which meal period contributed the largest share of a nutrient on the given days
+   */
+  private static topContributor(
+    days: DaySnapshot[],
+    nutrient: keyof DaySnapshot["totals"]
+  ): { period: string; share: number } | null {
+    const byPeriod = new Map<string, number>();
+    let total = 0;
+
+    days.forEach((day) =>
+      day.meals.forEach((meal) => {
+        const value = Number(meal[nutrient as keyof InsightMeal]) || 0;
+        const period = this.resolveMealPeriod(meal);
+        byPeriod.set(period, (byPeriod.get(period) || 0) + value);
+        total += value;
+      })
+    );
+
+    if (total <= 0) {
+      return null;
+    }
+
+    const [period, amount] = Array.from(byPeriod.entries()).sort(
+      (a, b) => b[1] - a[1]
+    )[0];
+    return { period, share: amount / total };
+  }
+
+  private static loggingConsistencyRule(
+    days: DaySnapshot[],
+    windowDays: number
+  ): NutritionInsight | null {
+    const logged = this.loggedDays(days).length;
+    const ratio = logged / windowDays;
+
+    if (ratio >= 0.85) {
+      return this.buildInsight(
+        {
+          id: "logging_consistency",
+          category: "habits",
+          type: "achievement",
+          priority: "low",
+          title: "Consistent logging",
+          message: `You logged meals on ${logged} of the last ${windowDays} days. Consistent tracking makes every other insight more accurate.`,
+          evidence: { days_logged: logged, window_days: windowDays },
+        },
+        ratio
+      );
+    }
+
+    if (ratio < 0.5) {
+      return this.buildInsight(
+        {
+          id: "logging_gaps",
+          category: "habits",
+          type: "recommendation",
+          priority: logged < MIN_LOGGED_DAYS ? "high" : "medium",
+          title: "Logging gaps",
+          message: `Meals were logged on only ${logged} of the last ${windowDays} days. Try logging at least one meal every day so trends can be detected.`,
+          evidence: { days_logged: logged, window_days: windowDays },
+        },
+        1 - ratio
+      );
+    }
+
+    return null;
+  }
+
+  /**
+   * Nutrients with an upper limit (sodium, sugar): flag repeated exceedances
+   */
+  private static limitExceededRule(
+    days: DaySnapshot[],
+    config: {
+      id: string;
+      nutrient: "sodium_mg" | "sugar_g";
+      label: string;
+      unit: string;
+      advice: string;
+    }
+  ): NutritionInsight | null {
+    const logged = this.loggedDays(days);
+    if (logged.length < MIN_LOGGED_DAYS) {
+      return null;
+    }
+
+    const exceeded = logged.filter(
+      (day) => day.goal[config.nutrient] > 0 && day.totals[config.nutrient] > day.goal[config.nutrient]
+    );
+    if (exceeded.length < 2) {
+      return null;
+    }
+
+    const ratio = exceeded.length / logged.length;
+    const average =
+      exceeded.reduce((sum, day) => sum + day.totals[config.nutrient], 0) /
+      exceeded.length;
+    const goal = exceeded[0].goal[config.nutrient];
+    const contributor = this.topContributor(exceeded, config.nutrient);
+
+    const source =
+      contributor && contributor.share >= 0.4
+        ? `, mostly from ${contributor.period.replace("_", " ")} (${Math.round(contributor.share * 100)}%)`
+        : "";
+
+    return this.buildInsight(
+      {
+        id: config.id,
+        category: "nutrition",
+        type: "warning",
+        priority: ratio >= 0.5 ? "high" : "medium",
+        title: `${config.label} above goal`,
+        message: `${config.label} exceeded your goal on ${exceeded.length} of the last ${logged.length} logged days${source}. ${config.advice}`,
+        evidence: {
+          days_exceeded: exceeded.length,
+          days_logged: logged.length,
+          average_on_exceeded_days: Math.round(average),
+          daily_goal: Math.round(goal),
+          unit: config.unit,
+          top_meal_period: contributor?.period ?? null,
+          top_meal_period_share: contributor
+            ? Math.round(contributor.share * 100)
+            : null,
+        },
+      },
+      ratio
+    );
+  }
+
+  /**
+   * Nutrients with a minimum target (protein, fiber): reward or nudge
+   */
+  private static targetMissedRule(
+    days: DaySnapshot[],
+    config: {
+      id: string;
+      nutrient: "protein_g" | "fiber_g";
+      label: string;
+      unit: string;
+      advice: string;
+    }
+  ): NutritionInsight | null {
+    const logged = this.loggedDays(days);
+    if (logged.length < MIN_LOGGED_DAYS) {
+      return null;
+    }
+
+    const met = logged.filter(
+      (day) => day.totals[config.nutrient] >= day.goal[config.nutrient] * 0.9
+    );
+    const average =
+      logged.reduce((sum, day) => sum + day.totals[config.nutrient], 0) /
+      logged.length;
+    const averageGoal =
+      logged.reduce((sum, day) => sum + day.goal[config.nutrient], 0) /
+      logged.length;
+    const ratio = met.length / logged.length;
+
+    const evidence = {
+      days_met: met.length,
+      days_logged: logged.length,
+      daily_average: Math.round(average),
+      daily_goal: Math.round(averageGoal),
+      unit: config.unit,
+    };
+
+    if (ratio >= 0.8) {
+      return this.buildInsight(
+        {
+          id: `${config.id}_met`,
+          category: "nutrition",
+          type: "achievement",
+          priority: "low",
+          title: `${config.label} on target`,
+          message: `You reached your ${config.label.toLowerCase()} goal on ${met.length} of ${logged.length} logged days (average ${Math.round(average)}${config.unit} vs ${Math.round(averageGoal)}${config.unit}).`,
+          evidence,
+        },
+        ratio
+      );
+    }
+
+    if (ratio <= 0.5) {
+      const shortfall = averageGoal > 0 ? 1 - average / averageGoal : 0;
+      return this.buildInsight(
+        {
+          id: `${config.id}_missed`,
+          category: "nutrition",
+          type: "recommendation",
+          priority: shortfall >= 0.3 ? "high" : "medium",
+          title: `Low ${config.label.toLowerCase()}`,
+          message: `${config.label} averaged ${Math.round(average)}${config.unit} against a ${Math.round(averageGoal)}${config.unit} goal and was met on only ${met.length} of ${logged.length} logged days. ${config.advice}`,
+          evidence,
+        },
+        shortfall
+      );
+    }
+
+    return null;
+  }
+
+  private static calorieBalanceRule(days: DaySnapshot[]): NutritionInsight | null {
+    const logged = this.loggedDays(days);
+    if (logged.length < MIN_LOGGED_DAYS) {
+      return null;
+    }
+
+    const average =
+      logged.reduce((sum, day) => sum + day.totals.calories, 0) / logged.length;
+    const averageGoal =
+      logged.reduce((sum, day) => sum + day.goal.calories, 0) / logged.length;
+    if (averageGoal <= 0) {
+      return null;
+    }
+
+    const ratio = average / averageGoal;
+    const evidence = {
+      daily_average: Math.round(average),
+      daily_goal: Math.round(averageGoal),
+      percent_of_goal: Math.round(ratio * 100),
+      days_logged: logged.length,
+    };
+
+    if (ratio > 1.15) {
+      return this.buildInsight(
+        {
+          id: "calorie_surplus",
+          category: "nutrition",
+          type: "warning",
+          priority: ratio > 1.3 ? "high" : "medium",
+          title: "Calories above goal",
+          message: `Your intake averaged ${Math.round(average)} kcal, ${Math.round((ratio - 1) * 100)}% above your ${Math.round(averageGoal)} kcal goal.`,
+          evidence,
+        },
+        ratio - 1
+      );
+    }
+
+    if (ratio < 0.75) {
+      return this.buildInsight(
+        {
+          id: "calorie_deficit",
+          category: "nutrition",
+          type: "warning",
+          priority: ratio < 0.6 ? "high" : "medium",
+          title: "Calories well below goal",
+          message: `Your logged intake averaged ${Math.round(average)} kcal, only ${Math.round(ratio * 100)}% of your ${Math.round(averageGoal)} kcal goal. Make sure all meals are logged and you are eating enough.`,
+          evidence,
+        },
+        1 - ratio
+      );
+    }
+
+    if (ratio >= 0.9 && ratio <= 1.1) {
+      return this.buildInsight(
+        {
+          id: "calorie_on_target",
+          category: "nutrition",
+          type: "achievement",
+          priority: "low",
+          title: "Calories on target",
+          message: `Your intake averaged ${Math.round(average)} kcal, within 10% of your ${Math.round(averageGoal)} kcal goal.`,
+          evidence,
+        },
+        1 - Math.abs(1 - ratio)
+      );
+    }
+
+    return null;
+  }
+
+  private static hydrationRule(days: DaySnapshot[]): NutritionInsight | null {
+    const tracked = days.filter((day) => day.water_ml !== null);
+    if (tracked.length < MIN_LOGGED_DAYS) {
+      return null;
+    }
+
+    const met = tracked.filter(
+      (day) => (day.water_ml || 0) >= day.goal.water_ml * 0.9
+    );
+    const average =
+      tracked.reduce((sum, day) => sum + (day.water_ml || 0), 0) / tracked.length;
+    const averageGoal =
+      tracked.reduce((sum, day) => sum + day.goal.water_ml, 0) / tracked.length;
+    const ratio = met.length / tracked.length;
+    const evidence = {
+      days_met: met.length,
+      days_tracked: tracked.length,
+      daily_average_ml: Math.round(average),
+      daily_goal_ml: Math.round(averageGoal),
+    };
+
+    if (ratio >= 0.8) {
+      return this.buildInsight(
+        {
+          id: "hydration_on_track",
+          category: "hydration",
+          type: "achievement",
+          priority: "low",
+          title: "Well hydrated",
+          message: `You reached your water goal on ${met.length} of ${tracked.length} tracked days.`,
+          evidence,
+        },
+        ratio
+      );
+    }
+
+    if (ratio <= 0.5) {
+      return this.buildInsight(
+        {
+          id: "hydration_low",
+          category: "hydration",
+          type: "recommendation",
+          priority: average < averageGoal * 0.6 ? "high" : "medium",
+          title: "Drink more water",
+          message: `Water intake averaged ${Math.round(average)}ml against a ${Math.round(averageGoal)}ml goal, reached on only ${met.length} of ${tracked.length} tracked days.`,
+          evidence,
+        },
+        1 - ratio
+      );
+    }
+
+    return null;
+  }
+
+  private static lateNightEatingRule(days: DaySnapshot[]): NutritionInsight | null {
+    const logged = this.loggedDays(days);
+    if (logged.length < MIN_LOGGED_DAYS) {
+      return null;
+    }
+
+    let totalCalories = 0;
+    let lateCalories = 0;
+    const lateDays = new Set<string>();
+
+    logged.forEach((day) =>
+      day.meals.forEach((meal) => {
+        totalCalories += meal.calories || 0;
+        if (this.resolveMealPeriod(meal) === "late_night") {
+          lateCalories += meal.calories || 0;
+          lateDays.add(day.date);
+        }
+      })
+    );
+
+    const share = totalCalories > 0 ? lateCalories / totalCalories : 0;
+    if (share < 0.2 || lateDays.size < 2) {
+      return null;
+    }
+
+    return this.buildInsight(
+      {
+        id: "late_night_eating",
+        category: "habits",
+        type: "recommendation",
+        priority: share >= 0.3 ? "medium" : "low",
+        title: "Late-night eating",
+        message: `${Math.round(share * 100)}% of your calories came from late-night meals on ${lateDays.size} days. Moving these calories earlier can improve sleep and appetite control.`,
+        evidence: {
+          late_night_calorie_share: Math.round(share * 100),
+          late_night_days: lateDays.size,
+          days_logged: logged.length,
+        },
+      },
+      share
+    );
+  }
+
+  private static breakfastRule(days: DaySnapshot[]): NutritionInsight | null {
+    const logged = this.loggedDays(days);
+    if (logged.length < MIN_LOGGED_DAYS) {
+      return null;
+    }
+
+    const skipped = logged.filter(
+      (day) => !day.meals.some((meal) => this.resolveMealPeriod(meal) === "breakfast")
+    );
+    const ratio = skipped.length / logged.length;
+
+    if (ratio < 0.5) {
+      return null;
+    }
+
+    return this.buildInsight(
+      {
+        id: "breakfast_skipped",
+        category: "habits",
+        type: "recommendation",
+        priority: "low",
+        title: "Frequently skipped breakfast",
+        message: `No breakfast was logged on ${skipped.length} of ${logged.length} logged days. If it fits your routine, a protein-rich breakfast can reduce evening overeating.`,
+        evidence: {
+          days_without_breakfast: skipped.length,
+          days_logged: logged.length,
+        },
+      },
+      ratio
+    );
+  }
+
+  private static weekendPatternRule(days: DaySnapshot[]): NutritionInsight | null {
+    const logged = this.loggedDays(days);
+    // Friday and Saturday form the weekend for most of our users
+    const isWeekend = (day: DaySnapshot) => day.weekday === 5 || day.weekday === 6;
+    const weekend = logged.filter(isWeekend);
+    const weekdays = logged.filter((day) => !isWeekend(day));
+
+    if (weekend.length < 2 || weekdays.length < MIN_LOGGED_DAYS) {
+      return null;
+    }
+
+    const average = (list: DaySnapshot[]) =>
+      list.reduce((sum, day) => sum + day.totals.calories, 0) / list.length;
+    const weekendAverage = average(weekend);
+    const weekdayAverage = average(weekdays);
+
+    if (weekdayAverage <= 0 || weekendAverage / weekdayAverage < 1.2) {
+      return null;
+    }
+
+    const increase = weekendAverage / weekdayAverage - 1;
+    return this.buildInsight(
+      {
+        id: "weekend_overeating",
+        category: "habits",
+        type: "warning",
+        priority: increase >= 0.35 ? "medium" : "low",
+        title: "Weekend calorie spike",
+        message: `You eat about ${Math.round(increase * 100)}% more on weekends (${Math.round(weekendAverage)} kcal) than on weekdays (${Math.round(weekdayAverage)} kcal).`,
+        evidence: {
+          weekend_average: Math.round(weekendAverage),
+          weekday_average: Math.round(weekdayAverage),
+          weekend_days: weekend.length,
+          weekdays: weekdays.length,
+        },
+      },
+      increase
+    );
+  }
+
+  private static activityRule(days: DaySnapshot[]): NutritionInsight | null {
+    const active = days.filter((day) => day.activity !== null);
+    if (active.length < MIN_LOGGED_DAYS) {
+      return null;
+    }
+
+    const averageSteps =
+      active.reduce((sum, day) => sum + (day.activity?.steps || 0), 0) /
+      active.length;
+
+    // Net balance only makes sense on days that have both intake and expenditure
+    const balanced = active.filter(
+      (day) => day.meals.length > 0 && (day.activity?.calories_out || 0) > 0
+    );
+    const averageBalance = balanced.length
+      ? balanced.reduce(
+          (sum, day) => sum + day.totals.calories - (day.activity?.calories_out || 0),
+          0
+        ) / balanced.length
+      : null;
+
+    const evidence = {
+      days_with_activity: active.length,
+      average_steps: Math.round(averageSteps),
+      average_net_balance_kcal:
+        averageBalance !== null ? Math.round(averageBalance) : null,
+    };
+
+    if (averageSteps >= 10000) {
+      return this.buildInsight(
+        {
+          id: "activity_high",
+          category: "activity",
+          type: "achievement",
+          priority: "low",
+          title: "Very active",
+          message: `You averaged ${Math.round(averageSteps)} steps a day across ${active.length} days.`,
+          evidence,
+        },
+        Math.min(1, averageSteps / 15000)
+      );
+    }
+
+    if (averageSteps < 5000) {
+      return this.buildInsight(
+        {
+          id: "activity_low",
+          category: "activity",
+          type: "recommendation",
+          priority: "medium",
+          title: "Low daily activity",
+          message: `You averaged ${Math.round(averageSteps)} steps a day. A short daily walk towards 7,000 steps supports your nutrition goals.`,
+          evidence,
+        },
+        1 - averageSteps / 5000
+      );
+    }
+
+    return null;
+  }
+}
@@ -1,6 +1,8 @@
+import { MealTiming } from "@prisma/client";
 import { prisma } from "../lib/database";
 import { UserMealPlanConfig, WeeklyMealPlan, MealPlanTemplate } from "../types/mealPlans";
 import { OpenAIService } from "./openai";
+import { EnhancedDailyGoalsService } from "./database/dailyGoals";
 
 export class MealPlanService {
   /**
@@ -695,6 +697,56 @@ Ensure meals are varied, nutritionally balanced, and respect all dietary restric
     }
   }
 
+  /**
+   * Put an existing template into a plan slot, replacing what is scheduled there.
+   * Resolves to null when the plan isn't the user's.
+   */
+  static async scheduleTemplate(
+    userId: string,
+    planId: string,
+    slot: {
+      day_of_week: number;
+      meal_timing: MealTiming;
+      meal_order: number;
+      portion_multiplier: number;
+    },
+    templateId: string
+  ): Promise<any> {
+    const plan = await prisma.userMealPlan.findFirst({
+      where: { plan_id: planId, user_id: userId }
+    });
+
+    if (!plan) {
+      return null;
+    }
+
+    console.log("📅 Scheduling template in plan:", { planId, templateId, ...slot });
+
+    return prisma.mealPlanSchedule.upsert({
+      where: {
+        plan_id_day_of_week_meal_timing_meal_order: {
+          plan_id: planId,
+          day_of_week: slot.day_of_week,
+          meal_timing: slot.meal_timing,
+          meal_order: slot.meal_order
+        }
+      },
+      create: {
+        plan_id: planId,
+        template_id: templateId,
+        ...slot,
+        is_optional: false
+      },
+      update: {
+        template_id: templateId,
+        portion_multiplier: slot.portion_multiplier
+      },
+      include: {
+        template: true
+      }
+    });
+  }
+
   /**
    * Generate replacement meal
    */
@@ -863,6 +915,9 @@ Ensure meals are varied, nutritionally balanced, and respect all dietary restric
         }
       });
 
+      // The plan's daily targets become the user's goals from today
+      await EnhancedDailyGoalsService.applyMealPlanGoals(userId, activatedPlan);
+
       console.log("✅ Meal plan activated successfully");
       return activatedPlan;
 
@@ -0,0 +1,173 @@
+import {
+  MicronutrientAmounts,
+  MicronutrientKey,
+  MicronutrientUnit,
+} from "../../types/micronutrients";
+import { MICRONUTRIENTS } from "./referenceTables";
+
+type SourceUnit = MicronutrientUnit | "g" | "iu";
+
+const UNIT_ALIASES: Record<string, SourceUnit> = {
+  g: "g",
+  mg: "mg",
+  mcg: "mcg",
+  ug: "mcg",
+  "µg": "mcg",
+  "μg": "mcg",
+  iu: "iu",
+};
+
+// Factor from each unit to the canonical mg/mcg
+const UNIT_FACTORS: Record<MicronutrientUnit, Record<Exclude<SourceUnit, "iu">, number>> = {
+  mg: { g: 1000, mg: 1, mcg: 0.001 },
+  mcg: { g: 1000000, mg: 1000, mcg: 1 },
+};
+
+const UNIT_SUFFIX = /_(g|mg|mcg|ug|µg|μg|iu)$/;
+const AMOUNT_PATTERN = /(\d+(?:[.,]\d+)?)\s*(g|mg|mcg|ug|µg|μg|iu)?\b/i;
+
+const ALIAS_INDEX = new Map<string, MicronutrientKey>(
+  (Object.keys(MICRONUTRIENTS) as MicronutrientKey[]).flatMap((key) =>
+    MICRONUTRIENTS[key].aliases.map((alias) => [alias, key] as [string, MicronutrientKey])
+  )
+);
+
+interface Measurement {
+  amount: number;
+  unit: SourceUnit | null;
+}
+
+/**
+ * "vitaminB12", "Vitamin B-12 (mcg)" and "ויטמין B12" all become
+ * "vitamin_b12"; a trailing unit is split off and returned separately.
+ */
+function normalizeKey(raw: string): { key: string; unit: SourceUnit | null } {
+  let key = raw
+    .replace(/([a-z])([A-Z])/g, "$1_$2")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "_")
+    .replace(/^_+|_+$/g, "")
+    .replace(/^ויטמין_?/, "vitamin_")
+    .replace(/^vitamin_?(?=\p{L})/u, "vitamin_")
+    .replace(/^(vitamin_[a-z])_(\d)/, "$1$2");
+
+  const suffix = key.match(UNIT_SUFFIX);
+  if (suffix && ALIAS_INDEX.has(key.slice(0, -suffix[0].length))) {
+    key = key.slice(0, -suffix[0].length);
+    return { key, unit: UNIT_ALIASES[suffix[1]] };
+  }
+
+  return { key, unit: null };
+}
+
+function parseMeasurement(value: unknown): Measurement | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value >= 0 ? { amount: value, unit: null } : null;
+  }
+
+  if (typeof value === "string") {
+    // Percentages of a daily value can't be turned into an amount
+    if (value.includes("%")) return null;
+    const match = value.match(AMOUNT_PATTERN);
+    if (!match) return null;
+    return {
+      amount: parseFloat(match[1].replace(",", ".")),
+      unit: match[2] ? UNIT_ALIASES[match[2].toLowerCase()] ?? null : null,
+    };
+  }
+
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    const amount = record.amount ?? record.value ?? record.quantity;
+    const measurement = parseMeasurement(amount);
+    if (!measurement) return null;
+    const unit =
+      typeof record.unit === "string" ? UNIT_ALIASES[record.unit.toLowerCase()] : undefined;
+    return { amount: measurement.amount, unit: unit ?? measurement.unit };
+  }
+
+  return null;
+}
+
+function toCanonicalUnit(
+  nutrient: MicronutrientKey,
+  { amount, unit }: Measurement
+): number | null {
+  const definition = MICRONUTRIENTS[nutrient];
+
+  if (!unit) return amount;
+  if (unit === "iu") {
+    return definition.per_iu !== undefined ? amount * definition.per_iu : null;
+  }
+  return amount * UNIT_FACTORS[definition.unit][unit];
+}
+
+function parseJSONField(field: unknown): Record<string, unknown> | null {
+  let parsed = field;
+  if (typeof field === "string") {
+    try {
+      parsed = JSON.parse(field);
+    } catch {
+      return null;
+    }
+  }
+  return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+    ? (parsed as Record<string, unknown>)
+    : null;
+}
+
+function collect(
+  record: Record<string, unknown>,
+  amounts: MicronutrientAmounts,
+  depth: number
+) {
+  for (const [rawKey, value] of Object.entries(record)) {
+    const { key, unit } = normalizeKey(rawKey);
+    const nutrient = ALIAS_INDEX.get(key);
+
+    if (!nutrient) {
+      // Grouped entries such as { minerals: { iron: ... } }
+      const nested = parseJSONField(value);
+      if (nested && depth < 2) collect(nested, amounts, depth + 1);
+      continue;
+    }
+
+    const measurement = parseMeasurement(value);
+    if (!measurement) continue;
+
+    const amount = toCanonicalUnit(nutrient, {
+      amount: measurement.amount,
+      unit: measurement.unit ?? unit,
+    });
+    if (amount === null) continue;
+
+    // The same nutrient listed twice for one meal is a duplicate, not a second serving
+    amounts[nutrient] = Math.max(amounts[nutrient] ?? 0, amount);
+  }
+}
+
+/**
+ * Micronutrient amounts of one meal in canonical units, read from its
+ * vitamins_json and micronutrients_json fields whatever key names and units
+ * the analysis or scanner used. Unknown nutrients are skipped.
+ */
+export function extractMicronutrients(...fields: unknown[]): MicronutrientAmounts {
+  const amounts: MicronutrientAmounts = {};
+
+  for (const field of fields) {
+    const record = parseJSONField(field);
+    if (record) collect(record, amounts, 0);
+  }
+
+  return amounts;
+}
+
+export function addMicronutrients(
+  total: MicronutrientAmounts,
+  amounts: MicronutrientAmounts
+): MicronutrientAmounts {
+  for (const [nutrient, amount] of Object.entries(amounts) as [MicronutrientKey, number][]) {
+    total[nutrient] = (total[nutrient] ?? 0) + amount;
+  }
+  return total;
+}
@@ -0,0 +1,224 @@
+import { MicronutrientKey, MicronutrientUnit } from "../../types/micronutrients";
+
+export interface MicronutrientDefinition {
+  label: string;
+  unit: MicronutrientUnit;
+  // Key names used by AI analysis and scanners, after normalisation and
+  // with the unit suffix removed
+  aliases: string[];
+  // Canonical units per IU, for nutrients labels still give in IU
+  per_iu?: number;
+}
+
+export const MICRONUTRIENTS: Record<MicronutrientKey, MicronutrientDefinition> = {
+  calcium: { label: "Calcium", unit: "mg", aliases: ["calcium", "ca", "סידן"] },
+  iron: { label: "Iron", unit: "mg", aliases: ["iron", "fe", "ברזל"] },
+  potassium: { label: "Potassium", unit: "mg", aliases: ["potassium", "k", "אשלגן"] },
+  magnesium: { label: "Magnesium", unit: "mg", aliases: ["magnesium", "מגנזיום"] },
+  zinc: { label: "Zinc", unit: "mg", aliases: ["zinc", "zn", "אבץ"] },
+  selenium: { label: "Selenium", unit: "mcg", aliases: ["selenium", "se", "סלניום"] },
+  vitamin_a: {
+    label: "Vitamin A",
+    unit: "mcg",
+    aliases: ["vitamin_a", "vitamin_a_rae", "retinol"],
+    // As retinol
+    per_iu: 0.3,
+  },
+  vitamin_c: {
+    label: "Vitamin C",
+    unit: "mg",
+    aliases: ["vitamin_c", "ascorbic_acid"],
+  },
+  vitamin_d: {
+    label: "Vitamin D",
+    unit: "mcg",
+    aliases: ["vitamin_d", "vitamin_d3", "vitamin_d2", "cholecalciferol"],
+    per_iu: 0.025,
+  },
+  vitamin_e: {
+    label: "Vitamin E",
+    unit: "mg",
+    aliases: ["vitamin_e", "alpha_tocopherol", "tocopherol"],
+    // As natural alpha-tocopherol
+    per_iu: 0.67,
+  },
+  vitamin_k: {
+    label: "Vitamin K",
+    unit: "mcg",
+    aliases: ["vitamin_k", "vitamin_k1", "phylloquinone"],
+  },
+  vitamin_b6: {
+    label: "Vitamin B6",
+    unit: "mg",
+    aliases: ["vitamin_b6", "pyridoxine"],
+  },
+  vitamin_b12: {
+    label: "Vitamin B12",
+    unit: "mcg",
+    aliases: ["vitamin_b12", "cobalamin"],
+  },
+  folate: {
+    label: "Folate",
+    unit: "mcg",
+    aliases: ["folate", "folate_dfe", "folic_acid", "vitamin_b9", "חומצה_פולית"],
+  },
+};
+
+export interface AgeBand {
+  label: string;
+  min_age: number;
+  max_age: number;
+}
+
+// Younger users fall into the first band
+export const AGE_BANDS: AgeBand[] = [
+  { label: "4-8", min_age: 0, max_age: 8 },
+  { label: "9-13", min_age: 9, max_age: 13 },
+  { label: "14-18", min_age: 14, max_age: 18 },
+  { label: "19-30", min_age: 19, max_age: 30 },
+  { label: "31-50", min_age: 31, max_age: 50 },
+  { label: "51-70", min_age: 51, max_age: 70 },
+  { label: "71+", min_age: 71, max_age: Infinity },
+];
+
+// Used when the user's age is not known
+export const DEFAULT_AGE_BAND = "31-50";
+
+// [male, female, upper limit] per age band, in the nutrient's unit
+type IntakeRow = [number, number, number | null];
+
+/**
+ * Dietary Reference Intakes (US National Academies): the RDA, or the AI where
+ * no RDA is set. Upper limits are listed only where they apply to total
+ * intake; the magnesium, vitamin E and folate limits cover supplements and
+ * fortificants only and vitamin A's covers preformed retinol only, so meals
+ * are never flagged against them.
+ */
+export const REFERENCE_INTAKES: Record<MicronutrientKey, Record<string, IntakeRow>> = {
+  calcium: {
+    "4-8": [1000, 1000, 2500],
+    "9-13": [1300, 1300, 3000],
+    "14-18": [1300, 1300, 3000],
+    "19-30": [1000, 1000, 2500],
+    "31-50": [1000, 1000, 2500],
+    "51-70": [1000, 1200, 2000],
+    "71+": [1200, 1200, 2000],
+  },
+  iron: {
+    "4-8": [10, 10, 40],
+    "9-13": [8, 8, 40],
+    "14-18": [11, 15, 45],
+    "19-30": [8, 18, 45],
+    "31-50": [8, 18, 45],
+    "51-70": [8, 8, 45],
+    "71+": [8, 8, 45],
+  },
+  potassium: {
+    "4-8": [2300, 2300, null],
+    "9-13": [2500, 2300, null],
+    "14-18": [3000, 2300, null],
+    "19-30": [3400, 2600, null],
+    "31-50": [3400, 2600, null],
+    "51-70": [3400, 2600, null],
+    "71+": [3400, 2600, null],
+  },
+  magnesium: {
+    "4-8": [130, 130, null],
+    "9-13": [240, 240, null],
+    "14-18": [410, 360, null],
+    "19-30": [400, 310, null],
+    "31-50": [420, 320, null],
+    "51-70": [420, 320, null],
+    "71+": [420, 320, null],
+  },
+  zinc: {
+    "4-8": [5, 5, 12],
+    "9-13": [8, 8, 23],
+    "14-18": [11, 9, 34],
+    "19-30": [11, 8, 40],
+    "31-50": [11, 8, 40],
+    "51-70": [11, 8, 40],
+    "71+": [11, 8, 40],
+  },
+  selenium: {
+    "4-8": [30, 30, 150],
+    "9-13": [40, 40, 280],
+    "14-18": [55, 55, 400],
+    "19-30": [55, 55, 400],
+    "31-50": [55, 55, 400],
+    "51-70": [55, 55, 400],
+    "71+": [55, 55, 400],
+  },
+  vitamin_a: {
+    "4-8": [400, 400, null],
+    "9-13": [600, 600, null],
+    "14-18": [900, 700, null],
+    "19-30": [900, 700, null],
+    "31-50": [900, 700, null],
+    "51-70": [900, 700, null],
+    "71+": [900, 700, null],
+  },
+  vitamin_c: {
+    "4-8": [25, 25, 650],
+    "9-13": [45, 45, 1200],
+    "14-18": [75, 65, 1800],
+    "19-30": [90, 75, 2000],
+    "31-50": [90, 75, 2000],
+    "51-70": [90, 75, 2000],
+    "71+": [90, 75, 2000],
+  },
+  vitamin_d: {
+    "4-8": [15, 15, 75],
+    "9-13": [15, 15, 100],
+    "14-18": [15, 15, 100],
+    "19-30": [15, 15, 100],
+    "31-50": [15, 15, 100],
+    "51-70": [15, 15, 100],
+    "71+": [20, 20, 100],
+  },
+  vitamin_e: {
+    "4-8": [7, 7, null],
+    "9-13": [11, 11, null],
+    "14-18": [15, 15, null],
+    "19-30": [15, 15, null],
+    "31-50": [15, 15, null],
+    "51-70": [15, 15, null],
+    "71+": [15, 15, null],
+  },
+  vitamin_k: {
+    "4-8": [55, 55, null],
+    "9-13": [60, 60, null],
+    "14-18": [75, 75, null],
+    "19-30": [120, 90, null],
+    "31-50": [120, 90, null],
+    "51-70": [120, 90, null],
+    "71+": [120, 90, null],
+  },
+  vitamin_b6: {
+    "4-8": [0.6, 0.6, 40],
+    "9-13": [1, 1, 60],
+    "14-18": [1.3, 1.2, 80],
+    "19-30": [1.3, 1.3, 100],
+    "31-50": [1.3, 1.3, 100],
+    "51-70": [1.7, 1.5, 100],
+    "71+": [1.7, 1.5, 100],
+  },
+  vitamin_b12: {
+    "4-8": [1.2, 1.2, null],
+    "9-13": [1.8, 1.8, null],
+    "14-18": [2.4, 2.4, null],
+    "19-30": [2.4, 2.4, null],
+    "31-50": [2.4, 2.4, null],
+    "51-70": [2.4, 2.4, null],
+    "71+": [2.4, 2.4, null],
+  },
+  folate: {
+    "4-8": [200, 200, null],
+    "9-13": [300, 300, null],
+    "14-18": [400, 400, null],
+    "19-30": [400, 400, null],
+    "31-50": [400, 400, null],
+    "51-70": [400, 400, null],
+    "71+": [400, 400, null],
+  },
+};
@@ -0,0 +1,226 @@
+import { prisma } from "../../lib/database";
+import {
+  MicronutrientAmounts,
+  MicronutrientKey,
+  MicronutrientRangeResult,
+  MicronutrientRangeSummary,
+  MicronutrientStatus,
+  MicronutrientTargets,
+  MicronutrientTargetsInput,
+  ReferenceSex,
+  UpperLimitExceedance,
+} from "../../types/micronutrients";
+import { getLocalDate } from "../../utils/dayBoundary";
+import { addMicronutrients, extractMicronutrients } from "./normalize";
+import {
+  AGE_BANDS,
+  DEFAULT_AGE_BAND,
+  MICRONUTRIENTS,
+  REFERENCE_INTAKES,
+} from "./referenceTables";
+
+// Average intake below this share of the target counts as a deficiency,
+// roughly where the RDA drops to the estimated average requirement
+const DEFICIENT_RATIO = 0.7;
+
+interface MealMicronutrientFields {
+  created_at: Date;
+  vitamins_json: unknown;
+  micronutrients_json: unknown;
+}
+
+function round(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function resolveSex(gender: string | null | undefined): ReferenceSex {
+  const value = gender?.trim().toLowerCase() ?? "";
+  // Check female first: "female" contains "male"
+  if (/female|woman|נקבה|אישה/.test(value)) return "female";
+  if (/male|man|זכר|גבר/.test(value)) return "male";
+  return "unknown";
+}
+
+function resolveAgeBand(age: number | null) {
+  if (age === null) return DEFAULT_AGE_BAND;
+  return (AGE_BANDS.find((band) => age <= band.max_age) ?? AGE_BANDS[AGE_BANDS.length - 1]).label;
+}
+
+export class MicronutrientService {
+  /**
+   * Reference intakes for the user's age and sex from their latest
+   * questionnaire, with their own targets applied on top. Without a known sex
+   * the higher of the two reference values is used.
+   */
+  static async getTargets(user_id: string): Promise<MicronutrientTargets> {
+    const [questionnaire, overrides] = await Promise.all([
+      prisma.userQuestionnaire.findFirst({
+        where: { user_id },
+        orderBy: { date_completed: "desc" },
+        select: { age: true, gender: true },
+      }),
+      prisma.micronutrientTarget.findMany({ where: { user_id } }),
+    ]);
+
+    const age = questionnaire?.age ?? null;
+    const sex = resolveSex(questionnaire?.gender);
+    const ageBand = resolveAgeBand(age);
+    const overridesByNutrient = new Map(overrides.map((row) => [row.nutrient, row]));
+
+    const nutrients = (Object.keys(MICRONUTRIENTS) as MicronutrientKey[]).map((nutrient) => {
+      const [male, female, upperLimit] = REFERENCE_INTAKES[nutrient][ageBand];
+      const reference = sex === "male" ? male : sex === "female" ? female : Math.max(male, female);
+      const override = overridesByNutrient.get(nutrient);
+
+      return {
+        nutrient,
+        label: MICRONUTRIENTS[nutrient].label,
+        unit: MICRONUTRIENTS[nutrient].unit,
+        target: override?.target ?? reference,
+        upper_limit: override?.upper_limit ?? upperLimit,
+        target_source: override?.target != null ? "custom" as const : "reference" as const,
+        upper_limit_source:
+          override?.upper_limit != null ? "custom" as const : "reference" as const,
+      };
+    });
+
+    return { basis: { age, sex, age_band: ageBand }, nutrients };
+  }
+
+  static async setTargets(
+    user_id: string,
+    input: MicronutrientTargetsInput
+  ): Promise<MicronutrientTargets> {
+    try {
+      console.log(`🧪 Updating ${input.targets.length} micronutrient targets for ${user_id}`);
+
+      await prisma.$transaction(async (tx) => {
+        for (const entry of input.targets) {
+          const values = {
+            ...(entry.target !== undefined && { target: entry.target }),
+            ...(entry.upper_limit !== undefined && { upper_limit: entry.upper_limit }),
+          };
+
+          await tx.micronutrientTarget.upsert({
+            where: { user_id_nutrient: { user_id, nutrient: entry.nutrient } },
+            create: { user_id, nutrient: entry.nutrient, ...values },
+            update: values,
+          });
+        }
+
+        // Rows with nothing custom left are back on the reference values
+        await tx.micronutrientTarget.deleteMany({
+          where: { user_id, target: null, upper_limit: null },
+        });
+      });
+
+      return this.getTargets(user_id);
+    } catch (error) {
+      console.error("💥 Error updating micronutrient targets:", error);
+      throw new Error("Failed to update micronutrient targets");
+    }
+  }
+
+  static async resetTarget(
+    user_id: string,
+    nutrient: MicronutrientKey
+  ): Promise<MicronutrientTargets> {
+    await prisma.micronutrientTarget.deleteMany({ where: { user_id, nutrient } });
+    return this.getTargets(user_id);
+  }
+
+  /**
+   * Micronutrient totals per local date, for the days with logged meals
+   */
+  static aggregateByDay(
+    meals: MealMicronutrientFields[],
+    timeZone: string
+  ): Map<string, MicronutrientAmounts> {
+    const byDate = new Map<string, MicronutrientAmounts>();
+
+    for (const meal of meals) {
+      const date = getLocalDate(timeZone, meal.created_at);
+      const total = byDate.get(date) ?? {};
+      byDate.set(
+        date,
+        addMicronutrients(total, extractMicronutrients(meal.vitamins_json, meal.micronutrients_json))
+      );
+    }
+
+    for (const amounts of byDate.values()) {
+      for (const nutrient of Object.keys(amounts) as MicronutrientKey[]) {
+        amounts[nutrient] = round(amounts[nutrient]!);
+      }
+    }
+
+    return byDate;
+  }
+
+  /**
+   * Average intake against the user's targets over the logged days, with
+   * every day a nutrient went over its upper limit. Nutrients are averaged
+   * over the days meals reported them, so meals analysed without
+   * micronutrient data don't read as a deficiency.
+   */
+  static async summarizeRange(
+    user_id: string,
+    dailyIntake: Map<string, MicronutrientAmounts>
+  ): Promise<MicronutrientRangeSummary> {
+    const targets = await this.getTargets(user_id);
+    const dates = [...dailyIntake.keys()].sort();
+    const exceedances: UpperLimitExceedance[] = [];
+
+    const nutrients = targets.nutrients.map((target): MicronutrientRangeResult => {
+      const reported = dates
+        .map((date) => ({ date, intake: dailyIntake.get(date)![target.nutrient] }))
+        .filter((day): day is { date: string; intake: number } => day.intake !== undefined);
+
+      const aboveLimit =
+        target.upper_limit === null
+          ? []
+          : reported.filter((day) => day.intake > target.upper_limit!);
+
+      for (const day of aboveLimit) {
+        exceedances.push({
+          date: day.date,
+          nutrient: target.nutrient,
+          unit: target.unit,
+          intake: day.intake,
+          upper_limit: target.upper_limit!,
+        });
+      }
+
+      const average =
+        reported.length > 0
+          ? reported.reduce((sum, day) => sum + day.intake, 0) / reported.length
+          : null;
+
+      let status: MicronutrientStatus = "no_data";
+      if (aboveLimit.length > 0) status = "above_upper_limit";
+      else if (average !== null && average < target.target * DEFICIENT_RATIO) status = "deficient";
+      else if (average !== null && average < target.target) status = "low";
+      else if (average !== null) status = "adequate";
+
+      return {
+        ...target,
+        days_reported: reported.length,
+        average_intake: average !== null ? round(average) : null,
+        percent_of_target: average !== null ? Math.round((average / target.target) * 100) : null,
+        days_above_upper_limit: aboveLimit.length,
+        status,
+      };
+    });
+
+    return {
+      basis: targets.basis,
+      days_logged: dates.length,
+      nutrients,
+      deficiencies: nutrients
+        .filter((result) => result.status === "deficient")
+        .map((result) => result.nutrient),
+      upper_limit_exceedances: exceedances.sort(
+        (a, b) => a.date.localeCompare(b.date) || a.nutrient.localeCompare(b.nutrient)
+      ),
+    };
+  }
+}
@@ -3,7 +3,16 @@ import { OpenAIService } from "./openai";
 import { prisma } from "../lib/database";
 import { MealAnalysisInput, MealUpdateInput } from "../types/nutrition";
 import { AuthService } from "./auth";
+import { MicronutrientService } from "./micronutrients/tracking";
 import { asJsonObject, mapExistingMealToPrismaInput } from "../utils/nutrition";
+import {
+  getDayRange,
+  getLocalDate,
+  getLocalHour,
+  getUserTimeZone,
+  isDateString,
+  resolveTimeZone,
+} from "../utils/dayBoundary";
 
 // Cache for frequently accessed data
 const userStatsCache = new Map<string, { data: any; timestamp: number }>();
@@ -108,7 +117,7 @@ export class NutritionService {
     let finalMealType = data.mealType || data.mealPeriod;
 
     if (!finalMealType) {
-      const currentHour = new Date().getHours();
+      const currentHour = getLocalHour(resolveTimeZone(user.timezone));
       if (currentHour >= 5 && currentHour < 12) {
         finalMealType = "breakfast";
       } else if (currentHour >= 12 && currentHour < 18) {
@@ -167,18 +176,6 @@ export class NutritionService {
       ingredients_count: analysis.ingredients?.length || 0,
     });
 
-    // Update request count asynchronously to not block response
-    setImmediate(async () => {
-      try {
-        await prisma.user.update({
-          where: { user_id },
-          data: { ai_requests_count: user.ai_requests_count + 1 },
-        });
-      } catch (error) {
-        console.warn("Failed to update request count:", error);
-      }
-    });
-
     // Enhanced ingredient mapping with better error handling
     const ingredients = (analysis.ingredients || []).map(
       (ingredient, index) => {
@@ -538,15 +535,15 @@ export class NutritionService {
         return cached.data;
       }
 
-      const startDateTime = new Date(startDate + "T00:00:00.000Z");
-      const endDateTime = new Date(endDate + "T23:59:59.999Z");
+      const timeZone = await getUserTimeZone(userId);
+      const { start, end } = getDayRange(startDate, timeZone, endDate);
 
       const meals = await prisma.meal.findMany({
         where: {
           user_id: userId,
           created_at: {
-            gte: startDateTime,
-            lte: endDateTime,
+            gte: start,
+            lt: end,
           },
         },
         orderBy: {
@@ -579,11 +576,19 @@ export class NutritionService {
           glycemic_index: true,
           insulin_index: true,
           confidence: true,
+          vitamins_json: true,
+          micronutrients_json: true,
           created_at: true,
           upload_time: true,
         },
       });
 
+      const dailyMicronutrients = MicronutrientService.aggregateByDay(meals, timeZone);
+      const micronutrients = await MicronutrientService.summarizeRange(
+        userId,
+        dailyMicronutrients
+      );
+
       if (meals.length === 0) {
         const emptyResult = {
           totalDays: 0,
@@ -618,6 +623,7 @@ export class NutritionService {
               [`average_${field}`, 0],
             ])
           ),
+          micronutrients,
         };
 
         // Cache empty result too
@@ -666,7 +672,7 @@ export class NutritionService {
       }
 
       const uniqueDates = new Set(
-        meals.map((meal) => meal.created_at.toISOString().split("T")[0])
+        meals.map((meal) => getLocalDate(timeZone, meal.created_at))
       );
       const totalDays = uniqueDates.size;
 
@@ -679,11 +685,12 @@ export class NutritionService {
 
       // Group meals by day
       const dailyData = meals.reduce((acc, meal) => {
-        const date = meal.created_at.toISOString().split("T")[0];
+        const date = getLocalDate(timeZone, meal.created_at);
         if (!acc[date]) {
           acc[date] = {
             date,
             meals: [],
+            micronutrients: dailyMicronutrients.get(date) ?? {},
           };
         }
 
@@ -738,6 +745,7 @@ export class NutritionService {
         dailyBreakdown: dailyBreakdown.sort((a, b) =>
           a.date.localeCompare(b.date)
         ),
+        micronutrients,
         dateRange: {
           startDate,
           endDate,
@@ -768,14 +776,12 @@ export class NutritionService {
         return cached.data;
       }
 
-      const startDate = new Date(date);
-      const endDate = new Date(date);
-      endDate.setDate(endDate.getDate() + 1);
+      const { start, end } = getDayRange(date, await getUserTimeZone(user_id));
 
       const meals = await prisma.meal.findMany({
         where: {
           user_id,
-          created_at: { gte: startDate, lt: endDate },
+          created_at: { gte: start, lt: end },
         },
         select: {
           calories: true,
@@ -902,7 +908,17 @@ export class NutritionService {
       });
       if (!originalMeal) throw new Error("Meal not found");
 
-      const duplicateDate = newDate ? new Date(newDate) : new Date();
+      let duplicateDate = newDate ? new Date(newDate) : new Date();
+
+      // A bare date means that day in the user's timezone at the current time of day
+      if (newDate && isDateString(newDate)) {
+        const timeZone = await getUserTimeZone(user_id);
+        const today = getDayRange(getLocalDate(timeZone), timeZone).start;
+        duplicateDate = new Date(
+          getDayRange(newDate, timeZone).start.getTime() +
+            (Date.now() - today.getTime())
+        );
+      }
       const duplicatedMeal = await prisma.meal.create({
         data: mapExistingMealToPrismaInput(
           originalMeal,
@@ -0,0 +1,268 @@
+import { beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import { FoodProduct, ProductLookupMiss } from "@prisma/client";
+import { prisma } from "../../lib/database";
+import { ProductCatalogService } from "./catalog";
+import { FixtureProductProvider } from "./fixtures";
+import { ProductProviderRegistry } from "./index";
+import { ProductData, ProductProvider } from "../../types/products";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const HUMMUS = "7290000000001";
+const PITA = "7290000000002";
+const UNKNOWN = "7290000000099";
+
+// Counts lookups so the tests can tell a cache hit from a provider call
+class RecordingFixtureProvider extends FixtureProductProvider {
+  lookups: string[] = [];
+
+  async lookupBarcode(barcode: string): Promise<ProductData | null> {
+    this.lookups.push(barcode);
+    return super.lookupBarcode(barcode);
+  }
+}
+
+class BrokenProvider implements ProductProvider {
+  readonly id = "broken";
+  readonly displayName = "Broken provider";
+
+  isEnabled(): boolean {
+    return true;
+  }
+
+  async lookupBarcode(): Promise<ProductData | null> {
+    throw new Error("socket hang up");
+  }
+}
+
+let fixtures: RecordingFixtureProvider;
+let products: Map<string, FoodProduct>;
+let misses: Map<string, ProductLookupMiss>;
+
+function useProviders(ids: string) {
+  process.env.PRODUCT_PROVIDERS = ids;
+}
+
+// The catalog tables, kept in memory
+function useCatalogStore() {
+  products = new Map();
+  misses = new Map();
+  let nextId = 1;
+
+  const toRow = (barcode: string, data: Record<string, any>, existing?: FoodProduct) =>
+    ({
+      ...existing,
+      ...data,
+      barcode,
+      product_id: existing?.product_id ?? nextId++,
+      created_at: existing?.created_at ?? new Date(),
+      updated_at: new Date(),
+    }) as FoodProduct;
+
+  Object.assign(prisma, {
+    foodProduct: {
+      findUnique: async ({ where }: any) => products.get(where.barcode) ?? null,
+      upsert: async ({ where, update, create }: any) => {
+        const existing = products.get(where.barcode);
+        const row = toRow(where.barcode, existing ? update : create, existing);
+        products.set(where.barcode, row);
+        return row;
+      },
+      update: async ({ where, data }: any) => {
+        const row = toRow(where.barcode, data, products.get(where.barcode));
+        products.set(where.barcode, row);
+        return row;
+      },
+    },
+    productLookupMiss: {
+      findUnique: async ({ where }: any) => misses.get(where.barcode) ?? null,
+      upsert: async ({ where, update, create }: any) => {
+        const existing = misses.get(where.barcode);
+        const row = { ...existing, ...(existing ? update : create) };
+        misses.set(where.barcode, row);
+        return row;
+      },
+      delete: async ({ where }: any) => {
+        const row = misses.get(where.barcode);
+        misses.delete(where.barcode);
+        return row;
+      },
+    },
+    // Nothing to close, and no engine to close it with
+    $disconnect: async () => {},
+  });
+}
+
+beforeEach(() => {
+  fixtures = new RecordingFixtureProvider(
+    undefined,
+    path.join(__dirname, "__fixtures__", "products.json")
+  );
+  ProductProviderRegistry.register(fixtures);
+  ProductProviderRegistry.register(new BrokenProvider());
+  useProviders("fixtures");
+  delete process.env.PRODUCT_CACHE_TTL_DAYS;
+  delete process.env.PRODUCT_NEGATIVE_CACHE_HOURS;
+  useCatalogStore();
+});
+
+test("fetches an unknown barcode from the provider and serves it from the catalog after", async () => {
+  const first = await ProductCatalogService.lookupBarcode(HUMMUS);
+
+  assert.ok(first);
+  assert.equal(first.fromCache, false);
+  assert.equal(first.source, "fixtures");
+  assert.equal(first.product.name, "Hummus Classic");
+  assert.deepEqual(first.product.allergens, ["sesame"]);
+  assert.ok(products.get(HUMMUS)!.source_fetched_at);
+
+  const second = await ProductCatalogService.lookupBarcode(HUMMUS);
+
+  assert.ok(second);
+  assert.equal(second.fromCache, true);
+  assert.equal(second.productId, first.productId);
+  assert.equal(second.product.name, first.product.name);
+  assert.deepEqual(second.product.nutrition_per_100g, first.product.nutrition_per_100g);
+  assert.deepEqual(second.product.allergens, first.product.allergens);
+  assert.deepEqual(fixtures.lookups, [HUMMUS]);
+});
+
+test("fills in list fields a fixture leaves out", async () => {
+  const result = await ProductCatalogService.lookupBarcode(PITA);
+
+  assert.ok(result);
+  assert.deepEqual(result.product.ingredients, []);
+  assert.deepEqual(result.product.allergens, []);
+  assert.deepEqual(result.product.traces, []);
+  assert.deepEqual(result.product.labels, []);
+});
+
+test("refreshes a product past the cache TTL", async () => {
+  process.env.PRODUCT_CACHE_TTL_DAYS = "7";
+  await ProductCatalogService.lookupBarcode(HUMMUS);
+  products.get(HUMMUS)!.product_name = "Old name";
+  products.get(HUMMUS)!.source_fetched_at = new Date(Date.now() - 8 * DAY_MS);
+
+  const result = await ProductCatalogService.lookupBarcode(HUMMUS);
+
+  assert.ok(result);
+  assert.equal(result.fromCache, false);
+  assert.equal(result.stale, false);
+  assert.equal(result.product.name, "Hummus Classic");
+  assert.equal(products.get(HUMMUS)!.product_name, "Hummus Classic");
+  assert.ok(products.get(HUMMUS)!.source_fetched_at!.getTime() > Date.now() - HOUR_MS);
+  assert.deepEqual(fixtures.lookups, [HUMMUS, HUMMUS]);
+});
+
+test("keeps serving a product within the TTL without asking the provider", async () => {
+  process.env.PRODUCT_CACHE_TTL_DAYS = "7";
+  await ProductCatalogService.lookupBarcode(HUMMUS);
+  products.get(HUMMUS)!.source_fetched_at = new Date(Date.now() - 6 * DAY_MS);
+
+  const result = await ProductCatalogService.lookupBarcode(HUMMUS);
+
+  assert.equal(result!.fromCache, true);
+  assert.deepEqual(fixtures.lookups, [HUMMUS]);
+});
+
+test("serves the stale copy when the refresh fails", async () => {
+  await ProductCatalogService.lookupBarcode(HUMMUS);
+  const fetchedAt = new Date(Date.now() - 60 * DAY_MS);
+  products.get(HUMMUS)!.source_fetched_at = fetchedAt;
+  useProviders("broken");
+
+  const result = await ProductCatalogService.lookupBarcode(HUMMUS);
+
+  assert.ok(result);
+  assert.equal(result.fromCache, true);
+  assert.equal(result.stale, true);
+  assert.equal(result.product.name, "Hummus Classic");
+  // Left stale so the next lookup tries again
+  assert.equal(products.get(HUMMUS)!.source_fetched_at, fetchedAt);
+});
+
+test("keeps a product providers no longer know and checks again after another TTL", async () => {
+  await ProductCatalogService.lookupBarcode(HUMMUS);
+  products.get(HUMMUS)!.source_fetched_at = new Date(Date.now() - 60 * DAY_MS);
+  fixtures = new RecordingFixtureProvider({});
+  ProductProviderRegistry.register(fixtures);
+
+  const result = await ProductCatalogService.lookupBarcode(HUMMUS);
+
+  assert.ok(result);
+  assert.equal(result.stale, false);
+  assert.equal(result.product.name, "Hummus Classic");
+  assert.equal(ProductCatalogService.isStale(products.get(HUMMUS)!), false);
+});
+
+test("never refreshes products read from an image", async () => {
+  await ProductCatalogService.saveProduct(
+    {
+      name: "Label scan",
+      category: "Snacks",
+      nutrition_per_100g: { calories: 100, protein: 1, carbs: 2, fat: 3 },
+      ingredients: [],
+      allergens: [],
+      traces: [],
+      labels: [],
+    },
+    { barcode: "img_1", source: "image_scan" }
+  );
+
+  assert.equal(products.get("img_1")!.source_fetched_at, null);
+  assert.equal(ProductCatalogService.isStale(products.get("img_1")!), false);
+});
+
+test("remembers a barcode no provider knows, backing off on repeated misses", async () => {
+  process.env.PRODUCT_NEGATIVE_CACHE_HOURS = "24";
+
+  assert.equal(await ProductCatalogService.lookupBarcode(UNKNOWN), null);
+  const miss = misses.get(UNKNOWN)!;
+  assert.equal(miss.attempts, 1);
+  assert.ok(Math.abs(miss.expires_at.getTime() - (Date.now() + 24 * HOUR_MS)) < 60 * 1000);
+
+  // Negatively cached: the provider isn't asked again
+  assert.equal(await ProductCatalogService.lookupBarcode(UNKNOWN), null);
+  assert.deepEqual(fixtures.lookups, [UNKNOWN]);
+
+  // After it expires the next miss waits twice as long
+  miss.expires_at = new Date(Date.now() - 1000);
+  assert.equal(await ProductCatalogService.lookupBarcode(UNKNOWN), null);
+  assert.equal(misses.get(UNKNOWN)!.attempts, 2);
+  assert.ok(
+    Math.abs(misses.get(UNKNOWN)!.expires_at.getTime() - (Date.now() + 48 * HOUR_MS)) < 60 * 1000
+  );
+  assert.deepEqual(fixtures.lookups, [UNKNOWN, UNKNOWN]);
+});
+
+test("doesn't remember a miss when a provider failed", async () => {
+  useProviders("broken,fixtures");
+
+  assert.equal(await ProductCatalogService.lookupBarcode(UNKNOWN), null);
+  assert.equal(misses.has(UNKNOWN), false);
+});
+
+test("drops the negative cache entry once a provider knows the barcode", async () => {
+  misses.set(HUMMUS, {
+    barcode: HUMMUS,
+    attempts: 3,
+    last_checked_at: new Date(Date.now() - 5 * DAY_MS),
+    expires_at: new Date(Date.now() - 1000),
+  });
+
+  const result = await ProductCatalogService.lookupBarcode(HUMMUS);
+
+  assert.equal(result!.product.name, "Hummus Classic");
+  assert.equal(misses.has(HUMMUS), false);
+});
+
+test("falls through to the next provider when one fails", async () => {
+  useProviders("broken,fixtures");
+
+  const result = await ProductCatalogService.lookupBarcode(HUMMUS);
+
+  assert.equal(result!.source, "fixtures");
+});
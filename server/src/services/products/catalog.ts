@@ -0,0 +1,246 @@
+import { FoodProduct, Prisma } from "@prisma/client";
+import { prisma } from "../../lib/database";
+import { ProductProviderRegistry } from "./index";
+import { ProductData } from "../../types/products";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Defaults for PRODUCT_CACHE_TTL_DAYS and PRODUCT_NEGATIVE_CACHE_HOURS
+const DEFAULT_TTL_DAYS = 30;
+const DEFAULT_NEGATIVE_TTL_HOURS = 24;
+
+// Products without a provider behind them can never be refreshed
+const UNREFRESHABLE_SOURCES = ["image_scan"];
+
+export interface CatalogLookupResult {
+  productId: number;
+  product: ProductData;
+  source: string;
+  fromCache: boolean;
+  // True when the cached copy is past its TTL and the refresh did not succeed
+  stale: boolean;
+}
+
+interface ProviderLookup {
+  product: ProductData | null;
+  provider?: string;
+  // At least one provider failed, so "not found" is not conclusive
+  errored: boolean;
+}
+
+export class ProductCatalogService {
+  /**
+   * Resolve a barcode through the local catalog, refreshing entries older than
+   * the TTL and remembering barcodes that no provider knows about.
+   */
+  static async lookupBarcode(
+    barcode: string
+  ): Promise<CatalogLookupResult | null> {
+    const cached = await prisma.foodProduct.findUnique({ where: { barcode } });
+
+    if (cached) {
+      if (!this.isStale(cached)) {
+        return {
+          productId: cached.product_id,
+          product: this.toProductData(cached),
+          source: cached.source,
+          fromCache: true,
+          stale: false,
+        };
+      }
+
+      console.log("♻️ Refreshing stale catalog product:", barcode);
+      const refreshed = await this.fetchFromProviders(barcode);
+
+      if (refreshed.product) {
+        await this.saveProduct(refreshed.product, {
+          barcode,
+          source: refreshed.provider!,
+        });
+        return {
+          productId: cached.product_id,
+          product: refreshed.product,
+          source: refreshed.provider!,
+          fromCache: false,
+          stale: false,
+        };
+      }
+
+      if (!refreshed.errored) {
+        // Providers no longer know it; keep our copy and check again after another TTL
+        await prisma.foodProduct.update({
+          where: { barcode },
+          data: { source_fetched_at: new Date() },
+        });
+      }
+
+      return {
+        productId: cached.product_id,
+        product: this.toProductData(cached),
+        source: cached.source,
+        fromCache: true,
+        stale: refreshed.errored,
+      };
+    }
+
+    const miss = await prisma.productLookupMiss.findUnique({ where: { barcode } });
+    if (miss && miss.expires_at > new Date()) {
+      console.log("🚫 Barcode is negatively cached until", miss.expires_at.toISOString());
+      return null;
+    }
+
+    const lookup = await this.fetchFromProviders(barcode);
+
+    if (!lookup.product) {
+      // Only a clean "not found" from every provider is worth remembering
+      if (!lookup.errored) {
+        await this.recordMiss(barcode, miss?.attempts || 0);
+      }
+      return null;
+    }
+
+    const saved = await this.saveProduct(lookup.product, {
+      barcode,
+      source: lookup.provider!,
+    });
+    if (miss) {
+      await prisma.productLookupMiss.delete({ where: { barcode } }).catch(() => {});
+    }
+
+    return {
+      productId: saved.product_id,
+      product: lookup.product,
+      source: lookup.provider!,
+      fromCache: false,
+      stale: false,
+    };
+  }
+
+  static async saveProduct(
+    product: ProductData,
+    options: { barcode: string; source: string; fetchedAt?: Date },
+    client: Prisma.TransactionClient = prisma
+  ) {
+    const data = {
+      product_name: product.name,
+      brand: product.brand,
+      category: product.category,
+      nutrition_per_100g: product.nutrition_per_100g as unknown as Prisma.InputJsonValue,
+      ingredients: product.ingredients,
+      allergens: product.allergens,
+      traces: product.traces,
+      labels: product.labels,
+      health_score: product.health_score,
+      image_url: product.image_url,
+      serving_size: product.serving_size,
+      servings_per_container: product.servings_per_container,
+      source: options.source,
+      source_fetched_at: UNREFRESHABLE_SOURCES.includes(options.source)
+        ? null
+        : options.fetchedAt || new Date(),
+    };
+
+    return client.foodProduct.upsert({
+      where: { barcode: options.barcode },
+      update: data,
+      create: {
+        ...data,
+        barcode: options.barcode,
+      },
+    });
+  }
+
+  static toProductData(product: FoodProduct): ProductData {
+    return {
+      barcode: product.barcode,
+      name: product.product_name,
+      brand: product.brand || undefined,
+      category: product.category,
+      nutrition_per_100g:
+        product.nutrition_per_100g as unknown as ProductData["nutrition_per_100g"],
+      ingredients: product.ingredients as string[],
+      allergens: product.allergens as string[],
+      traces: product.traces as string[],
+      labels: product.labels as string[],
+      health_score: product.health_score ?? undefined,
+      image_url: product.image_url || undefined,
+      serving_size: product.serving_size || undefined,
+      servings_per_container: product.servings_per_container ?? undefined,
+    };
+  }
+
+  static isStale(product: Pick<FoodProduct, "source" | "source_fetched_at">): boolean {
+    if (UNREFRESHABLE_SOURCES.includes(product.source)) {
+      return false;
+    }
+    if (!product.source_fetched_at) {
+      return true;
+    }
+    return Date.now() - product.source_fetched_at.getTime() > this.getTtlMs();
+  }
+
+  static async purgeExpiredMisses(): Promise<number> {
+    const { count } = await prisma.productLookupMiss.deleteMany({
+      where: { expires_at: { lt: new Date() } },
+    });
+    return count;
+  }
+
+  private static async fetchFromProviders(barcode: string): Promise<ProviderLookup> {
+    let errored = false;
+
+    for (const provider of ProductProviderRegistry.enabled()) {
+      try {
+        const product = await provider.lookupBarcode(barcode);
+        if (product) {
+          console.log(`✅ Found ${barcode} in ${provider.displayName}`);
+          return { product, provider: provider.id, errored };
+        }
+      } catch (error: any) {
+        errored = true;
+        console.warn(`❌ ${provider.displayName} lookup failed:`, error?.message || error);
+      }
+    }
+
+    return { product: null, errored };
+  }
+
+  /**
+   * Unknown barcodes back off exponentially, capped at the product TTL, since
+   * repeated scans of the same unknown product are common
+   */
+  private static async recordMiss(barcode: string, previousAttempts: number) {
+    const attempts = previousAttempts + 1;
+    const ttl = Math.min(
+      this.getNegativeTtlMs() * 2 ** (attempts - 1),
+      this.getTtlMs()
+    );
+    const now = new Date();
+
+    await prisma.productLookupMiss.upsert({
+      where: { barcode },
+      update: {
+        attempts,
+        last_checked_at: now,
+        expires_at: new Date(now.getTime() + ttl),
+      },
+      create: {
+        barcode,
+        attempts,
+        last_checked_at: now,
+        expires_at: new Date(now.getTime() + ttl),
+      },
+    });
+  }
+
+  private static getTtlMs(): number {
+    const days = Number(process.env.PRODUCT_CACHE_TTL_DAYS);
+    return (days > 0 ? days : DEFAULT_TTL_DAYS) * DAY_MS;
+  }
+
+  private static getNegativeTtlMs(): number {
+    const hours = Number(process.env.PRODUCT_NEGATIVE_CACHE_HOURS);
+    return (hours > 0 ? hours : DEFAULT_NEGATIVE_TTL_HOURS) * HOUR_MS;
+  }
+}
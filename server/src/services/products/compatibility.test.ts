@@ -0,0 +1,63 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { prisma } from "../../lib/database";
+import { ProductCompatibilityService } from "./compatibility";
+import { mapOpenFoodFactsProduct } from "./openFoodFacts";
+import { DietProfile } from "../../types/products";
+
+// evaluate() never queries, and there is no database to disconnect from
+Object.assign(prisma, { $disconnect: async () => {} });
+
+const profile = (allergies: string[]): DietProfile => ({
+  allergies,
+  kosher: false,
+  dietary_style: null,
+  disliked_foods: [],
+});
+
+// A chocolate bar whose only nut declaration is the "may contain" list
+const chocolate = {
+  code: "7290000000001",
+  product_name: "Dark Chocolate 70%",
+  categories: "Chocolates",
+  nutriments: {
+    "energy-kcal_100g": 580,
+    proteins_100g: 8,
+    carbohydrates_100g: 36,
+    fat_100g: 42,
+  },
+  ingredients_text: "cocoa mass, sugar, cocoa butter, vanilla",
+  allergens_tags: [],
+  traces_tags: ["en:nuts", "en:peanuts"],
+  labels_tags: [],
+};
+
+test("maps Open Food Facts traces_tags into traces", () => {
+  const product = mapOpenFoodFactsProduct(chocolate);
+
+  assert.ok(product);
+  assert.deepEqual(product.allergens, []);
+  assert.deepEqual(product.traces, ["nuts", "peanuts"]);
+});
+
+test("a product declaring an allergy only in its traces is not safe", () => {
+  const product = mapOpenFoodFactsProduct(chocolate)!;
+
+  const result = ProductCompatibilityService.evaluate(product, profile(["peanuts"]), "english");
+
+  assert.notEqual(result.verdict, "safe");
+  const match = result.matches.find((m) => m.concern === "peanuts");
+  assert.ok(match);
+  assert.equal(match.severity, "caution");
+  assert.equal(match.trace, true);
+  assert.equal(match.entry, "peanuts");
+  assert.match(match.reason, /^May contain traces of/);
+});
+
+test("traces don't affect users without a matching allergy", () => {
+  const product = mapOpenFoodFactsProduct(chocolate)!;
+
+  const result = ProductCompatibilityService.evaluate(product, profile(["sesame"]), "english");
+
+  assert.equal(result.verdict, "safe");
+});
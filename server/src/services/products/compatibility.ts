@@ -0,0 +1,583 @@
+import { UserQuestionnaire } from "@prisma/client";
+import { prisma } from "../../lib/database";
+import {
+  AllergenGroup,
+  CompatibilityMatch,
+  CompatibilityResult,
+  CompatibilitySource,
+  DietProfile,
+  ProductData,
+} from "../../types/products";
+import {
+  ALLERGEN_GROUPS,
+  DIET_GROUPS,
+  DIETS,
+  DietStyle,
+  KOSHER_LABELS,
+  NEGATION_PATTERNS,
+  NONE_ANSWERS,
+  TRACE_MARKERS,
+  TermGroup,
+} from "./compatibilityTables";
+
+type Language = "english" | "hebrew";
+
+interface ProductEntry {
+  source: CompatibilitySource;
+  // As written on the product, and normalised for matching
+  entry: string;
+  text: string;
+  trace: boolean;
+}
+
+interface TermHit {
+  entry: ProductEntry;
+  token: string;
+  synonym: string;
+  possible: boolean;
+}
+
+// A "gluten free" or "dairy free" label settles the ambiguous terms for that allergen
+const CERTIFIED_FREE: Partial<Record<AllergenGroup, DietStyle>> = {
+  gluten: "gluten_free",
+  milk: "dairy_free",
+};
+
+const RULE_SOURCES: CompatibilitySource[] = ["allergens", "ingredients", "name"];
+
+const HEBREW_LETTER = "\\u05D0-\\u05EA";
+const HEBREW_PREFIXES = "והבכלמש";
+const patternCache = new Map<string, RegExp>();
+
+/**
+ * Deterministic allergen and diet check of a product against the user's
+ * questionnaire. Every match carries the product text that triggered it and
+ * the synonym table entry behind it, so the verdict can always be explained.
+ */
+export class ProductCompatibilityService {
+  static async checkForUser(
+    product: ProductData,
+    userId: string,
+    language: Language = "hebrew"
+  ): Promise<CompatibilityResult> {
+    const questionnaire = await prisma.userQuestionnaire.findFirst({
+      where: { user_id: userId },
+    });
+
+    return this.evaluate(product, this.toDietProfile(questionnaire), language);
+  }
+
+  static toDietProfile(questionnaire: UserQuestionnaire | null): DietProfile {
+    return {
+      allergies: [
+        ...(questionnaire?.allergies || []),
+        ...(questionnaire?.allergies_text || []),
+      ],
+      kosher: !!questionnaire?.kosher,
+      dietary_style: questionnaire?.dietary_style,
+      disliked_foods: questionnaire?.disliked_foods || [],
+    };
+  }
+
+  static evaluate(
+    product: ProductData,
+    profile: DietProfile,
+    language: Language = "hebrew"
+  ): CompatibilityResult {
+    const entries = collectEntries(product);
+    const labels = (product.labels || []).map(normalizeText);
+    const hasComposition = entries.some((e) => e.source !== "name");
+    const say = (english: string, hebrew: string) =>
+      language === "hebrew" ? hebrew : english;
+
+    const result: CompatibilityResult = {
+      verdict: "safe",
+      matches: [],
+      unmapped_allergies: [],
+      notes: [],
+    };
+
+    // Allergies
+    const { groups, unmapped } = resolveAllergies(profile.allergies);
+    result.unmapped_allergies = unmapped;
+
+    for (const group of groups) {
+      const definition = ALLERGEN_GROUPS[group];
+      const label = definition.label[language];
+      const certified =
+        CERTIFIED_FREE[group] !== undefined &&
+        hasLabel(labels, DIETS[CERTIFIED_FREE[group]!].certifyingLabels);
+
+      for (const hit of matchGroup(entries, definition, RULE_SOURCES)) {
+        if (hit.possible && certified) continue;
+
+        result.matches.push(
+          toMatch("allergy", group, hit, describe(hit, label, say))
+        );
+      }
+    }
+
+    for (const allergy of unmapped) {
+      for (const hit of matchGroup(entries, { terms: [allergy] }, RULE_SOURCES)) {
+        result.matches.push(
+          toMatch("allergy", allergy, hit, describe(hit, allergy, say))
+        );
+      }
+    }
+
+    if ((groups.length || unmapped.length) && !hasComposition) {
+      result.matches.push({
+        rule: "allergy",
+        concern: "unknown",
+        severity: "caution",
+        source: "ingredients",
+        reason: say(
+          "No ingredient or allergen information to check your allergies against",
+          "אין מידע על רכיבים ואלרגנים לבדיקת האלרגיות שלך"
+        ),
+      });
+    }
+
+    // Dietary style
+    for (const style of resolveDietStyles(profile.dietary_style)) {
+      const diet = DIETS[style];
+      const label = diet.label[language];
+      const certified = hasLabel(labels, diet.certifyingLabels);
+      const termGroups: TermGroup[] = [
+        ...diet.excludedAllergens.map((group) => ALLERGEN_GROUPS[group]),
+        ...diet.excludedGroups.map((group) => DIET_GROUPS[group]),
+      ];
+
+      for (const group of termGroups) {
+        for (const hit of matchGroup(entries, group, RULE_SOURCES)) {
+          if (certified && (hit.possible || hit.entry.trace)) continue;
+
+          const reason =
+            hit.entry.source === "name"
+              ? say(`Product name mentions ${hit.token}`, `שם המוצר מזכיר ${hit.token}`)
+              : hit.entry.trace
+              ? say(
+                  `May contain traces of ${hit.token}`,
+                  `עלול להכיל עקבות של ${hit.token}`
+                )
+              : hit.possible
+              ? say(
+                  `${hit.token} may not be ${label}`,
+                  `ייתכן שאינו מתאים לתזונה ${label}: ${hit.token}`
+                )
+              : say(
+                  `Not ${label}: contains ${hit.token}`,
+                  `לא מתאים לתזונה ${label}: מכיל ${hit.token}`
+                );
+          result.matches.push(toMatch("diet", style, hit, reason));
+        }
+      }
+
+      if (!certified && !hasComposition) {
+        result.matches.push({
+          rule: "diet",
+          concern: style,
+          severity: "caution",
+          source: "labels",
+          reason: say(
+            `Could not confirm the product is ${label}`,
+            `לא ניתן לאשר שהמוצר מתאים לתזונה ${label}`
+          ),
+        });
+      }
+    }
+
+    // Kashrut
+    if (profile.kosher) {
+      this.checkKosher(entries, labels, result, say);
+    }
+
+    // Disliked foods are a preference, never more than a caution
+    for (const food of profile.disliked_foods) {
+      const text = normalizeText(food);
+      if (!text || NONE_ANSWERS.includes(text)) continue;
+
+      const groups = findAllergenGroups(text, true);
+      const termGroup: TermGroup = groups.length
+        ? {
+            terms: groups.flatMap((group) => ALLERGEN_GROUPS[group].terms),
+            excludes: groups.flatMap((group) => ALLERGEN_GROUPS[group].excludes || []),
+          }
+        : { terms: [text] };
+
+      for (const hit of matchGroup(entries, termGroup, ["ingredients", "name"])) {
+        result.matches.push({
+          ...toMatch("disliked_food", food, hit, ""),
+          severity: "caution",
+          reason: say(
+            `Contains ${hit.token}, which you marked as disliked`,
+            `מכיל ${hit.token}, שסימנת כמאכל לא אהוב`
+          ),
+        });
+      }
+    }
+
+    if (!hasComposition) {
+      result.notes.push(
+        say(
+          "The product has no ingredient list or allergen declaration",
+          "למוצר אין רשימת רכיבים או הצהרת אלרגנים"
+        )
+      );
+    }
+
+    result.verdict = result.matches.some((m) => m.severity === "avoid")
+      ? "avoid"
+      : result.matches.length
+      ? "caution"
+      : "safe";
+
+    return result;
+  }
+
+  private static checkKosher(
+    entries: ProductEntry[],
+    labels: string[],
+    result: CompatibilityResult,
+    say: (english: string, hebrew: string) => string
+  ) {
+    const forbidden: TermGroup[] = [
+      DIET_GROUPS.pork,
+      ALLERGEN_GROUPS.shellfish,
+      DIET_GROUPS.non_kosher_fish,
+      DIET_GROUPS.animal_other,
+    ];
+
+    for (const group of forbidden) {
+      for (const hit of matchGroup(entries, group, RULE_SOURCES)) {
+        const reason = hit.possible
+          ? say(`${hit.token} may not be kosher`, `ייתכן שאינו כשר: ${hit.token}`)
+          : say(`Not kosher: contains ${hit.token}`, `לא כשר: מכיל ${hit.token}`);
+        result.matches.push(toMatch("kosher", "kosher", hit, reason));
+      }
+    }
+
+    // Meat and milk together, only when both are actual ingredients
+    const definite = (hits: TermHit[]) =>
+      hits.find((hit) => !hit.possible && !hit.entry.trace);
+    const meat = definite(matchGroup(entries, DIET_GROUPS.meat, ["ingredients"]));
+    const milk = definite(matchGroup(entries, ALLERGEN_GROUPS.milk, ["ingredients"]));
+
+    if (meat && milk) {
+      result.matches.push({
+        rule: "kosher",
+        concern: "meat_and_milk",
+        severity: "avoid",
+        source: "ingredients",
+        entry: `${meat.entry.entry}; ${milk.entry.entry}`,
+        token: `${meat.token} + ${milk.token}`,
+        synonym: `${meat.synonym} + ${milk.synonym}`,
+        reason: say(
+          `Contains both meat and dairy (${meat.token}, ${milk.token})`,
+          `מכיל בשר וחלב יחד (${meat.token}, ${milk.token})`
+        ),
+      });
+    }
+
+    if (!hasLabel(labels, KOSHER_LABELS)) {
+      result.matches.push({
+        rule: "kosher",
+        concern: "kosher",
+        severity: "caution",
+        source: "labels",
+        reason: say("No kosher certification on the label", "לא נמצא סימון כשרות"),
+      });
+    }
+  }
+}
+
+function toMatch(
+  rule: CompatibilityMatch["rule"],
+  concern: string,
+  hit: TermHit,
+  reason: string
+): CompatibilityMatch {
+  const uncertain =
+    hit.possible || hit.entry.trace || hit.entry.source === "name";
+
+  return {
+    rule,
+    concern,
+    severity: uncertain ? "caution" : "avoid",
+    source: hit.entry.source,
+    entry: hit.entry.entry,
+    token: hit.token,
+    synonym: hit.synonym,
+    trace: hit.entry.trace || undefined,
+    reason,
+  };
+}
+
+function describe(
+  hit: TermHit,
+  label: string,
+  say: (english: string, hebrew: string) => string
+): string {
+  if (hit.entry.source === "name") {
+    return say(`Product name mentions ${hit.token}`, `שם המוצר מזכיר ${hit.token}`);
+  }
+  if (hit.entry.trace) {
+    return say(`May contain traces of ${label}`, `עלול להכיל עקבות של ${label}`);
+  }
+  if (hit.possible) {
+    return say(`${hit.token} may come from ${label}`, `${hit.token} עשוי להכיל ${label}`);
+  }
+  if (hit.entry.source === "allergens" || hit.token === label) {
+    return say(`Contains ${label}`, `מכיל ${label}`);
+  }
+  return say(`Contains ${hit.token} (${label})`, `מכיל ${hit.token} (${label})`);
+}
+
+/**
+ * Split the product into matchable entries. Ingredient lists are split on
+ * commas upstream, so once a "may contain" marker appears every following
+ * entry is treated as a trace, as is everything in the traces declaration.
+ */
+function collectEntries(product: ProductData): ProductEntry[] {
+  const entries: ProductEntry[] = [];
+  let inTraces = false;
+
+  for (const ingredient of product.ingredients || []) {
+    const text = stripNegations(normalizeText(ingredient));
+    const marker = findTraceMarker(text);
+
+    if (marker >= 0) {
+      if (marker > 0) {
+        entries.push({
+          source: "ingredients",
+          entry: ingredient,
+          text: text.slice(0, marker),
+          trace: inTraces,
+        });
+      }
+      entries.push({
+        source: "ingredients",
+        entry: ingredient,
+        text: text.slice(marker),
+        trace: true,
+      });
+      inTraces = true;
+    } else if (text) {
+      entries.push({
+        source: "ingredients",
+        entry: ingredient,
+        text,
+        trace: inTraces,
+      });
+    }
+  }
+
+  for (const allergen of product.allergens || []) {
+    const text = stripNegations(normalizeText(allergen));
+    if (text) {
+      entries.push({
+        source: "allergens",
+        entry: allergen,
+        text,
+        trace: findTraceMarker(text) >= 0,
+      });
+    }
+  }
+
+  // The separate "may contain" declaration; older snapshots don't have one
+  for (const trace of product.traces || []) {
+    const text = stripNegations(normalizeText(trace));
+    if (text) {
+      entries.push({ source: "allergens", entry: trace, text, trace: true });
+    }
+  }
+
+  if (product.name) {
+    entries.push({
+      source: "name",
+      entry: product.name,
+      text: stripNegations(normalizeText(product.name)),
+      trace: false,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * One hit per entry: the longest matching term wins, so "soy lecithin" is
+ * reported rather than "soy". Name hits are dropped when the ingredients or
+ * allergen declaration already cover the group.
+ */
+function matchGroup(
+  entries: ProductEntry[],
+  group: TermGroup,
+  sources: CompatibilitySource[]
+): TermHit[] {
+  const terms = byLength(group.terms);
+  const possible = byLength(group.possible || []);
+  const hits: TermHit[] = [];
+
+  for (const entry of entries) {
+    if (!sources.includes(entry.source)) continue;
+    if (entry.source === "name" && hits.length) continue;
+
+    let text = entry.text;
+    for (const exclude of group.excludes || []) {
+      text = text.replace(termPattern(exclude), (m) => " ".repeat(m.length));
+    }
+
+    const definite = findFirstTerm(text, terms);
+    if (definite) {
+      hits.push({ entry, ...definite, possible: false });
+      continue;
+    }
+
+    const maybe = findFirstTerm(text, possible);
+    if (maybe) {
+      hits.push({ entry, ...maybe, possible: true });
+    }
+  }
+
+  return hits;
+}
+
+function resolveAllergies(allergies: string[]): {
+  groups: AllergenGroup[];
+  unmapped: string[];
+} {
+  const groups = new Set<AllergenGroup>();
+  const unmapped: string[] = [];
+
+  for (const allergy of allergies) {
+    const text = normalizeText(allergy);
+    if (!text || NONE_ANSWERS.includes(text)) continue;
+
+    const found = findAllergenGroups(text, false);
+    if (found.length) {
+      found.forEach((group) => groups.add(group));
+    } else if (!unmapped.includes(text)) {
+      unmapped.push(text);
+    }
+  }
+
+  return { groups: [...groups], unmapped };
+}
+
+/**
+ * Map the user's wording to allergen groups, exact answers first and then
+ * free text such as "allergic to peanuts" or "רגישות ללקטוז"
+ */
+function findAllergenGroups(text: string, exactOnly: boolean): AllergenGroup[] {
+  const all = Object.entries(ALLERGEN_GROUPS) as [
+    AllergenGroup,
+    (typeof ALLERGEN_GROUPS)[AllergenGroup]
+  ][];
+  const words = (definition: (typeof ALLERGEN_GROUPS)[AllergenGroup]) => [
+    ...definition.aliases,
+    ...definition.terms,
+    definition.label.english,
+    definition.label.hebrew,
+  ];
+
+  const exact = all
+    .filter(([, definition]) => words(definition).some((w) => normalizeText(w) === text))
+    .map(([group]) => group);
+
+  if (exact.length || exactOnly) {
+    return exact;
+  }
+
+  return all
+    .filter(([, definition]) => findFirstTerm(text, words(definition)))
+    .map(([group]) => group);
+}
+
+function resolveDietStyles(style: string | null | undefined): DietStyle[] {
+  const text = normalizeText(style || "");
+  if (!text) {
+    return [];
+  }
+
+  return (Object.keys(DIETS) as DietStyle[]).filter((diet) =>
+    findFirstTerm(text, DIETS[diet].aliases)
+  );
+}
+
+function hasLabel(labels: string[], candidates: string[]): boolean {
+  return labels.some((label) => findFirstTerm(label, candidates));
+}
+
+function findTraceMarker(text: string): number {
+  let first = -1;
+  for (const marker of TRACE_MARKERS) {
+    const pattern = termPattern(marker);
+    pattern.lastIndex = 0;
+    const match = pattern.exec(text);
+    if (match && (first < 0 || match.index < first)) {
+      first = match.index;
+    }
+  }
+  return first;
+}
+
+function findFirstTerm(
+  text: string,
+  terms: string[]
+): { token: string; synonym: string } | null {
+  for (const term of terms) {
+    const pattern = termPattern(term);
+    pattern.lastIndex = 0;
+    const match = pattern.exec(text);
+    if (match) {
+      return { token: match[0].trim(), synonym: term };
+    }
+  }
+  return null;
+}
+
+function byLength(terms: string[]): string[] {
+  return [...terms].sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Whole-word pattern for a table term. English terms also match their plural;
+ * Hebrew terms allow up to two attached prefix letters (ו, ה, ב, כ, ל, מ, ש).
+ */
+function termPattern(term: string): RegExp {
+  let pattern = patternCache.get(term);
+  if (!pattern) {
+    const escaped = normalizeText(term).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const source = new RegExp(`[${HEBREW_LETTER}]`).test(escaped)
+      ? `(?<![${HEBREW_LETTER}'])[${HEBREW_PREFIXES}]{0,2}${escaped}(?![${HEBREW_LETTER}'])`
+      : `(?<![a-z0-9])${escaped}(?:e?s)?(?![a-z0-9])`;
+    pattern = new RegExp(source, "g");
+    patternCache.set(term, pattern);
+  }
+  return pattern;
+}
+
+function stripNegations(text: string): string {
+  return NEGATION_PATTERNS.reduce(
+    (result, pattern) => result.replace(pattern, (m) => " ".repeat(m.length)),
+    text
+  );
+}
+
+/**
+ * Lower-case, drop accents and niqqud, remove OpenFoodFacts language prefixes
+ * ("en:milk") and reduce punctuation to single spaces
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/\u05BE/g, " ")
+    .replace(/[\u0300-\u036F\u0591-\u05C7]/g, "")
+    .toLowerCase()
+    .replace(/[\u2018\u2019`\u05F3]/g, "'")
+    .replace(/["\u05F4]/g, "")
+    .replace(/(^|[^a-z])[a-z]{2}:/g, "$1 ")
+    .replace(/[^a-z0-9\u05D0-\u05EA']+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,285 @@
+import { AllergenGroup } from "../../types/products";
+
+export interface TermGroup {
+  // Words that mean this group is in the product
+  terms: string[];
+  // Words that often, but not always, mean it; reported as caution
+  possible?: string[];
+  // Phrases that contain a term without meaning it, e.g. "coconut milk"
+  excludes?: string[];
+}
+
+export interface AllergenDefinition extends TermGroup {
+  label: { english: string; hebrew: string };
+  // How users describe the allergy in the questionnaire, on top of the terms
+  aliases: string[];
+}
+
+/**
+ * Allergen synonym tables. Terms are matched as whole words after
+ * normalisation; English plurals and Hebrew one-letter prefixes (ו, ה, ב...)
+ * are handled by the matcher, so list only the base forms and Hebrew plurals.
+ */
+export const ALLERGEN_GROUPS: Record<AllergenGroup, AllergenDefinition> = {
+  milk: {
+    label: { english: "milk", hebrew: "חלב" },
+    aliases: ["dairy", "lactose intolerance", "מוצרי חלב", "אי סבילות ללקטוז"],
+    terms: [
+      "milk", "dairy", "lactose", "whey", "casein", "caseinate", "sodium caseinate",
+      "lactalbumin", "lactoglobulin", "butter", "buttermilk", "butterfat", "butter oil",
+      "cream", "sour cream", "cheese", "yogurt", "yoghurt", "kefir", "ghee", "curd",
+      "milk powder", "skimmed milk", "milk solids", "milk protein", "lactoserum",
+      "ricotta", "mozzarella", "parmesan", "paneer", "quark", "custard",
+      "חלב", "חלבי", "לקטוז", "מי גבינה", "קזאין", "קזאינט", "חמאה", "שמנת",
+      "גבינה", "גבינות", "יוגורט", "לבנה", "קפיר", "אבקת חלב", "חלבון חלב",
+      "מוצקי חלב", "ריקוטה", "מוצרלה", "פרמזן", "רפרפת",
+    ],
+    excludes: [
+      "non dairy", "coconut milk", "coconut cream", "almond milk", "soy milk", "soya milk",
+      "oat milk", "rice milk", "cocoa butter", "peanut butter", "shea butter",
+      "nut butter", "almond butter", "cream of tartar",
+      "חלב קוקוס", "שמנת קוקוס", "חלב שקדים", "חלב סויה", "חלב שיבולת שועל",
+      "חמאת בוטנים", "חמאת קקאו", "חמאת שקדים", "לבן ביצה",
+    ],
+  },
+  eggs: {
+    label: { english: "eggs", hebrew: "ביצים" },
+    aliases: [],
+    terms: [
+      "egg", "egg white", "egg yolk", "whole egg", "egg powder", "albumen",
+      "ovalbumin", "ovomucoid", "lysozyme", "mayonnaise", "meringue",
+      "ביצה", "ביצים", "חלבון ביצה", "חלמון", "חלמונים", "אבקת ביצים", "מיונז",
+      "מרנג", "לבן ביצה",
+    ],
+  },
+  peanuts: {
+    label: { english: "peanuts", hebrew: "בוטנים" },
+    aliases: ["nut", "nuts", "אגוז", "אגוזים"],
+    terms: [
+      "peanut", "peanuts", "groundnut", "arachis", "arachis oil", "monkey nut",
+      "בוטן", "בוטנים", "חמאת בוטנים", "שמן בוטנים",
+    ],
+  },
+  tree_nuts: {
+    label: { english: "tree nuts", hebrew: "אגוזים" },
+    aliases: ["tree nut", "אגוזי עץ"],
+    terms: [
+      "nut", "nuts", "tree nut", "almond", "hazelnut", "walnut", "cashew",
+      "pistachio", "pecan", "macadamia", "brazil nut", "pine nut", "praline",
+      "marzipan", "gianduja", "nougat", "filbert",
+      "אגוז", "אגוזים", "שקד", "שקדים", "אגוזי לוז", "אגוז לוז", "אגוזי מלך",
+      "קשיו", "פיסטוק", "פקאן", "מקדמיה", "אגוזי ברזיל", "צנובר", "צנוברים",
+      "פרלין", "מרציפן", "נוגט",
+    ],
+    excludes: ["coconut", "nutmeg", "butternut", "אגוז מוסקט", "קוקוס"],
+  },
+  gluten: {
+    label: { english: "gluten", hebrew: "גלוטן" },
+    aliases: ["celiac", "coeliac", "צליאק", "צליאקיה", "wheat allergy"],
+    terms: [
+      "gluten", "wheat", "wheat flour", "barley", "rye", "spelt", "kamut", "durum",
+      "semolina", "triticale", "malt", "malt extract", "bulgur", "couscous",
+      "seitan", "farina", "breadcrumbs", "wheat starch",
+      "גלוטן", "חיטה", "חיטים", "קמח חיטה", "שעורה", "שעורים", "שיפון", "כוסמין",
+      "סולת", "מאלט", "לתת", "בורגול", "קוסקוס", "פירורי לחם", "עמילן חיטה",
+    ],
+    possible: ["oat", "oats", "starch", "modified starch", "flour", "שיבולת שועל", "עמילן", "קמח"],
+    excludes: [
+      "buckwheat", "rice flour", "corn flour", "almond flour", "chickpea flour",
+      "coconut flour", "corn starch", "potato starch", "tapioca starch", "rice starch",
+      "כוסמת", "קמח אורז", "קמח תירס", "קמח שקדים", "קמח חומוס", "עמילן תירס",
+      "עמילן תפוחי אדמה",
+    ],
+  },
+  soy: {
+    label: { english: "soy", hebrew: "סויה" },
+    aliases: ["soya"],
+    terms: [
+      "soy", "soya", "soybean", "soybeans", "soy lecithin", "soya lecithin",
+      "soy protein", "soy sauce", "tofu", "edamame", "miso", "tempeh", "natto",
+      "סויה", "פולי סויה", "לציטין סויה", "חלבון סויה", "רוטב סויה", "טופו",
+      "אדממה", "מיסו", "טמפה",
+    ],
+    possible: ["lecithin", "vegetable protein", "לציטין", "חלבון צמחי"],
+  },
+  fish: {
+    label: { english: "fish", hebrew: "דגים" },
+    aliases: [],
+    terms: [
+      "fish", "fish oil", "fish sauce", "anchovy", "anchovies", "cod", "salmon",
+      "tuna", "sardine", "mackerel", "herring", "tilapia", "hake", "trout", "haddock",
+      "pollock", "surimi",
+      "דג", "דגים", "שמן דגים", "רוטב דגים", "אנשובי", "טונה", "סלמון", "סרדין",
+      "סרדינים", "מקרל", "הרינג", "מטיאס", "אמנון", "טרוטה", "בקלה",
+    ],
+  },
+  shellfish: {
+    label: { english: "shellfish", hebrew: "פירות ים" },
+    aliases: ["seafood", "crustaceans", "molluscs", "mollusks"],
+    terms: [
+      "shellfish", "crustacean", "crustaceans", "mollusc", "molluscs", "mollusk",
+      "shrimp", "prawn", "crab", "lobster", "crayfish", "langoustine", "krill",
+      "mussel", "oyster", "clam", "scallop", "squid", "calamari", "octopus", "snail",
+      "פירות ים", "רכיכות", "סרטנים", "שרימפס", "חסילון", "חסילונים", "לובסטר",
+      "מולים", "צדפות", "צדפה", "קלמרי", "דיונון", "תמנון", "שבלול", "שבלולים",
+    ],
+  },
+  sesame: {
+    label: { english: "sesame", hebrew: "שומשום" },
+    aliases: [],
+    terms: [
+      "sesame", "sesame seeds", "sesame oil", "tahini", "tahina", "halva", "halvah",
+      "gomasio",
+      "שומשום", "שמן שומשום", "טחינה", "חלבה",
+    ],
+  },
+  mustard: {
+    label: { english: "mustard", hebrew: "חרדל" },
+    aliases: [],
+    terms: ["mustard", "mustard seed", "mustard flour", "חרדל", "זרעי חרדל"],
+  },
+  celery: {
+    label: { english: "celery", hebrew: "סלרי" },
+    aliases: [],
+    terms: ["celery", "celeriac", "celery salt", "celery seed", "סלרי", "כרפס"],
+  },
+  lupin: {
+    label: { english: "lupin", hebrew: "תורמוס" },
+    aliases: ["lupine"],
+    terms: ["lupin", "lupine", "lupin flour", "תורמוס", "קמח תורמוס"],
+  },
+  sulphites: {
+    label: { english: "sulphites", hebrew: "סולפיטים" },
+    aliases: ["sulfites", "sulfite", "sulphite"],
+    terms: [
+      "sulphite", "sulfite", "sulphites", "sulfites", "sulphur dioxide",
+      "sulfur dioxide", "sulphur dioxide and sulphites", "metabisulphite",
+      "metabisulfite", "bisulphite", "bisulfite",
+      "e220", "e221", "e222", "e223", "e224", "e225", "e226", "e227", "e228",
+      "סולפיט", "סולפיטים", "גופרית דו חמצנית", "מטאביסולפיט",
+    ],
+  },
+};
+
+export type DietGroup = "meat" | "pork" | "bee" | "animal_other" | "non_kosher_fish";
+
+// Ingredient groups used by the diet and kosher rules, alongside the allergen groups
+export const DIET_GROUPS: Record<DietGroup, TermGroup> = {
+  meat: {
+    terms: [
+      "meat", "beef", "pork", "veal", "lamb", "mutton", "chicken", "turkey", "duck",
+      "goose", "poultry", "bacon", "ham", "lard", "tallow", "suet", "gelatin",
+      "gelatine", "salami", "pepperoni", "sausage", "chorizo", "pastrami", "prosciutto",
+      "meat extract", "beef extract", "chicken broth", "beef stock", "bone broth",
+      "animal fat", "collagen", "e441",
+      "בשר", "בקר", "חזיר", "עגל", "טלה", "כבש", "עוף", "עופות", "הודו", "ברווז",
+      "אווז", "בייקון", "שומן חזיר", "שומן מן החי", "שומן בקר", "ג'לטין", "ג'לטינה",
+      "סלמי", "פפרוני", "נקניק", "נקניקיות", "נקניקייה", "פסטרמה", "ציר עוף",
+      "ציר בקר", "תמצית בשר", "קולגן",
+    ],
+    possible: ["rennet", "animal rennet", "natural flavour", "natural flavor", "מחמצת", "רנט"],
+    excludes: ["vegetable gelatin", "plant based meat", "בשר צמחי"],
+  },
+  pork: {
+    terms: [
+      "pork", "ham", "bacon", "lard", "prosciutto", "pancetta", "chorizo",
+      "pork gelatin", "pork fat",
+      "חזיר", "בשר חזיר", "שומן חזיר", "ג'לטין חזיר", "בייקון", "פרושוטו",
+    ],
+    possible: ["gelatin", "gelatine", "e441", "ג'לטין", "ג'לטינה"],
+  },
+  bee: {
+    terms: [
+      "honey", "beeswax", "royal jelly", "propolis", "bee pollen", "e901",
+      "דבש", "שעוות דבורים", "מזון מלכות", "פרופוליס",
+    ],
+  },
+  animal_other: {
+    terms: [
+      "carmine", "cochineal", "e120", "shellac", "e904", "lanolin", "isinglass",
+      "קרמין", "שלאק", "לנולין",
+    ],
+    possible: ["vitamin d3", "l cysteine", "e920", "ויטמין d3"],
+  },
+  non_kosher_fish: {
+    terms: [
+      "catfish", "eel", "shark", "swordfish", "monkfish", "sturgeon",
+      "שפמנון", "צלופח", "כריש", "דג חרב",
+    ],
+  },
+};
+
+export type DietStyle = "vegan" | "vegetarian" | "pescatarian" | "gluten_free" | "dairy_free";
+
+export interface DietDefinition {
+  label: { english: string; hebrew: string };
+  // Questionnaire answers meaning this diet
+  aliases: string[];
+  excludedAllergens: AllergenGroup[];
+  excludedGroups: DietGroup[];
+  // Product labels that certify the diet
+  certifyingLabels: string[];
+}
+
+export const DIETS: Record<DietStyle, DietDefinition> = {
+  vegan: {
+    label: { english: "vegan", hebrew: "טבעונית" },
+    aliases: ["vegan", "plant based", "טבעוני", "טבעונית", "טבעונות"],
+    excludedAllergens: ["milk", "eggs", "fish", "shellfish"],
+    excludedGroups: ["meat", "bee", "animal_other"],
+    certifyingLabels: ["vegan", "טבעוני", "מתאים לטבעונים"],
+  },
+  vegetarian: {
+    label: { english: "vegetarian", hebrew: "צמחונית" },
+    aliases: ["vegetarian", "lacto ovo vegetarian", "צמחוני", "צמחונית", "צמחונות"],
+    excludedAllergens: ["fish", "shellfish"],
+    excludedGroups: ["meat", "animal_other"],
+    certifyingLabels: ["vegetarian", "vegan", "צמחוני", "טבעוני", "מתאים לצמחונים"],
+  },
+  pescatarian: {
+    label: { english: "pescatarian", hebrew: "פסקטריאנית" },
+    aliases: ["pescatarian", "pescetarian", "פסקטריאני", "פסקטריאנית", "צמחוני דגים"],
+    excludedAllergens: [],
+    excludedGroups: ["meat"],
+    certifyingLabels: ["vegetarian", "vegan", "צמחוני", "טבעוני"],
+  },
+  gluten_free: {
+    label: { english: "gluten-free", hebrew: "ללא גלוטן" },
+    aliases: ["gluten free", "ללא גלוטן", "נטול גלוטן"],
+    excludedAllergens: ["gluten"],
+    excludedGroups: [],
+    certifyingLabels: ["gluten free", "no gluten", "ללא גלוטן", "נטול גלוטן"],
+  },
+  dairy_free: {
+    label: { english: "dairy-free", hebrew: "ללא חלב" },
+    aliases: ["dairy free", "lactose free", "ללא חלב", "ללא לקטוז", "ללא מוצרי חלב"],
+    excludedAllergens: ["milk"],
+    excludedGroups: [],
+    certifyingLabels: ["dairy free", "no milk", "no lactose", "lactose free", "ללא חלב", "ללא לקטוז", "פרווה", "parve", "pareve"],
+  },
+};
+
+export const KOSHER_LABELS = [
+  "kosher", "kosher parve", "kosher dairy", "kosher meat", "parve", "pareve",
+  "mehadrin", "badatz", "hechsher", "ou kosher",
+  "כשר", "כשרות", "כשר פרווה", "כשר חלבי", "כשר למהדרין", "מהדרין", "בדץ",
+  "פרווה", "הרבנות", "רבנות",
+];
+
+// Everything after one of these in an ingredient list is a cross-contact warning
+export const TRACE_MARKERS = [
+  "may contain", "may also contain", "traces of", "trace of", "traces",
+  "produced in a facility", "manufactured in a facility", "made on equipment",
+  "מכיל עקבות", "עלול להכיל", "עשוי להכיל", "עקבות של", "עקבות",
+  "מיוצר במפעל", "מיוצר בקו",
+];
+
+// Wording that negates the term next to it, e.g. "gluten free", "ללא סוכר"
+export const NEGATION_PATTERNS = [
+  /[a-z]+ free(?![a-z])/g,
+  /(?<![a-z])(?:free from|without|no) [a-z]+/g,
+  /(?<![\u05D0-\u05EA])(?:ללא|נטול|נטולת|נטולי|בלי) (?:תוספת )?[\u05D0-\u05EA']+/g,
+];
+
+// Questionnaire answers that mean "nothing to check"
+export const NONE_ANSWERS = ["none", "no", "nothing", "n a", "אין", "ללא", "לא", "כלום"];
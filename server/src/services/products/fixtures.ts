@@ -0,0 +1,52 @@
+import fs from "fs";
+import { ProductData, ProductProvider } from "../../types/products";
+
+/**
+ * Serves products from a local JSON file keyed by barcode. Used for offline
+ * development and for exercising the catalog without network access.
+ * Enabled by pointing PRODUCT_FIXTURES_PATH at a file like:
+ *   { "7290000000001": { "name": "...", "category": "...", "nutrition_per_100g": {...}, ... } }
+ */
+export class FixtureProductProvider implements ProductProvider {
+  readonly id = "fixtures";
+  readonly displayName = "Local fixtures";
+
+  private products: Record<string, ProductData> | null;
+
+  constructor(
+    products?: Record<string, ProductData>,
+    private readonly filePath: string | undefined = process.env.PRODUCT_FIXTURES_PATH
+  ) {
+    this.products = products || null;
+  }
+
+  isEnabled(): boolean {
+    return !!this.products || !!this.filePath;
+  }
+
+  async lookupBarcode(barcode: string): Promise<ProductData | null> {
+    const product = this.load()[barcode];
+    if (!product) {
+      return null;
+    }
+
+    // Fixture files may leave out the list fields
+    return {
+      ...product,
+      ingredients: product.ingredients || [],
+      allergens: product.allergens || [],
+      traces: product.traces || [],
+      labels: product.labels || [],
+      barcode,
+    };
+  }
+
+  private load(): Record<string, ProductData> {
+    if (!this.products) {
+      this.products = this.filePath
+        ? JSON.parse(fs.readFileSync(this.filePath, "utf8"))
+        : {};
+    }
+    return this.products!;
+  }
+}
@@ -0,0 +1,176 @@
+import fs from "fs";
+import readline from "readline";
+import zlib from "zlib";
+import { prisma } from "../../lib/database";
+import { ProductCatalogService } from "./catalog";
+import { mapOpenFoodFactsProduct } from "./openFoodFacts";
+import {
+  ProductData,
+  ProductDumpFormat,
+  ProductImportOptions,
+  ProductImportResult,
+} from "../../types/products";
+import { parseDelimitedLine } from "../../utils/csv";
+
+const DEFAULT_BATCH_SIZE = 500;
+const BARCODE_PATTERN = /^\d{8,14}$/;
+
+// Columns of the OpenFoodFacts CSV export that hold comma separated tag lists
+const TAG_COLUMNS: Record<string, string[]> = {
+  allergens_tags: ["allergens_tags", "allergens"],
+  traces_tags: ["traces_tags", "traces"],
+  labels_tags: ["labels_tags", "labels"],
+};
+
+export class ProductImportService {
+  /**
+   * Stream an OpenFoodFacts dump (JSONL or CSV/TSV, optionally gzipped) into
+   * FoodProduct. Existing rows are updated in place, and barcodes present in the
+   * dump are dropped from the negative cache.
+   */
+  static async importFile(
+    filePath: string,
+    options: ProductImportOptions = {}
+  ): Promise<ProductImportResult> {
+    const format = options.format || this.detectFormat(filePath);
+    const source = options.source || "openfoodfacts";
+    const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+    const result: ProductImportResult = { read: 0, imported: 0, skipped: 0, failed: 0 };
+
+    console.log(`📦 Importing ${format.toUpperCase()} product dump:`, filePath);
+
+    let input: NodeJS.ReadableStream = fs.createReadStream(filePath);
+    if (filePath.endsWith(".gz")) {
+      input = input.pipe(zlib.createGunzip());
+    }
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+    let header: string[] | null = null;
+    let delimiter = ",";
+    let batch: { product: ProductData; fetchedAt: Date }[] = [];
+
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+
+      if (format === "csv" && !header) {
+        delimiter = line.includes("\t") ? "\t" : ",";
+        header = parseDelimitedLine(line, delimiter);
+        continue;
+      }
+
+      result.read++;
+
+      let record: any;
+      try {
+        record =
+          format === "jsonl"
+            ? JSON.parse(line)
+            : this.csvRowToRecord(header!, parseDelimitedLine(line, delimiter));
+      } catch {
+        result.skipped++;
+        continue;
+      }
+
+      const barcode = String(record?.code || "").trim();
+      const product = BARCODE_PATTERN.test(barcode)
+        ? mapOpenFoodFactsProduct(record, barcode)
+        : null;
+
+      if (!product) {
+        result.skipped++;
+        continue;
+      }
+
+      const modified = Number(record.last_modified_t);
+      batch.push({
+        product,
+        fetchedAt: modified > 0 ? new Date(modified * 1000) : new Date(),
+      });
+
+      if (batch.length >= batchSize) {
+        await this.flush(batch, source, result);
+        batch = [];
+        console.log(`📦 ${result.imported} products imported so far`);
+      }
+
+      if (options.limit && result.imported + batch.length >= options.limit) {
+        break;
+      }
+    }
+
+    if (batch.length > 0) {
+      await this.flush(batch, source, result);
+    }
+
+    console.log("✅ Product import finished:", result);
+    return result;
+  }
+
+  private static async flush(
+    batch: { product: ProductData; fetchedAt: Date }[],
+    source: string,
+    result: ProductImportResult
+  ) {
+    // Dumps can repeat a barcode; the last occurrence wins
+    const unique = new Map(batch.map((entry) => [entry.product.barcode!, entry]));
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        for (const [barcode, { product, fetchedAt }] of unique) {
+          await ProductCatalogService.saveProduct(
+            product,
+            { barcode, source, fetchedAt },
+            tx
+          );
+        }
+
+        await tx.productLookupMiss.deleteMany({
+          where: { barcode: { in: Array.from(unique.keys()) } },
+        });
+      });
+
+      result.imported += unique.size;
+      result.skipped += batch.length - unique.size;
+    } catch (error) {
+      console.error("💥 Failed to import product batch:", error);
+      result.failed += batch.length;
+    }
+  }
+
+  private static detectFormat(filePath: string): ProductDumpFormat {
+    const name = filePath.replace(/\.gz$/, "").toLowerCase();
+    if (name.endsWith(".jsonl") || name.endsWith(".json") || name.endsWith(".ndjson")) {
+      return "jsonl";
+    }
+    if (name.endsWith(".csv") || name.endsWith(".tsv")) {
+      return "csv";
+    }
+    throw new Error("Cannot detect dump format, pass it explicitly (jsonl or csv)");
+  }
+
+  /**
+   * Convert a CSV export row into the JSON product shape: *_100g columns become
+   * nutriments and tag columns become arrays
+   */
+  private static csvRowToRecord(header: string[], values: string[]): any {
+    const row: Record<string, string> = {};
+    header.forEach((column, index) => {
+      row[column] = values[index] ?? "";
+    });
+
+    const nutriments: Record<string, string> = {};
+    for (const [column, value] of Object.entries(row)) {
+      if (column.endsWith("_100g") && value !== "") {
+        nutriments[column] = value;
+      }
+    }
+
+    const record: any = { ...row, nutriments };
+    for (const [target, columns] of Object.entries(TAG_COLUMNS)) {
+      const column = columns.find((name) => row[name]);
+      record[target] = column ? row[column].split(",").map((tag) => tag.trim()) : [];
+    }
+
+    return record;
+  }
+}
@@ -0,0 +1,40 @@
+import { ProductProvider } from "../../types/products";
+import { FixtureProductProvider } from "./fixtures";
+import { OpenFoodFactsProvider } from "./openFoodFacts";
+import { UsdaFoodDataProvider } from "./usda";
+
+// Lookup order when PRODUCT_PROVIDERS is not set
+const DEFAULT_PROVIDER_ORDER = ["fixtures", "openfoodfacts", "usda"];
+
+export class ProductProviderRegistry {
+  private static providers = new Map<string, ProductProvider>();
+
+  static register(provider: ProductProvider) {
+    this.providers.set(provider.id, provider);
+  }
+
+  static get(id: string): ProductProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  /**
+   * Enabled providers in lookup order, configurable as a comma separated
+   * PRODUCT_PROVIDERS list (e.g. "openfoodfacts,usda")
+   */
+  static enabled(): ProductProvider[] {
+    const order = process.env.PRODUCT_PROVIDERS
+      ? process.env.PRODUCT_PROVIDERS.split(",").map((id) => id.trim())
+      : DEFAULT_PROVIDER_ORDER;
+
+    return order
+      .map((id) => this.providers.get(id))
+      .filter(
+        (provider): provider is ProductProvider =>
+          !!provider && provider.isEnabled()
+      );
+  }
+}
+
+ProductProviderRegistry.register(new FixtureProductProvider());
+ProductProviderRegistry.register(new OpenFoodFactsProvider());
+ProductProviderRegistry.register(new UsdaFoodDataProvider());
@@ -0,0 +1,126 @@
+import axios, { AxiosInstance } from "axios";
+import { ProductData, ProductProvider } from "../../types/products";
+
+const DEFAULT_BASE_URL = "https://world.openfoodfacts.org";
+
+// OpenFoodFacts reports every nutrient in grams per 100g
+const G_TO_MG = 1000;
+const G_TO_UG = 1000000;
+const KJ_PER_KCAL = 4.184;
+
+/**
+ * Map an OpenFoodFacts product record to ProductData. The API and the JSONL
+ * dump share the same shape; CSV rows are converted to it by the importer.
+ * Returns null for records without a usable name or any nutrition.
+ */
+export function mapOpenFoodFactsProduct(
+  product: any,
+  barcode: string = product?.code
+): ProductData | null {
+  if (!product || !barcode) {
+    return null;
+  }
+
+  const nutriments = product.nutriments || {};
+  const number = (key: string): number | undefined => {
+    const value = nutriments[key];
+    if (value === undefined || value === null || value === "") return undefined;
+    const parsed = Number(value);
+    return isNaN(parsed) ? undefined : parsed;
+  };
+  const scaled = (key: string, factor: number) => {
+    const value = number(key);
+    return value === undefined ? undefined : Math.round(value * factor * 100) / 100;
+  };
+  const stripLanguage = (tags: any) =>
+    (Array.isArray(tags) ? tags : [])
+      .filter(Boolean)
+      .map((tag: string) => tag.replace(/^[a-z]{2}:/, ""));
+
+  const energyKj = number("energy-kj_100g") ?? number("energy_100g");
+  const calories =
+    number("energy-kcal_100g") ??
+    (energyKj !== undefined ? Math.round(energyKj / KJ_PER_KCAL) : undefined);
+
+  const name =
+    product.product_name ||
+    product.product_name_en ||
+    product.product_name_he ||
+    product.generic_name;
+
+  if (!name && calories === undefined) {
+    return null;
+  }
+
+  const ingredientsText =
+    product.ingredients_text_en || product.ingredients_text || "";
+
+  return {
+    barcode,
+    name: name || "Unknown Product",
+    brand: product.brands?.split(",")[0]?.trim() || undefined,
+    category: product.categories?.split(",")[0]?.trim() || "Unknown",
+    nutrition_per_100g: {
+      calories: calories || 0,
+      protein: number("proteins_100g") || 0,
+      carbs: number("carbohydrates_100g") || 0,
+      fat: number("fat_100g") || 0,
+      fiber: number("fiber_100g"),
+      sugar: number("sugars_100g"),
+      sodium: scaled("sodium_100g", G_TO_MG),
+      saturated_fat: number("saturated-fat_100g"),
+      trans_fat: number("trans-fat_100g"),
+      cholesterol: scaled("cholesterol_100g", G_TO_MG),
+      potassium: scaled("potassium_100g", G_TO_MG),
+      calcium: scaled("calcium_100g", G_TO_MG),
+      iron: scaled("iron_100g", G_TO_MG),
+      vitamin_c: scaled("vitamin-c_100g", G_TO_MG),
+      vitamin_d: scaled("vitamin-d_100g", G_TO_UG),
+    },
+    ingredients: ingredientsText
+      ? ingredientsText
+          .split(",")
+          .map((i: string) => i.trim())
+          .filter(Boolean)
+      : [],
+    allergens: stripLanguage(product.allergens_tags),
+    traces: stripLanguage(product.traces_tags),
+    labels: stripLanguage(product.labels_tags),
+    health_score:
+      product.nutriscore_score !== undefined && product.nutriscore_score !== ""
+        ? Number(product.nutriscore_score)
+        : undefined,
+    image_url: product.image_url || undefined,
+    serving_size: product.serving_size || undefined,
+    servings_per_container: product.servings_per_container
+      ? Number(product.servings_per_container)
+      : undefined,
+  };
+}
+
+export class OpenFoodFactsProvider implements ProductProvider {
+  readonly id = "openfoodfacts";
+  readonly displayName = "Open Food Facts";
+
+  constructor(
+    private readonly http: AxiosInstance = axios.create({ timeout: 5000 }),
+    private readonly baseUrl: string = process.env.OPENFOODFACTS_BASE_URL ||
+      DEFAULT_BASE_URL
+  ) {}
+
+  isEnabled(): boolean {
+    return process.env.OPENFOODFACTS_DISABLED !== "true";
+  }
+
+  async lookupBarcode(barcode: string): Promise<ProductData | null> {
+    const response = await this.http.get(
+      `${this.baseUrl}/api/v0/product/${encodeURIComponent(barcode)}.json`
+    );
+
+    if (response.data?.status !== 1 || !response.data.product) {
+      return null;
+    }
+
+    return mapOpenFoodFactsProduct(response.data.product, barcode);
+  }
+}
@@ -0,0 +1,102 @@
+import { UserProductOverride } from "@prisma/client";
+import { prisma } from "../../lib/database";
+import { ProductData, ProductOverrideInput } from "../../types/products";
+
+export class ProductOverrideService {
+  static async getOverride(
+    userId: string,
+    productId: number
+  ): Promise<UserProductOverride | null> {
+    return prisma.userProductOverride.findUnique({
+      where: { user_id_product_id: { user_id: userId, product_id: productId } },
+    });
+  }
+
+  /**
+   * Layer a user's corrections over the shared catalog data
+   */
+  static applyOverride(
+    product: ProductData,
+    override: UserProductOverride | null
+  ): ProductData {
+    if (!override) {
+      return product;
+    }
+
+    return {
+      ...product,
+      name: override.product_name || product.name,
+      brand: override.brand || product.brand,
+      nutrition_per_100g: {
+        ...product.nutrition_per_100g,
+        ...((override.nutrition_per_100g as ProductOverrideInput["nutrition_per_100g"]) || {}),
+      },
+      serving_size: override.serving_size || product.serving_size,
+      servings_per_container:
+        override.servings_per_container ?? product.servings_per_container,
+    };
+  }
+
+  static async setOverride(
+    userId: string,
+    barcode: string,
+    input: ProductOverrideInput
+  ) {
+    try {
+      console.log("✏️ Saving product override:", { userId, barcode });
+
+      const product = await prisma.foodProduct.findUnique({ where: { barcode } });
+      if (!product) {
+        throw new Error("Product not found");
+      }
+
+      const existing = await this.getOverride(userId, product.product_id);
+      const data = {
+        product_name: input.product_name,
+        brand: input.brand,
+        // Corrections accumulate, so a later edit of one nutrient keeps the earlier ones
+        nutrition_per_100g: input.nutrition_per_100g
+          ? {
+              ...((existing?.nutrition_per_100g as object) || {}),
+              ...input.nutrition_per_100g,
+            }
+          : undefined,
+        serving_size: input.serving_size,
+        servings_per_container: input.servings_per_container,
+      };
+
+      return await prisma.userProductOverride.upsert({
+        where: {
+          user_id_product_id: { user_id: userId, product_id: product.product_id },
+        },
+        update: data,
+        create: {
+          ...data,
+          user_id: userId,
+          product_id: product.product_id,
+        },
+      });
+    } catch (error) {
+      console.error("💥 Error saving product override:", error);
+      throw error instanceof Error && error.message === "Product not found"
+        ? error
+        : new Error("Failed to save product override");
+    }
+  }
+
+  static async deleteOverride(userId: string, barcode: string) {
+    try {
+      const product = await prisma.foodProduct.findUnique({ where: { barcode } });
+      if (!product) {
+        return;
+      }
+
+      await prisma.userProductOverride.deleteMany({
+        where: { user_id: userId, product_id: product.product_id },
+      });
+    } catch (error) {
+      console.error("💥 Error deleting product override:", error);
+      throw new Error("Failed to delete product override");
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../../lib/database";
+import {
+  ProductData,
+  ProductScanType,
+  ScanHistoryEntry,
+} from "../../types/products";
+
+const DEFAULT_HISTORY_LIMIT = 50;
+
+export class ScanHistoryService {
+  static async recordScan(input: {
+    userId: string;
+    scanType: ProductScanType;
+    barcode?: string;
+    productId?: number;
+    product?: ProductData;
+  }) {
+    try {
+      return await prisma.productScanEvent.create({
+        data: {
+          user_id: input.userId,
+          scan_type: input.scanType,
+          barcode: input.barcode || input.product?.barcode,
+          product_id: input.productId,
+          found: !!input.product,
+          product_name: input.product?.name,
+          brand: input.product?.brand,
+          category: input.product?.category,
+          product_snapshot: input.product
+            ? (input.product as unknown as Prisma.InputJsonValue)
+            : undefined,
+        },
+      });
+    } catch (error) {
+      // History is best effort and must never fail the scan itself
+      console.error("Error recording scan event:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Attach the meal created from a scan so history shows what was logged
+   */
+  static async linkMeal(userId: string, scanId: string, mealId: number) {
+    await prisma.productScanEvent
+      .updateMany({
+        where: { scan_id: scanId, user_id: userId },
+        data: { meal_id: mealId },
+      })
+      .catch((error) => console.error("Error linking scan to meal:", error));
+  }
+
+  static async getHistory(
+    userId: string,
+    limit: number = DEFAULT_HISTORY_LIMIT
+  ): Promise<ScanHistoryEntry[]> {
+    const events = await prisma.productScanEvent.findMany({
+      where: { user_id: userId, found: true },
+      orderBy: { created_at: "desc" },
+      take: limit,
+    });
+
+    return events.map((event) => ({
+      scan_id: event.scan_id,
+      scan_type: event.scan_type as ProductScanType,
+      found: event.found,
+      barcode: event.barcode || undefined,
+      product_name: event.product_name || undefined,
+      name: event.product_name || undefined,
+      brand: event.brand || undefined,
+      category: event.category || undefined,
+      product: (event.product_snapshot as unknown as ProductData) || undefined,
+      meal_id: event.meal_id ?? undefined,
+      created_at: event.created_at,
+    }));
+  }
+}
@@ -0,0 +1,107 @@
+import axios, { AxiosInstance } from "axios";
+import { ProductData, ProductProvider } from "../../types/products";
+
+const SEARCH_URL = "https://api.nal.usda.gov/fdc/v1/foods/search";
+
+// FoodData Central nutrient numbers; branded food values are per 100g
+const NUTRIENT_NUMBERS = {
+  calories: "208",
+  protein: "203",
+  carbs: "205",
+  fat: "204",
+  fiber: "291",
+  sugar: "269",
+  sodium: "307",
+  saturated_fat: "606",
+  trans_fat: "605",
+  cholesterol: "601",
+  potassium: "306",
+  calcium: "301",
+  iron: "303",
+  vitamin_c: "401",
+  vitamin_d: "328",
+} as const;
+
+/**
+ * USDA FoodData Central branded foods, matched on the GTIN/UPC barcode
+ */
+export class UsdaFoodDataProvider implements ProductProvider {
+  readonly id = "usda";
+  readonly displayName = "USDA FoodData Central";
+
+  constructor(
+    private readonly http: AxiosInstance = axios.create({ timeout: 5000 }),
+    private readonly apiKey: string | undefined = process.env.USDA_FDC_API_KEY
+  ) {}
+
+  isEnabled(): boolean {
+    return !!this.apiKey;
+  }
+
+  async lookupBarcode(barcode: string): Promise<ProductData | null> {
+    const response = await this.http.get(SEARCH_URL, {
+      params: {
+        api_key: this.apiKey,
+        query: barcode,
+        dataType: "Branded",
+        pageSize: 5,
+      },
+    });
+
+    // UPC-A barcodes are often stored with or without the leading zero of EAN-13
+    const normalized = barcode.replace(/^0+/, "");
+    const food = (response.data?.foods || []).find(
+      (item: any) => String(item.gtinUpc || "").replace(/^0+/, "") === normalized
+    );
+
+    if (!food) {
+      return null;
+    }
+
+    const values = new Map<string, number>();
+    for (const nutrient of food.foodNutrients || []) {
+      if (nutrient.nutrientNumber && typeof nutrient.value === "number") {
+        values.set(String(nutrient.nutrientNumber), nutrient.value);
+      }
+    }
+    const get = (key: keyof typeof NUTRIENT_NUMBERS) =>
+      values.get(NUTRIENT_NUMBERS[key]);
+
+    return {
+      barcode,
+      name: food.description || "Unknown Product",
+      brand: food.brandName || food.brandOwner || undefined,
+      category: food.brandedFoodCategory || food.foodCategory || "Unknown",
+      nutrition_per_100g: {
+        calories: get("calories") || 0,
+        protein: get("protein") || 0,
+        carbs: get("carbs") || 0,
+        fat: get("fat") || 0,
+        fiber: get("fiber"),
+        sugar: get("sugar"),
+        sodium: get("sodium"),
+        saturated_fat: get("saturated_fat"),
+        trans_fat: get("trans_fat"),
+        cholesterol: get("cholesterol"),
+        potassium: get("potassium"),
+        calcium: get("calcium"),
+        iron: get("iron"),
+        vitamin_c: get("vitamin_c"),
+        vitamin_d: get("vitamin_d"),
+      },
+      ingredients: food.ingredients
+        ? String(food.ingredients)
+            .split(",")
+            .map((i: string) => i.trim())
+            .filter(Boolean)
+        : [],
+      allergens: [],
+      traces: [],
+      labels: [],
+      serving_size:
+        food.servingSize && food.servingSizeUnit
+          ? `${food.servingSize} ${food.servingSizeUnit.toLowerCase()}`
+          : food.householdServingFullText || undefined,
+    };
+  }
+}
@@ -0,0 +1,316 @@
+import { Meal, MealTemplate, Prisma, Recipe, RecipeIngredient } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { FoodNutrients } from "../types/foods";
+import {
+  LogRecipeInput,
+  RecipeDetails,
+  RecipeInput,
+  RecipeTemplateInput,
+  ScheduleRecipeInput,
+} from "../types/recipes";
+import { MealComposerService } from "./foods/compose";
+import { productToNutrients, scaleNutrients, sumNutrients } from "./foods/nutrients";
+import { FoodSearchService } from "./foods/search";
+import { MealPlanService } from "./mealPlans";
+import { ProductCatalogService } from "./products/catalog";
+import { ProductOverrideService } from "./products/overrides";
+
+type RecipeWithIngredients = Recipe & { ingredients: RecipeIngredient[] };
+
+const withIngredients = {
+  ingredients: { orderBy: { position: "asc" as const } },
+};
+
+export class RecipeService {
+  static async listRecipes(user_id: string): Promise<RecipeDetails[]> {
+    const recipes = await prisma.recipe.findMany({
+      where: { user_id },
+      include: withIngredients,
+      orderBy: { updated_at: "desc" },
+    });
+
+    return recipes.map((recipe) => this.toDetails(recipe));
+  }
+
+  static async getRecipe(user_id: string, recipe_id: string): Promise<RecipeDetails | null> {
+    const recipe = await this.findRecipe(user_id, recipe_id);
+    return recipe ? this.toDetails(recipe) : null;
+  }
+
+  static async createRecipe(user_id: string, input: RecipeInput): Promise<RecipeDetails> {
+    const ingredients = await this.resolveIngredients(user_id, input);
+
+    console.log(`🍲 Creating recipe "${input.name}" with ${ingredients.length} ingredients for ${user_id}`);
+
+    const recipe = await prisma.recipe.create({
+      data: {
+        user_id,
+        name: input.name,
+        description: input.description,
+        servings: input.servings,
+        cooked_weight_g: input.cooked_weight_g,
+        instructions: input.instructions,
+        ingredients: { create: ingredients },
+      },
+      include: withIngredients,
+    });
+
+    return this.toDetails(recipe);
+  }
+
+  /**
+   * Replace the recipe and its ingredients. A template made from it is
+   * updated too, so meal plans follow the new nutrition.
+   */
+  static async updateRecipe(
+    user_id: string,
+    recipe_id: string,
+    input: RecipeInput
+  ): Promise<RecipeDetails | null> {
+    const existing = await this.findRecipe(user_id, recipe_id);
+    if (!existing) return null;
+
+    const ingredients = await this.resolveIngredients(user_id, input);
+
+    const recipe = await prisma.$transaction(async (tx) => {
+      await tx.recipeIngredient.deleteMany({ where: { recipe_id } });
+
+      return tx.recipe.update({
+        where: { recipe_id },
+        data: {
+          name: input.name,
+          description: input.description ?? null,
+          servings: input.servings,
+          cooked_weight_g: input.cooked_weight_g ?? null,
+          instructions: input.instructions ?? Prisma.DbNull,
+          ingredients: { create: ingredients },
+        },
+        include: withIngredients,
+      });
+    });
+
+    const details = this.toDetails(recipe);
+
+    if (recipe.template_id) {
+      await prisma.mealTemplate.update({
+        where: { template_id: recipe.template_id },
+        data: this.toTemplateData(details),
+      });
+    }
+
+    return details;
+  }
+
+  static async deleteRecipe(user_id: string, recipe_id: string): Promise<boolean> {
+    const { count } = await prisma.recipe.deleteMany({ where: { recipe_id, user_id } });
+    return count > 0;
+  }
+
+  /**
+   * Log a number of servings of the recipe as a meal
+   */
+  static async logServings(
+    user_id: string,
+    recipe_id: string,
+    input: LogRecipeInput
+  ): Promise<Meal | null> {
+    const recipe = await this.getRecipe(user_id, recipe_id);
+    if (!recipe) return null;
+
+    const share = input.servings / recipe.servings;
+
+    return MealComposerService.logComputedMeal(user_id, {
+      meal_name: recipe.name,
+      meal_period: input.meal_period,
+      date: input.date,
+      nutrients: scaleNutrients(recipe.per_serving, input.servings),
+      serving_size_g: recipe.serving_weight_g * input.servings,
+      ingredients: recipe.ingredients.map((ingredient) => ({
+        recipe_id,
+        food_id: ingredient.food_id,
+        product_id: ingredient.product_id,
+        name: ingredient.name,
+        grams: Math.round(ingredient.grams * share * 100) / 100,
+        ...scaleNutrients(ingredient.nutrients, share),
+      })) as unknown as Prisma.InputJsonValue,
+    });
+  }
+
+  /**
+   * The meal template for one serving of the recipe, created on first use
+   */
+  static async saveAsTemplate(
+    user_id: string,
+    recipe_id: string,
+    input: RecipeTemplateInput
+  ): Promise<MealTemplate | null> {
+    const recipe = await this.getRecipe(user_id, recipe_id);
+    if (!recipe) return null;
+
+    const data = {
+      ...this.toTemplateData(recipe),
+      meal_timing: input.meal_timing,
+      dietary_category: input.dietary_category,
+      prep_time_minutes: input.prep_time_minutes,
+    };
+
+    if (recipe.template_id) {
+      return prisma.mealTemplate.update({
+        where: { template_id: recipe.template_id },
+        data,
+      });
+    }
+
+    const template = await prisma.mealTemplate.create({ data: { ...data, is_active: true } });
+    await prisma.recipe.update({
+      where: { recipe_id },
+      data: { template_id: template.template_id },
+    });
+
+    console.log(`🍲 Recipe ${recipe_id} saved as meal template ${template.template_id}`);
+    return template;
+  }
+
+  /**
+   * Put the recipe into a slot of one of the user's meal plans
+   */
+  static async scheduleInPlan(user_id: string, recipe_id: string, input: ScheduleRecipeInput) {
+    const template = await this.saveAsTemplate(user_id, recipe_id, input);
+    if (!template) throw new Error("Recipe not found");
+
+    const schedule = await MealPlanService.scheduleTemplate(
+      user_id,
+      input.plan_id,
+      {
+        day_of_week: input.day_of_week,
+        meal_timing: input.meal_timing,
+        meal_order: input.meal_order,
+        portion_multiplier: input.portion_multiplier,
+      },
+      template.template_id
+    );
+    if (!schedule) throw new Error("Meal plan not found");
+
+    return schedule;
+  }
+
+  private static async findRecipe(
+    user_id: string,
+    recipe_id: string
+  ): Promise<RecipeWithIngredients | null> {
+    return prisma.recipe.findFirst({
+      where: { recipe_id, user_id },
+      include: withIngredients,
+    });
+  }
+
+  /**
+   * Snapshot each ingredient's nutrients for its weight, from the food
+   * database or the product catalog with the user's own corrections applied
+   */
+  private static async resolveIngredients(
+    user_id: string,
+    input: RecipeInput
+  ): Promise<Prisma.RecipeIngredientCreateWithoutRecipeInput[]> {
+    const foodIds = input.ingredients.flatMap((ingredient) => ingredient.food_id ?? []);
+    const productIds = input.ingredients.flatMap((ingredient) => ingredient.product_id ?? []);
+
+    const [foods, products, overrides] = await Promise.all([
+      prisma.genericFood.findMany({ where: { food_id: { in: foodIds } } }),
+      prisma.foodProduct.findMany({ where: { product_id: { in: productIds } } }),
+      prisma.userProductOverride.findMany({
+        where: { user_id, product_id: { in: productIds } },
+      }),
+    ]);
+
+    const foodsById = new Map(foods.map((food) => [food.food_id, food]));
+    const productsById = new Map(products.map((product) => [product.product_id, product]));
+    const overridesByProduct = new Map(overrides.map((override) => [override.product_id, override]));
+
+    return input.ingredients.map((ingredient, position) => {
+      let name: string;
+      let per100g: FoodNutrients;
+
+      if (ingredient.food_id !== undefined) {
+        const food = foodsById.get(ingredient.food_id);
+        if (!food) throw new Error("Ingredient not found");
+        name = food.name_he || food.name_en || "";
+        per100g = FoodSearchService.toNutrients(food);
+      } else {
+        const product = productsById.get(ingredient.product_id!);
+        if (!product) throw new Error("Ingredient not found");
+        const data = ProductOverrideService.applyOverride(
+          ProductCatalogService.toProductData(product),
+          overridesByProduct.get(product.product_id) ?? null
+        );
+        name = data.name;
+        per100g = productToNutrients(data.nutrition_per_100g);
+      }
+
+      return {
+        position,
+        food_id: ingredient.food_id ?? null,
+        product_id: ingredient.product_id ?? null,
+        name,
+        grams: ingredient.grams,
+        loss_factor: ingredient.loss_factor,
+        nutrients: scaleNutrients(per100g, ingredient.grams / 100) as unknown as Prisma.InputJsonValue,
+      };
+    });
+  }
+
+  private static toDetails(recipe: RecipeWithIngredients): RecipeDetails {
+    const ingredients = recipe.ingredients.map((ingredient) => ({
+      recipe_ingredient_id: ingredient.recipe_ingredient_id,
+      food_id: ingredient.food_id,
+      product_id: ingredient.product_id,
+      name: ingredient.name,
+      grams: ingredient.grams,
+      loss_factor: ingredient.loss_factor,
+      nutrients: scaleNutrients(
+        ingredient.nutrients as unknown as FoodNutrients,
+        1 - ingredient.loss_factor
+      ),
+    }));
+
+    const total = sumNutrients(ingredients.map((ingredient) => ingredient.nutrients));
+    const weight =
+      recipe.cooked_weight_g ?? ingredients.reduce((sum, ingredient) => sum + ingredient.grams, 0);
+
+    return {
+      recipe_id: recipe.recipe_id,
+      name: recipe.name,
+      description: recipe.description,
+      servings: recipe.servings,
+      cooked_weight_g: recipe.cooked_weight_g,
+      serving_weight_g: Math.round((weight / recipe.servings) * 10) / 10,
+      instructions: (recipe.instructions as string[] | null) ?? [],
+      template_id: recipe.template_id,
+      total,
+      per_serving: scaleNutrients(total, 1 / recipe.servings),
+      ingredients,
+      created_at: recipe.created_at,
+      updated_at: recipe.updated_at,
+    };
+  }
+
+  // One serving's nutrition in the columns meal templates have
+  private static toTemplateData(recipe: RecipeDetails) {
+    const serving = recipe.per_serving;
+
+    return {
+      name: recipe.name,
+      description: recipe.description,
+      calories: serving.calories,
+      protein_g: serving.protein_g,
+      carbs_g: serving.carbs_g,
+      fats_g: serving.fats_g,
+      fiber_g: serving.fiber_g,
+      sugar_g: serving.sugar_g,
+      sodium_mg: serving.sodium_mg,
+      // Plain names, as plan templates and shopping lists expect
+      ingredients_json: recipe.ingredients.map((ingredient) => ingredient.name),
+      instructions_json: recipe.instructions,
+    };
+  }
+}
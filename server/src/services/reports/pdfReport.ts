@@ -0,0 +1,938 @@
+import fs from "fs";
+import PDFDocument from "pdfkit";
+import { Achievement, NutritionGoals, PeriodStatistics } from "../statistics";
+import { ReportLanguage } from "../../types/statistics";
+
+export interface NutritionReportInput {
+  statistics: PeriodStatistics;
+  dailyGoals: NutritionGoals;
+  userName: string;
+  language: ReportLanguage;
+  generatedAt: Date;
+}
+
+interface ReportContext {
+  doc: PDFKit.PDFDocument;
+  labels: ReportLabels;
+  rtl: boolean;
+  language: ReportLanguage;
+}
+
+interface TableColumn {
+  header: string;
+  width: number;
+  align?: "left" | "right" | "center";
+}
+
+interface ChartSeries {
+  label: string;
+  color: string;
+  values: number[];
+}
+
+const PAGE_MARGIN = 50;
+const CONTENT_WIDTH = 595.28 - PAGE_MARGIN * 2;
+const PAGE_BOTTOM = 841.89 - PAGE_MARGIN;
+
+const COLORS = {
+  primary: "#10B981",
+  primaryDark: "#047857",
+  text: "#1F2937",
+  muted: "#6B7280",
+  border: "#E5E7EB",
+  rowAlt: "#F9FAFB",
+  protein: "#3B82F6",
+  carbs: "#F59E0B",
+  fats: "#EF4444",
+  water: "#06B6D4",
+  goal: "#111827",
+  good: "#059669",
+  warn: "#D97706",
+  bad: "#DC2626",
+};
+
+// Fonts that cover both Latin and Hebrew glyphs; the first readable one wins.
+const UNICODE_FONTS = {
+  regular: [
+    process.env.PDF_REPORT_FONT_PATH,
+    "/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf",
+    "/usr/share/fonts/truetype/noto/NotoSansHebrew-Regular.ttf",
+    "/usr/share/fonts/noto/NotoSansHebrew-Regular.ttf",
+  ],
+  bold: [
+    process.env.PDF_REPORT_FONT_BOLD_PATH,
+    "/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf",
+    "/usr/share/fonts/truetype/noto/NotoSansHebrew-Bold.ttf",
+    "/usr/share/fonts/noto/NotoSansHebrew-Bold.ttf",
+  ],
+};
+
+const LABELS = {
+  english: {
+    title: "Nutrition Report",
+    preparedFor: "Prepared for",
+    period: "Period",
+    generatedAt: "Generated",
+    periodNames: {
+      today: "Today",
+      week: "Last 7 days",
+      month: "Last 30 days",
+      custom: "Custom range",
+    } as Record<string, string>,
+    summary: "Period Summary",
+    days: "Days",
+    mealsLogged: "Meals logged",
+    avgCalories: "Avg. calories / day",
+    goalCompletion: "Calorie goal completion",
+    macrosTitle: "Macronutrients vs. daily goal",
+    microsTitle: "Fiber, sugar, sodium and water vs. daily goal",
+    nutrient: "Nutrient",
+    dailyAverage: "Daily average",
+    dailyGoal: "Daily goal",
+    percentOfGoal: "% of goal",
+    status: "Status",
+    nutrients: {
+      calories: "Calories",
+      protein_g: "Protein",
+      carbs_g: "Carbohydrates",
+      fats_g: "Fats",
+      fiber_g: "Fiber",
+      sugar_g: "Sugar",
+      sodium_mg: "Sodium",
+      water_ml: "Water",
+    } as Record<keyof NutritionGoals, string>,
+    statuses: {
+      onTrack: "On track",
+      below: "Below goal",
+      above: "Above goal",
+      withinLimit: "Within limit",
+      overLimit: "Over limit",
+    },
+    units: { kcal: "kcal", g: "g", mg: "mg", ml: "ml" },
+    dailyBreakdown: "Daily Breakdown",
+    caloriesChart: "Calories per day",
+    macrosChart: "Macronutrients per day (g)",
+    waterChart: "Water intake per day (ml)",
+    goal: "Goal",
+    date: "Date",
+    noData: "No meals were logged in this period.",
+    streaksTitle: "Streaks & Achievements",
+    currentStreak: "Current streak",
+    bestStreak: "Best streak",
+    perfectDays: "Perfect days",
+    successfulDays: "Successful days",
+    unlockedAchievements: "Unlocked achievements",
+    inProgressAchievements: "In progress",
+    noAchievements: "No achievements unlocked yet.",
+    xp: "XP",
+    page: "Page",
+    of: "of",
+  },
+  hebrew: {
+    title: "דוח תזונה",
+    preparedFor: "הוכן עבור",
+    period: "תקופה",
+    generatedAt: "הופק בתאריך",
+    periodNames: {
+      today: "היום",
+      week: "7 הימים האחרונים",
+      month: "30 הימים האחרונים",
+      custom: "טווח מותאם אישית",
+    } as Record<string, string>,
+    summary: "סיכום התקופה",
+    days: "ימים",
+    mealsLogged: "ארוחות שתועדו",
+    avgCalories: "ממוצע קלוריות ליום",
+    goalCompletion: "עמידה ביעד הקלורי",
+    macrosTitle: "מאקרו-נוטריינטים מול היעד היומי",
+    microsTitle: "סיבים, סוכר, נתרן ומים מול היעד היומי",
+    nutrient: "רכיב",
+    dailyAverage: "ממוצע יומי",
+    dailyGoal: "יעד יומי",
+    percentOfGoal: "% מהיעד",
+    status: "מצב",
+    nutrients: {
+      calories: "קלוריות",
+      protein_g: "חלבון",
+      carbs_g: "פחמימות",
+      fats_g: "שומנים",
+      fiber_g: "סיבים תזונתיים",
+      sugar_g: "סוכר",
+      sodium_mg: "נתרן",
+      water_ml: "מים",
+    } as Record<keyof NutritionGoals, string>,
+    statuses: {
+      onTrack: "בטווח היעד",
+      below: "מתחת ליעד",
+      above: "מעל היעד",
+      withinLimit: "בתוך המגבלה",
+      overLimit: "חריגה מהמגבלה",
+    },
+    units: { kcal: "קק\"ל", g: "גרם", mg: "מ\"ג", ml: "מ\"ל" },
+    dailyBreakdown: "פירוט יומי",
+    caloriesChart: "קלוריות לפי יום",
+    macrosChart: "מאקרו-נוטריינטים לפי יום (גרם)",
+    waterChart: "צריכת מים לפי יום (מ\"ל)",
+    goal: "יעד",
+    date: "תאריך",
+    noData: "לא תועדו ארוחות בתקופה זו.",
+    streaksTitle: "רצפים והישגים",
+    currentStreak: "רצף נוכחי",
+    bestStreak: "רצף שיא",
+    perfectDays: "ימים מושלמים",
+    successfulDays: "ימים מוצלחים",
+    unlockedAchievements: "הישגים שנפתחו",
+    inProgressAchievements: "בתהליך",
+    noAchievements: "עדיין לא נפתחו הישגים.",
+    xp: "XP",
+    page: "עמוד",
+    of: "מתוך",
+  },
+};
+
+type ReportLabels = (typeof LABELS)["english"];
+
+// Nutrients where staying under the goal is the desired outcome
+const LIMIT_NUTRIENTS: (keyof NutritionGoals)[] = ["sugar_g", "sodium_mg"];
+
+const HEBREW_CHARS = /[\u0590-\u05FF]/;
+
+export class PDFReportService {
+  /**
+   * Render a multi-page nutrition report for the given period statistics
+   */
+  static async generateNutritionReport(
+    input: NutritionReportInput
+  ): Promise<Buffer> {
+    const fonts = this.resolveFonts();
+    let language = input.language;
+
+    if (language === "hebrew" && !fonts) {
+      console.warn(
+        "⚠️ No Hebrew-capable font found for PDF report, falling back to English. Set PDF_REPORT_FONT_PATH to enable Hebrew reports."
+      );
+      language = "english";
+    }
+
+    const labels = LABELS[language];
+    const rtl = language === "hebrew";
+
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: PAGE_MARGIN,
+      bufferPages: true,
+      info: {
+        Title: labels.title,
+        Author: "Calo",
+        CreationDate: input.generatedAt,
+      },
+    });
+
+    if (fonts) {
+      doc.registerFont("report-regular", fonts.regular);
+      doc.registerFont("report-bold", fonts.bold);
+    } else {
+      doc.registerFont("report-regular", "Helvetica");
+      doc.registerFont("report-bold", "Helvetica-Bold");
+    }
+
+    const chunks: Buffer[] = [];
+    const done = new Promise<Buffer>((resolve, reject) => {
+      doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+      doc.on("end", () => resolve(Buffer.concat(chunks)));
+      doc.on("error", reject);
+    });
+
+    const ctx = { doc, labels, rtl, language };
+
+    this.renderSummaryPage(ctx, input);
+    doc.addPage();
+    this.renderDailyBreakdown(ctx, input);
+    doc.addPage();
+    this.renderStreaksAndAchievements(ctx, input);
+    this.renderPageNumbers(ctx);
+
+    doc.end();
+    return done;
+  }
+
+  private static resolveFonts(): { regular: string; bold: string } | null {
+    const firstReadable = (paths: (string | undefined)[]) =>
+      paths.find((path) => !!path && fs.existsSync(path));
+
+    const regular = firstReadable(UNICODE_FONTS.regular);
+    if (!regular) {
+      return null;
+    }
+
+    return { regular, bold: firstReadable(UNICODE_FONTS.bold) || regular };
+  }
+
+  /**
+   * PDFKit lays out each word separately and the font engine already
+   * reverses glyphs inside Hebrew words, so only the word order needs
+   * flipping to display right-to-left text correctly.
+   */
+  private static toVisualOrder(text: string): string {
+    if (!HEBREW_CHARS.test(text)) {
+      return text;
+    }
+    return text.split(" ").reverse().join(" ");
+  }
+
+  private static write(
+    ctx: ReportContext,
+    text: string,
+    x: number,
+    y: number,
+    options: {
+      width?: number;
+      align?: "left" | "right" | "center";
+      size?: number;
+      bold?: boolean;
+      color?: string;
+    } = {}
+  ) {
+    const { doc, rtl } = ctx;
+    const width = options.width ?? CONTENT_WIDTH;
+    let align = options.align ?? "left";
+
+    // Mirror horizontal alignment for RTL layouts
+    if (rtl && align !== "center") {
+      align = align === "left" ? "right" : "left";
+    }
+
+    doc
+      .font(options.bold ? "report-bold" : "report-regular")
+      .fontSize(options.size ?? 10)
+      .fillColor(options.color ?? COLORS.text)
+      .text(this.toVisualOrder(text), x, y, {
+        width,
+        align,
+        lineBreak: false,
+        ellipsis: true,
+      });
+  }
+
+  private static renderHeader(ctx: ReportContext, title: string) {
+    const { doc } = ctx;
+    doc.rect(0, 0, doc.page.width, 70).fill(COLORS.primary);
+    this.write(ctx, title, PAGE_MARGIN, 25, {
+      size: 20,
+      bold: true,
+      color: "#FFFFFF",
+    });
+    return 95;
+  }
+
+  private static renderSectionTitle(
+    ctx: ReportContext,
+    title: string,
+    y: number
+  ): number {
+    this.write(ctx, title, PAGE_MARGIN, y, {
+      size: 13,
+      bold: true,
+      color: COLORS.primaryDark,
+    });
+    ctx.doc
+      .moveTo(PAGE_MARGIN, y + 19)
+      .lineTo(PAGE_MARGIN + CONTENT_WIDTH, y + 19)
+      .lineWidth(1)
+      .strokeColor(COLORS.border)
+      .stroke();
+    return y + 28;
+  }
+
+  private static renderSummaryPage(
+    ctx: ReportContext,
+    input: NutritionReportInput
+  ) {
+    const { labels } = ctx;
+    const stats = input.statistics;
+    let y = this.renderHeader(ctx, labels.title);
+
+    const periodName =
+      labels.periodNames[stats.period_type] || stats.period_type;
+    this.write(ctx, `${labels.preparedFor}: ${input.userName}`, PAGE_MARGIN, y, {
+      size: 11,
+      bold: true,
+    });
+    y += 18;
+    this.write(
+      ctx,
+      `${labels.period}: ${periodName} | ${this.formatDate(ctx, stats.start_date)} - ${this.formatDate(ctx, stats.end_date)}`,
+      PAGE_MARGIN,
+      y,
+      { color: COLORS.muted }
+    );
+    y += 15;
+    this.write(
+      ctx,
+      `${labels.generatedAt}: ${this.formatDate(ctx, input.generatedAt.toISOString().split("T")[0])}`,
+      PAGE_MARGIN,
+      y,
+      { color: COLORS.muted }
+    );
+    y += 30;
+
+    y = this.renderSectionTitle(ctx, labels.summary, y);
+    y = this.renderStatCards(
+      ctx,
+      [
+        { label: labels.days, value: String(stats.total_days) },
+        { label: labels.mealsLogged, value: String(stats.meal_count) },
+        {
+          label: labels.avgCalories,
+          value: `${Math.round(stats.averageCalories)} ${labels.units.kcal}`,
+        },
+        {
+          label: labels.goalCompletion,
+          value: `${isFinite(stats.completion_rate) ? stats.completion_rate : 0}%`,
+        },
+      ],
+      y
+    );
+    y += 25;
+
+    const dailyWater =
+      stats.total_days > 0 ? stats.consumption.water_ml / stats.total_days : 0;
+    const averages: NutritionGoals = {
+      calories: stats.averageCalories,
+      protein_g: stats.averageProtein,
+      carbs_g: stats.averageCarbs,
+      fats_g: stats.averageFats,
+      fiber_g: stats.averageFiber,
+      sugar_g: stats.averageSugar,
+      sodium_mg: stats.averageSodium,
+      water_ml: Math.round(dailyWater),
+    };
+
+    y = this.renderSectionTitle(ctx, labels.macrosTitle, y);
+    y = this.renderGoalTable(
+      ctx,
+      ["calories", "protein_g", "carbs_g", "fats_g"],
+      averages,
+      input.dailyGoals,
+      y
+    );
+    y += 25;
+
+    y = this.renderSectionTitle(ctx, labels.microsTitle, y);
+    this.renderGoalTable(
+      ctx,
+      ["fiber_g", "sugar_g", "sodium_mg", "water_ml"],
+      averages,
+      input.dailyGoals,
+      y
+    );
+  }
+
+  private static renderStatCards(
+    ctx: ReportContext,
+    cards: { label: string; value: string }[],
+    y: number
+  ): number {
+    const { doc, rtl } = ctx;
+    const gap = 10;
+    const width = (CONTENT_WIDTH - gap * (cards.length - 1)) / cards.length;
+    const height = 58;
+    const ordered = rtl ? [...cards].reverse() : cards;
+
+    ordered.forEach((card, index) => {
+      const x = PAGE_MARGIN + index * (width + gap);
+      doc.roundedRect(x, y, width, height, 6).fill(COLORS.rowAlt);
+      this.write(ctx, card.value, x + 8, y + 12, {
+        width: width - 16,
+        size: 15,
+        bold: true,
+        color: COLORS.primaryDark,
+      });
+      this.write(ctx, card.label, x + 8, y + 36, {
+        width: width - 16,
+        size: 8,
+        color: COLORS.muted,
+      });
+    });
+
+    return y + height;
+  }
+
+  private static renderGoalTable(
+    ctx: ReportContext,
+    nutrients: (keyof NutritionGoals)[],
+    averages: NutritionGoals,
+    goals: NutritionGoals,
+    y: number
+  ): number {
+    const { labels } = ctx;
+    const columns: TableColumn[] = [
+      { header: labels.nutrient, width: 135 },
+      { header: labels.dailyAverage, width: 95, align: "right" },
+      { header: labels.dailyGoal, width: 95, align: "right" },
+      { header: labels.percentOfGoal, width: 70, align: "right" },
+      { header: labels.status, width: CONTENT_WIDTH - 395 },
+    ];
+
+    const rows = nutrients.map((nutrient) => {
+      const unit = this.unitFor(ctx, nutrient);
+      const average = averages[nutrient] || 0;
+      const goal = goals[nutrient] || 0;
+      const percent = goal > 0 ? Math.round((average / goal) * 100) : 0;
+      const status = this.goalStatus(ctx, nutrient, percent);
+
+      return {
+        cells: [
+          labels.nutrients[nutrient],
+          `${Math.round(average)} ${unit}`,
+          `${Math.round(goal)} ${unit}`,
+          `${percent}%`,
+          status.label,
+        ],
+        colors: [undefined, undefined, undefined, undefined, status.color],
+      };
+    });
+
+    return this.renderTable(ctx, columns, rows, y);
+  }
+
+  private static renderTable(
+    ctx: ReportContext,
+    columns: TableColumn[],
+    rows: { cells: string[]; colors?: (string | undefined)[] }[],
+    y: number
+  ): number {
+    const { doc, rtl } = ctx;
+    const rowHeight = 20;
+    const padding = 6;
+
+    // Column positions are mirrored for RTL so the first column sits on the right
+    const positions: number[] = [];
+    let cursor = rtl ? PAGE_MARGIN + CONTENT_WIDTH : PAGE_MARGIN;
+    columns.forEach((column) => {
+      if (rtl) {
+        cursor -= column.width;
+        positions.push(cursor);
+      } else {
+        positions.push(cursor);
+        cursor += column.width;
+      }
+    });
+
+    const drawRow = (
+      cells: string[],
+      rowY: number,
+      options: { header?: boolean; colors?: (string | undefined)[] }
+    ) => {
+      columns.forEach((column, index) => {
+        this.write(ctx, cells[index] ?? "", positions[index] + padding, rowY + 5, {
+          width: column.width - padding * 2,
+          align: column.align ?? "left",
+          size: options.header ? 9 : 9.5,
+          bold: options.header,
+          color: options.header
+            ? "#FFFFFF"
+            : options.colors?.[index] ?? COLORS.text,
+        });
+      });
+    };
+
+    doc.rect(PAGE_MARGIN, y, CONTENT_WIDTH, rowHeight).fill(COLORS.primaryDark);
+    drawRow(
+      columns.map((column) => column.header),
+      y,
+      { header: true }
+    );
+    y += rowHeight;
+
+    rows.forEach((row, index) => {
+      if (y + rowHeight > PAGE_BOTTOM) {
+        doc.addPage();
+        y = PAGE_MARGIN;
+        doc
+          .rect(PAGE_MARGIN, y, CONTENT_WIDTH, rowHeight)
+          .fill(COLORS.primaryDark);
+        drawRow(
+          columns.map((column) => column.header),
+          y,
+          { header: true }
+        );
+        y += rowHeight;
+      }
+
+      if (index % 2 === 1) {
+        doc.rect(PAGE_MARGIN, y, CONTENT_WIDTH, rowHeight).fill(COLORS.rowAlt);
+      }
+      drawRow(row.cells, y, { colors: row.colors });
+      y += rowHeight;
+    });
+
+    return y;
+  }
+
+  private static renderDailyBreakdown(
+    ctx: ReportContext,
+    input: NutritionReportInput
+  ) {
+    const { labels } = ctx;
+    const days: any[] = input.statistics.dailyBreakdown || [];
+    let y = this.renderHeader(ctx, labels.dailyBreakdown);
+
+    if (days.every((day) => !day.calories)) {
+      this.write(ctx, labels.noData, PAGE_MARGIN, y, { color: COLORS.muted });
+      y += 25;
+    }
+
+    const dayLabels = days.map((day) => this.formatShortDate(ctx, day.date));
+    const calorieGoals = days.map(
+      (day) => day.goal_calories ?? input.dailyGoals.calories
+    );
+
+    y = this.renderBarChart(ctx, {
+      title: labels.caloriesChart,
+      labels: dayLabels,
+      series: [
+        {
+          label: labels.nutrients.calories,
+          color: COLORS.primary,
+          values: days.map((day) => day.calories || 0),
+        },
+      ],
+      goals: calorieGoals,
+      y,
+    });
+    y += 20;
+
+    y = this.renderBarChart(ctx, {
+      title: labels.macrosChart,
+      labels: dayLabels,
+      series: [
+        {
+          label: labels.nutrients.protein_g,
+          color: COLORS.protein,
+          values: days.map((day) => day.protein_g || 0),
+        },
+        {
+          label: labels.nutrients.carbs_g,
+          color: COLORS.carbs,
+          values: days.map((day) => day.carbs_g || 0),
+        },
+        {
+          label: labels.nutrients.fats_g,
+          color: COLORS.fats,
+          values: days.map((day) => day.fats_g || 0),
+        },
+      ],
+      y,
+    });
+    y += 20;
+
+    this.renderBarChart(ctx, {
+      title: labels.waterChart,
+      labels: dayLabels,
+      series: [
+        {
+          label: labels.nutrients.water_ml,
+          color: COLORS.water,
+          values: days.map((day) => day.liquids_ml || 0),
+        },
+      ],
+      goals: days.map((day) => day.goal_water_ml ?? input.dailyGoals.water_ml),
+      y,
+    });
+
+    // Tabular breakdown continues on as many pages as needed
+    ctx.doc.addPage();
+    y = this.renderSectionTitle(ctx, labels.dailyBreakdown, PAGE_MARGIN);
+    const { units, nutrients } = labels;
+    const columns: TableColumn[] = [
+      { header: labels.date, width: 85 },
+      { header: `${nutrients.calories} (${units.kcal})`, width: 90, align: "right" },
+      { header: `${nutrients.protein_g} (${units.g})`, width: 75, align: "right" },
+      { header: `${nutrients.carbs_g} (${units.g})`, width: 85, align: "right" },
+      { header: `${nutrients.fats_g} (${units.g})`, width: 70, align: "right" },
+      { header: `${nutrients.water_ml} (${units.ml})`, width: CONTENT_WIDTH - 405, align: "right" },
+    ];
+    this.renderTable(
+      ctx,
+      columns,
+      days.map((day) => ({
+        cells: [
+          this.formatDate(ctx, day.date),
+          String(Math.round(day.calories || 0)),
+          String(Math.round(day.protein_g || 0)),
+          String(Math.round(day.carbs_g || 0)),
+          String(Math.round(day.fats_g || 0)),
+          String(Math.round(day.liquids_ml || 0)),
+        ],
+      })),
+      y
+    );
+  }
+
+  /**
+   * Draw a (stacked when multiple series) bar chart with an optional per-bar goal marker
+   */
+  private static renderBarChart(
+    ctx: ReportContext,
+    chart: {
+      title: string;
+      labels: string[];
+      series: ChartSeries[];
+      goals?: number[];
+      y: number;
+    }
+  ): number {
+    const { doc } = ctx;
+    const chartHeight = 120;
+    const axisWidth = 40;
+    let y = chart.y;
+
+    this.write(ctx, chart.title, PAGE_MARGIN, y, { size: 11, bold: true });
+    y += 18;
+
+    // Legend
+    let legendX = PAGE_MARGIN;
+    const legendItems = [
+      ...chart.series.map((series) => ({ label: series.label, color: series.color })),
+      ...(chart.goals ? [{ label: ctx.labels.goal, color: COLORS.goal }] : []),
+    ];
+    legendItems.forEach((item) => {
+      doc.rect(legendX, y + 2, 8, 8).fill(item.color);
+      this.write(ctx, item.label, legendX + 12, y, {
+        width: 90,
+        size: 8,
+        color: COLORS.muted,
+        align: "left",
+      });
+      legendX += 105;
+    });
+    y += 18;
+
+    const count = chart.labels.length;
+    const totals = chart.labels.map((_, index) =>
+      chart.series.reduce((sum, series) => sum + (series.values[index] || 0), 0)
+    );
+    const maxValue = Math.max(1, ...totals, ...(chart.goals || []));
+    const scale = chartHeight / (maxValue * 1.1);
+
+    const plotX = PAGE_MARGIN + axisWidth;
+    const plotWidth = CONTENT_WIDTH - axisWidth;
+    const slot = count > 0 ? plotWidth / count : plotWidth;
+    const barWidth = Math.max(2, slot * 0.65);
+    const baseline = y + chartHeight;
+
+    // Axis and gridlines
+    doc.lineWidth(0.5).strokeColor(COLORS.border);
+    for (let step = 0; step <= 4; step++) {
+      const value = (maxValue * 1.1 * step) / 4;
+      const lineY = baseline - value * scale;
+      doc.moveTo(plotX, lineY).lineTo(plotX + plotWidth, lineY).stroke();
+      doc
+        .font("report-regular")
+        .fontSize(7)
+        .fillColor(COLORS.muted)
+        .text(String(Math.round(value)), PAGE_MARGIN, lineY - 4, {
+          width: axisWidth - 5,
+          align: "right",
+          lineBreak: false,
+        });
+    }
+
+    // Keep roughly 10 date labels on the axis regardless of range length
+    const labelEvery = Math.max(1, Math.ceil(count / 10));
+
+    chart.labels.forEach((label, index) => {
+      const barX = plotX + index * slot + (slot - barWidth) / 2;
+      let stackTop = baseline;
+
+      chart.series.forEach((series) => {
+        const height = (series.values[index] || 0) * scale;
+        if (height > 0) {
+          doc.rect(barX, stackTop - height, barWidth, height).fill(series.color);
+          stackTop -= height;
+        }
+      });
+
+      const goal = chart.goals?.[index];
+      if (goal && goal > 0) {
+        const goalY = baseline - goal * scale;
+        doc
+          .moveTo(barX - 1, goalY)
+          .lineTo(barX + barWidth + 1, goalY)
+          .lineWidth(1.5)
+          .strokeColor(COLORS.goal)
+          .stroke();
+      }
+
+      if (index % labelEvery === 0) {
+        doc
+          .font("report-regular")
+          .fontSize(7)
+          .fillColor(COLORS.muted)
+          .text(label, plotX + index * slot - 10, baseline + 4, {
+            width: slot + 20,
+            align: "center",
+            lineBreak: false,
+          });
+      }
+    });
+
+    return baseline + 16;
+  }
+
+  private static renderStreaksAndAchievements(
+    ctx: ReportContext,
+    input: NutritionReportInput
+  ) {
+    const { labels, doc } = ctx;
+    const stats = input.statistics;
+    let y = this.renderHeader(ctx, labels.streaksTitle);
+
+    y = this.renderStatCards(
+      ctx,
+      [
+        { label: labels.currentStreak, value: `${stats.currentStreak} ${labels.days}` },
+        { label: labels.bestStreak, value: `${stats.bestStreak} ${labels.days}` },
+        { label: labels.perfectDays, value: String(stats.perfectDays) },
+        { label: labels.successfulDays, value: String(stats.successfulDays) },
+      ],
+      y
+    );
+    y += 25;
+
+    const achievements: Achievement[] = stats.achievements || [];
+    const unlocked = achievements
+      .filter((achievement) => achievement.unlocked)
+      .sort((a, b) =>
+        (b.unlockedDate || "").localeCompare(a.unlockedDate || "")
+      );
+    const inProgress = achievements
+      .filter((achievement) => !achievement.unlocked && achievement.progress > 0)
+      .sort(
+        (a, b) => b.progress / b.maxProgress - a.progress / a.maxProgress
+      )
+      .slice(0, 5);
+
+    y = this.renderSectionTitle(
+      ctx,
+      `${labels.unlockedAchievements} (${unlocked.length})`,
+      y
+    );
+
+    if (unlocked.length === 0) {
+      this.write(ctx, labels.noAchievements, PAGE_MARGIN, y, {
+        color: COLORS.muted,
+      });
+      y += 25;
+    } else {
+      y = this.renderTable(
+        ctx,
+        [
+          { header: labels.unlockedAchievements, width: 150 },
+          { header: "", width: CONTENT_WIDTH - 300 },
+          { header: labels.xp, width: 50, align: "right" },
+          { header: labels.date, width: 100, align: "right" },
+        ],
+        unlocked.map((achievement) => ({
+          cells: [
+            achievement.title,
+            achievement.description,
+            String(achievement.xpReward),
+            achievement.unlockedDate
+              ? this.formatDate(ctx, achievement.unlockedDate.split("T")[0])
+              : "",
+          ],
+        })),
+        y
+      );
+      y += 25;
+    }
+
+    if (inProgress.length > 0) {
+      if (y + 60 > PAGE_BOTTOM) {
+        doc.addPage();
+        y = PAGE_MARGIN;
+      }
+      y = this.renderSectionTitle(ctx, labels.inProgressAchievements, y);
+      this.renderTable(
+        ctx,
+        [
+          { header: labels.inProgressAchievements, width: 150 },
+          { header: "", width: CONTENT_WIDTH - 250 },
+          { header: "%", width: 100, align: "right" },
+        ],
+        inProgress.map((achievement) => ({
+          cells: [
+            achievement.title,
+            achievement.description,
+            `${achievement.progress}/${achievement.maxProgress}`,
+          ],
+        })),
+        y
+      );
+    }
+  }
+
+  private static renderPageNumbers(ctx: ReportContext) {
+    const { doc, labels } = ctx;
+    const range = doc.bufferedPageRange();
+
+    for (let index = range.start; index < range.start + range.count; index++) {
+      doc.switchToPage(index);
+      // Writing below the bottom margin would otherwise trigger an automatic page break
+      const bottomMargin = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0;
+      this.write(
+        ctx,
+        `${labels.page} ${index + 1} ${labels.of} ${range.count}`,
+        PAGE_MARGIN,
+        doc.page.height - 35,
+        { size: 8, color: COLORS.muted, align: "center" }
+      );
+      doc.page.margins.bottom = bottomMargin;
+    }
+  }
+
+  private static goalStatus(
+    ctx: ReportContext,
+    nutrient: keyof NutritionGoals,
+    percent: number
+  ): { label: string; color: string } {
+    const { statuses } = ctx.labels;
+
+    if (LIMIT_NUTRIENTS.includes(nutrient)) {
+      return percent > 100
+        ? { label: statuses.overLimit, color: COLORS.bad }
+        : { label: statuses.withinLimit, color: COLORS.good };
+    }
+    if (percent < 90) {
+      return { label: statuses.below, color: COLORS.warn };
+    }
+    if (percent > 110) {
+      return { label: statuses.above, color: COLORS.bad };
+    }
+    return { label: statuses.onTrack, color: COLORS.good };
+  }
+
+  private static unitFor(ctx: ReportContext, nutrient: keyof NutritionGoals) {
+    const { units } = ctx.labels;
+    if (nutrient === "calories") return units.kcal;
+    if (nutrient === "sodium_mg") return units.mg;
+    if (nutrient === "water_ml") return units.ml;
+    return units.g;
+  }
+
+  // Dates are kept in YYYY-MM-DD form; Hebrew reports use the local DD/MM/YYYY convention
+  private static formatDate(ctx: ReportContext, isoDate: string): string {
+    const [year, month, day] = isoDate.split("-");
+    return ctx.language === "hebrew"
+      ? `${day}/${month}/${year}`
+      : `${year}-${month}-${day}`;
+  }
+
+  private static formatShortDate(ctx: ReportContext, isoDate: string): string {
+    const [, month, day] = isoDate.split("-");
+    return ctx.language === "hebrew" ? `${day}/${month}` : `${month}-${day}`;
+  }
+}
@@ -0,0 +1,207 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { prisma } from "../lib/database";
+import { SessionDevice, SessionSummary, SessionTokens } from "../types/auth";
+
+const JWT_SECRET = process.env.JWT_SECRET!;
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const REFRESH_TOKEN_DAYS = 30;
+const REFRESH_TOKEN_BYTES = 32;
+// last_used_at is only written when older than this
+const LAST_USED_RESOLUTION_MS = 5 * 60 * 1000;
+
+export interface AccessTokenPayload {
+  user_id: string;
+  email: string;
+  sid: string;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function getRefreshExpiryDate() {
+  return new Date(Date.now() + REFRESH_TOKEN_DAYS * 24 * 60 * 60 * 1000);
+}
+
+function signAccessToken(payload: AccessTokenPayload) {
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+}
+
+function trimDevice(device: SessionDevice) {
+  return {
+    device_name: device.device_name?.slice(0, 100) || null,
+    user_agent: device.user_agent?.slice(0, 500) || null,
+    ip_address: device.ip_address || null,
+  };
+}
+
+export class SessionService {
+  /**
+   * Start a session for a signed-in device with its first refresh token
+   */
+  static async createSession(
+    user: { user_id: string; email: string },
+    device: SessionDevice
+  ): Promise<SessionTokens> {
+    const refreshToken = crypto.randomBytes(REFRESH_TOKEN_BYTES).toString("base64url");
+    const expiresAt = getRefreshExpiryDate();
+
+    const session = await prisma.session.create({
+      data: {
+        user_id: user.user_id,
+        expiresAt,
+        ...trimDevice(device),
+        refreshTokens: {
+          create: { token_hash: hashToken(refreshToken), expires_at: expiresAt },
+        },
+      },
+    });
+
+    console.log(`🔑 Session ${session.session_id} created for user: ${user.email}`);
+
+    return {
+      session_id: session.session_id,
+      token: signAccessToken({ user_id: user.user_id, email: user.email, sid: session.session_id }),
+      refreshToken,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new access and refresh token. Each
+   * refresh token works once; when a used one comes back, a copy is in
+   * someone else's hands and the whole session is revoked.
+   */
+  static async refresh(refreshToken: string, device: SessionDevice): Promise<SessionTokens> {
+    const stored = await prisma.refreshToken.findUnique({
+      where: { token_hash: hashToken(refreshToken) },
+      include: {
+        session: { include: { user: { select: { user_id: true, email: true } } } },
+      },
+    });
+
+    if (!stored) throw new Error("Invalid refresh token");
+
+    const now = new Date();
+    if (stored.expires_at < now || stored.session.expiresAt < now) {
+      throw new Error("Refresh token expired");
+    }
+
+    // Claimed atomically, so two requests racing with one token count as reuse too
+    const { count } = await prisma.refreshToken.updateMany({
+      where: { token_id: stored.token_id, used_at: null },
+      data: { used_at: now },
+    });
+
+    if (count === 0) {
+      await prisma.session.deleteMany({ where: { session_id: stored.session_id } });
+      console.warn(
+        `🚨 Refresh token reuse on session ${stored.session_id}, session revoked`
+      );
+      throw new Error("Refresh token reuse detected");
+    }
+
+    const { user } = stored.session;
+    const nextToken = crypto.randomBytes(REFRESH_TOKEN_BYTES).toString("base64url");
+    const expiresAt = getRefreshExpiryDate();
+    const { user_agent, ip_address } = trimDevice(device);
+
+    await prisma.$transaction([
+      prisma.refreshToken.create({
+        data: {
+          session_id: stored.session_id,
+          token_hash: hashToken(nextToken),
+          expires_at: expiresAt,
+        },
+      }),
+      prisma.session.update({
+        where: { session_id: stored.session_id },
+        data: {
+          expiresAt,
+          last_used_at: now,
+          user_agent: user_agent ?? undefined,
+          ip_address: ip_address ?? undefined,
+        },
+      }),
+    ]);
+
+    return {
+      session_id: stored.session_id,
+      token: signAccessToken({ user_id: user.user_id, email: user.email, sid: stored.session_id }),
+      refreshToken: nextToken,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    };
+  }
+
+  /**
+   * Payload of a valid access token. Whether its session still exists is
+   * up to the caller.
+   */
+  static verifyAccessToken(token: string): AccessTokenPayload {
+    const decoded = jwt.verify(token, JWT_SECRET);
+
+    if (
+      !decoded ||
+      typeof decoded !== "object" ||
+      typeof decoded.user_id !== "string" ||
+      typeof decoded.email !== "string" ||
+      typeof decoded.sid !== "string"
+    ) {
+      throw new Error("Invalid token payload");
+    }
+
+    return decoded as unknown as AccessTokenPayload;
+  }
+
+  // Record activity, at most every few minutes per session
+  static touch(session_id: string, last_used_at: Date) {
+    if (Date.now() - last_used_at.getTime() < LAST_USED_RESOLUTION_MS) return;
+
+    prisma.session
+      .update({ where: { session_id }, data: { last_used_at: new Date() } })
+      .catch((error) => console.warn("Failed to update session activity:", error));
+  }
+
+  static async listSessions(
+    user_id: string,
+    current_session_id?: string
+  ): Promise<SessionSummary[]> {
+    const sessions = await prisma.session.findMany({
+      where: { user_id, expiresAt: { gt: new Date() } },
+      orderBy: { last_used_at: "desc" },
+    });
+
+    return sessions.map((session) => ({
+      session_id: session.session_id,
+      device_name: session.device_name,
+      user_agent: session.user_agent,
+      ip_address: session.ip_address,
+      created_at: session.created_at,
+      last_used_at: session.last_used_at,
+      expires_at: session.expiresAt,
+      current: session.session_id === current_session_id,
+    }));
+  }
+
+  static async revokeSession(user_id: string, session_id: string): Promise<boolean> {
+    const { count } = await prisma.session.deleteMany({ where: { session_id, user_id } });
+    if (count > 0) {
+      console.log(`🔒 Session ${session_id} revoked`);
+    }
+    return count > 0;
+  }
+
+  // Sign out everywhere, optionally keeping the session making the request
+  static async revokeAllSessions(user_id: string, except_session_id?: string): Promise<number> {
+    const { count } = await prisma.session.deleteMany({
+      where: {
+        user_id,
+        ...(except_session_id && { session_id: { not: except_session_id } }),
+      },
+    });
+
+    console.log(`🔒 Revoked ${count} sessions for user: ${user_id}`);
+    return count;
+  }
+}
@@ -1,5 +1,19 @@
 import { prisma } from "../lib/database";
 import { AchievementService } from "./achievements";
+import { PDFReportService } from "./reports/pdfReport";
+import { InsightsService } from "./insights";
+import { WeightService } from "./weight";
+import { DailyGoalTargets, EnhancedDailyGoalsService } from "./database/dailyGoals";
+import { InsightsReport, NutritionReportOptions } from "../types/statistics";
+import { WeightTimeline, WeightTrendPoint } from "../types/weight";
+import {
+  fromDayKey,
+  getLocalDate,
+  getStartOfLocalDay,
+  getUserTimeZone,
+  listDates,
+  toDayKey,
+} from "../utils/dayBoundary";
 
 export interface Achievement {
   id: string;
@@ -42,6 +56,7 @@ export interface StatisticsData {
   highEnergyDays: number;
   satisfiedDays: number;
   averageMealQuality: number;
+  weight: WeightTimeline | null;
 }
 
 interface UserStats {
@@ -95,6 +110,9 @@ export interface PeriodStatistics {
   averageFiber: number;
   averageSugar: number;
   averageSodium: number;
+  dailyBreakdown: any[];
+  achievements: Achievement[];
+  weight: WeightTimeline | null;
 }
 
 export class StatisticsService {
@@ -111,6 +129,7 @@ export class StatisticsService {
       console.log(`📊 Getting ENHANCED statistics for user: ${userId}, period: ${period}`);
 
       const now = new Date();
+      const timeZone = await getUserTimeZone(userId);
       let definedStartDate: Date;
       let definedEndDate: Date;
 
@@ -121,7 +140,7 @@ export class StatisticsService {
       } else {
         switch (period) {
           case "today":
-            definedStartDate = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+            definedStartDate = getStartOfLocalDay(getLocalDate(timeZone, now), timeZone);
             definedEndDate = now;
             break;
           case "week":
@@ -141,6 +160,10 @@ export class StatisticsService {
 
       console.log(`📅 Date range: ${definedStartDate.toISOString()} to ${definedEndDate.toISOString()}`);
 
+      // Local dates of the range, for day-keyed rows
+      const localStartDate = getLocalDate(timeZone, definedStartDate);
+      const localEndDate = getLocalDate(timeZone, definedEndDate);
+
       // Get all data in parallel for better performance
       const [
         user,
@@ -190,25 +213,16 @@ export class StatisticsService {
           orderBy: { created_at: "desc" },
         }),
 
-        // Daily goals in range
-        prisma.dailyGoal.findMany({
-          where: {
-            user_id: userId,
-            date: {
-              gte: definedStartDate,
-              lte: definedEndDate,
-            },
-          },
-          orderBy: { date: "desc" },
-        }),
+        // Daily goals of each day in range, resolved from their versions
+        EnhancedDailyGoalsService.getGoalsForRange(userId, localStartDate, localEndDate),
 
         // Water intakes in range
         prisma.waterIntake.findMany({
           where: {
             user_id: userId,
             date: {
-              gte: definedStartDate,
-              lte: definedEndDate,
+              gte: toDayKey(localStartDate),
+              lte: toDayKey(localEndDate),
             },
           },
           select: {
@@ -271,11 +285,11 @@ export class StatisticsService {
       };
 
       // Calculate daily averages
-      const averages = this.calculateAverages(meals);
+      const averages = this.calculateAverages(meals, timeZone);
       
       // Calculate streaks and wellbeing metrics
-      const streakMetrics = this.calculateStreakMetrics(meals, waterIntakes, userStats);
-      const wellbeingMetrics = this.calculateWellbeingMetrics(meals, waterIntakes);
+      const streakMetrics = this.calculateStreakMetrics(meals, waterIntakes, userStats, timeZone);
+      const wellbeingMetrics = this.calculateWellbeingMetrics(meals, waterIntakes, timeZone);
 
       // Get user's daily goals
       const userGoals = await this.getUserDailyGoals(userId);
@@ -298,15 +312,21 @@ export class StatisticsService {
       // Format achievements data
       const achievementData = this.formatAchievements(allAchievements, userAchievements, userStats);
 
+      // Weigh-ins are optional, so a weight failure must not fail the statistics
+      const weight = await WeightService.getTimeline(userId, localStartDate, localEndDate).catch((error) => {
+        console.error("⚠️ Weight timeline unavailable for statistics:", error);
+        return null;
+      });
+
       // Calculate daily breakdown
-      const dailyBreakdown = this.calculateDailyBreakdown(meals, dailyGoals, waterIntakes, definedStartDate, definedEndDate);
+      const dailyBreakdown = this.calculateDailyBreakdown(meals, dailyGoals, waterIntakes, weight?.points || [], localStartDate, localEndDate, timeZone);
 
       // Return period statistics for custom/specific periods
       if (period === "custom" || period === "today" || period === "week" || period === "month") {
         const periodStats: PeriodStatistics = {
           period_type: period,
-          start_date: definedStartDate.toISOString().split("T")[0],
-          end_date: definedEndDate.toISOString().split("T")[0],
+          start_date: localStartDate,
+          end_date: localEndDate,
           total_days: totalDays,
           goals: periodGoals,
           consumption: periodConsumption,
@@ -332,6 +352,9 @@ export class StatisticsService {
           averageFiber: averages.fiber,
           averageSugar: averages.sugar,
           averageSodium: averages.sodium,
+          dailyBreakdown: dailyBreakdown,
+          achievements: achievementData,
+          weight,
         };
 
         console.log(`✅ Period statistics calculated for user: ${userId}`);
@@ -347,7 +370,7 @@ export class StatisticsService {
         bestStreak: userStats.bestStreak,
         weeklyStreak: Math.floor(userStats.currentStreak / 7),
         perfectDays: wellbeingMetrics.perfectDays,
-        dailyGoalDays: dailyGoals.length,
+        dailyGoalDays: dailyGoals.filter((goal) => goal.goal_version_id !== null).length,
         totalDays: totalDays,
         averageCalories: averages.calories,
         averageProtein: averages.protein,
@@ -365,6 +388,7 @@ export class StatisticsService {
         highEnergyDays: wellbeingMetrics.highEnergyDays,
         satisfiedDays: wellbeingMetrics.satisfiedDays,
         averageMealQuality: wellbeingMetrics.averageMealQuality,
+        weight,
       };
 
       console.log(`✅ Statistics calculated successfully for user: ${userId}`);
@@ -379,7 +403,7 @@ export class StatisticsService {
   /**
    * Calculate daily averages from meals
    */
-  private static calculateAverages(meals: any[]): {
+  private static calculateAverages(meals: any[], timeZone: string): {
     calories: number;
     protein: number;
     carbs: number;
@@ -405,7 +429,7 @@ export class StatisticsService {
     // Group by date to get daily averages
     const dailyTotals = new Map<string, any>();
     meals.forEach((meal) => {
-      const date = meal.created_at.toISOString().split("T")[0];
+      const date = getLocalDate(timeZone, meal.created_at);
       if (!dailyTotals.has(date)) {
         dailyTotals.set(date, {
           calories: 0,
@@ -472,7 +496,8 @@ export class StatisticsService {
   private static calculateStreakMetrics(
     meals: any[],
     waterIntakes: any[],
-    userStats: UserStats
+    userStats: UserStats,
+    timeZone: string
   ): {
     currentStreak: number;
     weeklyStreak: number;
@@ -485,7 +510,7 @@ export class StatisticsService {
       // Group meals by date
       const mealsByDate = new Map<string, any[]>();
       meals.forEach((meal) => {
-        const date = meal.created_at.toISOString().split("T")[0];
+        const date = getLocalDate(timeZone, meal.created_at);
         if (!mealsByDate.has(date)) {
           mealsByDate.set(date, []);
         }
@@ -498,7 +523,7 @@ export class StatisticsService {
 
       // Calculate completion metrics
       for (const waterRecord of waterIntakes) {
-        const date = waterRecord.date.toISOString().split("T")[0];
+        const date = fromDayKey(waterRecord.date);
         const dayMeals = mealsByDate.get(date) || [];
 
         const cups = waterRecord.cups_consumed || 0;
@@ -546,7 +571,8 @@ export class StatisticsService {
    */
   private static calculateWellbeingMetrics(
     meals: any[],
-    waterIntakes: any[]
+    waterIntakes: any[],
+    timeZone: string
   ): {
     happyDays: number;
     highEnergyDays: number;
@@ -565,7 +591,7 @@ export class StatisticsService {
 
       // Process meals
       meals.forEach((meal) => {
-        const date = meal.created_at.toISOString().split("T")[0];
+        const date = getLocalDate(timeZone, meal.created_at);
         if (!dailyData.has(date)) {
           dailyData.set(date, { calories: 0, water: 0, mealCount: 0, quality: 0 });
         }
@@ -582,7 +608,7 @@ export class StatisticsService {
 
       // Process water intake
       waterIntakes.forEach((water) => {
-        const date = water.date.toISOString().split("T")[0];
+        const date = fromDayKey(water.date);
         if (!dailyData.has(date)) {
           dailyData.set(date, { calories: 0, water: 0, mealCount: 0, quality: 3 });
         }
@@ -722,26 +748,25 @@ export class StatisticsService {
    */
   private static calculateDailyBreakdown(
     meals: any[],
-    dailyGoals: any[],
+    dailyGoals: DailyGoalTargets[],
     waterIntakes: any[],
-    startDate: Date,
-    endDate: Date
+    weightPoints: WeightTrendPoint[],
+    startDate: string,
+    endDate: string,
+    timeZone: string
   ): any[] {
     const dailyBreakdown: any[] = [];
-    const currentDate = new Date(startDate);
+    const weightByDate = new Map(weightPoints.map((point) => [point.date, point]));
 
-    while (currentDate <= endDate) {
-      const dateStr = currentDate.toISOString().split("T")[0];
+    for (const dateStr of listDates(startDate, endDate)) {
       const dayMeals = meals.filter(
-        (meal) => meal.created_at.toISOString().split("T")[0] === dateStr
+        (meal) => getLocalDate(timeZone, meal.created_at) === dateStr
       );
 
-      const dayGoal = dailyGoals.find(
-        (goal) => goal.date.toISOString().split("T")[0] === dateStr
-      );
+      const dayGoal = dailyGoals.find((goal) => goal.date === dateStr);
 
       const dayWater = waterIntakes.find(
-        (water) => water.date.toISOString().split("T")[0] === dateStr
+        (water) => fromDayKey(water.date) === dateStr
       );
 
       const dayTotals = dayMeals.reduce(
@@ -771,13 +796,15 @@ export class StatisticsService {
         date: dateStr,
         ...dayTotals,
         water_cups: dayWater?.cups_consumed || 0,
+        goal_calories: dayGoal ? Number(dayGoal.calories) : null,
+        goal_water_ml: dayGoal ? Number(dayGoal.water_ml) : null,
+        weight_kg: weightByDate.get(dateStr)?.weight_kg ?? null,
+        weight_trend_kg: weightByDate.get(dateStr)?.trend_kg ?? null,
         mood: "neutral",
         energy: "medium",
         satiety: "satisfied",
         meal_quality: 3,
       });
-
-      currentDate.setDate(currentDate.getDate() + 1);
     }
 
     return dailyBreakdown;
@@ -806,69 +833,19 @@ export class StatisticsService {
    * Get user's daily goals
    */
   static async getUserDailyGoals(userId: string): Promise<NutritionGoals> {
-    try {
-      const goals = await prisma.dailyGoal.findFirst({
-        where: { user_id: userId },
-        orderBy: { created_at: "desc" },
-      });
-
-      if (goals) {
-        return {
-          calories: Number(goals.calories) || 2000,
-          protein_g: Number(goals.protein_g) || 150,
-          carbs_g: Number(goals.carbs_g) || 250,
-          fats_g: Number(goals.fats_g) || 67,
-          fiber_g: Number(goals.fiber_g) || 25,
-          sodium_mg: Number(goals.sodium_mg) || 2300,
-          sugar_g: Number(goals.sugar_g) || 50,
-          water_ml: Number(goals.water_ml) || 2500,
-        };
-      }
-
-      // Create goals if none exist
-      const questionnaire = await prisma.userQuestionnaire.findFirst({
-        where: { user_id: userId },
-        orderBy: { date_completed: "desc" },
-      });
+    // Resolved from the goal version in effect; falls back to defaults on failure
+    const goals = await EnhancedDailyGoalsService.getUserDailyGoals(userId);
 
-      if (questionnaire) {
-        const weight = questionnaire.weight_kg || 70;
-        return {
-          calories: 2000,
-          protein_g: Math.round(weight * 1.6),
-          carbs_g: 250,
-          fats_g: 67,
-          fiber_g: 25,
-          sodium_mg: 2300,
-          sugar_g: 50,
-          water_ml: Math.round(weight * 35),
-        };
-      }
-
-      // Return defaults
-      return {
-        calories: 2000,
-        protein_g: 150,
-        carbs_g: 250,
-        fats_g: 67,
-        fiber_g: 25,
-        sodium_mg: 2300,
-        sugar_g: 50,
-        water_ml: 2500,
-      };
-    } catch (error) {
-      console.error("Error getting user daily goals:", error);
-      return {
-        calories: 2000,
-        protein_g: 150,
-        carbs_g: 250,
-        fats_g: 67,
-        fiber_g: 25,
-        sodium_mg: 2300,
-        sugar_g: 50,
-        water_ml: 2500,
-      };
-    }
+    return {
+      calories: goals.calories,
+      protein_g: goals.protein_g,
+      carbs_g: goals.carbs_g,
+      fats_g: goals.fats_g,
+      fiber_g: goals.fiber_g,
+      sodium_mg: goals.sodium_mg,
+      sugar_g: goals.sugar_g,
+      water_ml: goals.water_ml,
+    };
   }
 
   /**
@@ -977,48 +954,58 @@ export class StatisticsService {
   /**
    * Generate PDF report
    */
-  static async generatePDFReport(userId: string): Promise<Buffer> {
-    return Buffer.from("PDF Report Placeholder");
+  static async generatePDFReport(
+    userId: string,
+    options: NutritionReportOptions
+  ): Promise<Buffer> {
+    console.log(
+      `📄 Generating ${options.language} PDF report for user: ${userId}, period: ${options.period}`
+    );
+
+    const [user, statistics, dailyGoals] = await Promise.all([
+      prisma.user.findUnique({
+        where: { user_id: userId },
+        select: { name: true, email: true },
+      }),
+      this.getNutritionStatistics(
+        userId,
+        options.period,
+        options.startDate,
+        options.endDate
+      ),
+      this.getUserDailyGoals(userId),
+    ]);
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const pdfBuffer = await PDFReportService.generateNutritionReport({
+      statistics: statistics.data as PeriodStatistics,
+      dailyGoals,
+      userName: user.name || user.email,
+      language: options.language,
+      generatedAt: new Date(),
+    });
+
+    console.log(`✅ PDF report generated (${pdfBuffer.length} bytes)`);
+    return pdfBuffer;
   }
 
   /**
    * Generate insights
    */
-  static async generateInsights(userId: string): Promise<any> {
+  static async generateInsights(
+    userId: string,
+    windowDays: number = 7
+  ): Promise<{ success: boolean; data: InsightsReport }> {
     try {
-      const statistics = await this.getNutritionStatistics(userId, "month");
-
-      const insights = {
-        mainInsights: [
-          {
-            type: "protein",
-            message: `You're meeting protein goals consistently.`,
-            category: "nutrition",
-          },
-          {
-            type: "hydration",
-            message: `Your water intake is on track.`,
-            category: "lifestyle",
-          },
-          {
-            type: "streak",
-            message: `Keep up the great work with your current streak!`,
-            category: "motivation",
-          },
-        ],
-        recommendations: [
-          {
-            type: "fiber",
-            message: "Consider adding more fiber-rich foods to your diet.",
-            priority: "medium",
-          },
-          {
-            type: "sodium",
-            message: "Try to reduce sodium intake by limiting processed foods.",
-            priority: "high",
-          },
-        ],
-      };
+      const fallbackGoals = await this.getUserDailyGoals(userId);
+      const insights = await InsightsService.generateInsights(
+        userId,
+        fallbackGoals,
+        windowDays
+      );
 
       return { success: true, data: insights };
     } catch (error) {
@@ -1026,4 +1013,4 @@ export class StatisticsService {
       throw error;
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,113 @@
+import { afterEach, test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { TokenEncryptionService } from "./tokenEncryption";
+
+const v1 = crypto.randomBytes(32).toString("base64");
+const v2 = crypto.randomBytes(32).toString("base64");
+
+function useKeys(keys: string, active?: string) {
+  process.env.TOKEN_ENCRYPTION_KEYS = keys;
+  if (active) {
+    process.env.TOKEN_ENCRYPTION_ACTIVE_KEY = active;
+  } else {
+    delete process.env.TOKEN_ENCRYPTION_ACTIVE_KEY;
+  }
+  TokenEncryptionService.reloadKeys();
+}
+
+afterEach(() => {
+  delete process.env.TOKEN_ENCRYPTION_KEYS;
+  delete process.env.TOKEN_ENCRYPTION_ACTIVE_KEY;
+  TokenEncryptionService.reloadKeys();
+});
+
+test("round-trips a token under the active key", () => {
+  useKeys(`v1:${v1}`);
+
+  const stored = TokenEncryptionService.encrypt("access-token-1");
+
+  assert.ok(stored.startsWith("enc:v1:"));
+  assert.ok(!stored.includes("access-token-1"));
+  assert.deepEqual(TokenEncryptionService.decrypt(stored), {
+    value: "access-token-1",
+    needsReEncryption: false,
+  });
+});
+
+test("encrypts the same token differently every time", () => {
+  useKeys(`v1:${v1}`);
+
+  assert.notEqual(
+    TokenEncryptionService.encrypt("access-token-1"),
+    TokenEncryptionService.encrypt("access-token-1")
+  );
+});
+
+test("reads legacy base64 tokens and moves them onto the active key", () => {
+  useKeys(`v1:${v1}`);
+  const legacy = Buffer.from("legacy-token").toString("base64");
+
+  assert.deepEqual(TokenEncryptionService.decrypt(legacy), {
+    value: "legacy-token",
+    needsReEncryption: true,
+  });
+
+  const rotated = TokenEncryptionService.rotate(legacy)!;
+  assert.ok(rotated.startsWith("enc:v1:"));
+  assert.deepEqual(TokenEncryptionService.decrypt(rotated), {
+    value: "legacy-token",
+    needsReEncryption: false,
+  });
+});
+
+test("decrypts with the previous key after rotation and re-wraps onto the new one", () => {
+  useKeys(`v1:${v1}`);
+  const stored = TokenEncryptionService.encrypt("refresh-token-1");
+
+  useKeys(`v1:${v1},v2:${v2}`);
+  assert.equal(TokenEncryptionService.getActiveKeyVersion(), "v2");
+  assert.deepEqual(TokenEncryptionService.decrypt(stored), {
+    value: "refresh-token-1",
+    needsReEncryption: true,
+  });
+
+  const rotated = TokenEncryptionService.rotate(stored)!;
+  assert.ok(rotated.startsWith("enc:v2:"));
+  // Only the data key is re-wrapped, the token ciphertext stays as it was
+  assert.equal(rotated.split(":")[3], stored.split(":")[3]);
+  assert.equal(TokenEncryptionService.rotate(rotated), null);
+
+  // Once v1 is retired, only the rotated value can be read
+  useKeys(`v2:${v2}`);
+  assert.equal(TokenEncryptionService.decrypt(rotated).value, "refresh-token-1");
+  assert.throws(() => TokenEncryptionService.decrypt(stored), /"v1" is not configured/);
+});
+
+test("rejects tampered ciphertext", () => {
+  useKeys(`v1:${v1}`);
+  const stored = TokenEncryptionService.encrypt("access-token-1");
+  const [prefix, version, wrapped, data] = stored.split(":");
+  const [iv, ciphertext, tag] = data.split(".");
+
+  const flipped = Buffer.from(ciphertext, "base64url");
+  flipped[0] ^= 0xff;
+  const tampered = [prefix, version, wrapped, [iv, flipped.toString("base64url"), tag].join(".")].join(":");
+
+  assert.throws(() => TokenEncryptionService.decrypt(tampered));
+});
+
+test("rejects a data key wrapped under a different master key", () => {
+  useKeys(`v1:${v1}`);
+  const stored = TokenEncryptionService.encrypt("access-token-1");
+
+  // Same version label, different key material
+  useKeys(`v1:${v2}`);
+  assert.throws(() => TokenEncryptionService.decrypt(stored));
+});
+
+test("rejects malformed values", () => {
+  useKeys(`v1:${v1}`);
+
+  assert.throws(() => TokenEncryptionService.decrypt("enc:v1:abc"), /Malformed encrypted token/);
+});
@@ -0,0 +1,247 @@
+import crypto from "crypto";
+
+/**
+ * Envelope encryption for third-party OAuth tokens stored in the database.
+ *
+ * Every value gets its own random data key (AES-256-GCM). The data key is
+ * wrapped with a versioned master key from configuration, so rotating the
+ * master key only re-wraps data keys and never touches the token ciphertext.
+ *
+ * Stored format:
+ *   enc:<keyVersion>:<wrapIv>.<wrappedKey>.<wrapTag>:<iv>.<ciphertext>.<tag>
+ * with every segment base64url encoded.
+ *
+ * Configuration:
+ *   TOKEN_ENCRYPTION_KEYS        comma separated "<version>:<base64 32-byte key>" pairs
+ *   TOKEN_ENCRYPTION_ACTIVE_KEY  version used for new values (defaults to the last listed)
+ */
+
+const PREFIX = "enc";
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+const DEV_KEY_VERSION = "dev";
+
+interface KeyRing {
+  activeVersion: string;
+  keys: Map<string, Buffer>;
+}
+
+interface EnvelopeParts {
+  keyVersion: string;
+  wrapIv: Buffer;
+  wrappedKey: Buffer;
+  wrapTag: Buffer;
+  iv: Buffer;
+  ciphertext: Buffer;
+  tag: Buffer;
+}
+
+export interface DecryptedToken {
+  value: string;
+  // True when the stored value is legacy base64 or uses a retired master key
+  needsReEncryption: boolean;
+}
+
+export class TokenEncryptionService {
+  private static keyRing: KeyRing | null = null;
+
+  static isEncrypted(stored: string): boolean {
+    return stored.startsWith(`${PREFIX}:`);
+  }
+
+  static getActiveKeyVersion(): string {
+    return this.getKeyRing().activeVersion;
+  }
+
+  static encrypt(plaintext: string): string {
+    const ring = this.getKeyRing();
+    const dataKey = crypto.randomBytes(KEY_LENGTH);
+
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ALGORITHM, dataKey, iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(plaintext, "utf8"),
+      cipher.final(),
+    ]);
+    const tag = cipher.getAuthTag();
+
+    const wrapped = this.wrapDataKey(dataKey, ring.activeVersion);
+
+    return this.serialize({
+      keyVersion: ring.activeVersion,
+      ...wrapped,
+      iv,
+      ciphertext,
+      tag,
+    });
+  }
+
+  static decrypt(stored: string): DecryptedToken {
+    if (!this.isEncrypted(stored)) {
+      // Values written before encryption was introduced were plain base64
+      return {
+        value: Buffer.from(stored, "base64").toString(),
+        needsReEncryption: true,
+      };
+    }
+
+    const parts = this.parse(stored);
+    const dataKey = this.unwrapDataKey(parts);
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, dataKey, parts.iv);
+    decipher.setAuthTag(parts.tag);
+    const value = Buffer.concat([
+      decipher.update(parts.ciphertext),
+      decipher.final(),
+    ]).toString("utf8");
+
+    return {
+      value,
+      needsReEncryption: parts.keyVersion !== this.getActiveKeyVersion(),
+    };
+  }
+
+  /**
+   * Move a stored value onto the active master key. Encrypted values only get
+   * their data key re-wrapped; legacy base64 values are encrypted from scratch.
+   * Returns null when the value is already current.
+   */
+  static rotate(stored: string): string | null {
+    const activeVersion = this.getActiveKeyVersion();
+
+    if (!this.isEncrypted(stored)) {
+      return this.encrypt(this.decrypt(stored).value);
+    }
+
+    const parts = this.parse(stored);
+    if (parts.keyVersion === activeVersion) {
+      return null;
+    }
+
+    const dataKey = this.unwrapDataKey(parts);
+    return this.serialize({
+      ...parts,
+      ...this.wrapDataKey(dataKey, activeVersion),
+      keyVersion: activeVersion,
+    });
+  }
+
+  /**
+   * Drop the cached key ring so configuration changes are picked up
+   */
+  static reloadKeys() {
+    this.keyRing = null;
+  }
+
+  private static wrapDataKey(dataKey: Buffer, keyVersion: string) {
+    const masterKey = this.getMasterKey(keyVersion);
+    const wrapIv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ALGORITHM, masterKey, wrapIv);
+    const wrappedKey = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+    return { wrapIv, wrappedKey, wrapTag: cipher.getAuthTag() };
+  }
+
+  private static unwrapDataKey(parts: EnvelopeParts): Buffer {
+    const masterKey = this.getMasterKey(parts.keyVersion);
+    const decipher = crypto.createDecipheriv(ALGORITHM, masterKey, parts.wrapIv);
+    decipher.setAuthTag(parts.wrapTag);
+    return Buffer.concat([decipher.update(parts.wrappedKey), decipher.final()]);
+  }
+
+  private static serialize(parts: EnvelopeParts): string {
+    const encode = (buffer: Buffer) => buffer.toString("base64url");
+    return [
+      PREFIX,
+      parts.keyVersion,
+      [parts.wrapIv, parts.wrappedKey, parts.wrapTag].map(encode).join("."),
+      [parts.iv, parts.ciphertext, parts.tag].map(encode).join("."),
+    ].join(":");
+  }
+
+  private static parse(stored: string): EnvelopeParts {
+    const [prefix, keyVersion, wrappedSegment, dataSegment] = stored.split(":");
+    const wrapped = (wrappedSegment || "").split(".");
+    const data = (dataSegment || "").split(".");
+
+    if (prefix !== PREFIX || !keyVersion || wrapped.length !== 3 || data.length !== 3) {
+      throw new Error("Malformed encrypted token");
+    }
+
+    const decode = (value: string) => Buffer.from(value, "base64url");
+    return {
+      keyVersion,
+      wrapIv: decode(wrapped[0]),
+      wrappedKey: decode(wrapped[1]),
+      wrapTag: decode(wrapped[2]),
+      iv: decode(data[0]),
+      ciphertext: decode(data[1]),
+      tag: decode(data[2]),
+    };
+  }
+
+  private static getMasterKey(keyVersion: string): Buffer {
+    const key = this.getKeyRing().keys.get(keyVersion);
+    if (!key) {
+      throw new Error(`Token encryption key version "${keyVersion}" is not configured`);
+    }
+    return key;
+  }
+
+  private static getKeyRing(): KeyRing {
+    if (this.keyRing) {
+      return this.keyRing;
+    }
+
+    const keys = new Map<string, Buffer>();
+    const configured = (process.env.TOKEN_ENCRYPTION_KEYS || "")
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+
+    for (const entry of configured) {
+      const separator = entry.indexOf(":");
+      const version = entry.slice(0, separator).trim();
+      const key = Buffer.from(entry.slice(separator + 1).trim(), "base64");
+
+      if (separator <= 0 || version.includes(".")) {
+        throw new Error(`Invalid TOKEN_ENCRYPTION_KEYS entry for version "${version}"`);
+      }
+      if (key.length !== KEY_LENGTH) {
+        throw new Error(
+          `Token encryption key "${version}" must be ${KEY_LENGTH} bytes (base64 encoded)`
+        );
+      }
+      keys.set(version, key);
+    }
+
+    if (keys.size === 0) {
+      if (process.env.NODE_ENV === "production") {
+        throw new Error("TOKEN_ENCRYPTION_KEYS must be configured in production");
+      }
+
+      console.warn(
+        "⚠️ TOKEN_ENCRYPTION_KEYS not set, deriving a development key from JWT_SECRET"
+      );
+      keys.set(
+        DEV_KEY_VERSION,
+        crypto
+          .createHash("sha256")
+          .update(`device-tokens:${process.env.JWT_SECRET || "development"}`)
+          .digest()
+      );
+    }
+
+    const activeVersion =
+      process.env.TOKEN_ENCRYPTION_ACTIVE_KEY || Array.from(keys.keys()).pop()!;
+
+    if (!keys.has(activeVersion)) {
+      throw new Error(
+        `TOKEN_ENCRYPTION_ACTIVE_KEY "${activeVersion}" is not listed in TOKEN_ENCRYPTION_KEYS`
+      );
+    }
+
+    this.keyRing = { activeVersion, keys };
+    return this.keyRing;
+  }
+}
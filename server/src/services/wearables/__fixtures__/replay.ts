@@ -0,0 +1,140 @@
+import axios, { AxiosError, AxiosInstance } from "axios";
+import { ConnectedDevice } from "@prisma/client";
+import { prisma } from "../../../lib/database";
+import { TokenEncryptionService } from "../../tokenEncryption";
+
+// One recorded provider response, as stored in the fixture files
+export interface RecordedExchange {
+  method: string;
+  url: string;
+  status: number;
+  body: any;
+}
+
+export interface ReplayedRequest {
+  method: string;
+  url: string;
+  authorization?: string;
+  data?: string;
+}
+
+/**
+ * An axios client that answers from recorded exchanges instead of the
+ * network. Each exchange answers one request, and a request nothing was
+ * recorded for fails the way an unreachable provider would.
+ */
+export function createReplayClient(exchanges: RecordedExchange[]): {
+  http: AxiosInstance;
+  requests: ReplayedRequest[];
+  pending: () => RecordedExchange[];
+} {
+  const remaining = [...exchanges];
+  const requests: ReplayedRequest[] = [];
+
+  const http = axios.create({
+    adapter: async (config) => {
+      const method = (config.method || "get").toUpperCase();
+      const url = config.url || "";
+      requests.push({
+        method,
+        url,
+        authorization: config.headers?.Authorization as string | undefined,
+        data: typeof config.data === "string" ? config.data : undefined,
+      });
+
+      const index = remaining.findIndex(
+        (exchange) => exchange.method === method && exchange.url === url
+      );
+      if (index === -1) {
+        throw new AxiosError(`No recorded response for ${method} ${url}`, "ERR_NETWORK", config);
+      }
+      const [exchange] = remaining.splice(index, 1);
+
+      const response = {
+        data: exchange.body,
+        status: exchange.status,
+        statusText: String(exchange.status),
+        headers: {},
+        config,
+        request: {},
+      };
+      if (exchange.status >= 400) {
+        throw new AxiosError(
+          `Request failed with status code ${exchange.status}`,
+          AxiosError.ERR_BAD_REQUEST,
+          config,
+          {},
+          response
+        );
+      }
+      return response;
+    },
+  });
+
+  return { http, requests, pending: () => [...remaining] };
+}
+
+/**
+ * Keep a connected device and the rows a pull writes in memory, in place of
+ * the database delegates the sync touches.
+ */
+export function useDeviceStore(device: ConnectedDevice) {
+  const store = {
+    device: { ...device },
+    activityRows: [] as Record<string, any>[],
+    weightRows: [] as Record<string, any>[],
+  };
+
+  Object.assign(prisma, {
+    user: { findUnique: async () => ({ timezone: "UTC" }) },
+    connectedDevice: {
+      findFirst: async () => store.device,
+      update: async ({ data }: { data: Partial<ConnectedDevice> }) =>
+        Object.assign(store.device, data),
+      updateMany: async ({ data }: { data: Record<string, any> }) => {
+        for (const [key, value] of Object.entries(data)) {
+          if (value !== undefined) (store.device as any)[key] = value;
+        }
+        return { count: 1 };
+      },
+    },
+    dailyActivitySummary: {
+      upsert: async ({ create }: { create: Record<string, any> }) => {
+        store.activityRows.push(create);
+        return create;
+      },
+    },
+    weightEntry: {
+      upsert: async ({ create }: { create: Record<string, any> }) => {
+        store.weightRows.push(create);
+        return create;
+      },
+    },
+    // Nothing to close, and no engine to close it with
+    $disconnect: async () => {},
+  });
+
+  return store;
+}
+
+export function buildDevice(
+  deviceType: "FITBIT" | "GOOGLE_FIT",
+  tokens: { accessToken: string; refreshToken: string; expiresAt: Date }
+): ConnectedDevice {
+  return {
+    connected_device_id: `device-${deviceType.toLowerCase()}`,
+    user_id: "user-1",
+    device_name: deviceType === "FITBIT" ? "Fitbit" : "Google Fit",
+    device_type: deviceType,
+    connection_status: "CONNECTED",
+    last_sync_time: null,
+    sync_frequency_hours: 24,
+    is_primary_device: false,
+    device_settings: null,
+    access_token_encrypted: TokenEncryptionService.encrypt(tokens.accessToken),
+    refresh_token_encrypted: TokenEncryptionService.encrypt(tokens.refreshToken),
+    token_expires_at: tokens.expiresAt,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+}
@@ -0,0 +1,187 @@
+import axios, { AxiosInstance } from "axios";
+import {
+  OAuthTokenSet,
+  ProviderDailyActivity,
+  WearableProvider,
+} from "../../types/devices";
+
+const AUTHORIZE_URL = "https://www.fitbit.com/oauth2/authorize";
+const TOKEN_URL = "https://api.fitbit.com/oauth2/token";
+const API_BASE_URL = "https://api.fitbit.com";
+const SCOPES = ["activity", "heartrate", "sleep", "weight", "profile"];
+
+interface FitbitConfig {
+  clientId?: string;
+  clientSecret?: string;
+  redirectUri?: string;
+}
+
+type TimeSeries = { dateTime: string; value: any }[];
+
+export class FitbitProvider implements WearableProvider {
+  readonly deviceType = "FITBIT";
+  readonly displayName = "Fitbit";
+
+  constructor(
+    private readonly http: AxiosInstance = axios.create({ timeout: 10000 }),
+    private readonly config: FitbitConfig = {
+      clientId: process.env.FITBIT_CLIENT_ID,
+      clientSecret: process.env.FITBIT_CLIENT_SECRET,
+      redirectUri: process.env.FITBIT_REDIRECT_URI,
+    }
+  ) {}
+
+  isConfigured(): boolean {
+    return !!(
+      this.config.clientId &&
+      this.config.clientSecret &&
+      this.config.redirectUri
+    );
+  }
+
+  getAuthorizationUrl(state: string): string {
+    const params = new URLSearchParams({
+      response_type: "code",
+      client_id: this.config.clientId || "",
+      redirect_uri: this.config.redirectUri || "",
+      scope: SCOPES.join(" "),
+      state,
+    });
+    return `${AUTHORIZE_URL}?${params.toString()}`;
+  }
+
+  async exchangeCode(code: string): Promise<OAuthTokenSet> {
+    return this.requestToken({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: this.config.redirectUri || "",
+    });
+  }
+
+  async refreshTokens(refreshToken: string): Promise<OAuthTokenSet> {
+    // Fitbit refresh tokens are single-use, the response always carries a new one
+    return this.requestToken({
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+    });
+  }
+
+  async fetchDailyActivity(
+    accessToken: string,
+    startDate: string,
+    endDate: string
+  ): Promise<ProviderDailyActivity[]> {
+    const range = `date/${startDate}/${endDate}.json`;
+
+    const [steps, calories, caloriesBmr, distance, fairlyActive, veryActive, heart, weight, fat, sleep] =
+      await Promise.all([
+        this.get(accessToken, `/1/user/-/activities/steps/${range}`),
+        this.get(accessToken, `/1/user/-/activities/calories/${range}`),
+        this.get(accessToken, `/1/user/-/activities/caloriesBMR/${range}`),
+        this.get(accessToken, `/1/user/-/activities/distance/${range}`),
+        this.get(accessToken, `/1/user/-/activities/minutesFairlyActive/${range}`),
+        this.get(accessToken, `/1/user/-/activities/minutesVeryActive/${range}`),
+        this.get(accessToken, `/1/user/-/activities/heart/${range}`),
+        this.get(accessToken, `/1/user/-/body/weight/${range}`),
+        this.get(accessToken, `/1/user/-/body/fat/${range}`),
+        this.get(accessToken, `/1.2/user/-/sleep/${range}`),
+      ]);
+
+    const toMap = (series: TimeSeries | undefined) =>
+      new Map((series || []).map((entry) => [entry.dateTime, entry.value]));
+
+    const stepsByDate = toMap(steps["activities-steps"]);
+    const caloriesByDate = toMap(calories["activities-calories"]);
+    const bmrByDate = toMap(caloriesBmr["activities-caloriesBMR"]);
+    const distanceByDate = toMap(distance["activities-distance"]);
+    const fairlyByDate = toMap(fairlyActive["activities-minutesFairlyActive"]);
+    const veryByDate = toMap(veryActive["activities-minutesVeryActive"]);
+    const heartByDate = toMap(heart["activities-heart"]);
+    const weightByDate = toMap(weight["body-weight"]);
+    const fatByDate = toMap(fat["body-fat"]);
+
+    const sleepByDate = new Map<string, number>();
+    for (const entry of sleep.sleep || []) {
+      if (entry.isMainSleep === false) continue;
+      sleepByDate.set(
+        entry.dateOfSleep,
+        (sleepByDate.get(entry.dateOfSleep) || 0) + (entry.minutesAsleep || 0)
+      );
+    }
+
+    const number = (value: any): number | undefined => {
+      if (value === undefined || value === null || value === "") {
+        return undefined;
+      }
+      const parsed = Number(value);
+      return isNaN(parsed) ? undefined : parsed;
+    };
+
+    return Array.from(stepsByDate.keys())
+      .sort()
+      .map((date) => {
+        const totalCalories = number(caloriesByDate.get(date)) || 0;
+        const bmr = number(bmrByDate.get(date)) || 0;
+        const sleepMinutes = sleepByDate.get(date);
+
+        return {
+          date,
+          steps: number(stepsByDate.get(date)) || 0,
+          // Fitbit reports total calories out including BMR; we store them separately
+          caloriesBurned: Math.max(0, totalCalories - bmr),
+          bmr,
+          activeMinutes:
+            (number(fairlyByDate.get(date)) || 0) +
+            (number(veryByDate.get(date)) || 0),
+          distance: number(distanceByDate.get(date)),
+          // Fitbit has no daily average heart rate, resting heart rate is the closest daily figure
+          heartRate: number(heartByDate.get(date)?.restingHeartRate),
+          weight: number(weightByDate.get(date)),
+          bodyFat: number(fatByDate.get(date)),
+          sleepHours:
+            sleepMinutes !== undefined
+              ? Math.round((sleepMinutes / 60) * 10) / 10
+              : undefined,
+          raw: {
+            provider: "fitbit",
+            calories_total: totalCalories,
+          },
+        };
+      });
+  }
+
+  private async requestToken(
+    params: Record<string, string>
+  ): Promise<OAuthTokenSet> {
+    const credentials = Buffer.from(
+      `${this.config.clientId}:${this.config.clientSecret}`
+    ).toString("base64");
+
+    const response = await this.http.post(
+      TOKEN_URL,
+      new URLSearchParams(params).toString(),
+      {
+        headers: {
+          Authorization: `Basic ${credentials}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+      }
+    );
+
+    const data = response.data;
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresAt: new Date(Date.now() + (data.expires_in || 28800) * 1000),
+      scope: data.scope,
+    };
+  }
+
+  // No Accept-Language header: Fitbit then returns metric units (km, kg)
+  private async get(accessToken: string, path: string): Promise<any> {
+    const response = await this.http.get(`${API_BASE_URL}${path}`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+    return response.data || {};
+  }
+}
@@ -0,0 +1,196 @@
+import axios, { AxiosInstance } from "axios";
+import {
+  OAuthTokenSet,
+  ProviderDailyActivity,
+  WearableProvider,
+} from "../../types/devices";
+
+const AUTHORIZE_URL = "https://accounts.google.com/o/oauth2/v2/auth";
+const TOKEN_URL = "https://oauth2.googleapis.com/token";
+const AGGREGATE_URL =
+  "https://www.googleapis.com/fitness/v1/users/me/dataset:aggregate";
+const SCOPES = [
+  "https://www.googleapis.com/auth/fitness.activity.read",
+  "https://www.googleapis.com/auth/fitness.body.read",
+  "https://www.googleapis.com/auth/fitness.heart_rate.read",
+  "https://www.googleapis.com/auth/fitness.location.read",
+  "https://www.googleapis.com/auth/fitness.sleep.read",
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const AGGREGATED_TYPES = [
+  "com.google.step_count.delta",
+  "com.google.calories.expended",
+  "com.google.calories.bmr",
+  "com.google.active_minutes",
+  "com.google.distance.delta",
+  "com.google.heart_rate.bpm",
+  "com.google.weight",
+  "com.google.body.fat.percentage",
+];
+
+interface GoogleFitConfig {
+  clientId?: string;
+  clientSecret?: string;
+  redirectUri?: string;
+}
+
+export class GoogleFitProvider implements WearableProvider {
+  readonly deviceType = "GOOGLE_FIT";
+  readonly displayName = "Google Fit";
+
+  constructor(
+    private readonly http: AxiosInstance = axios.create({ timeout: 10000 }),
+    private readonly config: GoogleFitConfig = {
+      clientId: process.env.GOOGLE_FIT_CLIENT_ID,
+      clientSecret: process.env.GOOGLE_FIT_CLIENT_SECRET,
+      redirectUri: process.env.GOOGLE_FIT_REDIRECT_URI,
+    }
+  ) {}
+
+  isConfigured(): boolean {
+    return !!(
+      this.config.clientId &&
+      this.config.clientSecret &&
+      this.config.redirectUri
+    );
+  }
+
+  getAuthorizationUrl(state: string): string {
+    const params = new URLSearchParams({
+      response_type: "code",
+      client_id: this.config.clientId || "",
+      redirect_uri: this.config.redirectUri || "",
+      scope: SCOPES.join(" "),
+      // Offline access with forced consent is the only way to get a refresh token back
+      access_type: "offline",
+      prompt: "consent",
+      state,
+    });
+    return `${AUTHORIZE_URL}?${params.toString()}`;
+  }
+
+  async exchangeCode(code: string): Promise<OAuthTokenSet> {
+    return this.requestToken({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: this.config.redirectUri || "",
+    });
+  }
+
+  async refreshTokens(refreshToken: string): Promise<OAuthTokenSet> {
+    const tokens = await this.requestToken({
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+    });
+
+    // Google keeps the original refresh token valid and usually omits it on refresh
+    return { ...tokens, refreshToken: tokens.refreshToken || refreshToken };
+  }
+
+  async fetchDailyActivity(
+    accessToken: string,
+    startDate: string,
+    endDate: string
+  ): Promise<ProviderDailyActivity[]> {
+    const startTimeMillis = Date.parse(`${startDate}T00:00:00.000Z`);
+    const endTimeMillis = Date.parse(`${endDate}T00:00:00.000Z`) + DAY_MS;
+
+    const response = await this.http.post(
+      AGGREGATE_URL,
+      {
+        aggregateBy: AGGREGATED_TYPES.map((dataTypeName) => ({ dataTypeName })),
+        bucketByTime: { durationMillis: DAY_MS },
+        startTimeMillis,
+        endTimeMillis,
+      },
+      { headers: { Authorization: `Bearer ${accessToken}` } }
+    );
+
+    const buckets: any[] = response.data?.bucket || [];
+
+    return buckets.map((bucket) => {
+      const date = new Date(Number(bucket.startTimeMillis))
+        .toISOString()
+        .split("T")[0];
+      const values = this.collectBucketValues(bucket);
+
+      const caloriesExpended = values.sum("com.google.calories.expended");
+      const bmr = values.first("com.google.calories.bmr.summary", 0) || 0;
+      const distanceMeters = values.sum("com.google.distance.delta");
+
+      return {
+        date,
+        steps: Math.round(values.sum("com.google.step_count.delta")),
+        // Expended calories include BMR when Google Fit can estimate it
+        caloriesBurned: Math.max(0, Math.round(caloriesExpended - bmr)),
+        bmr: Math.round(bmr),
+        activeMinutes: Math.round(values.sum("com.google.active_minutes")),
+        distance: distanceMeters
+          ? Math.round((distanceMeters / 1000) * 100) / 100
+          : undefined,
+        // Summary points carry [average, max, min]
+        heartRate: this.round(values.first("com.google.heart_rate.summary", 0)),
+        heartRateMax: this.round(values.first("com.google.heart_rate.summary", 1)),
+        weight: values.first("com.google.weight.summary", 0),
+        bodyFat: values.first("com.google.body.fat.percentage.summary", 0),
+        raw: {
+          provider: "google_fit",
+          calories_expended: caloriesExpended,
+        },
+      };
+    });
+  }
+
+  /**
+   * Flatten the datasets of an aggregate bucket into lookups by data type name
+   */
+  private collectBucketValues(bucket: any) {
+    const points = new Map<string, number[][]>();
+
+    for (const dataset of bucket.dataset || []) {
+      for (const point of dataset.point || []) {
+        const values = (point.value || []).map(
+          (value: any) => value.fpVal ?? value.intVal ?? 0
+        );
+        const existing = points.get(point.dataTypeName) || [];
+        existing.push(values);
+        points.set(point.dataTypeName, existing);
+      }
+    }
+
+    return {
+      sum: (type: string) =>
+        (points.get(type) || []).reduce((total, values) => total + (values[0] || 0), 0),
+      first: (type: string, index: number): number | undefined =>
+        points.get(type)?.[0]?.[index],
+    };
+  }
+
+  private round(value: number | undefined): number | undefined {
+    return value === undefined ? undefined : Math.round(value);
+  }
+
+  private async requestToken(
+    params: Record<string, string>
+  ): Promise<OAuthTokenSet> {
+    const response = await this.http.post(
+      TOKEN_URL,
+      new URLSearchParams({
+        ...params,
+        client_id: this.config.clientId || "",
+        client_secret: this.config.clientSecret || "",
+      }).toString(),
+      { headers: { "Content-Type": "application/x-www-form-urlencoded" } }
+    );
+
+    const data = response.data;
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresAt: new Date(Date.now() + (data.expires_in || 3600) * 1000),
+      scope: data.scope,
+    };
+  }
+}
@@ -0,0 +1,26 @@
+import { WearableProvider } from "../../types/devices";
+import { FitbitProvider } from "./fitbit";
+import { GoogleFitProvider } from "./googleFit";
+
+const providers = new Map<string, WearableProvider>();
+
+export class WearableProviderRegistry {
+  static register(provider: WearableProvider) {
+    providers.set(provider.deviceType, provider);
+  }
+
+  static get(deviceType: string): WearableProvider | undefined {
+    return providers.get(deviceType);
+  }
+
+  static list(): WearableProvider[] {
+    return Array.from(providers.values());
+  }
+
+  static supportedDeviceTypes(): string[] {
+    return Array.from(providers.keys());
+  }
+}
+
+WearableProviderRegistry.register(new FitbitProvider());
+WearableProviderRegistry.register(new GoogleFitProvider());
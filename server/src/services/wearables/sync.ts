@@ -0,0 +1,288 @@
+import jwt from "jsonwebtoken";
+import { ConnectedDevice } from "@prisma/client";
+import { prisma } from "../../lib/database";
+import { DeviceService } from "../devices";
+import { WearableProviderRegistry } from "./index";
+import { DeviceSyncResult, WearableProvider } from "../../types/devices";
+import { addDays, getLocalDate, getUserTimeZone } from "../../utils/dayBoundary";
+
+const OAUTH_STATE_PURPOSE = "wearable_oauth";
+const OAUTH_STATE_EXPIRES_IN = "10m";
+
+// Refresh tokens a little before they actually expire to avoid mid-sync failures
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// Upper bound for a single pull so a long-offline device cannot trigger huge requests
+const MAX_PULL_DAYS = 30;
+
+export class WearableSyncService {
+  static getProvider(deviceType: string): WearableProvider {
+    const provider = WearableProviderRegistry.get(deviceType);
+    if (!provider) {
+      throw new Error(`Server-side sync is not supported for ${deviceType}`);
+    }
+    if (!provider.isConfigured()) {
+      throw new Error(`${provider.displayName} integration is not configured`);
+    }
+    return provider;
+  }
+
+  static listProviders() {
+    return WearableProviderRegistry.list().map((provider) => ({
+      deviceType: provider.deviceType,
+      displayName: provider.displayName,
+      configured: provider.isConfigured(),
+    }));
+  }
+
+  /**
+   * Build the provider consent URL; the signed state ties the callback to this user
+   */
+  static getAuthorizationUrl(user_id: string, deviceType: string): string {
+    const provider = this.getProvider(deviceType);
+    const state = jwt.sign(
+      { user_id, device_type: deviceType, purpose: OAUTH_STATE_PURPOSE },
+      process.env.JWT_SECRET!,
+      { expiresIn: OAUTH_STATE_EXPIRES_IN }
+    );
+    return provider.getAuthorizationUrl(state);
+  }
+
+  /**
+   * Exchange the OAuth authorization code and store the device with its tokens
+   */
+  static async completeAuthorization(
+    user_id: string,
+    deviceType: string,
+    code: string,
+    state: string
+  ) {
+    const provider = this.getProvider(deviceType);
+
+    let decoded: any;
+    try {
+      decoded = jwt.verify(state, process.env.JWT_SECRET!);
+    } catch {
+      throw new Error("Invalid or expired authorization state");
+    }
+
+    if (
+      decoded.purpose !== OAUTH_STATE_PURPOSE ||
+      decoded.user_id !== user_id ||
+      decoded.device_type !== deviceType
+    ) {
+      throw new Error("Invalid or expired authorization state");
+    }
+
+    console.log(`🔑 Exchanging ${provider.displayName} authorization code for user:`, user_id);
+    const tokens = await provider.exchangeCode(code);
+
+    return DeviceService.connectDevice(
+      user_id,
+      deviceType,
+      provider.displayName,
+      tokens.accessToken,
+      tokens.refreshToken,
+      tokens.expiresAt
+    );
+  }
+
+  /**
+   * Return a usable access token, refreshing it through the provider when it is about to expire
+   */
+  static async getValidAccessToken(
+    device: ConnectedDevice,
+    provider: WearableProvider
+  ): Promise<string> {
+    const { accessToken, refreshToken } = await DeviceService.getDeviceTokens(
+      device.user_id,
+      device.connected_device_id
+    );
+
+    if (!accessToken) {
+      throw new Error("Device has no stored authorization, please reconnect");
+    }
+
+    const expiresAt = device.token_expires_at?.getTime() ?? 0;
+    if (expiresAt - Date.now() > TOKEN_REFRESH_MARGIN_MS) {
+      return accessToken;
+    }
+
+    if (!refreshToken) {
+      throw new Error("Device authorization expired, please reconnect");
+    }
+
+    console.log(`🔄 Refreshing ${provider.displayName} token for device:`, device.connected_device_id);
+    const tokens = await provider.refreshTokens(refreshToken);
+
+    await DeviceService.updateDeviceTokens(
+      device.user_id,
+      device.connected_device_id,
+      tokens.accessToken,
+      tokens.refreshToken,
+      tokens.expiresAt
+    );
+
+    return tokens.accessToken;
+  }
+
+  /**
+   * Pull daily activity from the provider and store it per day
+   */
+  static async pullDevice(
+    device: ConnectedDevice,
+    options: { startDate?: string; endDate?: string } = {}
+  ): Promise<DeviceSyncResult> {
+    const result: DeviceSyncResult = {
+      deviceId: device.connected_device_id,
+      deviceType: device.device_type,
+      daysSynced: 0,
+      success: false,
+    };
+
+    try {
+      const provider = this.getProvider(device.device_type);
+      const { startDate, endDate } = this.resolvePullRange(
+        device.last_sync_time,
+        await getUserTimeZone(device.user_id),
+        options
+      );
+
+      console.log(
+        `⌚ Pulling ${provider.displayName} data for device ${device.connected_device_id}: ${startDate} → ${endDate}`
+      );
+
+      await prisma.connectedDevice.update({
+        where: { connected_device_id: device.connected_device_id },
+        data: { connection_status: "SYNCING" },
+      });
+
+      const accessToken = await this.getValidAccessToken(device, provider);
+      const days = await provider.fetchDailyActivity(
+        accessToken,
+        startDate,
+        endDate
+      );
+
+      for (const day of days) {
+        await DeviceService.saveDailyActivity(device.user_id, device, day.date, day);
+      }
+
+      await prisma.connectedDevice.update({
+        where: { connected_device_id: device.connected_device_id },
+        data: {
+          connection_status: "CONNECTED",
+          last_sync_time: new Date(),
+        },
+      });
+
+      result.daysSynced = days.length;
+      result.success = true;
+      console.log(`✅ Pulled ${days.length} days for device ${device.connected_device_id}`);
+    } catch (error: any) {
+      const status = error?.response?.status;
+      result.error =
+        status === 401 || status === 403
+          ? "Provider rejected the stored authorization, please reconnect"
+          : error instanceof Error
+          ? error.message
+          : "Unknown error";
+
+      console.error(`💥 Pull failed for device ${device.connected_device_id}:`, result.error);
+
+      await prisma.connectedDevice
+        .update({
+          where: { connected_device_id: device.connected_device_id },
+          data: { connection_status: "ERROR" },
+        })
+        .catch((updateError) =>
+          console.error("💥 Failed to mark device as errored:", updateError)
+        );
+    }
+
+    return result;
+  }
+
+  static async pullUserDevice(
+    user_id: string,
+    deviceId: string,
+    options: { startDate?: string; endDate?: string } = {}
+  ): Promise<DeviceSyncResult> {
+    const device = await prisma.connectedDevice.findFirst({
+      where: { connected_device_id: deviceId, user_id },
+    });
+
+    if (!device) {
+      throw new Error("Device not found");
+    }
+
+    return this.pullDevice(device, options);
+  }
+
+  /**
+   * Pull every connected device whose sync_frequency_hours has elapsed since its last sync
+   */
+  static async syncDueDevices(): Promise<{
+    checked: number;
+    synced: number;
+    failed: number;
+    results: DeviceSyncResult[];
+  }> {
+    const devices = await prisma.connectedDevice.findMany({
+      where: {
+        device_type: { in: WearableProviderRegistry.supportedDeviceTypes() as any },
+        connection_status: { in: ["CONNECTED", "ERROR"] },
+        access_token_encrypted: { not: null },
+      },
+    });
+
+    const now = Date.now();
+    const due = devices.filter((device) => {
+      if (!device.last_sync_time) return true;
+      const frequencyMs = (device.sync_frequency_hours ?? 24) * 60 * 60 * 1000;
+      return now - device.last_sync_time.getTime() >= frequencyMs;
+    });
+
+    console.log(`⌚ ${due.length} of ${devices.length} connected devices are due for sync`);
+
+    const results: DeviceSyncResult[] = [];
+    // Sequential on purpose: provider APIs rate-limit per client application
+    for (const device of due) {
+      results.push(await this.pullDevice(device));
+    }
+
+    return {
+      checked: devices.length,
+      synced: results.filter((r) => r.success).length,
+      failed: results.filter((r) => !r.success).length,
+      results,
+    };
+  }
+
+  /**
+   * Default range starts at the day of the last sync, which may have been partial.
+   * Dates are the user's local days.
+   */
+  private static resolvePullRange(
+    lastSyncTime: Date | null,
+    timeZone: string,
+    options: { startDate?: string; endDate?: string }
+  ): { startDate: string; endDate: string } {
+    const endDate = options.endDate || getLocalDate(timeZone);
+    const earliest = addDays(endDate, -(MAX_PULL_DAYS - 1));
+
+    let startDate =
+      options.startDate ||
+      (lastSyncTime ? getLocalDate(timeZone, lastSyncTime) : addDays(endDate, -6));
+
+    if (startDate < earliest) {
+      startDate = earliest;
+    }
+
+    if (startDate > endDate) {
+      throw new Error("startDate must be before endDate");
+    }
+
+    return { startDate, endDate };
+  }
+}
@@ -0,0 +1,360 @@
+import { WeightEntry } from "@prisma/client";
+import { prisma } from "../lib/database";
+import {
+  WeightEntryInput,
+  WeightEntryUpdateInput,
+  WeightProjection,
+  WeightSummary,
+  WeightTimeline,
+  WeightTrendPoint,
+} from "../types/weight";
+import {
+  addDays,
+  fromDayKey,
+  getLocalDate,
+  getUserTimeZone,
+  toDayKey,
+} from "../utils/dayBoundary";
+import { DeviceService } from "./devices";
+
+// Daily smoothing factor of the trend (exponential moving average); gaps
+// between weigh-ins are bridged as if the same weight was seen every day
+const TREND_ALPHA = 0.1;
+// Weigh-ins before the requested range that let the trend settle first
+const TREND_WARMUP_DAYS = 60;
+
+// Window for the weekly rate of the trend
+const RATE_WINDOW_DAYS = 28;
+const MIN_RATE_SPAN_DAYS = 7;
+
+// Rolling calorie balance used for the projected goal date
+const BALANCE_WINDOW_DAYS = 14;
+const MIN_BALANCE_DAYS = 5;
+const KCAL_PER_KG = 7700;
+const GOAL_REACHED_KG = 0.5;
+const MAX_PROJECTION_DAYS = 730;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export class WeightService {
+  static async getEntries(user_id: string, startDate: string, endDate: string) {
+    try {
+      return await prisma.weightEntry.findMany({
+        where: {
+          user_id,
+          date: { gte: toDayKey(startDate), lte: toDayKey(endDate) },
+        },
+        orderBy: { measured_at: "desc" },
+      });
+    } catch (error) {
+      console.error("💥 Error fetching weight entries:", error);
+      throw new Error("Failed to fetch weight entries");
+    }
+  }
+
+  static async addEntry(user_id: string, input: WeightEntryInput) {
+    try {
+      const measuredAt = input.measured_at || new Date();
+      const date = getLocalDate(await getUserTimeZone(user_id), measuredAt);
+
+      console.log("⚖️ Adding weigh-in for user:", user_id, date, input.weight_kg);
+
+      return await prisma.weightEntry.create({
+        data: {
+          user_id,
+          date: toDayKey(date),
+          measured_at: measuredAt,
+          weight_kg: input.weight_kg,
+          body_fat_percentage: input.body_fat_percentage,
+          muscle_mass_kg: input.muscle_mass_kg,
+          note: input.note,
+          source: "manual",
+        },
+      });
+    } catch (error) {
+      console.error("💥 Error adding weight entry:", error);
+      throw new Error("Failed to add weight entry");
+    }
+  }
+
+  static async updateEntry(
+    user_id: string,
+    weight_entry_id: string,
+    input: WeightEntryUpdateInput
+  ) {
+    try {
+      const existing = await prisma.weightEntry.findFirst({
+        where: { weight_entry_id, user_id },
+      });
+
+      if (!existing) {
+        return null;
+      }
+
+      return await prisma.weightEntry.update({
+        where: { weight_entry_id },
+        data: input,
+      });
+    } catch (error) {
+      console.error("💥 Error updating weight entry:", error);
+      throw new Error("Failed to update weight entry");
+    }
+  }
+
+  static async deleteEntry(user_id: string, weight_entry_id: string): Promise<boolean> {
+    try {
+      const deleted = await prisma.weightEntry.deleteMany({
+        where: { weight_entry_id, user_id },
+      });
+      return deleted.count > 0;
+    } catch (error) {
+      console.error("💥 Error deleting weight entry:", error);
+      throw new Error("Failed to delete weight entry");
+    }
+  }
+
+  /**
+   * Daily weights and their trend between two local dates (inclusive). Only
+   * days with weigh-ins are returned, but earlier weigh-ins still shape the trend.
+   */
+  static async getTrend(
+    user_id: string,
+    startDate: string,
+    endDate: string
+  ): Promise<WeightTrendPoint[]> {
+    try {
+      const entries = await prisma.weightEntry.findMany({
+        where: {
+          user_id,
+          date: {
+            gte: toDayKey(addDays(startDate, -TREND_WARMUP_DAYS)),
+            lte: toDayKey(endDate),
+          },
+        },
+        orderBy: { measured_at: "asc" },
+      });
+
+      return this.calculateTrend(entries).filter((point) => point.date >= startDate);
+    } catch (error) {
+      console.error("💥 Error calculating weight trend:", error);
+      throw new Error("Failed to calculate weight trend");
+    }
+  }
+
+  /**
+   * Trend points, summary and projected goal date for a local date range
+   */
+  static async getTimeline(
+    user_id: string,
+    startDate: string,
+    endDate: string
+  ): Promise<WeightTimeline> {
+    const points = await this.getTrend(user_id, startDate, endDate);
+    const summary = this.summarize(points);
+
+    return {
+      start_date: startDate,
+      end_date: endDate,
+      points,
+      summary,
+      projection: await this.getProjection(user_id, summary),
+    };
+  }
+
+  /**
+   * When the trend reaches the questionnaire's target weight. The rate comes
+   * from the average calorie balance of recent fully logged days; without
+   * enough balance data it falls back to the trend's own weekly rate.
+   */
+  static async getProjection(
+    user_id: string,
+    summary?: WeightSummary
+  ): Promise<WeightProjection> {
+    try {
+      const today = getLocalDate(await getUserTimeZone(user_id));
+
+      if (!summary) {
+        summary = this.summarize(
+          await this.getTrend(user_id, addDays(today, -RATE_WINDOW_DAYS), today)
+        );
+      }
+
+      const questionnaire = await prisma.userQuestionnaire.findFirst({
+        where: { user_id },
+        orderBy: { date_completed: "desc" },
+        select: { target_weight_kg: true },
+      });
+
+      const projection: WeightProjection = {
+        status: "insufficient_data",
+        target_weight_kg: questionnaire?.target_weight_kg ?? null,
+        current_trend_kg: summary.trend_kg,
+        method: null,
+        average_daily_balance_kcal: null,
+        balance_days: 0,
+        expected_change_kg_per_week: null,
+        projected_date: null,
+      };
+
+      if (projection.target_weight_kg === null) {
+        projection.status = "no_target";
+        return projection;
+      }
+      if (summary.trend_kg === null) {
+        return projection;
+      }
+
+      const remainingKg = projection.target_weight_kg - summary.trend_kg;
+      if (Math.abs(remainingKg) < GOAL_REACHED_KG) {
+        projection.status = "reached";
+        return projection;
+      }
+
+      const balances = await this.getRecentBalances(user_id, today);
+      projection.balance_days = balances.length;
+
+      let dailyChangeKg: number;
+      if (balances.length >= MIN_BALANCE_DAYS) {
+        const averageBalance =
+          balances.reduce((sum, balance) => sum + balance, 0) / balances.length;
+        projection.method = "calorie_balance";
+        projection.average_daily_balance_kcal = Math.round(averageBalance);
+        dailyChangeKg = averageBalance / KCAL_PER_KG;
+      } else if (summary.weekly_rate_kg !== null) {
+        projection.method = "weight_trend";
+        dailyChangeKg = summary.weekly_rate_kg / 7;
+      } else {
+        return projection;
+      }
+
+      projection.expected_change_kg_per_week = round(dailyChangeKg * 7, 2);
+
+      if (dailyChangeKg === 0 || Math.sign(dailyChangeKg) !== Math.sign(remainingKg)) {
+        projection.status = "moving_away";
+        return projection;
+      }
+
+      const days = Math.ceil(remainingKg / dailyChangeKg);
+      if (days > MAX_PROJECTION_DAYS) {
+        projection.status = "too_far";
+        return projection;
+      }
+
+      projection.status = "on_track";
+      projection.projected_date = addDays(today, days);
+      return projection;
+    } catch (error) {
+      console.error("💥 Error projecting goal weight date:", error);
+      throw new Error("Failed to project goal weight date");
+    }
+  }
+
+  /**
+   * Daily calorie balances of the last completed days that have both
+   * activity data and logged meals; days with nothing logged would otherwise
+   * read as a full-day deficit
+   */
+  private static async getRecentBalances(user_id: string, today: string): Promise<number[]> {
+    const dates = Array.from({ length: BALANCE_WINDOW_DAYS }, (_, i) => addDays(today, -(i + 1)));
+    const balances = await Promise.all(
+      dates.map((date) => DeviceService.getDailyBalance(user_id, date).catch(() => null))
+    );
+
+    return balances
+      .filter((balance) => balance && balance.caloriesIn > 0 && balance.caloriesOut > 0)
+      .map((balance) => balance!.balance);
+  }
+
+  private static calculateTrend(entries: WeightEntry[]): WeightTrendPoint[] {
+    const byDate = new Map<string, WeightEntry[]>();
+    for (const entry of entries) {
+      const date = fromDayKey(entry.date);
+      if (!byDate.has(date)) {
+        byDate.set(date, []);
+      }
+      byDate.get(date)!.push(entry);
+    }
+
+    const points: WeightTrendPoint[] = [];
+    let trend: number | null = null;
+    let previousDate: string | null = null;
+
+    for (const date of [...byDate.keys()].sort()) {
+      const dayEntries = byDate.get(date)!;
+      const weight = average(dayEntries.map((entry) => entry.weight_kg))!;
+      const bodyFat = average(
+        dayEntries
+          .map((entry) => entry.body_fat_percentage)
+          .filter((value): value is number => value !== null)
+      );
+
+      if (trend === null || previousDate === null) {
+        trend = weight;
+      } else {
+        const gapDays = daysBetween(previousDate, date);
+        trend += (1 - Math.pow(1 - TREND_ALPHA, gapDays)) * (weight - trend);
+      }
+      previousDate = date;
+
+      points.push({
+        date,
+        weight_kg: round(weight, 1),
+        trend_kg: round(trend, 2),
+        body_fat_percentage: bodyFat === null ? null : round(bodyFat, 1),
+        entries: dayEntries.length,
+      });
+    }
+
+    return points;
+  }
+
+  private static summarize(points: WeightTrendPoint[]): WeightSummary {
+    if (points.length === 0) {
+      return {
+        latest_weight_kg: null,
+        latest_date: null,
+        trend_kg: null,
+        start_trend_kg: null,
+        change_kg: null,
+        weekly_rate_kg: null,
+      };
+    }
+
+    const first = points[0];
+    const latest = points[points.length - 1];
+
+    // Earliest point of the rate window that is far enough back to be meaningful
+    const reference = points.find(
+      (point) =>
+        daysBetween(point.date, latest.date) <= RATE_WINDOW_DAYS &&
+        daysBetween(point.date, latest.date) >= MIN_RATE_SPAN_DAYS
+    );
+
+    return {
+      latest_weight_kg: latest.weight_kg,
+      latest_date: latest.date,
+      trend_kg: latest.trend_kg,
+      start_trend_kg: first.trend_kg,
+      change_kg: round(latest.trend_kg - first.trend_kg, 2),
+      weekly_rate_kg: reference
+        ? round(
+            ((latest.trend_kg - reference.trend_kg) / daysBetween(reference.date, latest.date)) * 7,
+            2
+          )
+        : null,
+    };
+  }
+}
+
+function average(values: number[]): number | null {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+function daysBetween(startDate: string, endDate: string): number {
+  return Math.round((toDayKey(endDate).getTime() - toDayKey(startDate).getTime()) / MS_PER_DAY);
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,49 @@
+export type AccountStatus =
+  | "TRIAL"
+  | "ACTIVE"
+  | "PAST_DUE"
+  | "SUSPENDED"
+  | "SCHEDULED_DELETION";
+
+export type DeletionReason =
+  // Asked for by the user
+  | "user_request"
+  // Suspended for longer than the suspension period
+  | "inactivity";
+
+export interface LifecycleDurations {
+  trial_days: number;
+  // How long paid features stay on after a failed renewal
+  past_due_days: number;
+  // Suspended accounts are scheduled for deletion after this
+  suspension_days: number;
+  // Window in which a scheduled deletion can still be undone
+  deletion_grace_days: number;
+  // How far ahead of a transition the reminder email goes out
+  reminder_days: number;
+}
+
+export interface LifecycleTransition {
+  // DELETED is the purge at the end of the deletion grace window
+  status: AccountStatus | "DELETED";
+  at: Date;
+}
+
+export interface AccountLifecycleSummary {
+  status: AccountStatus;
+  status_changed_at: Date;
+  trial_ends_at: Date | null;
+  deletion_scheduled_at: Date | null;
+  deletion_reason: string | null;
+  // Suspended and scheduled accounts can only reach billing and account routes
+  has_app_access: boolean;
+  can_restore: boolean;
+  next_transition: LifecycleTransition | null;
+}
+
+export interface LifecycleRunResult {
+  reminded: number;
+  suspended: number;
+  scheduled: number;
+  purged: number;
+}
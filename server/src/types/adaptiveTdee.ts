@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+export const adaptiveGoalsSettingsSchema = z.object({
+  enabled: z.boolean(),
+});
+
+export type AdaptiveGoalsSettingsInput = z.infer<typeof adaptiveGoalsSettingsSchema>;
+
+export type TdeeEstimateStatus =
+  | "calibrated"
+  | "insufficient_intake"
+  | "insufficient_weight";
+
+// Why the applied TDEE stopped short of the observed one
+export type TdeeLimit = "step" | "bounds";
+
+// What the calorie goal is based on and how it got there
+export interface TdeeExplanation {
+  enabled: boolean;
+  status: TdeeEstimateStatus | "not_calibrated";
+  calibrated_on: string | null;
+  window: { start_date: string; end_date: string } | null;
+  formula_tdee_kcal: number | null;
+  observed_tdee_kcal: number | null;
+  // The TDEE daily goals are built on; null while the formula is used as is
+  adaptive_tdee_kcal: number | null;
+  adjustment_kcal: number;
+  limited_by: TdeeLimit | null;
+  inputs: {
+    logged_days: number;
+    average_intake_kcal: number | null;
+    weigh_in_days: number;
+    trend_start_kg: number | null;
+    trend_end_kg: number | null;
+    trend_change_kg: number | null;
+    trend_span_days: number;
+  };
+  bounds: {
+    min_tdee_kcal: number | null;
+    max_tdee_kcal: number | null;
+    max_daily_step_kcal: number;
+  };
+  requirements: {
+    min_logged_days: number;
+    min_weigh_in_days: number;
+    min_trend_span_days: number;
+  };
+  messages: string[];
+}
@@ -0,0 +1,59 @@
+import { z } from "zod";
+
+export const aiFeatureSchema = z.enum([
+  "meal_analysis",
+  "meal_update",
+  "chat",
+  "health_recommendation",
+  "food_scan",
+  "menu_generation",
+  "meal_plan_generation",
+]);
+
+export const aiUsageQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(30),
+});
+
+export type AiFeature = z.infer<typeof aiFeatureSchema>;
+export type SubscriptionPlan = "FREE" | "PREMIUM" | "GOLD";
+
+export interface AiPlanLimit {
+  name: string;
+  // Usage units per local day; null is unlimited
+  daily_units: number | null;
+}
+
+export interface AiQuotaStatus {
+  plan: SubscriptionPlan;
+  name: string;
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  // Start of the user's next local day, when usage starts over
+  reset_at: Date;
+}
+
+export interface AiQuotaCheck {
+  allowed: boolean;
+  cost: number;
+  status: AiQuotaStatus;
+}
+
+// An allowed check holds its units in the ledger until released
+export interface AiQuotaReservation extends AiQuotaCheck {
+  usage_id: string | null;
+}
+
+export interface AiUsageDay {
+  date: string;
+  total: number;
+  features: Partial<Record<AiFeature, number>>;
+}
+
+export interface AiUsageReport {
+  start_date: string;
+  end_date: string;
+  total: number;
+  by_feature: Partial<Record<AiFeature, number>>;
+  days: AiUsageDay[];
+}
@@ -1,4 +1,10 @@
 import { z } from "zod";
+import { isValidTimeZone } from "../utils/dayBoundary";
+import { emailLocaleSchema } from "./email";
+
+const timezoneSchema = z
+  .string()
+  .refine(isValidTimeZone, "Invalid IANA timezone, e.g. Asia/Jerusalem");
 
 export const signUpSchema = z.object({
   email: z.string().email("Invalid email address"),
@@ -16,11 +22,21 @@ export const signUpSchema = z.object({
   birth_date: z.preprocess((arg) => {
     if (typeof arg === "string" || arg instanceof Date) return new Date(arg);
   }, z.date()),
+  timezone: timezoneSchema.optional(),
+  // Language of the emails we send
+  locale: emailLocaleSchema.optional(),
 });
 
 export const signInSchema = z.object({
   email: z.string().email("Invalid email address"),
   password: z.string().min(1, "Password is required"),
+  // Shown in the session list, e.g. "Pixel 8"
+  device_name: z.string().trim().max(100).optional(),
+});
+
+// Web clients send the refresh token as a cookie instead
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1).optional(),
 });
 
 export const updateProfileSchema = z.object({
@@ -30,12 +46,36 @@ export const updateProfileSchema = z.object({
       if (typeof arg === "string" || arg instanceof Date) return new Date(arg);
     }, z.date())
     .optional(),
-});
-
-export const updateSubscriptionSchema = z.object({
-  subscription_type: z.enum(["FREE", "PREMIUM", "GOLD"]),
+  timezone: timezoneSchema.optional(),
+  locale: emailLocaleSchema.optional(),
 });
 
 export type SignUpInput = z.infer<typeof signUpSchema>;
 export type SignInInput = z.infer<typeof signInSchema>;
 export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
+
+export interface SessionDevice {
+  device_name?: string | null;
+  user_agent?: string | null;
+  ip_address?: string | null;
+}
+
+export interface SessionTokens {
+  session_id: string;
+  // Short-lived JWT sent as the bearer token
+  token: string;
+  refreshToken: string;
+  // Access token lifetime in seconds
+  expiresIn: number;
+}
+
+export interface SessionSummary {
+  session_id: string;
+  device_name: string | null;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: Date;
+  last_used_at: Date;
+  expires_at: Date;
+  current: boolean;
+}
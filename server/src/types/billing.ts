@@ -0,0 +1,99 @@
+import { z } from "zod";
+
+export const paidPlanSchema = z.enum(["PREMIUM", "GOLD"]);
+export const billingIntervalSchema = z.enum(["monthly", "yearly"]);
+
+export const checkoutSchema = z.object({
+  plan: paidPlanSchema,
+  interval: billingIntervalSchema.default("monthly"),
+});
+
+// Fake provider only: play the part of the customer at checkout or renewal
+export const fakePaymentSchema = z.object({
+  outcome: z.enum(["succeeded", "failed"]).default("succeeded"),
+});
+
+export type PaidPlan = z.infer<typeof paidPlanSchema>;
+export type BillingInterval = z.infer<typeof billingIntervalSchema>;
+export type CheckoutInput = z.infer<typeof checkoutSchema>;
+
+export interface PlanPrice {
+  plan: PaidPlan;
+  interval: BillingInterval;
+  amount: number;
+  currency: string;
+}
+
+export interface CheckoutRequest {
+  user_id: string;
+  email: string;
+  plan: PaidPlan;
+  interval: BillingInterval;
+  amount: number;
+  currency: string;
+}
+
+export interface CheckoutSession {
+  provider: string;
+  checkout_id: string;
+  // Where the app sends the user to pay
+  url: string;
+  expires_at: Date;
+}
+
+export type BillingEventType =
+  // First payment or a renewal
+  | "payment_succeeded"
+  | "payment_failed"
+  // Ended by the provider, e.g. after a dispute
+  | "subscription_ended";
+
+// A webhook delivery in provider-neutral form
+export interface BillingEvent {
+  event_id: string;
+  type: BillingEventType;
+  user_id: string;
+  provider_subscription_id: string;
+  plan: PaidPlan;
+  interval: BillingInterval;
+  provider_payment_id?: string;
+  amount?: number;
+  currency?: string;
+  payment_method?: string;
+  period_start?: Date;
+  period_end?: Date;
+  failure_reason?: string;
+}
+
+export interface BillingProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  createCheckout(request: CheckoutRequest): Promise<CheckoutSession>;
+  /**
+   * Check the delivery's signature and translate it. Throws when the
+   * signature doesn't match.
+   */
+  parseWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): BillingEvent;
+  // Stop renewing; the current period stays paid
+  cancelSubscription(provider_subscription_id: string): Promise<void>;
+}
+
+export interface SubscriptionDetails {
+  plan: "FREE" | PaidPlan;
+  status: "ACTIVE" | "PAST_DUE" | "CANCELED" | "EXPIRED" | null;
+  interval: string | null;
+  provider: string | null;
+  current_period_end: Date | null;
+  grace_until: Date | null;
+  canceled_at: Date | null;
+  payments: {
+    payment_id: number;
+    plan_type: string;
+    amount: number;
+    currency: string;
+    status: string;
+    payment_date: Date;
+    period_end: Date | null;
+    failure_reason: string | null;
+  }[];
+}
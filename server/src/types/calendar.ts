@@ -1,3 +1,5 @@
+import { z } from "zod";
+
 export interface DayData {
   date: string;
   calories_goal: number;
@@ -11,10 +13,13 @@ export interface DayData {
   meal_count: number;
   quality_score: number;
   water_intake_ml: number;
+  weight_kg: number | null;
+  weight_trend_kg: number | null;
   events: Array<{
     id: string;
     title: string;
     type: string;
+    recurring: boolean;
     created_at: string;
   }>;
 }
@@ -82,3 +87,192 @@ export interface GamificationBadge {
   condition: string;
   points: number;
 }
+
+export const calendarEventTypeSchema = z.enum([
+  "general",
+  "workout",
+  "health",
+  "fasting",
+  "holiday",
+  "social",
+  "travel",
+]);
+
+export type CalendarEventType = z.infer<typeof calendarEventTypeSchema>;
+
+export type CalendarEventSource = "manual" | "ics_import";
+
+// A DATE or DATE-TIME value as written in the iCalendar file, in its own zone
+export interface IcsDateValue {
+  date: string; // YYYY-MM-DD
+  time?: string; // HH:MM:SS, absent for all-day values
+  utc: boolean;
+  tzid?: string;
+}
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  categories: string[];
+  status?: string;
+  start: IcsDateValue;
+  end?: IcsDateValue;
+  duration?: string;
+  rrule?: string;
+  exdates: IcsDateValue[];
+  rdates: IcsDateValue[];
+  recurrenceId?: IcsDateValue;
+}
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: IcsDateValue;
+  byDay: Array<{ weekday: number; ordinal?: number }>; // weekday 0 = Sunday
+  byMonthDay: number[];
+  byMonth: number[];
+  weekStart: number;
+}
+
+export interface IcsExportEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  categories?: string[];
+  // All-day events carry a date; timed events carry UTC instants
+  date?: string;
+  start?: Date;
+  end?: Date;
+  // RRULE value and excluded dates of a recurring all-day event
+  rrule?: string;
+  exdates?: string[];
+  stamp: Date;
+}
+
+export interface CalendarImportResult {
+  events_found: number;
+  created: number;
+  updated: number;
+  removed: number;
+  skipped: number;
+  by_type: Partial<Record<CalendarEventType, number>>;
+  warnings: string[];
+}
+
+export interface CalendarFeedLink {
+  feed_url: string;
+  webcal_url: string;
+}
+
+const dateStringSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+const timeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:MM format");
+
+// Structured form of a recurring event's rule, as sent by the app
+export const recurrenceSchema = z
+  .object({
+    frequency: z.enum(["DAILY", "WEEKLY", "MONTHLY", "YEARLY"]),
+    interval: z.number().int().min(1).max(99).optional(),
+    days_of_week: z.array(z.number().int().min(0).max(6)).min(1).max(7).optional(), // 0 = Sunday
+    until: dateStringSchema.optional(), // inclusive
+    count: z.number().int().min(1).max(1000).optional(),
+  })
+  .refine((rule) => !(rule.until && rule.count), "Use either until or count, not both");
+
+export const calendarEventSchema = z.object({
+  date: dateStringSchema,
+  title: z.string().trim().min(1, "Title is required").max(200),
+  type: z.string().trim().min(1).max(50).default("general"),
+  description: z.string().max(2000).optional(),
+  recurrence: recurrenceSchema.nullable().optional(),
+});
+
+export const calendarEventUpdateSchema = z.object({
+  date: dateStringSchema.optional(),
+  title: z.string().trim().min(1).max(200).optional(),
+  type: z.string().trim().min(1).max(50).optional(),
+  description: z.string().max(2000).nullable().optional(),
+  // null turns a recurring event back into a single-date event
+  recurrence: recurrenceSchema.nullable().optional(),
+});
+
+export const eventGoalRuleSchema = z
+  .object({
+    is_enabled: z.boolean().optional(),
+    calories_delta: z.number().int().min(-1500).max(1500).optional(),
+    calories_multiplier: z.number().min(0.5).max(2).optional(),
+    protein_delta_g: z.number().min(-150).max(150).optional(),
+    carbs_delta_g: z.number().min(-300).max(300).optional(),
+    fats_delta_g: z.number().min(-100).max(100).optional(),
+    water_delta_ml: z.number().int().min(-1000).max(3000).optional(),
+    eating_window_start: timeOfDaySchema.nullable().optional(),
+    eating_window_end: timeOfDaySchema.nullable().optional(),
+  })
+  .refine(
+    (rule) =>
+      (rule.eating_window_start === undefined) === (rule.eating_window_end === undefined) &&
+      (rule.eating_window_start === null) === (rule.eating_window_end === null),
+    "Set both ends of the eating window, or neither"
+  );
+
+export type RecurrenceInput = z.infer<typeof recurrenceSchema>;
+export type CalendarEventInput = z.infer<typeof calendarEventSchema>;
+export type CalendarEventUpdateInput = z.infer<typeof calendarEventUpdateSchema>;
+export type EventGoalRuleInput = z.infer<typeof eventGoalRuleSchema>;
+
+// One dated occurrence of a single or recurring CalendarEvent
+export interface CalendarEventOccurrence {
+  event_id: string;
+  user_id: string;
+  date: Date; // day key of this occurrence
+  title: string;
+  type: string;
+  description: string | null;
+  source: string;
+  recurrence_rule: string | null;
+  series_start_date: string | null; // first occurrence of a recurring event
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface EventGoalRuleSettings {
+  event_type: CalendarEventType;
+  is_enabled: boolean;
+  calories_delta: number;
+  calories_multiplier: number;
+  protein_delta_g: number;
+  carbs_delta_g: number;
+  fats_delta_g: number;
+  water_delta_ml: number;
+  eating_window_start: string | null;
+  eating_window_end: string | null;
+  is_default: boolean; // true until the user customizes the rule
+}
+
+export interface GoalAdjustmentAmounts {
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  water_ml: number;
+}
+
+export interface EventGoalAdjustment extends GoalAdjustmentAmounts {
+  event_type: CalendarEventType;
+  event_titles: string[];
+}
+
+// Added to a day's resolved goals by the calendar events occurring on it
+export interface DailyGoalEventAdjustments {
+  applied: EventGoalAdjustment[];
+  totals: GoalAdjustmentAmounts;
+  eating_window: { start: string; end: string } | null;
+}
@@ -4,6 +4,7 @@ export interface ActivityData {
   activeMinutes: number;
   bmr: number;
   heartRate?: number;
+  heartRateMax?: number;
   weight?: number;
   bodyFat?: number;
   sleepHours?: number;
@@ -15,4 +16,102 @@ export interface DailyBalance {
   caloriesOut: number;
   balance: number;
   balanceStatus: "balanced" | "slight_imbalance" | "significant_imbalance";
+  // Merged activity the calories out figure was computed from
+  activity?: EffectiveDailyActivity;
+}
+
+export interface OAuthTokenSet {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt: Date;
+  scope?: string;
+}
+
+// One day of activity as reported by a provider; `date` is YYYY-MM-DD
+export interface ProviderDailyActivity extends ActivityData {
+  date: string;
+  raw?: Record<string, any>;
+}
+
+export interface WearableProvider {
+  readonly deviceType: string;
+  readonly displayName: string;
+  isConfigured(): boolean;
+  getAuthorizationUrl(state: string): string;
+  exchangeCode(code: string): Promise<OAuthTokenSet>;
+  refreshTokens(refreshToken: string): Promise<OAuthTokenSet>;
+  fetchDailyActivity(
+    accessToken: string,
+    startDate: string,
+    endDate: string
+  ): Promise<ProviderDailyActivity[]>;
+}
+
+export interface DeviceSyncResult {
+  deviceId: string;
+  deviceType: string;
+  daysSynced: number;
+  success: boolean;
+  error?: string;
+}
+
+export type DeviceSyncMode = "append" | "backfill";
+
+// One day of client-pushed activity; `date` is YYYY-MM-DD
+export interface DailyActivityEntry extends ActivityData {
+  date: string;
+}
+
+export interface DeviceBatchSyncResult {
+  deviceId: string;
+  mode: DeviceSyncMode;
+  daysReceived: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  // Backfill only: days in the reconciliation window that still have no data
+  missingDates?: string[];
+}
+
+// DailyActivitySummary columns that are merged across devices
+export type ActivityMetric =
+  | "steps"
+  | "calories_burned"
+  | "active_minutes"
+  | "bmr_estimate"
+  | "distance_km"
+  | "heart_rate_avg"
+  | "heart_rate_max"
+  | "sleep_hours"
+  | "weight_kg"
+  | "body_fat_percentage";
+
+export type MetricResolutionRule =
+  | "only_source"
+  | "user_priority"
+  | "primary_device"
+  | "paired_with_calories"
+  | "highest_value"
+  | "most_recent";
+
+export interface ActivityMetricSource {
+  deviceId: string;
+  deviceType: string;
+  deviceName: string;
+  value: number;
+  syncedAt: Date;
+}
+
+export interface ResolvedActivityMetric {
+  value: number;
+  source: Omit<ActivityMetricSource, "value" | "syncedAt">;
+  rule: MetricResolutionRule;
+  // Values reported by the other devices for the same day
+  alternatives: ActivityMetricSource[];
+}
+
+export interface EffectiveDailyActivity {
+  date: string;
+  deviceCount: number;
+  metrics: Partial<Record<ActivityMetric, ResolvedActivityMetric>>;
 }
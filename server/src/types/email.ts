@@ -0,0 +1,103 @@
+import { z } from "zod";
+import { AccountStatus } from "./account";
+
+export const emailLocaleSchema = z.enum(["en", "he"]);
+
+export type EmailLocale = z.infer<typeof emailLocaleSchema>;
+
+// A rendered email, ready for a transport
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  isConfigured(): boolean;
+  // Resolves with the transport's id for the message; throws when it isn't accepted
+  send(message: EmailMessage): Promise<{ message_id: string }>;
+}
+
+// What a template says, before the shared layout turns it into HTML and text
+export interface EmailContent {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  // A one-time code, shown large
+  code?: { label: string; value: string; note?: string };
+  // Label and value rows, e.g. a summary's numbers
+  facts?: { label: string; value: string }[];
+  // Set apart at the end, e.g. a security notice
+  notice?: string;
+}
+
+export interface PlannedMeal {
+  timing: string;
+  name: string;
+  calories: number | null;
+}
+
+// Parameters per template. They are stored with the queued email, so dates
+// travel as strings: YYYY-MM-DD for days, ISO timestamps for instants.
+export interface EmailTemplateParams {
+  email_verification: {
+    name: string;
+    code: string;
+    expires_minutes: number;
+  };
+  password_reset: {
+    name: string;
+    code: string;
+    expires_minutes: number;
+  };
+  account_reminder: {
+    name: string;
+    // The status the account is in; each has one upcoming transition
+    status: AccountStatus;
+    at: string;
+    time_zone: string;
+  };
+  weekly_summary: {
+    name: string;
+    start_date: string;
+    end_date: string;
+    days_logged: number;
+    meals_logged: number;
+    avg_calories: number;
+    avg_protein_g: number;
+    calorie_goal: number | null;
+  };
+  plan_reminder: {
+    name: string;
+    plan_name: string;
+    date: string;
+    meals: PlannedMeal[];
+  };
+}
+
+export type EmailTemplateName = keyof EmailTemplateParams;
+
+export type EmailTemplate<T extends EmailTemplateName> = Record<
+  EmailLocale,
+  (params: EmailTemplateParams[T]) => EmailContent
+>;
+
+export interface SendEmailOptions {
+  user_id?: string;
+  // Usually the user's stored locale; anything unsupported gets the default
+  locale?: string | null;
+  // Enqueueing again with the same key does nothing
+  dedupe_key?: string;
+  // Give up on delivery after this, e.g. when a code in the email expires
+  expires_at?: Date;
+}
+
+export interface QueuedEmail {
+  email_id: string;
+  template: string;
+  status: "PENDING" | "SENDING" | "SENT" | "FAILED";
+  // False when an email with the same dedupe key was already queued
+  created: boolean;
+}
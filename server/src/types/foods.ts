@@ -0,0 +1,94 @@
+import { z } from "zod";
+import { MicronutrientAmounts } from "./micronutrients";
+
+export const foodSearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(100),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export const mealPeriodSchema = z.enum([
+  "breakfast",
+  "lunch",
+  "dinner",
+  "snack",
+  "morning_snack",
+  "afternoon_snack",
+  "late_night",
+  "other",
+]);
+
+export const composeMealSchema = z.object({
+  meal_name: z.string().trim().min(1).max(200).optional(),
+  // Picked from the user's local time when left out
+  meal_period: mealPeriodSchema.optional(),
+  // Logs the meal on that local day, at the current time of day
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional(),
+  items: z
+    .array(
+      z.object({
+        food_id: z.number().int().positive(),
+        grams: z.number().positive().max(5000),
+      })
+    )
+    .min(1)
+    .max(30),
+});
+
+export type FoodSearchQuery = z.infer<typeof foodSearchQuerySchema>;
+export type ComposeMealInput = z.infer<typeof composeMealSchema>;
+
+export type FoodImportFormat = "csv" | "usda";
+
+export interface FoodImportOptions {
+  format?: FoodImportFormat;
+  // Defaults to "moh" for CSV tables and "usda" for FoodData Central
+  source?: string;
+  batchSize?: number;
+  limit?: number;
+}
+
+export interface FoodImportResult {
+  read: number;
+  imported: number;
+  skipped: number;
+  failed: number;
+}
+
+export interface FoodNutrients {
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  fiber_g: number | null;
+  sugar_g: number | null;
+  sodium_mg: number | null;
+  saturated_fats_g: number | null;
+  polyunsaturated_fats_g: number | null;
+  monounsaturated_fats_g: number | null;
+  cholesterol_mg: number | null;
+  alcohol_g: number | null;
+  caffeine_mg: number | null;
+  micronutrients: MicronutrientAmounts;
+}
+
+// A food composition row as parsed from an import, before it is saved
+export interface FoodRecord extends FoodNutrients {
+  source_id: string;
+  name_en: string | null;
+  name_he: string | null;
+  category: string | null;
+}
+
+export interface FoodSearchResult {
+  food_id: number;
+  name_en: string | null;
+  name_he: string | null;
+  category: string | null;
+  source: string;
+  // 0-1, how closely the name matches the query
+  score: number;
+  per_100g: FoodNutrients;
+}
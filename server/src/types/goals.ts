@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+export const goalVersionSourceSchema = z.enum([
+  "questionnaire",
+  "manual",
+  "adaptive",
+  "meal_plan",
+  // Backfilled from the old per-day rows, whose origin wasn't recorded
+  "migrated",
+]);
+
+export type GoalVersionSource = z.infer<typeof goalVersionSourceSchema>;
+
+// Targets left out carry over from the goals in effect on effective_from
+export const manualGoalsSchema = z
+  .object({
+    calories: z.number().min(800).max(8000).optional(),
+    protein_g: z.number().min(0).max(500).optional(),
+    carbs_g: z.number().min(0).max(1000).optional(),
+    fats_g: z.number().min(0).max(400).optional(),
+    fiber_g: z.number().min(0).max(150).optional(),
+    sodium_mg: z.number().min(0).max(10000).optional(),
+    sugar_g: z.number().min(0).max(500).optional(),
+    water_ml: z.number().min(0).max(10000).optional(),
+    // Defaults to the user's today; past days keep the goals they had
+    effective_from: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+      .optional(),
+    note: z.string().max(500).optional(),
+  })
+  .refine(
+    (input) =>
+      Object.entries(input).some(
+        ([key, value]) => key !== "effective_from" && key !== "note" && value !== undefined
+      ),
+    "At least one target is required"
+  );
+
+export const goalHistoryQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+export type ManualGoalsInput = z.infer<typeof manualGoalsSchema>;
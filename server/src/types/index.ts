@@ -10,4 +10,5 @@ export * from './openai';
 export * from './database';
 export * from './api';
 export * from './achievements';
-export * from './recommendations';
\ No newline at end of file
+export * from './recommendations';
+export * from './products';
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { z } from "zod";
+
+export const micronutrientKeySchema = z.enum([
+  "calcium",
+  "iron",
+  "potassium",
+  "magnesium",
+  "zinc",
+  "selenium",
+  "vitamin_a",
+  "vitamin_c",
+  "vitamin_d",
+  "vitamin_e",
+  "vitamin_k",
+  "vitamin_b6",
+  "vitamin_b12",
+  "folate",
+]);
+
+export type MicronutrientKey = z.infer<typeof micronutrientKeySchema>;
+
+export type MicronutrientUnit = "mg" | "mcg";
+
+export type ReferenceSex = "male" | "female" | "unknown";
+
+// Amounts in each nutrient's canonical unit
+export type MicronutrientAmounts = Partial<Record<MicronutrientKey, number>>;
+
+// Omitted fields keep the reference value; null clears a custom value
+export const micronutrientTargetsSchema = z.object({
+  targets: z
+    .array(
+      z
+        .object({
+          nutrient: micronutrientKeySchema,
+          target: z.number().positive().max(100000).nullable().optional(),
+          upper_limit: z.number().positive().max(100000).nullable().optional(),
+        })
+        .refine(
+          (entry) => !entry.target || !entry.upper_limit || entry.target < entry.upper_limit,
+          "target must be below upper_limit"
+        )
+    )
+    .min(1),
+});
+
+export type MicronutrientTargetsInput = z.infer<typeof micronutrientTargetsSchema>;
+
+export interface MicronutrientTargetValue {
+  nutrient: MicronutrientKey;
+  label: string;
+  unit: MicronutrientUnit;
+  target: number;
+  // null where no tolerable upper limit applies to intake from food
+  upper_limit: number | null;
+  target_source: "reference" | "custom";
+  upper_limit_source: "reference" | "custom";
+}
+
+export interface MicronutrientTargets {
+  basis: {
+    age: number | null;
+    sex: ReferenceSex;
+    age_band: string;
+  };
+  nutrients: MicronutrientTargetValue[];
+}
+
+export type MicronutrientStatus =
+  | "deficient"
+  | "low"
+  | "adequate"
+  | "above_upper_limit"
+  | "no_data";
+
+export interface MicronutrientRangeResult extends MicronutrientTargetValue {
+  // Days with a logged meal that reported this nutrient
+  days_reported: number;
+  average_intake: number | null;
+  percent_of_target: number | null;
+  days_above_upper_limit: number;
+  status: MicronutrientStatus;
+}
+
+export interface UpperLimitExceedance {
+  date: string;
+  nutrient: MicronutrientKey;
+  unit: MicronutrientUnit;
+  intake: number;
+  upper_limit: number;
+}
+
+export interface MicronutrientRangeSummary {
+  basis: MicronutrientTargets["basis"];
+  days_logged: number;
+  nutrients: MicronutrientRangeResult[];
+  deficiencies: MicronutrientKey[];
+  upper_limit_exceedances: UpperLimitExceedance[];
+}
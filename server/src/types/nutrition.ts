@@ -28,7 +28,7 @@ export const mealSchema = z.object({
   fats_g: z.number().nullable(),
   fiber_g: z.number().nullable(),
   sugar_g: z.number().nullable(),
-  analysis_status: z.enum(["PENDING", "COMPLETED"]),
+  analysis_status: z.enum(["PENDING", "PROCESSING", "COMPLETED", "FAILED"]),
   upload_time: z.date(),
   created_at: z.date(),
 });
@@ -37,6 +37,20 @@ export type MealAnalysisInput = z.infer<typeof mealAnalysisSchema>;
 export type MealUpdateInput = z.infer<typeof mealUpdateSchema>;
 export type Meal = z.infer<typeof mealSchema>;
 
+export interface MealAnalysisJobDetails {
+  job_id: string;
+  status: "PENDING" | "PROCESSING" | "COMPLETED" | "FAILED";
+  attempts: number;
+  max_attempts: number;
+  // What /nutrition/analyze used to respond with, once completed
+  result: unknown;
+  // Reason of the last failed attempt
+  error: string | null;
+  created_at: Date;
+  started_at: Date | null;
+  completed_at: Date | null;
+}
+
 export const directMealUpdateSchema = z.object({
   meal_name: z.string().optional(),
   calories: z
@@ -0,0 +1,184 @@
+export interface ProductNutrition {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber?: number;
+  sugar?: number;
+  // Minerals, cholesterol and vitamin C in mg; vitamin D in µg
+  sodium?: number;
+  saturated_fat?: number;
+  trans_fat?: number;
+  cholesterol?: number;
+  potassium?: number;
+  calcium?: number;
+  iron?: number;
+  vitamin_c?: number;
+  vitamin_d?: number;
+}
+
+export interface ProductData {
+  barcode?: string;
+  name: string;
+  brand?: string;
+  category: string;
+  nutrition_per_100g: ProductNutrition;
+  ingredients: string[];
+  allergens: string[];
+  // "May contain" declarations, kept apart from the allergens the product contains
+  traces: string[];
+  labels: string[];
+  health_score?: number;
+  image_url?: string;
+  serving_size?: string;
+  servings_per_container?: number;
+}
+
+// Where a FoodProduct row came from; providers use their own id
+export type ProductSource = "image_scan" | "import" | string;
+
+export interface ProductProvider {
+  readonly id: string;
+  readonly displayName: string;
+  isEnabled(): boolean;
+  // Resolves to null when the provider does not know the barcode
+  lookupBarcode(barcode: string): Promise<ProductData | null>;
+}
+
+export type ProductDumpFormat = "jsonl" | "csv";
+
+export interface ProductImportOptions {
+  format?: ProductDumpFormat;
+  source?: string;
+  batchSize?: number;
+  // Stop after this many valid products, useful for trying out a dump
+  limit?: number;
+}
+
+export interface ProductImportResult {
+  read: number;
+  imported: number;
+  skipped: number;
+  failed: number;
+}
+
+// Per-user corrections; only the fields that are set replace the catalog values
+export interface ProductOverrideInput {
+  product_name?: string;
+  brand?: string;
+  nutrition_per_100g?: Partial<ProductNutrition>;
+  serving_size?: string;
+  servings_per_container?: number;
+}
+
+export type ProductScanType = "barcode" | "image";
+
+export interface ScanHistoryEntry {
+  scan_id: string;
+  scan_type: ProductScanType;
+  found: boolean;
+  barcode?: string;
+  product_name?: string;
+  name?: string;
+  brand?: string;
+  category?: string;
+  product?: ProductData;
+  meal_id?: number;
+  created_at: Date;
+}
+
+export type QuantityUnit =
+  | "g"
+  | "kg"
+  | "oz"
+  | "lb"
+  | "ml"
+  | "l"
+  | "fl_oz"
+  | "serving"
+  | "container"
+  | "tbsp"
+  | "tsp"
+  | "cup"
+  | "piece"
+  | "slice";
+
+export interface ProductQuantity {
+  amount: number;
+  unit: QuantityUnit;
+}
+
+// A serving string such as "30 g (2 tbsp)" broken into its metric and household parts
+export interface ParsedServingSize {
+  text: string;
+  grams?: number;
+  milliliters?: number;
+  household?: { amount: number; unit: QuantityUnit };
+}
+
+// A logged quantity expressed against the per-100g (or per-100ml) label basis
+export interface ResolvedQuantity {
+  amount: number;
+  unit: QuantityUnit;
+  // Grams, or millilitres for products labelled per 100ml
+  baseAmount: number;
+  basis: "weight" | "volume";
+  // True when a standard conversion was used instead of the label's own serving
+  estimated: boolean;
+  description: string;
+}
+
+export type AllergenGroup =
+  | "milk"
+  | "eggs"
+  | "peanuts"
+  | "tree_nuts"
+  | "gluten"
+  | "soy"
+  | "fish"
+  | "shellfish"
+  | "sesame"
+  | "mustard"
+  | "celery"
+  | "lupin"
+  | "sulphites";
+
+export type CompatibilityVerdict = "safe" | "caution" | "avoid";
+
+export type CompatibilityRule = "allergy" | "diet" | "kosher" | "disliked_food";
+
+// Product field the match was found in
+export type CompatibilitySource = "allergens" | "ingredients" | "labels" | "name";
+
+// The questionnaire answers the compatibility check runs against
+export interface DietProfile {
+  allergies: string[];
+  kosher: boolean;
+  dietary_style?: string | null;
+  disliked_foods: string[];
+}
+
+export interface CompatibilityMatch {
+  rule: CompatibilityRule;
+  // Allergen group, diet or the user's own wording, e.g. "milk", "vegan", "kosher", "olives"
+  concern: string;
+  severity: Exclude<CompatibilityVerdict, "safe">;
+  source: CompatibilitySource;
+  // The product entry as written and the text matched inside it
+  entry?: string;
+  token?: string;
+  // Synonym table entry behind the match, e.g. "whey" for milk
+  synonym?: string;
+  // Found in a "may contain" / traces statement
+  trace?: boolean;
+  reason: string;
+}
+
+export interface CompatibilityResult {
+  verdict: CompatibilityVerdict;
+  matches: CompatibilityMatch[];
+  // Allergy answers with no synonym table, matched as plain text only
+  unmapped_allergies: string[];
+  // What could not be checked, e.g. a product without an ingredient list
+  notes: string[];
+}
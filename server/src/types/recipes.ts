@@ -0,0 +1,101 @@
+import { z } from "zod";
+import { FoodNutrients, mealPeriodSchema } from "./foods";
+
+const recipeIngredientSchema = z
+  .object({
+    food_id: z.number().int().positive().optional(),
+    product_id: z.number().int().positive().optional(),
+    // Raw weight as added to the dish
+    grams: z.number().positive().max(20000),
+    loss_factor: z.number().min(0).max(0.9).default(0),
+  })
+  .refine(
+    (ingredient) => (ingredient.food_id === undefined) !== (ingredient.product_id === undefined),
+    "Each ingredient needs either food_id or product_id"
+  );
+
+export const recipeSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(2000).optional(),
+  servings: z.number().positive().max(100),
+  cooked_weight_g: z.number().positive().max(50000).optional(),
+  instructions: z.array(z.string().max(2000)).max(50).optional(),
+  ingredients: z.array(recipeIngredientSchema).min(1).max(60),
+});
+
+export const logRecipeSchema = z.object({
+  servings: z.number().positive().max(20).default(1),
+  meal_period: mealPeriodSchema.optional(),
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional(),
+});
+
+export const mealTimingSchema = z.enum([
+  "BREAKFAST",
+  "LUNCH",
+  "DINNER",
+  "SNACK",
+  "MORNING_SNACK",
+  "AFTERNOON_SNACK",
+]);
+
+export const dietaryCategorySchema = z.enum([
+  "VEGETARIAN",
+  "VEGAN",
+  "KETO",
+  "PALEO",
+  "MEDITERRANEAN",
+  "LOW_CARB",
+  "HIGH_PROTEIN",
+  "GLUTEN_FREE",
+  "DAIRY_FREE",
+  "BALANCED",
+]);
+
+export const recipeTemplateSchema = z.object({
+  meal_timing: mealTimingSchema,
+  dietary_category: dietaryCategorySchema.default("BALANCED"),
+  prep_time_minutes: z.number().int().min(0).max(1440).optional(),
+});
+
+// Put the recipe into a meal plan slot, replacing what is scheduled there
+export const scheduleRecipeSchema = recipeTemplateSchema.extend({
+  plan_id: z.string().min(1),
+  day_of_week: z.number().int().min(0).max(6),
+  meal_order: z.number().int().min(1).max(10).default(1),
+  portion_multiplier: z.number().positive().max(5).default(1),
+});
+
+export type RecipeInput = z.infer<typeof recipeSchema>;
+export type LogRecipeInput = z.infer<typeof logRecipeSchema>;
+export type RecipeTemplateInput = z.infer<typeof recipeTemplateSchema>;
+export type ScheduleRecipeInput = z.infer<typeof scheduleRecipeSchema>;
+
+export interface RecipeIngredientDetails {
+  recipe_ingredient_id: string;
+  food_id: number | null;
+  product_id: number | null;
+  name: string;
+  grams: number;
+  loss_factor: number;
+  // What the ingredient contributes to the dish, after cooking losses
+  nutrients: FoodNutrients;
+}
+
+export interface RecipeDetails {
+  recipe_id: string;
+  name: string;
+  description: string | null;
+  servings: number;
+  cooked_weight_g: number | null;
+  serving_weight_g: number;
+  instructions: string[];
+  template_id: string | null;
+  total: FoodNutrients;
+  per_serving: FoodNutrients;
+  ingredients: RecipeIngredientDetails[];
+  created_at: Date;
+  updated_at: Date;
+}
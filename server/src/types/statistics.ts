@@ -60,7 +60,8 @@ export interface DailyBreakdown {
   carbs_g: number;
   fats_g: number;
   liquids_ml: number;
-  weight_kg?: number;
+  weight_kg?: number | null;
+  weight_trend_kg?: number | null;
   mood?: string;
   energy?: string;
   satiety?: string;
@@ -124,4 +125,36 @@ interface PeriodStatistics {
   averageFiber?: number;
   averageSugar?: number;
   averageSodium?: number;
-}
\ No newline at end of file
+}
+export type ReportPeriod = "week" | "month" | "custom";
+export type ReportLanguage = "english" | "hebrew";
+
+export interface NutritionReportOptions {
+  period: ReportPeriod;
+  language: ReportLanguage;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export type InsightCategory = "nutrition" | "hydration" | "habits" | "activity";
+export type InsightType = "warning" | "recommendation" | "achievement";
+export type InsightPriority = "high" | "medium" | "low";
+
+export interface NutritionInsight {
+  id: string;
+  category: InsightCategory;
+  type: InsightType;
+  priority: InsightPriority;
+  score: number;
+  title: string;
+  message: string;
+  evidence: Record<string, number | string | null>;
+}
+
+export interface InsightsReport {
+  period: { start_date: string; end_date: string; days: number };
+  days_logged: number;
+  insights: NutritionInsight[];
+  mainInsights: { type: string; message: string; category: InsightCategory }[];
+  recommendations: { type: string; message: string; priority: InsightPriority }[];
+}
@@ -0,0 +1,75 @@
+import { z } from "zod";
+
+export const weightEntrySchema = z.object({
+  weight_kg: z.number().min(20).max(400),
+  body_fat_percentage: z.number().min(2).max(75).optional(),
+  muscle_mass_kg: z.number().min(5).max(200).optional(),
+  // Defaults to now; scales in timezones ahead of the server may report "tomorrow"
+  measured_at: z.coerce
+    .date()
+    .refine((date) => date.getTime() <= Date.now() + 24 * 60 * 60 * 1000, "Weigh-ins cannot be in the future")
+    .optional(),
+  note: z.string().max(500).optional(),
+});
+
+export const weightEntryUpdateSchema = z.object({
+  weight_kg: z.number().min(20).max(400).optional(),
+  body_fat_percentage: z.number().min(2).max(75).nullable().optional(),
+  muscle_mass_kg: z.number().min(5).max(200).nullable().optional(),
+  note: z.string().max(500).nullable().optional(),
+});
+
+export const weightRangeQuerySchema = z.object({
+  days: z.coerce.number().int().min(7).max(730).default(90),
+});
+
+export type WeightEntryInput = z.infer<typeof weightEntrySchema>;
+export type WeightEntryUpdateInput = z.infer<typeof weightEntryUpdateSchema>;
+
+export type WeightEntrySource = "manual" | "device";
+
+// One day with weigh-ins; weight_kg is the day's average
+export interface WeightTrendPoint {
+  date: string;
+  weight_kg: number;
+  trend_kg: number;
+  body_fat_percentage: number | null;
+  entries: number;
+}
+
+export interface WeightSummary {
+  latest_weight_kg: number | null;
+  latest_date: string | null;
+  trend_kg: number | null;
+  start_trend_kg: number | null;
+  change_kg: number | null;
+  weekly_rate_kg: number | null; // negative while losing
+}
+
+export type WeightProjectionStatus =
+  | "on_track"
+  | "reached"
+  | "moving_away"
+  | "too_far"
+  | "no_target"
+  | "insufficient_data";
+
+export interface WeightProjection {
+  status: WeightProjectionStatus;
+  target_weight_kg: number | null;
+  current_trend_kg: number | null;
+  method: "calorie_balance" | "weight_trend" | null;
+  // Average of the rolling window, from DeviceService.getDailyBalance
+  average_daily_balance_kcal: number | null;
+  balance_days: number;
+  expected_change_kg_per_week: number | null;
+  projected_date: string | null;
+}
+
+export interface WeightTimeline {
+  start_date: string;
+  end_date: string;
+  points: WeightTrendPoint[];
+  summary: WeightSummary;
+  projection: WeightProjection;
+}
@@ -0,0 +1,31 @@
+// Minimal RFC 4180 field splitting: quoted fields may contain the delimiter and "" escapes
+export function parseDelimitedLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' && current === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+
+  fields.push(current);
+  return fields;
+}
@@ -0,0 +1,187 @@
+import { prisma } from "../lib/database";
+
+/**
+ * Day boundaries in the user's own timezone.
+ *
+ * A "day key" is the local calendar date stored as UTC midnight, which is how
+ * Prisma reads and writes @db.Date columns. Day-keyed rows (DailyGoal,
+ * WaterIntake, DailyActivitySummary, MealCompletion...) use day keys, while
+ * timestamp columns such as Meal.created_at are queried with getDayRange().
+ */
+
+// Used for users who have not set a timezone yet
+const FALLBACK_TIMEZONE = "Asia/Jerusalem";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export function getDefaultTimeZone(): string {
+  const configured = process.env.DEFAULT_TIMEZONE;
+  return configured && isValidTimeZone(configured) ? configured : FALLBACK_TIMEZONE;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function resolveTimeZone(timeZone?: string | null): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : getDefaultTimeZone();
+}
+
+export async function getUserTimeZone(user_id: string): Promise<string> {
+  const user = await prisma.user.findUnique({
+    where: { user_id },
+    select: { timezone: true },
+  });
+  return resolveTimeZone(user?.timezone);
+}
+
+export function isDateString(value: string): boolean {
+  return DATE_PATTERN.test(value) && !isNaN(toDayKey(value).getTime());
+}
+
+/**
+ * Local calendar date ("YYYY-MM-DD") of an instant in the given timezone
+ */
+export function getLocalDate(timeZone: string, instant: Date = new Date()): string {
+  const { year, month, day } = getZonedParts(timeZone, instant);
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+export function getLocalHour(timeZone: string, instant: Date = new Date()): number {
+  return getZonedParts(timeZone, instant).hour;
+}
+
+// Day of week of a calendar date, 0 = Sunday
+export function getDayOfWeek(date: string): number {
+  return toDayKey(date).getUTCDay();
+}
+
+export function toDayKey(date: string): Date {
+  return new Date(`${date}T00:00:00.000Z`);
+}
+
+export function fromDayKey(key: Date): string {
+  return key.toISOString().split("T")[0];
+}
+
+export function getLocalDayKey(timeZone: string, instant: Date = new Date()): Date {
+  return toDayKey(getLocalDate(timeZone, instant));
+}
+
+export function addDays(date: string, days: number): string {
+  return fromDayKey(new Date(toDayKey(date).getTime() + days * DAY_MS));
+}
+
+// Inclusive list of calendar dates
+export function listDates(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+export function getMonthDates(
+  year: number,
+  month: number
+): { startDate: string; endDate: string } {
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return {
+    startDate: `${year}-${pad(month)}-01`,
+    endDate: `${year}-${pad(month)}-${pad(lastDay)}`,
+  };
+}
+
+/**
+ * The instant the given local date starts in the timezone. Days that start
+ * inside a DST gap begin at the first valid local time.
+ */
+export function getStartOfLocalDay(date: string, timeZone: string): Date {
+  return getZonedInstant(date, "00:00", timeZone);
+}
+
+/**
+ * The instant a local wall-clock time ("HH:MM" or "HH:MM:SS") on the given
+ * date happens in the timezone
+ */
+export function getZonedInstant(date: string, time: string, timeZone: string): Date {
+  const [hour, minute, second = 0] = time.split(":").map(Number);
+  const wallUtc =
+    toDayKey(date).getTime() + ((hour * 60 + minute) * 60 + second) * 1000;
+  let instant = wallUtc - getOffsetMs(timeZone, new Date(wallUtc));
+
+  // The offset at the local time can differ from the one at the same UTC time
+  const offset = getOffsetMs(timeZone, new Date(instant));
+  instant = wallUtc - offset;
+  return new Date(instant);
+}
+
+/**
+ * UTC instants covering the local dates from startDate through endDate, for
+ * querying timestamp columns. `end` is exclusive.
+ */
+export function getDayRange(
+  startDate: string,
+  timeZone: string,
+  endDate: string = startDate
+): { start: Date; end: Date } {
+  return {
+    start: getStartOfLocalDay(startDate, timeZone),
+    end: getStartOfLocalDay(addDays(endDate, 1), timeZone),
+  };
+}
+
+function getOffsetMs(timeZone: string, instant: Date): number {
+  const { year, month, day, hour, minute, second } = getZonedParts(timeZone, instant);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+function getZonedParts(timeZone: string, instant: Date) {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== "literal") {
+      parts[part.type] = Number(part.value);
+    }
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    // Some runtimes format midnight as 24
+    hour: parts.hour % 24,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
@@ -0,0 +1,261 @@
+import {
+  ParsedServingSize,
+  ProductNutrition,
+  ProductQuantity,
+  QuantityUnit,
+  ResolvedQuantity,
+} from "../types/products";
+
+const WEIGHT_IN_GRAMS: Partial<Record<QuantityUnit, number>> = {
+  g: 1,
+  kg: 1000,
+  oz: 28.3495,
+  lb: 453.592,
+};
+
+const VOLUME_IN_ML: Partial<Record<QuantityUnit, number>> = {
+  ml: 1,
+  l: 1000,
+  fl_oz: 29.5735,
+};
+
+// Used only when the label does not say how much one of these weighs
+const STANDARD_HOUSEHOLD_ML: Partial<Record<QuantityUnit, number>> = {
+  tbsp: 15,
+  tsp: 5,
+  cup: 240,
+};
+
+const HOUSEHOLD_UNITS: QuantityUnit[] = ["tbsp", "tsp", "cup", "piece", "slice"];
+
+// Serving strings come from OpenFoodFacts in many languages and spellings
+const UNIT_ALIASES: Record<string, { unit: QuantityUnit; factor?: number }> = {
+  g: { unit: "g" },
+  gr: { unit: "g" },
+  grs: { unit: "g" },
+  gram: { unit: "g" },
+  grams: { unit: "g" },
+  gramm: { unit: "g" },
+  "גרם": { unit: "g" },
+  "ג": { unit: "g" },
+  "ג'": { unit: "g" },
+  kg: { unit: "kg" },
+  oz: { unit: "oz" },
+  ounce: { unit: "oz" },
+  ounces: { unit: "oz" },
+  lb: { unit: "lb" },
+  lbs: { unit: "lb" },
+  ml: { unit: "ml" },
+  millilitre: { unit: "ml" },
+  milliliter: { unit: "ml" },
+  milliliters: { unit: "ml" },
+  millilitres: { unit: "ml" },
+  'מ"ל': { unit: "ml" },
+  "מל": { unit: "ml" },
+  cl: { unit: "ml", factor: 10 },
+  dl: { unit: "ml", factor: 100 },
+  l: { unit: "l" },
+  litre: { unit: "l" },
+  liter: { unit: "l" },
+  "ליטר": { unit: "l" },
+  floz: { unit: "fl_oz" },
+  tbsp: { unit: "tbsp" },
+  tbs: { unit: "tbsp" },
+  tablespoon: { unit: "tbsp" },
+  tablespoons: { unit: "tbsp" },
+  "כף": { unit: "tbsp" },
+  "כפות": { unit: "tbsp" },
+  tsp: { unit: "tsp" },
+  teaspoon: { unit: "tsp" },
+  teaspoons: { unit: "tsp" },
+  "כפית": { unit: "tsp" },
+  "כפיות": { unit: "tsp" },
+  cup: { unit: "cup" },
+  cups: { unit: "cup" },
+  "כוס": { unit: "cup" },
+  "כוסות": { unit: "cup" },
+  slice: { unit: "slice" },
+  slices: { unit: "slice" },
+  "פרוסה": { unit: "slice" },
+  "פרוסות": { unit: "slice" },
+  piece: { unit: "piece" },
+  pieces: { unit: "piece" },
+  pc: { unit: "piece" },
+  pcs: { unit: "piece" },
+  unit: { unit: "piece" },
+  units: { unit: "piece" },
+  bar: { unit: "piece" },
+  bars: { unit: "piece" },
+  biscuit: { unit: "piece" },
+  biscuits: { unit: "piece" },
+  cookie: { unit: "piece" },
+  cookies: { unit: "piece" },
+  "יחידה": { unit: "piece" },
+  "יחידות": { unit: "piece" },
+};
+
+const UNIT_LABELS: Record<QuantityUnit, [string, string]> = {
+  g: ["g", "g"],
+  kg: ["kg", "kg"],
+  oz: ["oz", "oz"],
+  lb: ["lb", "lb"],
+  ml: ["ml", "ml"],
+  l: ["l", "l"],
+  fl_oz: ["fl oz", "fl oz"],
+  serving: ["serving", "servings"],
+  container: ["package", "packages"],
+  tbsp: ["tbsp", "tbsp"],
+  tsp: ["tsp", "tsp"],
+  cup: ["cup", "cups"],
+  piece: ["piece", "pieces"],
+  slice: ["slice", "slices"],
+};
+
+const QUANTITY_PATTERN =
+  /(\d+\s*\/\s*\d+|\d+(?:[.,]\d+)?)\s*(fl\.?\s*oz|[a-z\u0590-\u05FF]+['"]?[a-z\u0590-\u05FF]*)/gi;
+
+/**
+ * Parse a label serving string, e.g. "30 g (2 tbsp)", "1 cup (240 ml)",
+ * "2 biscuits = 25g" or "2 כפות (30 גרם)". Returns null when nothing usable is found.
+ */
+export function parseServingSize(
+  text: string | undefined | null
+): ParsedServingSize | null {
+  if (!text) {
+    return null;
+  }
+
+  const normalized = text.replace(/½/g, "0.5").replace(/¼/g, "0.25").replace(/¾/g, "0.75");
+  const parsed: ParsedServingSize = { text };
+
+  for (const match of normalized.matchAll(QUANTITY_PATTERN)) {
+    const amount = parseAmount(match[1]);
+    const alias = UNIT_ALIASES[match[2].toLowerCase().replace(/[.\s]/g, "").replace(/\u05F4/g, '"')];
+    if (!alias || !(amount > 0)) continue;
+
+    const value = amount * (alias.factor || 1);
+    const grams = WEIGHT_IN_GRAMS[alias.unit];
+    const milliliters = VOLUME_IN_ML[alias.unit];
+
+    if (grams !== undefined) {
+      parsed.grams ??= value * grams;
+    } else if (milliliters !== undefined) {
+      parsed.milliliters ??= value * milliliters;
+    } else if (HOUSEHOLD_UNITS.includes(alias.unit)) {
+      parsed.household ??= { amount: value, unit: alias.unit };
+    }
+  }
+
+  // Nothing measurable, e.g. "1 serving"
+  if (parsed.grams === undefined && parsed.milliliters === undefined && !parsed.household) {
+    return null;
+  }
+  return parsed;
+}
+
+/**
+ * Convert a logged quantity into the amount on the product's per-100 basis.
+ * Products whose serving is given only in ml are treated as labelled per 100ml;
+ * crossing between weight and volume assumes a density of 1 and is flagged as
+ * an estimate. Returns null when the unit cannot be resolved for this product.
+ */
+export function resolveProductQuantity(
+  product: { serving_size?: string; servings_per_container?: number },
+  quantity: ProductQuantity
+): ResolvedQuantity | null {
+  const { amount, unit } = quantity;
+  const serving = parseServingSize(product.serving_size);
+  const basis: ResolvedQuantity["basis"] =
+    serving && serving.grams === undefined && serving.milliliters !== undefined
+      ? "volume"
+      : "weight";
+
+  // Size of one label serving on the product's own basis
+  const servingExact = basis === "volume" ? serving?.milliliters : serving?.grams;
+  const servingBase = servingExact ?? serving?.milliliters;
+  const servingEstimated = servingExact === undefined;
+
+  let baseAmount: number | undefined;
+  let estimated = false;
+
+  if (WEIGHT_IN_GRAMS[unit] !== undefined) {
+    baseAmount = amount * WEIGHT_IN_GRAMS[unit]!;
+    estimated = basis === "volume";
+  } else if (VOLUME_IN_ML[unit] !== undefined) {
+    baseAmount = amount * VOLUME_IN_ML[unit]!;
+    estimated = basis === "weight";
+  } else if (unit === "serving") {
+    if (servingBase !== undefined) {
+      baseAmount = amount * servingBase;
+      estimated = servingEstimated;
+    }
+  } else if (unit === "container") {
+    if (servingBase !== undefined && product.servings_per_container) {
+      baseAmount = amount * product.servings_per_container * servingBase;
+      estimated = servingEstimated;
+    }
+  } else if (
+    serving?.household?.unit === unit &&
+    servingBase !== undefined
+  ) {
+    // The label says how much its own household measure weighs
+    baseAmount = amount * (servingBase / serving.household.amount);
+    estimated = servingEstimated;
+  } else if (STANDARD_HOUSEHOLD_ML[unit] !== undefined) {
+    baseAmount = amount * STANDARD_HOUSEHOLD_ML[unit]!;
+    estimated = true;
+  }
+
+  if (baseAmount === undefined || !(baseAmount > 0)) {
+    return null;
+  }
+
+  const baseLabel = `${estimated ? "~" : ""}${round(baseAmount, 0)} ${
+    basis === "volume" ? "ml" : "g"
+  }`;
+  const isBaseUnit = unit === (basis === "volume" ? "ml" : "g");
+  const [singular, plural] = UNIT_LABELS[unit];
+
+  return {
+    amount,
+    unit,
+    baseAmount: round(baseAmount, 1),
+    basis,
+    estimated,
+    description: isBaseUnit
+      ? baseLabel
+      : `${round(amount, 2)} ${amount === 1 ? singular : plural}, ${baseLabel}`,
+  };
+}
+
+/**
+ * Scale per-100g (or per-100ml) label values to the given amount
+ */
+export function scaleNutrition(
+  nutritionPer100: ProductNutrition,
+  baseAmount: number
+): ProductNutrition {
+  const factor = baseAmount / 100;
+  const scaled: Record<string, number> = {};
+
+  for (const [key, value] of Object.entries(nutritionPer100)) {
+    if (typeof value === "number" && !isNaN(value)) {
+      scaled[key] = key === "calories" ? Math.round(value * factor) : round(value * factor, 2);
+    }
+  }
+
+  return scaled as unknown as ProductNutrition;
+}
+
+function parseAmount(value: string): number {
+  if (value.includes("/")) {
+    const [numerator, denominator] = value.split("/").map((part) => Number(part.trim()));
+    return denominator ? numerator / denominator : NaN;
+  }
+  return Number(value.replace(",", "."));
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}